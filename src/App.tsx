@@ -1,86 +1,239 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
-
-// Mock backend data and interfaces
-const MOCK_HLS_MANIFEST = `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360
-stream_360p.m3u8
-#EXT-X-STREAM-INF:BANDWIDTH=1400000,RESOLUTION=854x480
-stream_480p.m3u8
-#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720
-stream_720p.m3u8
-#EXT-X-STREAM-INF:BANDWIDTH=5000000,RESOLUTION=1920x1080
-stream_1080p.m3u8`
-
-const MOCK_SEGMENT_PLAYLISTS = {
-  'stream_360p.m3u8': `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:10
-#EXTINF:10.0,
-segment_360p_001.ts
-#EXTINF:10.0,
-segment_360p_002.ts
-#EXTINF:10.0,
-segment_360p_003.ts
-#EXT-X-ENDLIST`,
-  'stream_480p.m3u8': `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:10
-#EXTINF:10.0,
-segment_480p_001.ts
-#EXTINF:10.0,
-segment_480p_002.ts
-#EXTINF:10.0,
-segment_480p_003.ts
-#EXT-X-ENDLIST`,
-  'stream_720p.m3u8': `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:10
-#EXTINF:10.0,
-segment_720p_001.ts
-#EXTINF:10.0,
-segment_720p_002.ts
-#EXTINF:10.0,
-segment_720p_003.ts
-#EXT-X-ENDLIST`,
-  'stream_1080p.m3u8': `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-TARGETDURATION:10
-#EXTINF:10.0,
-segment_1080p_001.ts
-#EXTINF:10.0,
-segment_1080p_002.ts
-#EXTINF:10.0,
-segment_1080p_003.ts
-#EXT-X-ENDLIST`
-}
+import React, { useState, useEffect, useRef, useCallback, useMemo, useImperativeHandle } from 'react'
+import type {
+  AudioTrack,
+  BufferHealth,
+  MediaRendition,
+  MediaPlaylist,
+  MediaSegment,
+  NetworkCondition,
+  PartialSegment,
+  QualityLevel,
+  SegmentKey,
+  SubtitleTrack
+} from './types'
+import {
+  formatQualityLabel,
+  getLowLatencyDetails,
+  isLivePlaylist,
+  parseAttributeList,
+  parseHLSManifest,
+  parseMasterPlaylist,
+  parseMediaPlaylist,
+  parseSegmentPlaylist
+} from './hlsParser'
+import { detectManifestFormat, loadManifest, reloadMediaPlaylist } from './manifest'
+import { fillTemplate, parseDashManifest, parseIsoDuration } from './dashParser'
+import type { ManifestFormat } from './manifest'
+import { createFetchLoader, resolveUrl } from './loader'
+import type { Loader, LoadProgress, LoadStats } from './loader'
+import {
+  MOCK_CLEARKEY_KEY_ID,
+  MOCK_DASH_MANIFEST,
+  MOCK_DASH_STREAM_URL,
+  MOCK_ENCRYPTED_STREAM_URL,
+  MOCK_HLS_MANIFEST,
+  MOCK_BEACON_URL,
+  MOCK_LICENSE_URL,
+  MOCK_PROTECTED_STREAM_URL,
+  MOCK_LL_STREAM_BASE,
+  MOCK_STREAM_BASE,
+  MOCK_STREAM_URL,
+  createMockLoader,
+  generateMockLivePlaylist,
+  generateMockLowLatencyPlaylist,
+  generateMockSubtitleSegment,
+  getMockBeacons,
+  getMockKey,
+  getMockSegmentTiming,
+  isMockUrl
+} from './mockStream'
+import {
+  getLiveEdgeStartIndex,
+  getLiveLatency,
+  getReloadDelay,
+  isPlaylistStale,
+  mergeLivePlaylist
+} from './livePlaylist'
+import type { LiveMergeResult, LivePlaylistState } from './livePlaylist'
+import {
+  LOW_LATENCY_LOAD_INTERVAL,
+  LOW_LATENCY_STARVATION_THRESHOLD,
+  LOW_LATENCY_TARGET_BUFFER,
+  buildBlockingReloadUrl,
+  getNextBlockingRequest,
+  getNextLoadTarget
+} from './lowLatency'
+import type { LoadTarget, LoadedParts } from './lowLatency'
+import {
+  ABR_STRATEGY_NAMES,
+  createAbrStrategy,
+  createBolaStrategy,
+  createDynamicStrategy,
+  createThroughputStrategy,
+  isDynamicBolaActive,
+  selectAbandonQuality,
+  selectBolaQuality,
+  selectOptimalQuality
+} from './abr'
+import type { AbrStrategyId } from './abr'
+import {
+  CACHE_HIT_TTFB_MS,
+  MIN_SAMPLE_BYTES,
+  createBandwidthEstimator,
+  toThroughputSample
+} from './bandwidthEstimator'
+import {
+  DEFAULT_NETWORK_SEED,
+  NETWORK_PROFILES,
+  createSeededRandom,
+  createTraceProfile,
+  getTracePointAt,
+  parseNetworkTrace,
+  simulateNetworkConditions
+} from './networkEmulation'
+import type { NetworkProfile, NetworkProfileId } from './networkEmulation'
+import { runAbrSimulation, runSimulationBatch } from './abrSimulator'
+import {
+  createMediaPipeline,
+  getAudioTrackBufferType,
+  getCodecType,
+  getContainerFormat,
+  getSourceBufferTypes,
+  hasSeparateAudio
+} from './mediaPipeline'
+import type { MediaPipeline, SourceBufferTypes, TrackType } from './mediaPipeline'
+import { createTransmuxer, normalizePts } from './transmuxer'
+import type { TransmuxResult, TransmuxedTrack } from './transmuxer'
+import { TS_CLOCK_RATE, demuxTs, parseAdts, parseSps, splitNalUnits } from './mpegTs'
+import { SYNTHETIC_PTS_OFFSET, createAdtsFrame, createSyntheticTsSegment } from './syntheticMedia'
+import { addEmulationPrevention, createBitReader, createBitWriter, removeEmulationPrevention } from './bitstream'
+import { findSegmentIndexAtTime, formatDuration, getSegmentStartTime, getTotalDuration } from './segmentTimeline'
+import { LARGE_SEEK_STEP, SEEK_STEP, getTimelinePercent, planSeek, toTimeRanges } from './seeking'
+import type { TimeRange } from './seeking'
+import {
+  DEFAULT_MAX_CONCURRENT_DOWNLOADS,
+  MIN_REQUEST_INTERVAL,
+  createDownloadScheduler,
+  getRequestDelay
+} from './downloadScheduler'
+import type { DownloadRequestOptions, DownloadResult, DownloadSchedulerOptions, DownloadTarget } from './downloadScheduler'
+import {
+  buildHlsAudioTracks,
+  estimateAudioBitrate,
+  formatAudioTrackLabel,
+  getCombinedBandwidth,
+  getRenditionCodec,
+  selectDefaultAudioTrack
+} from './audioTracks'
+import {
+  buildHlsSubtitleTracks,
+  createEmbeddedCaptionTrack,
+  createTextTrackRenderer,
+  formatSubtitleTrackLabel,
+  parseSubtitleSegment,
+  selectDefaultSubtitleTrack
+} from './subtitles'
+import type { TextTrackRenderer } from './subtitles'
+import { createCea608Decoder, parseSeiCaptionData } from './cea608'
+import type { CaptionCue } from './cea608'
+import { getWebVttTimeOffset, parseWebVtt } from './webvtt'
+import { extractTimedText, parseImsc, parseTtmlTime } from './imsc'
+import { parseXml } from './xml'
+import { createKeyLoader, createSegmentDecrypter, getSegmentIv } from './decryption'
+import type { KeyLoader, SegmentDecrypter } from './decryption'
+import {
+  createEmeController,
+  createLicenseTransport,
+  formatDrmEvent,
+  orderKeySystems,
+  unwrapPlayReadyMessage
+} from './eme'
+import type { DrmConfig, DrmEvent, EmeController, LicenseRequest } from './eme'
+import { createEventEmitter } from './eventEmitter'
+import type { PlayerEvents, PlayerHandle, PlayerStats } from './playerApi'
+import {
+  MAX_MEDIA_SOURCE_REBUILDS,
+  classifyManifestError,
+  createPlayerError,
+  formatPlayerError,
+  formatRecovery,
+  getHttpStatus,
+  isPlayerError,
+  selectRecovery,
+  toPlayerError
+} from './playerErrors'
+import type { PlayerError, PlayerErrorCategory, RecoveryAction, RecoveryContext } from './playerErrors'
+import { appendCmcdQuery, createCmcdData, serializeCmcd, toCmcdHeaders } from './cmcd'
+import type { CmcdConfig, CmcdRequestState } from './cmcd'
+import { createBeaconSender } from './beacon'
+import type { BeaconConfig, BeaconPayload } from './beacon'
+import { appendSample, createLinearScale, getNiceMax, getSwitchMarkers, toLinePath, toStepPath } from './charts'
+import type { ChartPoint, MetricSample } from './charts'
+import {
+  DEFAULT_PLAYER_CONFIG,
+  PLAYER_CONFIG_FIELDS,
+  formatPlayerConfig,
+  loadStoredPlayerConfig,
+  parsePlayerConfig,
+  storePlayerConfig,
+  validatePlayerConfig
+} from './playerConfig'
+import type { PlayerConfig } from './playerConfig'
+import { loadBandwidthHistory, saveBandwidthHistory, selectStartupQuality } from './startup'
+import {
+  EXCLUSION_REASON_LABELS,
+  checkDecodingSupport,
+  filterQualityLevels,
+  getBrowserDecoderCapabilities,
+  isQualityAllowed,
+  watchPowerState
+} from './capabilities'
+import type { PowerState } from './capabilities'
+import type { StartupBandwidthSource, StartupSelection } from './startup'
+import { createQoeTracker, formatQoeCsv, formatQoeJson, loadQoeHistory, saveQoeReport } from './qoe'
+import type { QoeReport, QoeTracker } from './qoe'
+import {
+  CLEARKEY,
+  FAIRPLAY,
+  KEY_SYSTEM_NAMES,
+  PLAYREADY,
+  WIDEVINE,
+  createKeyIdsInitData,
+  createPsshBox,
+  decodeBase64,
+  getHlsDrmInfo,
+  toHex
+} from './drm'
 
 type LogType = 'info' | 'warning' | 'error'
 
-interface QualityLevel {
-  id: string
-  bandwidth: number
-  resolution: string
-  url: string
-  segments: string[]
-}
-
-interface NetworkCondition {
-  bandwidth: number
-  latency: number
-  packetLoss: number
-}
-
-interface BufferHealth {
-  currentBuffer: number
-  targetBuffer: number
-  isStarving: boolean
+interface AdaptiveBitratePlayerProps {
+  /** Master playlist URL; defaults to the built-in demo stream */
+  src?: string
+  /** Custom loader; defaults to the mock loader for mock:// URLs and fetch otherwise */
+  loader?: Loader
+  /** Segment downloads kept in flight at once; low-latency part loading always runs one at a time */
+  maxConcurrentDownloads?: number
+  /** Fetches AES-128 / SAMPLE-AES keys, e.g. with auth headers or from a key service; defaults to the loader */
+  keyLoader?: KeyLoader
+  /** License servers and request hooks for DRM-protected streams; read when a stream starts */
+  drm?: DrmConfig
+  /** Attaches Common Media Client Data to segment requests; off when omitted */
+  cmcd?: CmcdConfig
+  /** Posts periodic QoE reports to an analytics endpoint; read when a stream starts */
+  beacon?: BeaconConfig
+  /** ABR, buffer and polling parameters, read on mount; settings saved from the settings panel take precedence */
+  config?: Partial<PlayerConfig>
+  /** Measures the connection with a first segment of the lowest variant when no recent bandwidth estimate is stored */
+  startupProbe?: boolean
+  /** Receives the imperative player API: loading, playback control and event subscriptions */
+  ref?: React.Ref<PlayerHandle>
 }
 
 interface PlayerMetrics {
   currentQuality: number
   avgBandwidth: number
-  droppedFrames: number
+  failedLoads: number
   switchCount: number
   bufferEvents: BufferEvent[]
 }
@@ -92,6 +245,48 @@ interface LogEntry {
   type: LogType
 }
 
+interface SegmentLoadOptions {
+  retries?: number
+  signal?: AbortSignal
+  headers?: Record<string, string>
+  onProgress?: (progress: LoadProgress) => void
+  /** Turns the downloaded bytes into clear media; runs inside the retry loop so a failed key request is retried too */
+  decrypt?: (data: ArrayBuffer) => Promise<ArrayBuffer>
+}
+
+// A segment or LL-HLS part handed to the download scheduler, with what is needed to append it once delivered
+interface ScheduledLoad extends DownloadTarget {
+  target: Exclude<LoadTarget, { kind: 'loaded' }>
+  media: MediaSegment | PartialSegment
+  /** Segment whose EXT-X-MAP and discontinuity the media belongs to; parts share their parent's */
+  owner: MediaSegment | undefined
+  level: QualityLevel
+  generation: number
+}
+
+// A segment of the selected demuxed audio track, loaded by its own scheduler into the audio SourceBuffer
+interface AudioLoad extends DownloadTarget {
+  segment: MediaSegment
+  track: AudioTrack
+  generation: number
+}
+
+// A segment of the selected WebVTT or IMSC track; subtitles are tiny, so they are loaded one at a time
+interface SubtitleLoad extends DownloadTarget {
+  segment: MediaSegment
+  track: SubtitleTrack
+  generation: number
+}
+
+type CaptionBackground = 'opaque' | 'translucent' | 'none'
+
+// Caption appearance picked in the styling panel, applied to every text track through ::cue
+interface CaptionStyle {
+  /** Percent of the browser's default cue size */
+  fontSize: number
+  background: CaptionBackground
+}
+
 interface BufferEvent {
   id: string
   timestamp: string
@@ -99,172 +294,107 @@ interface BufferEvent {
   message: string
 }
 
-/**
- * Simulates network conditions with realistic variations
- * @intuition Network conditions in streaming environments fluctuate constantly, requiring simulation for testing ABR logic
- * @approach Generate bandwidth values with realistic noise and occasional drops to simulate poor connectivity
- * @complexity O(1) time, O(1) space - simple random generation with constraints
- */
-const simulateNetworkConditions = (): NetworkCondition => {
-  const baseConditions = [
-    { bandwidth: 500000, latency: 200, packetLoss: 0.05 },    // Poor
-    { bandwidth: 1500000, latency: 100, packetLoss: 0.02 },   // Fair
-    { bandwidth: 3000000, latency: 50, packetLoss: 0.01 },    // Good
-    { bandwidth: 8000000, latency: 20, packetLoss: 0.005 }    // Excellent
-  ]
-  
-  const condition = baseConditions[Math.floor(Math.random() * baseConditions.length)]
-  const variance = 0.3 + (Math.random() * 0.4) // 30-70% variance
-  
+// Parts are encrypted under their parent segment's sequence number
+const getLoadSequenceNumber = (load: ScheduledLoad): number =>
+  load.target.kind === 'segment' ? load.target.segment.sequenceNumber : load.target.sequenceNumber
+
+// LL-HLS parts are re-based onto the merged timeline like the segments they belong to
+const applyLiveReload = (level: QualityLevel, merged: LiveMergeResult, playlist: MediaPlaylist): QualityLevel => {
+  const lowLatency = getLowLatencyDetails(playlist)
   return {
-    bandwidth: Math.floor(condition.bandwidth * variance),
-    latency: condition.latency + (Math.random() * 50),
-    packetLoss: condition.packetLoss * (0.5 + Math.random())
+    ...level,
+    segments: merged.segments,
+    targetDuration: playlist.targetDuration,
+    live: isLivePlaylist(playlist),
+    lowLatency: lowLatency && {
+      ...lowLatency,
+      pendingParts: lowLatency.pendingParts.map(part => ({ ...part, start: part.start + merged.offset }))
+    }
   }
 }
 
-/**
- * Parses HLS manifest to extract quality levels and segment information
- * @intuition HLS manifests contain structured data about available quality levels that must be parsed for ABR decisions
- * @approach Use RegExp.exec() for better performance, parse line-by-line to extract bandwidth/resolution from EXT-X-STREAM-INF tags
- * @complexity O(n) time where n is manifest lines, O(k) space where k is number of quality levels
- */
-const parseHLSManifest = async (manifestContent: string): Promise<QualityLevel[]> => {
-  const lines = manifestContent.split('\n').filter(line => line.trim())
-  const qualityLevels: QualityLevel[] = []
-  
-  // Pre-compile RegExp patterns for better performance
-  const bandwidthRegex = /BANDWIDTH=(\d+)/
-  const resolutionRegex = /RESOLUTION=(\d+x\d+)/
-  
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].startsWith('#EXT-X-STREAM-INF:')) {
-      const bandwidthMatch = bandwidthRegex.exec(lines[i])
-      const resolutionMatch = resolutionRegex.exec(lines[i])
-      
-      if (bandwidthMatch && resolutionMatch && i + 1 < lines.length) {
-        const playlistUrl = lines[i + 1]
-        const segments = await parseSegmentPlaylist(playlistUrl)
-        
-        qualityLevels.push({
-          id: `quality_${bandwidthMatch[1]}_${resolutionMatch[1]}`, // Unique stable ID
-          bandwidth: parseInt(bandwidthMatch[1]),
-          resolution: resolutionMatch[1],
-          url: playlistUrl,
-          segments
-        })
-      }
-    }
-  }
-  
-  return qualityLevels.sort((a, b) => a.bandwidth - b.bandwidth)
+// Segment boundaries computed in different variants can differ by rounding; looking up just past one avoids landing on
+// the segment that ends there
+const SEGMENT_TIME_EPSILON = 0.001
+
+// How close to a skipped segment the playhead has to run dry before it is moved past the hole
+const GAP_JUMP_TOLERANCE = 0.25
+
+// How the startup variant was chosen, as shown in the status card
+const STARTUP_SOURCE_LABELS: Record<StartupBandwidthSource, string> = {
+  history: 'last session',
+  probe: 'probe',
+  none: 'lowest'
 }
 
-/**
- * Parses individual segment playlist to extract segment URLs
- * @intuition Each quality level has its own playlist containing actual video segments that need to be loaded
- * @approach Parse EXTINF entries and extract corresponding segment URLs, handling potential missing segments
- * @complexity O(m) time where m is segment count, O(m) space for segment array
- */
-const parseSegmentPlaylist = async (playlistUrl: string): Promise<string[]> => {
-  const content = MOCK_SEGMENT_PLAYLISTS[playlistUrl as keyof typeof MOCK_SEGMENT_PLAYLISTS]
-  if (!content) throw new Error(`Playlist not found: ${playlistUrl}`)
-  
-  const lines = content.split('\n').filter(line => line.trim())
-  const segments: string[] = []
-  
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].startsWith('#EXTINF:') && i + 1 < lines.length) {
-      segments.push(lines[i + 1])
-    }
+// The charts show the last two minutes, sampled once a second
+const CHART_WINDOW = 120
+const CHART_SAMPLE_INTERVAL = 1000
+
+// Milliseconds between QoE snapshots shown in the panel and saved to the session history
+const QOE_SNAPSHOT_INTERVAL = 2000
+
+// Storage is missing outside the browser and may be blocked inside it
+const getLocalStorage = (): Storage | undefined => {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage
+  } catch {
+    return undefined
   }
-  
-  return segments
 }
 
-/**
- * Implements adaptive bitrate selection algorithm based on network conditions and buffer health
- * @intuition ABR algorithms must balance quality with playback stability, switching up aggressively but down conservatively
- * @approach Use buffer-based switching with bandwidth estimation, implement hysteresis to prevent oscillation
- * @complexity O(k) time where k is quality levels, O(1) space for calculations
- */
-const selectOptimalQuality = (
-  qualityLevels: QualityLevel[],
-  networkCondition: NetworkCondition,
-  bufferHealth: BufferHealth,
-  currentQuality: number
-): number => {
-  if (!qualityLevels.length) return 0
-  
-  // Ensure currentQuality is within bounds
-  const safeCurrentQuality = Math.max(0, Math.min(currentQuality, qualityLevels.length - 1))
-  
-  const availableBandwidth = networkCondition.bandwidth * (1 - networkCondition.packetLoss)
-  const bufferRatio = bufferHealth.currentBuffer / bufferHealth.targetBuffer
-  
-  // Emergency downswitch if buffer is starving
-  if (bufferHealth.isStarving && safeCurrentQuality > 0) {
-    return Math.max(0, safeCurrentQuality - 1)
-  }
-  
-  // Conservative switching with hysteresis
-  const switchUpThreshold = 1.4 // Need 40% more bandwidth to switch up
-  const switchDownThreshold = 0.8 // Switch down if bandwidth drops below 80%
-  
-  for (let i = qualityLevels.length - 1; i >= 0; i--) {
-    const requiredBandwidth = qualityLevels[i].bandwidth
-    const canSustain = availableBandwidth > requiredBandwidth * switchDownThreshold
-    const canUpgrade = availableBandwidth > requiredBandwidth * switchUpThreshold
-    
-    if (i === safeCurrentQuality && canSustain) {
-      return i // Stay at current quality if sustainable
-    }
-    
-    if (i > safeCurrentQuality && canUpgrade && bufferRatio > 1.2) {
-      return i // Upgrade if buffer is healthy
-    }
-    
-    if (i < safeCurrentQuality && canSustain) {
-      return i // Find highest sustainable quality below current
-    }
-  }
-  
-  return 0 // Fallback to lowest quality
+const formatMbps = (bitsPerSecond: number): string => `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`
+
+// Offers text as a file download
+const downloadTextFile = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = name
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const CAPTION_FONT_SIZES = [75, 100, 150, 200]
+const CAPTION_BACKGROUNDS: Record<CaptionBackground, { label: string; color: string }> = {
+  opaque: { label: 'Solid', color: 'rgba(0, 0, 0, 1)' },
+  translucent: { label: 'Translucent', color: 'rgba(0, 0, 0, 0.6)' },
+  none: { label: 'None', color: 'transparent' }
 }
 
 /**
- * Simulates segment loading with realistic network delays and failures
+ * Loads a media segment through the active loader with retries and exponential backoff
  * @intuition Real-world segment loading involves network latency, potential failures, and retry mechanisms
- * @approach Use Promise with setTimeout to simulate network delay, implement proper error handling with specific error types
- * @complexity O(1) time for simulation setup, actual load time varies with simulated network conditions
+ * @approach Delegate the request to the loader (fetch or mock), retrying failed attempts with exponential backoff and returning a structured result
+ * @complexity O(1) time for request setup, actual load time varies with network conditions
  */
 const loadSegment = async (
-  segmentUrl: string,
-  networkCondition: NetworkCondition,
-  retries = 3
-): Promise<{ success: boolean; data?: Blob; error?: string }> => {
+  segment: Pick<MediaSegment, 'uri' | 'byteRange'>,
+  loader: Loader,
+  { retries = 3, signal, headers, onProgress, decrypt }: SegmentLoadOptions = {}
+): Promise<{ success: boolean; data?: ArrayBuffer; stats?: LoadStats; error?: PlayerError }> => {
   for (let attempt = 0; attempt < retries; attempt++) {
+    // Failures after the download are the key's, not the network's
+    let category: PlayerErrorCategory = 'network'
     try {
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, networkCondition.latency + Math.random() * 100))
-      
-      // Simulate occasional failures (5% chance)
-      if (Math.random() < 0.05) {
-        throw new Error(`Network error loading ${segmentUrl}`)
-      }
-      
-      // Mock successful segment load
-      const mockData = new Blob([`video_segment_${segmentUrl}`], { type: 'video/mp2t' })
-      return { success: true, data: mockData }
+      const response = await loader.loadBinary(segment.uri, { byteRange: segment.byteRange, signal, headers, onProgress })
+      category = 'key'
+      const data = decrypt ? await decrypt(response.data) : response.data
+      return { success: true, data, stats: response.stats }
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
       
-      if (attempt === retries - 1) {
+      // An aborted request (e.g. superseded by a seek) must not be retried
+      if (attempt === retries - 1 || signal?.aborted) {
         // Final attempt failed - return structured error
-        return { 
-          success: false, 
-          error: `Failed to load ${segmentUrl} after ${retries} attempts: ${errorMessage}` 
+        return {
+          success: false,
+          error: createPlayerError(category, `Failed to load ${segment.uri} after ${attempt + 1} attempts: ${errorMessage}`, {
+            url: segment.uri,
+            status: getHttpStatus(error),
+            attempts: attempt + 1
+          })
         }
       }
       
@@ -276,9 +406,26 @@ const loadSegment = async (
     }
   }
   
-  return { success: false, error: 'Unexpected error in retry loop' }
+  return { success: false, error: createPlayerError('network', 'Unexpected error in retry loop', { url: segment.uri }) }
 }
 
+/**
+ * Builds the decryption step for a segment download
+ * @intuition AES-128 encrypts whole files, so they can be decrypted as soon as they arrive; SAMPLE-AES keeps the
+ * container clear and is decrypted while transmuxing instead
+ * @approach Return a decrypt callback for AES-128 keys only; the sequence number supplies the IV when the key has none
+ * @complexity O(1) time and space
+ */
+const getSegmentDecryption = (
+  decrypter: SegmentDecrypter,
+  key: SegmentKey | undefined,
+  sequenceNumber: number
+): SegmentLoadOptions['decrypt'] =>
+  key?.method === 'AES-128' ? data => decrypter.decryptSegment(data, key, sequenceNumber) : undefined
+
+// SAMPLE-AES under a DRM key format (FairPlay) is left to the CDM; only identity keys are decrypted by the player
+const decryptsSamples = (key?: SegmentKey): key is SegmentKey => key?.method === 'SAMPLE-AES' && key.keyFormat === 'identity'
+
 // Enhanced Styles
 const styles = {
   container: {
@@ -358,6 +505,10 @@ const styles = {
   primaryButtonHover: {
     backgroundColor: '#2563eb'
   },
+  secondaryButton: {
+    backgroundColor: '#e2e8f0',
+    color: '#1a202c'
+  },
   disabledButton: {
     backgroundColor: '#9ca3af',
     color: '#ffffff',
@@ -374,6 +525,21 @@ const styles = {
     transition: 'border-color 0.2s ease',
     minWidth: '200px'
   },
+  inlineLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '14px',
+    fontWeight: '500',
+    color: '#4a5568'
+  },
+  numberInput: {
+    padding: '10px 12px',
+    borderRadius: '8px',
+    border: '2px solid #e2e8f0',
+    fontSize: '14px',
+    width: '90px'
+  },
   metricsGrid: {
     display: 'grid',
     gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))',
@@ -433,29 +599,209 @@ const styles = {
     marginBottom: '4px',
     padding: '2px 0'
   },
-  progressBar: {
+  timeline: {
+    position: 'relative' as const,
     width: '100%',
-    height: '6px',
+    height: '10px',
     backgroundColor: '#e5e7eb',
-    borderRadius: '3px',
-    overflow: 'hidden',
-    marginBottom: '8px'
+    borderRadius: '5px',
+    cursor: 'pointer',
+    touchAction: 'none' as const,
+    marginBottom: '6px'
+  },
+  timelineBuffered: {
+    position: 'absolute' as const,
+    top: 0,
+    bottom: 0,
+    backgroundColor: '#bfdbfe',
+    borderRadius: '5px'
   },
-  progressFill: {
-    height: '100%',
+  timelineLoading: {
+    position: 'absolute' as const,
+    top: 0,
+    bottom: 0,
+    backgroundColor: '#fcd34d',
+    borderRadius: '5px'
+  },
+  timelinePlayed: {
+    position: 'absolute' as const,
+    top: 0,
+    bottom: 0,
+    left: 0,
     backgroundColor: '#3b82f6',
-    transition: 'width 0.3s ease',
-    borderRadius: '3px'
+    borderRadius: '5px'
+  },
+  timelineThumb: {
+    position: 'absolute' as const,
+    top: '50%',
+    width: '14px',
+    height: '14px',
+    borderRadius: '50%',
+    backgroundColor: '#1d4ed8',
+    transform: 'translate(-50%, -50%)',
+    pointerEvents: 'none' as const
+  },
+  timelineLabels: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    fontSize: '12px',
+    color: '#6b7280',
+    marginBottom: '8px'
+  },
+  chartGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))',
+    gap: '24px'
+  },
+  chartLegend: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: '12px',
+    fontSize: '12px',
+    color: '#6b7280',
+    marginBottom: '4px'
+  },
+  settingsGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))',
+    gap: '12px 24px',
+    marginBottom: '16px'
+  },
+  settingsError: {
+    fontSize: '13px',
+    color: '#ef4444',
+    marginBottom: '8px'
   }
 }
 
+interface ChartSeries {
+  label: string
+  color: string
+  /** One point per sample in data units; null leaves a gap */
+  values: (number | null)[]
+  step?: boolean
+  dashed?: boolean
+}
+
+interface TimeSeriesChartProps {
+  title: string
+  times: number[]
+  series: ChartSeries[]
+  /** Horizontal reference lines such as the starvation threshold */
+  thresholds?: { label: string; value: number; color: string }[]
+  markers?: { time: number; value: number; color: string; label: string }[]
+  formatValue: (value: number) => string
+}
+
+// SVG user units; the chart scales to the card's width
+const CHART_WIDTH = 480
+const CHART_HEIGHT = 160
+const CHART_MARGIN = { top: 8, right: 8, bottom: 20, left: 52 }
+
+/**
+ * Plots time series sharing a time axis as an SVG line chart
+ * @intuition Tuning ABR is about cause and effect over time, which a single latest value cannot show
+ * @approach Scale time to the width and values to a rounded maximum, draw gridlines, reference lines, one path per series
+ * (stepped where a value holds until it changes) and markers on top
+ * @complexity O(s * n) time and space for s series of n samples
+ */
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ title, times, series, thresholds = [], markers = [], formatValue }) => {
+  const end = times[times.length - 1] ?? 0
+  const x = createLinearScale([Math.max(0, end - CHART_WINDOW), Math.max(end, 1)], [CHART_MARGIN.left, CHART_WIDTH - CHART_MARGIN.right])
+  const values = [...series.flatMap(line => line.values), ...thresholds.map(line => line.value)]
+  const max = getNiceMax(Math.max(0, ...values.filter((value): value is number => value !== null)))
+  const y = createLinearScale([0, max], [CHART_HEIGHT - CHART_MARGIN.bottom, CHART_MARGIN.top])
+  const gridValues = [0, max / 2, max]
+  
+  return (
+    <figure style={{ margin: 0 }}>
+      <figcaption style={styles.metricTitle}>{title}</figcaption>
+      <div style={styles.chartLegend}>
+        {[...series, ...thresholds].map(line => (
+          <span key={line.label} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <span style={{ width: '12px', height: '3px', backgroundColor: line.color }} />
+            {line.label}
+          </span>
+        ))}
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label={title} style={{ width: '100%', height: 'auto' }}>
+        {gridValues.map(value => (
+          <g key={value}>
+            <line x1={CHART_MARGIN.left} x2={CHART_WIDTH - CHART_MARGIN.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+            <text x={CHART_MARGIN.left - 6} y={y(value) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{formatValue(value)}</text>
+          </g>
+        ))}
+        <text x={CHART_MARGIN.left} y={CHART_HEIGHT - 4} fontSize="10" fill="#6b7280">{formatDuration(Math.max(0, end - CHART_WINDOW))}</text>
+        <text x={CHART_WIDTH - CHART_MARGIN.right} y={CHART_HEIGHT - 4} textAnchor="end" fontSize="10" fill="#6b7280">{formatDuration(end)}</text>
+        {thresholds.map(line => (
+          <line
+            key={line.label}
+            x1={CHART_MARGIN.left}
+            x2={CHART_WIDTH - CHART_MARGIN.right}
+            y1={y(line.value)}
+            y2={y(line.value)}
+            stroke={line.color}
+            strokeDasharray="4 3"
+          />
+        ))}
+        {series.map(line => {
+          const points = line.values.map((value, index) => (value === null ? null : { x: x(times[index]), y: y(value) }))
+          const path = line.step
+            ? toStepPath(points.filter((point): point is ChartPoint => point !== null))
+            : toLinePath(points)
+          return (
+            <path
+              key={line.label}
+              d={path}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2}
+              strokeDasharray={line.dashed ? '6 4' : undefined}
+            />
+          )
+        })}
+        {markers.map(marker => (
+          <circle key={`${marker.time}-${marker.label}`} cx={x(marker.time)} cy={y(marker.value)} r={4} fill={marker.color}>
+            <title>{marker.label}</title>
+          </circle>
+        ))}
+      </svg>
+    </figure>
+  )
+}
+
 /**
  * Main adaptive bitrate video player component
  * @intuition Modern streaming requires intelligent quality adaptation, comprehensive logging, and robust error handling
  * @approach Implement state-driven player with network monitoring, buffer management, and quality switching logic
  * @complexity O(n*m) space where n is segments and m is quality levels, O(k) time per quality decision where k is levels
  */
-const AdaptiveBitratePlayer: React.FC = () => {
+const AdaptiveBitratePlayer: React.FC<AdaptiveBitratePlayerProps> = ({
+  src = MOCK_STREAM_URL,
+  loader: customLoader,
+  maxConcurrentDownloads = DEFAULT_MAX_CONCURRENT_DOWNLOADS,
+  keyLoader,
+  drm,
+  cmcd,
+  beacon,
+  config,
+  startupProbe = false,
+  ref
+}) => {
+  // load() can replace the stream the src prop named, until the prop itself changes; null after destroy()
+  const [source, setSource] = useState<string | null>(src)
+  const [sourceProp, setSourceProp] = useState<string>(src)
+  if (src !== sourceProp) {
+    setSourceProp(src)
+    setSource(src)
+  }
+  // The prop's settings (defaults where missing or invalid) are what Reset returns to; saved edits apply on top of them
+  const [baseConfig] = useState(() => validatePlayerConfig(config ?? {}))
+  const [playerConfig, setPlayerConfig] = useState<PlayerConfig>(
+    () => validatePlayerConfig(loadStoredPlayerConfig(getLocalStorage()), baseConfig.config).config
+  )
+  const [configErrors, setConfigErrors] = useState<string[]>(baseConfig.errors)
+  const [configRevision, setConfigRevision] = useState<number>(0) // Bumped when settings change other than by typing
   const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([])
   const [currentQuality, setCurrentQuality] = useState<number>(0)
   const [isPlaying, setIsPlaying] = useState<boolean>(false)
@@ -466,27 +812,167 @@ const AdaptiveBitratePlayer: React.FC = () => {
   })
   const [bufferHealth, setBufferHealth] = useState<BufferHealth>({ 
     currentBuffer: 0, 
-    targetBuffer: 30, 
+    targetBuffer: playerConfig.targetBuffer, 
     isStarving: false 
   })
   const [metrics, setMetrics] = useState<PlayerMetrics>({ 
     currentQuality: 0, 
     avgBandwidth: 0, 
-    droppedFrames: 0, 
+    failedLoads: 0, 
     switchCount: 0, 
     bufferEvents: [] 
   })
   const [logs, setLogs] = useState<LogEntry[]>([])
+  // Snapshot of the running QoE session, and the sessions kept across reloads (including the running one once it started)
+  const [qoeReport, setQoeReport] = useState<QoeReport | null>(null)
+  const [qoeHistory, setQoeHistory] = useState<QoeReport[]>(() => loadQoeHistory(getLocalStorage()))
+  const [metricHistory, setMetricHistory] = useState<MetricSample[]>([])
+  const [startupSelection, setStartupSelection] = useState<StartupSelection | null>(null)
+  const [startingUp, setStartingUp] = useState<boolean>(true) // Until the startup buffer is first filled
+  // What the device can show and decode limits the variants ABR chooses from
+  const [decodable, setDecodable] = useState<boolean[]>([])
+  const [playerSize, setPlayerSize] = useState<{ width: number; height: number } | null>(null) // In device pixels
+  const [powerState, setPowerState] = useState<PowerState>({ hidden: false, batterySaver: false })
   const [manualQualityOverride, setManualQualityOverride] = useState<number | null>(null)
   const [currentSegmentIndex, setCurrentSegmentIndex] = useState<number>(0)
   const [loading, setLoading] = useState<boolean>(false)
+  const [lowLatencyMode, setLowLatencyMode] = useState<boolean>(false)
+  const [manifestFormat, setManifestFormat] = useState<ManifestFormat>('hls')
+  const [renditions, setRenditions] = useState<MediaRendition[]>([])
+  const [abrStrategyId, setAbrStrategyId] = useState<AbrStrategyId>('hysteresis')
+  const [refreshingVariantId, setRefreshingVariantId] = useState<string | null>(null)
+  const [dynamicBolaActive, setDynamicBolaActive] = useState<boolean>(false)
+  const [estimatedBandwidth, setEstimatedBandwidth] = useState<number | null>(null)
+  const [networkProfileId, setNetworkProfileId] = useState<NetworkProfileId | 'trace'>('tiers')
+  const [uploadedTraceProfile, setUploadedTraceProfile] = useState<NetworkProfile | null>(null)
+  const [networkSeed, setNetworkSeed] = useState<number>(DEFAULT_NETWORK_SEED)
+  const [playbackPosition, setPlaybackPosition] = useState<number>(0)
+  const [bufferedRanges, setBufferedRanges] = useState<TimeRange[]>([])
+  const [pendingDownloads, setPendingDownloads] = useState<ScheduledLoad[]>([])
+  const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([])
+  const [audioTrackId, setAudioTrackId] = useState<string | null>(null)
+  const [pendingAudioDownloads, setPendingAudioDownloads] = useState<AudioLoad[]>([])
+  const [subtitleTracks, setSubtitleTracks] = useState<SubtitleTrack[]>([])
+  const [subtitleTrackId, setSubtitleTrackId] = useState<string | null>(null)
+  const [pendingSubtitleDownloads, setPendingSubtitleDownloads] = useState<SubtitleLoad[]>([])
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>({ fontSize: 100, background: 'translucent' })
+  const [scrubTime, setScrubTime] = useState<number | null>(null) // Pointer position while dragging the timeline
   
   const videoRef = useRef<HTMLVideoElement>(null)
   const mediaSourceRef = useRef<MediaSource | null>(null)
-  const sourceBufferRef = useRef<SourceBuffer | null>(null)
+  const pipelineRef = useRef<MediaPipeline | null>(null)
+  const initSegmentKeyRef = useRef<string | null>(null) // Init segment currently in the SourceBuffer
+  const transmuxDiscontinuityRef = useRef<number>(0) // Discontinuity sequence the transmuxer's timeline is anchored in
+  const seekGenerationRef = useRef<number>(0) // Bumped on every seek so loads started before it are discarded
   const networkMonitorRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const bufferMonitorRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const loadedUntilRef = useRef<number>(0) // Presentation time covered by appended segments
+  const audioLoadedUntilRef = useRef<number>(0) // Same for the demuxed audio track
+  const audioInitKeyRef = useRef<string | null>(null) // Init segment currently in the audio SourceBuffer
+  const audioTransmuxDiscontinuityRef = useRef<number>(0)
+  const audioGenerationRef = useRef<number>(0) // Bumped on seeks and track switches so stale audio loads are discarded
+  const subtitleLoadedUntilRef = useRef<number>(0) // Presentation time covered by parsed subtitle segments
+  const subtitleGenerationRef = useRef<number>(0)
+  const textTracksRef = useRef<TextTrackRenderer | null>(null) // Created on first use, once the video element exists
+  const playbackStartRef = useRef<number>(0) // Presentation time loading started from (live edge for live streams)
+  const liveStateRef = useRef<Map<string, LivePlaylistState>>(new Map())
+  const endOfStreamLoggedRef = useRef<boolean>(false)
+  const stallReportedRef = useRef<boolean>(false) // A bufferstall event was sent for the current starvation
+  const bufferFilledRef = useRef<boolean>(false) // The buffer has reached the starvation threshold since the stream started
+  const playRequestedAtRef = useRef<number | null>(null) // When play was first requested for the current stream
+  const awaitingStartupRef = useRef<boolean>(false) // Play was requested but waits for the startup buffer
+  const firstFrameRef = useRef<boolean>(false) // The current stream has rendered its first frame
+  // Bytes of the startup probe, kept for the first request of the same segment
+  const probeResultRef = useRef<{ segment: MediaSegment; data: ArrayBuffer; stats: LoadStats } | null>(null)
+  const qoeTrackerRef = useRef<QoeTracker | null>(null) // QoE session of the current stream
+  const objectUrlRef = useRef<string | null>(null) // Object URL of the attached MediaSource
+  const mediaSourceRebuildsRef = useRef<number>(0)
+  // Media (by variant and start time) that keeps failing, and how many redundant streams were tried for it
+  const mediaFailureRef = useRef<{ quality: number; start: number; failovers: number } | null>(null)
+  const skippedRangesRef = useRef<TimeRange[]>([]) // Media given up on; playback jumps over these holes
+  const recoveringRef = useRef<boolean>(false) // A redundant-stream failover is reloading the playlist; loading waits for it
+  const stoppedRef = useRef<boolean>(false) // A fatal error ended the stream; nothing loads until the next stream starts
+  // Decode errors arrive from listeners set up once per stream, so they forward to the latest recovery handler
+  const mediaErrorHandlerRef = useRef<(error: PlayerError) => void>(() => {})
+  const loadedPartsRef = useRef<LoadedParts | null>(null) // Parts already fetched of a segment still being produced
+  const networkConditionRef = useRef<NetworkCondition>(networkCondition)
+  networkConditionRef.current = networkCondition
+  const segmentIndexRef = useRef<number>(currentSegmentIndex)
+  segmentIndexRef.current = currentSegmentIndex
+  // Seeded source for the mock loader's latency jitter and failures, restarted with the network emulation
+  const loaderRandomRef = useRef<() => number>(createSeededRandom(DEFAULT_NETWORK_SEED))
+  // Read when a stream starts, so an inline config object does not restart the stream on every render
+  const drmConfigRef = useRef<DrmConfig | undefined>(drm)
+  drmConfigRef.current = drm
+  const cmcdConfigRef = useRef<CmcdConfig | undefined>(cmcd)
+  cmcdConfigRef.current = cmcd
+  const beaconConfigRef = useRef<BeaconConfig | undefined>(beacon)
+  beaconConfigRef.current = beacon
+  const startupProbeRef = useRef<boolean>(startupProbe)
+  startupProbeRef.current = startupProbe
+  
+  const loader = useMemo<Loader>(() => {
+    if (customLoader) return customLoader
+    return isMockUrl(source ?? '')
+      ? createMockLoader(() => networkConditionRef.current, () => loaderRandomRef.current())
+      : createFetchLoader()
+  }, [source, customLoader])
+  
+  // Keys are cached per URI for as long as the stream and key loader stay the same
+  const decrypter = useMemo(() => createSegmentDecrypter(keyLoader ?? createKeyLoader(loader)), [loader, keyLoader])
+  
+  // Only the mock loader paces transfers by the simulated network; real loaders are measured instead
+  const simulatedNetwork = !customLoader && isMockUrl(source ?? '')
   
+  // Throughput history belongs to one stream, so the init effect resets it whenever the source changes
+  const bandwidthEstimator = useMemo(() => createBandwidthEstimator(), [])
+  const transmuxer = useMemo(() => createTransmuxer(), [])
+  // Demuxed audio arrives in its own TS segments with their own timestamps, so it needs its own transmuxer
+  const audioTransmuxer = useMemo(() => createTransmuxer(), [])
+  // Caption state (pop-on memories, roll-up rows) carries across segments, so one decoder follows the video stream
+  const captionDecoder = useMemo(() => createCea608Decoder(), [])
+  
+  // The scheduler outlives renders while downloads are in flight, so its callbacks forward to the latest handlers
+  const downloadHandlersRef = useRef<Omit<DownloadSchedulerOptions<ScheduledLoad>, 'maxConcurrent' | 'onChange'> | null>(null)
+  const scheduler = useMemo(() => createDownloadScheduler<ScheduledLoad>({
+    download: (load, options) =>
+      downloadHandlersRef.current?.download(load, options) ?? Promise.reject(new Error('Player is not ready')),
+    checkAbandon: (load, progress) => downloadHandlersRef.current?.checkAbandon?.(load, progress) ?? null,
+    onDeliver: (load, result) => downloadHandlersRef.current?.onDeliver(load, result) ?? Promise.resolve(true),
+    onFailure: (load, error) => downloadHandlersRef.current?.onFailure?.(load, error),
+    onAbandon: (load, replacement, progress) => downloadHandlersRef.current?.onAbandon?.(load, replacement, progress),
+    onChange: setPendingDownloads
+  }), [])
+  const audioDownloadHandlersRef = useRef<Omit<DownloadSchedulerOptions<AudioLoad>, 'maxConcurrent' | 'onChange'> | null>(null)
+  const audioScheduler = useMemo(() => createDownloadScheduler<AudioLoad>({
+    maxConcurrent: 1,
+    download: (load, options) =>
+      audioDownloadHandlersRef.current?.download(load, options) ?? Promise.reject(new Error('Player is not ready')),
+    onDeliver: (load, result) => audioDownloadHandlersRef.current?.onDeliver(load, result) ?? Promise.resolve(true),
+    onFailure: (load, error) => audioDownloadHandlersRef.current?.onFailure?.(load, error),
+    onChange: setPendingAudioDownloads
+  }), [])
+  const subtitleDownloadHandlersRef = useRef<Omit<DownloadSchedulerOptions<SubtitleLoad>, 'maxConcurrent' | 'onChange'> | null>(null)
+  const subtitleScheduler = useMemo(() => createDownloadScheduler<SubtitleLoad>({
+    maxConcurrent: 1,
+    download: (load, options) =>
+      subtitleDownloadHandlersRef.current?.download(load, options) ?? Promise.reject(new Error('Player is not ready')),
+    onDeliver: (load, result) => subtitleDownloadHandlersRef.current?.onDeliver(load, result) ?? Promise.resolve(true),
+    onFailure: (load, error) => subtitleDownloadHandlersRef.current?.onFailure?.(load, error),
+    onChange: setPendingSubtitleDownloads
+  }), [])
+  
+  const getTextTracks = useCallback(() => {
+    if (!textTracksRef.current && videoRef.current) textTracksRef.current = createTextTrackRenderer(videoRef.current)
+    return textTracksRef.current
+  }, [])
+  
+  // Strategies are stateless (the dynamic rule's mode lives in dynamicBolaActive), so the memo only picks one
+  const abrStrategy = useMemo(() => createAbrStrategy(abrStrategyId, playerConfig), [abrStrategyId, playerConfig])
+  
+  // Subscriptions made through the ref handle outlive renders and streams until destroy()
+  const emitter = useMemo(() => createEventEmitter<PlayerEvents>(), [])
+
   const logEvent = useCallback((message: string, type: LogType = 'info') => {
   const timestamp = new Date().toISOString()
   const logEntry: LogEntry = {
@@ -514,99 +1000,455 @@ const AdaptiveBitratePlayer: React.FC = () => {
   }
 }, [])
 
+  // Recoverable errors are warnings in the log: the recovery that follows says how playback carries on. Fatal errors end
+  // the stream, so every load in flight is dropped and none is scheduled until the next stream starts
+  const reportError = useCallback((error: PlayerError) => {
+    logEvent(formatPlayerError(error), error.fatal ? 'error' : 'warning')
+    if (error.fatal) {
+      stoppedRef.current = true
+      seekGenerationRef.current++
+      scheduler.cancelAll()
+      audioGenerationRef.current++
+      audioScheduler.cancelAll()
+      subtitleGenerationRef.current++
+      subtitleScheduler.cancelAll()
+    }
+    emitter.emit('error', error)
+  }, [scheduler, audioScheduler, subtitleScheduler, emitter, logEvent])
+  
+  const reportRecovery = useCallback((error: PlayerError, action: RecoveryAction) => {
+    logEvent(formatRecovery(action), action === 'none' ? 'error' : 'info')
+    emitter.emit('recovery', { error, action })
+  }, [emitter, logEvent])
+  
+  // Reports a failure with the recovery chosen for it; with nothing left to try the error becomes fatal
+  const recoverFrom = useCallback((error: PlayerError, context: RecoveryContext): RecoveryAction => {
+    const action = selectRecovery(error, context)
+    const reported = action === 'none' && !error.fatal ? createPlayerError(error.category, error.message, error.details, true) : error
+    reportError(reported)
+    reportRecovery(reported, action)
+    return action
+  }, [reportError, reportRecovery])
+  
+  // SourceBuffers are created lazily by the pipeline once the first variant's codecs are known
+  const attachMediaSource = useCallback(() => {
+    const video = videoRef.current
+    if (!video || !('MediaSource' in window)) return
+    const mediaSource = new MediaSource()
+    mediaSourceRef.current = mediaSource
+    if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current)
+    objectUrlRef.current = URL.createObjectURL(mediaSource)
+    video.src = objectUrlRef.current
+    
+    mediaSource.addEventListener('sourceopen', () => {
+      // A later attach or a teardown may have replaced this MediaSource before it opened
+      if (mediaSourceRef.current !== mediaSource || pipelineRef.current) return
+      pipelineRef.current = createMediaPipeline(mediaSource, {
+        getCurrentTime: () => videoRef.current?.currentTime ?? 0,
+        onError: error => mediaErrorHandlerRef.current(toPlayerError(error, 'media-decode'))
+      })
+      logEvent('MediaSource initialized')
+    }, { once: true })
+  }, [logEvent])
+  
+  const detachMediaSource = useCallback(() => {
+    mediaSourceRef.current = null
+    pipelineRef.current?.destroy()
+    pipelineRef.current = null
+    if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current)
+    objectUrlRef.current = null
+  }, [])
 
   // Initialize player and load manifest
   // Replace the deeply nested MediaSource initialization with this:
   useEffect(() => {
+    let cancelled = false
+    let emeController: EmeController | null = null
+    
     const initializePlayer = async () => {
+      if (!source) return
       try {
         setLoading(true)
-        logEvent('Initializing adaptive bitrate player')
+        logEvent(`Initializing adaptive bitrate player: ${source}`)
+        
+        // Reset per-stream state when the source changes
+        setCurrentSegmentIndex(0)
+        setPlaybackPosition(0)
+        setBufferedRanges([])
+        seekGenerationRef.current++
+        scheduler.cancelAll()
+        audioGenerationRef.current++
+        audioScheduler.cancelAll()
+        audioLoadedUntilRef.current = 0
+        audioInitKeyRef.current = null
+        audioTransmuxer.reset()
+        audioTransmuxDiscontinuityRef.current = 0
+        subtitleGenerationRef.current++
+        subtitleScheduler.cancelAll()
+        subtitleLoadedUntilRef.current = 0
+        captionDecoder.reset()
+        textTracksRef.current?.clear()
+        loadedUntilRef.current = 0
+        playbackStartRef.current = 0
+        liveStateRef.current = new Map()
+        endOfStreamLoggedRef.current = false
+        loadedPartsRef.current = null
+        initSegmentKeyRef.current = null
+        transmuxer.reset()
+        transmuxDiscontinuityRef.current = 0
+        bandwidthEstimator.reset()
+        setEstimatedBandwidth(null)
+        mediaSourceRebuildsRef.current = 0
+        mediaFailureRef.current = null
+        skippedRangesRef.current = []
+        recoveringRef.current = false
+        stoppedRef.current = false
+        bufferFilledRef.current = false
+        playRequestedAtRef.current = null
+        awaitingStartupRef.current = false
+        firstFrameRef.current = false
+        probeResultRef.current = null
+        setStartupSelection(null)
+        setStartingUp(true)
         
-        const qualities = await parseHLSManifest(MOCK_HLS_MANIFEST)
+        const manifest = await loadManifest(source, loader).catch(error => {
+          throw classifyManifestError(error, source)
+        })
+        if (cancelled) return
+        const qualities = manifest.qualityLevels
+        const qualitiesDecodable = await checkDecodingSupport(qualities, getBrowserDecoderCapabilities())
+        if (cancelled) return
         setQualityLevels(qualities)
+        setDecodable(qualitiesDecodable)
+        const undecodable = qualities.filter((_, index) => !qualitiesDecodable[index])
+        if (undecodable.length) {
+          logEvent(`Excluded ${undecodable.map(formatQualityLabel).join(', ')}: codecs not supported by this browser`, 'warning')
+        }
+        setManifestFormat(manifest.format)
+        setRenditions(manifest.renditions)
+        setAudioTracks(manifest.audioTracks)
+        const defaultAudioTrack = selectDefaultAudioTrack(manifest.audioTracks, navigator.languages)
+        setAudioTrackId(defaultAudioTrack)
+        logEvent(`Detected ${manifest.format.toUpperCase()} manifest`)
+        if (manifest.audioTracks.length) {
+          const track = manifest.audioTracks.find(candidate => candidate.id === defaultAudioTrack)
+          logEvent(`Found ${manifest.audioTracks.length} audio tracks${track ? `, starting with ${formatAudioTrackLabel(track)}` : ''}`)
+        }
+        setSubtitleTracks(manifest.subtitleTracks)
+        setSubtitleTrackId(selectDefaultSubtitleTrack(manifest.subtitleTracks, navigator.languages))
+        if (manifest.subtitleTracks.length) {
+          logEvent(`Found ${manifest.subtitleTracks.length} subtitle and caption tracks`)
+        }
+        
+        const initialQuality = qualities[0]
+        if (initialQuality?.live) {
+          const now = Date.now()
+          for (const quality of qualities) {
+            liveStateRef.current.set(quality.id, { lastReload: now, lastChange: now, unchangedReloads: 0 })
+          }
+          
+          // Live streams start a few target durations behind the live edge; LL-HLS only PART-HOLD-BACK behind it
+          const partHoldBack = initialQuality.lowLatency?.serverControl.partHoldBack
+          const startIndex = partHoldBack !== undefined && initialQuality.targetDuration > 0
+            ? getLiveEdgeStartIndex(initialQuality.segments, initialQuality.targetDuration, partHoldBack / initialQuality.targetDuration)
+            : getLiveEdgeStartIndex(initialQuality.segments, initialQuality.targetDuration)
+          const startTime = getSegmentStartTime(initialQuality.segments, startIndex)
+          setCurrentSegmentIndex(startIndex)
+          loadedUntilRef.current = startTime
+          audioLoadedUntilRef.current = startTime
+          subtitleLoadedUntilRef.current = startTime
+          playbackStartRef.current = startTime
+          logEvent(`Live stream detected, starting at segment #${initialQuality.segments[startIndex]?.sequenceNumber}`)
+        }
+        
+        setLowLatencyMode(Boolean(initialQuality?.live && initialQuality.lowLatency))
+        if (initialQuality?.live && initialQuality.lowLatency) {
+          logEvent(`Low-Latency HLS detected (part target ${initialQuality.lowLatency.partTarget}s), enabling low-latency mode`)
+        }
         
-        // Start with lowest quality
-        setCurrentQuality(0)
         logEvent(`Loaded ${qualities.length} quality levels`, 'info')
         
-        // Initialize MediaSource
-        if (videoRef.current && 'MediaSource' in window) {
-          const mediaSource = new MediaSource()
-          mediaSourceRef.current = mediaSource
-          videoRef.current.src = URL.createObjectURL(mediaSource)
-          
-          mediaSource.addEventListener('sourceopen', handleSourceOpen)
+        // Start from the last session's bandwidth, or from a probe download without one, rather than the lowest variant
+        let startupBandwidth = loadBandwidthHistory(getLocalStorage())
+        let startupSource: StartupBandwidthSource = startupBandwidth === null ? 'none' : 'history'
+        const probeSegment = initialQuality?.segments[findSegmentIndexAtTime(initialQuality.segments, playbackStartRef.current + SEGMENT_TIME_EPSILON)]
+        if (startupBandwidth === null && startupProbeRef.current && probeSegment) {
+          const probe = await loadSegment(probeSegment, loader, { retries: 1 })
+          if (cancelled) return
+          if (probe.stats && bandwidthEstimator.addSample(probe.stats)) {
+            startupBandwidth = bandwidthEstimator.getEstimate()
+            startupSource = 'probe'
+            setEstimatedBandwidth(startupBandwidth)
+          }
+          if (probe.data && probe.stats) probeResultRef.current = { segment: probeSegment, data: probe.data, stats: probe.stats }
+        }
+        const { allowed } = filterQualityLevels(qualities, { ...renditionInputsRef.current, decodable: qualitiesDecodable })
+        const startupQuality = allowed[selectStartupQuality(allowed.map(index => qualities[index]), startupBandwidth)] ?? 0
+        // Only a start at the probed variant requests the probed segment again
+        if (qualities[startupQuality] !== initialQuality) probeResultRef.current = null
+        setCurrentQuality(startupQuality)
+        setStartupSelection({ quality: startupQuality, bandwidth: startupBandwidth, source: startupSource })
+        const startupLevel = qualities[startupQuality]
+        if (startupLevel) {
+          // Live variants need not number their segments alike, so the start position carries over by time
+          if (startupLevel.live) {
+            setCurrentSegmentIndex(findSegmentIndexAtTime(startupLevel.segments, playbackStartRef.current + SEGMENT_TIME_EPSILON))
+          }
+          logEvent(startupBandwidth === null
+            ? `Starting at ${formatQualityLabel(startupLevel)} without a bandwidth estimate`
+            : `Starting at ${formatQualityLabel(startupLevel)} for ${(startupBandwidth / 1000000).toFixed(1)} Mbps from ${startupSource === 'probe' ? 'a probe download' : 'the last session'}`)
+        }
+        
+        // MediaKeys must be in place before protected media reaches the SourceBuffers
+        const drmConfig = drmConfigRef.current
+        if (videoRef.current && (manifest.drm.length || drmConfig)) {
+          if (!('MediaKeys' in window)) {
+            reportError(createPlayerError('key', 'Stream is DRM protected but this browser does not support Encrypted Media Extensions', {}, true))
+          } else {
+            const codecs = [...qualities.flatMap(level => level.codecs), ...manifest.audioTracks.flatMap(track => track.codec ?? [])]
+            if (manifest.drm.length) {
+              logEvent(`Stream protected with ${[...new Set(manifest.drm.map(info => KEY_SYSTEM_NAMES[info.keySystem] ?? info.keySystem))].join(', ')}`)
+            }
+            emeController = createEmeController({
+              video: videoRef.current,
+              config: drmConfig ?? {},
+              drmInfos: manifest.drm,
+              videoCodecs: [...new Set(codecs.filter(codec => getCodecType(codec) === 'video'))],
+              audioCodecs: [...new Set(codecs.filter(codec => getCodecType(codec) === 'audio'))],
+              transport: createLicenseTransport(loader),
+              onEvent: handleDrmEvent
+            })
+            await emeController.attach()
+            if (cancelled) return
+          }
         }
         
+        attachMediaSource()
+        
       } catch (error) {
-        logEvent(`Initialization failed: ${error}`, 'error')
+        if (!cancelled) reportError(isPlayerError(error) ? error : toPlayerError(error, 'parse', { url: source }, true))
       } finally {
         setLoading(false)
       }
     }
     
-    // Extract nested function to reduce nesting
-    const handleSourceOpen = () => {
-      try {
-        const mediaSource = mediaSourceRef.current
-        if (!mediaSource) return
-        
-        const sourceBuffer = mediaSource.addSourceBuffer('video/mp2t')
-        sourceBufferRef.current = sourceBuffer
-        
-        sourceBuffer.addEventListener('updateend', handleUpdateEnd)
-        logEvent('MediaSource initialized')
-      } catch (error) {
-        logEvent(`MediaSource setup failed: ${error}`, 'error')
-      }
+    const handleDrmEvent = (event: DrmEvent) => {
+      if (cancelled) return
+      const { message, severity } = formatDrmEvent(event)
+      if (event.type === 'error') reportError(createPlayerError('key', message))
+      else logEvent(message, severity)
     }
     
-    // Extract updateend handler to separate function
-    const handleUpdateEnd = () => {
-      const sourceBuffer = sourceBufferRef.current
-      const video = videoRef.current
-      
-      if (!sourceBuffer?.updating && video) {
-        // Ensure proper playback positioning
-        if (
-          video.currentTime === 0 &&
-          sourceBuffer &&
-          sourceBuffer.buffered.length > 0
-        ) {
-          video.currentTime = sourceBuffer.buffered.start(0)
-        }
+    // Init data the manifest did not announce (e.g. PSSH boxes only found in the init segment) arrives from the media
+    const handleEncrypted = (event: MediaEncryptedEvent) => {
+      if (!emeController) {
+        reportError(createPlayerError('key', 'Media is encrypted but the stream announced no DRM system and none is configured', {}, true))
+        return
       }
+      emeController.handleEncrypted(event.initDataType, event.initData)
+        .catch(error => reportError(toPlayerError(error, 'key')))
+    }
+    
+    // The element reports decode failures the SourceBuffers did not
+    const handleMediaElementError = () => {
+      const mediaError = videoRef.current?.error
+      // A failed SourceBuffer has already reported the error through the pipeline
+      if (!mediaError || !pipelineRef.current?.isUsable()) return
+      mediaErrorHandlerRef.current(createPlayerError('media-decode', mediaError.message || `MediaError code ${mediaError.code}`))
     }
     
+    const videoElement = videoRef.current
+    // A destroyed player lets go of the MediaSource the previous run's cleanup released
+    if (!source) {
+      videoElement?.removeAttribute('src')
+      videoElement?.load()
+    }
+    videoElement?.addEventListener('encrypted', handleEncrypted)
+    videoElement?.addEventListener('error', handleMediaElementError)
     initializePlayer()
     
     return () => {
+      cancelled = true
+      videoElement?.removeEventListener('encrypted', handleEncrypted)
+      videoElement?.removeEventListener('error', handleMediaElementError)
+      emeController?.destroy().catch(() => undefined)
+      detachMediaSource()
       if (networkMonitorRef.current) clearInterval(networkMonitorRef.current)
       if (bufferMonitorRef.current) clearInterval(bufferMonitorRef.current)
     }
-  }, [logEvent])
+  }, [
+    source,
+    loader,
+    bandwidthEstimator,
+    transmuxer,
+    scheduler,
+    audioTransmuxer,
+    audioScheduler,
+    subtitleScheduler,
+    captionDecoder,
+    attachMediaSource,
+    detachMediaSource,
+    reportError,
+    logEvent
+  ])
 
   
+  const networkProfile = networkProfileId === 'trace' && uploadedTraceProfile
+    ? uploadedTraceProfile
+    : NETWORK_PROFILES[networkProfileId === 'trace' ? 'tiers' : networkProfileId]
+  
   // Network condition monitoring
   useEffect(() => {
     if (networkMonitorRef.current) clearInterval(networkMonitorRef.current)
     
-    networkMonitorRef.current = setInterval(() => {
-      const newCondition = simulateNetworkConditions()
-      setNetworkCondition(newCondition)
+    if (!simulatedNetwork) {
+      // Real loading: report what the downloads measured instead of inventing conditions
+      networkMonitorRef.current = setInterval(() => {
+        const estimate = bandwidthEstimator.getEstimate()
+        const latency = bandwidthEstimator.getLatency()
+        setNetworkCondition(prev => ({
+          bandwidth: estimate ?? prev.bandwidth,
+          latency: latency ?? prev.latency,
+          packetLoss: 0
+        }))
+      }, playerConfig.networkPollInterval)
+    } else {
+      // Emulated time advances one interval per tick, so a profile and seed always replay the same sequence
+      const random = createSeededRandom(networkSeed)
+      loaderRandomRef.current = createSeededRandom(networkSeed + 1)
+      let tick = 0
+      setNetworkCondition(networkProfile.getCondition(0, random))
       
-      setMetrics(prev => ({
-        ...prev,
-        avgBandwidth: (prev.avgBandwidth * 0.8) + (newCondition.bandwidth * 0.2)
-      }))
-    }, 2000)
+      networkMonitorRef.current = setInterval(() => {
+        tick++
+        setNetworkCondition(networkProfile.getCondition((tick * networkProfile.interval) / 1000, random))
+      }, networkProfile.interval)
+    }
     
     return () => {
       if (networkMonitorRef.current) clearInterval(networkMonitorRef.current)
     }
+  }, [simulatedNetwork, bandwidthEstimator, networkProfile, networkSeed, playerConfig.networkPollInterval])
+  
+  // Measured throughput already includes losses, so it replaces the raw condition as ABR input once available
+  const abrNetworkCondition = useMemo<NetworkCondition>(
+    () => (estimatedBandwidth !== null ? { ...networkCondition, bandwidth: estimatedBandwidth, packetLoss: 0 } : networkCondition),
+    [networkCondition, estimatedBandwidth]
+  )
+  
+  // One QoE session per stream: element events drive the tracker, whose snapshots are shown, kept and sent as beacons
+  useEffect(() => {
+    const video = videoRef.current
+    if (!source || !video) return
+    const tracker = createQoeTracker(crypto.randomUUID(), source, performance.now())
+    qoeTrackerRef.current = tracker
+    
+    const mediaHandlers: Record<string, () => void> = {
+      playing: () => tracker.playing(performance.now()),
+      waiting: () => tracker.waiting(performance.now()),
+      pause: () => tracker.paused(performance.now()),
+      seeking: () => tracker.seeking(performance.now())
+    }
+    Object.entries(mediaHandlers).forEach(([type, handler]) => video.addEventListener(type, handler))
+    const unsubscribe = emitter.on('error', error => tracker.recordError(error.fatal))
+    
+    // Sessions that neither started nor failed (e.g. replaced while loading) are not worth keeping
+    const snapshot = () => {
+      const report = tracker.getReport(performance.now())
+      setQoeReport(report)
+      if (report.startupTime !== null || report.errorCount > 0) {
+        setQoeHistory(prev => saveQoeReport(getLocalStorage(), prev, report))
+      }
+    }
+    const timer = setInterval(snapshot, QOE_SNAPSHOT_INTERVAL)
+    
+    const beaconConfig = beaconConfigRef.current
+    const beaconSender = beaconConfig && createBeaconSender(
+      beaconConfig,
+      isMockUrl(beaconConfig.url) ? createMockLoader(() => networkConditionRef.current) : customLoader ?? createFetchLoader(),
+      () => tracker.getReport(performance.now()),
+      error => logEvent(`QoE beacon to ${beaconConfig.url} failed: ${error instanceof Error ? error.message : error}`, 'warning')
+    )
+    
+    return () => {
+      Object.entries(mediaHandlers).forEach(([type, handler]) => video.removeEventListener(type, handler))
+      unsubscribe()
+      clearInterval(timer)
+      snapshot()
+      beaconSender?.stop()
+      qoeTrackerRef.current = null
+    }
+  }, [source, customLoader, emitter, logEvent])
+  
+  // The first frame ends startup; the QoE tracker times it from the play request
+  useEffect(() => {
+    const video = videoRef.current
+    if (!source || !video) return
+    const handlePlaying = () => {
+      const requestedAt = playRequestedAtRef.current
+      if (firstFrameRef.current || requestedAt === null) return
+      firstFrameRef.current = true
+      const seconds = (performance.now() - requestedAt) / 1000
+      logEvent(`First frame after ${seconds.toFixed(2)}s`)
+    }
+    video.addEventListener('playing', handlePlaying)
+    return () => video.removeEventListener('playing', handlePlaying)
+  }, [source, logEvent])
+  
+  // The player's size in device pixels caps the resolution; the element is measured again whenever its layout changes
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || typeof ResizeObserver === 'undefined') return
+    const observer = new ResizeObserver(() => {
+      const width = Math.round(video.clientWidth * window.devicePixelRatio)
+      const height = Math.round(video.clientHeight * window.devicePixelRatio)
+      setPlayerSize(width && height ? { width, height } : null)
+    })
+    observer.observe(video)
+    return () => observer.disconnect()
   }, [])
   
+  useEffect(() => watchPowerState(setPowerState), [])
+  
+  const renditionFilter = useMemo(
+    () => filterQualityLevels(qualityLevels, { playerSize, decodable, power: powerState }),
+    [qualityLevels, playerSize, decodable, powerState]
+  )
+  // Stream initialization picks the startup variant before the filter above has seen the new ladder
+  const renditionInputsRef = useRef({ playerSize, power: powerState })
+  renditionInputsRef.current = { playerSize, power: powerState }
+  
+  // Chart history: the sampler reads this render's values, so the interval keeps running across renders
+  const chartInputsRef = useRef({ networkCondition, estimatedBandwidth, bufferHealth, level: qualityLevels[currentQuality], currentQuality })
+  chartInputsRef.current = { networkCondition, estimatedBandwidth, bufferHealth, level: qualityLevels[currentQuality], currentQuality }
+  useEffect(() => {
+    if (!source) return
+    const start = performance.now()
+    const timer = setInterval(() => {
+      const inputs = chartInputsRef.current
+      if (!inputs.level) return
+      const sample = {
+        time: (performance.now() - start) / 1000,
+        actualBandwidth: inputs.networkCondition.bandwidth,
+        estimatedBandwidth: inputs.estimatedBandwidth,
+        buffer: inputs.bufferHealth.currentBuffer,
+        bitrate: inputs.level.bandwidth,
+        qualityIndex: inputs.currentQuality
+      }
+      setMetricHistory(prev => appendSample(prev, sample, CHART_WINDOW))
+    }, CHART_SAMPLE_INTERVAL)
+    return () => {
+      clearInterval(timer)
+      setMetricHistory([])
+    }
+  }, [source])
+  
+  // The selected variant stands in for the rendition on screen, which trails it by the buffered media
+  useEffect(() => {
+    const level = qualityLevels[currentQuality]
+    if (level) qoeTrackerRef.current?.setRendition(level, formatQualityLabel(level), performance.now())
+  }, [qualityLevels, currentQuality])
+  
   // Buffer health monitoring
   useEffect(() => {
     if (bufferMonitorRef.current) clearInterval(bufferMonitorRef.current)
@@ -625,7 +1467,18 @@ const AdaptiveBitratePlayer: React.FC = () => {
           }
         }
         
-        const isStarving = currentBuffer < 5 // Less than 5 seconds
+        // Fall back to segment-duration accounting while the element reports nothing decodable
+        if (buffered.length === 0) {
+          currentBuffer = Math.max(0, loadedUntilRef.current - Math.max(currentTime, playbackStartRef.current))
+        }
+        setBufferedRanges(buffered.length > 0
+          ? toTimeRanges(buffered)
+          : loadedUntilRef.current > playbackStartRef.current ? [{ start: playbackStartRef.current, end: loadedUntilRef.current }] : [])
+        
+        // Until the buffer first reaches the threshold it is filling, not draining, and the startup variant keeps its chance
+        const starvationThreshold = lowLatencyMode ? LOW_LATENCY_STARVATION_THRESHOLD : playerConfig.starvationThreshold
+        if (currentBuffer >= starvationThreshold) bufferFilledRef.current = true
+        const isStarving = bufferFilledRef.current && currentBuffer < starvationThreshold
         
         setBufferHealth(prev => ({
           ...prev,
@@ -635,22 +1488,96 @@ const AdaptiveBitratePlayer: React.FC = () => {
         
         if (isStarving && isPlaying) {
           logEvent(`Buffer starving: ${currentBuffer.toFixed(1)}s remaining`, 'warning')
+          // Observers hear about a stall once, not on every tick it lasts
+          if (!stallReportedRef.current) emitter.emit('bufferstall', { position: currentTime, bufferAhead: currentBuffer })
+        }
+        stallReportedRef.current = isStarving && isPlaying
+        
+        // The element will not play across media that was skipped, so the playhead is moved past the hole
+        const hole = skippedRangesRef.current.find(range => range.start - GAP_JUMP_TOLERANCE <= currentTime && currentTime < range.end)
+        if (hole && isPlaying && currentBuffer < GAP_JUMP_TOLERANCE) {
+          video.currentTime = hole.end
+          logEvent(`Jumped over skipped media ${formatDuration(hole.start)}-${formatDuration(hole.end)}`, 'warning')
         }
       }
-    }, 1000)
+    }, playerConfig.bufferPollInterval)
     
     return () => {
       if (bufferMonitorRef.current) clearInterval(bufferMonitorRef.current)
     }
-  }, [isPlaying, logEvent])
+  }, [isPlaying, lowLatencyMode, playerConfig.starvationThreshold, playerConfig.bufferPollInterval, emitter, logEvent])
+  
+  // Low-latency mode trades stall protection for latency by keeping only a few seconds of buffer
+  useEffect(() => {
+    setBufferHealth(prev => ({ ...prev, targetBuffer: lowLatencyMode ? LOW_LATENCY_TARGET_BUFFER : playerConfig.targetBuffer }))
+  }, [lowLatencyMode, playerConfig.targetBuffer])
+  
+  // The selected audio track only needs loading of its own when the variants do not carry audio themselves
+  const activeAudioTrack = useMemo(() => {
+    const quality = qualityLevels[currentQuality]
+    const track = audioTracks.find(candidate => candidate.id === audioTrackId)
+    return quality && track?.segments.length && hasSeparateAudio(quality, renditions, manifestFormat) ? track : undefined
+  }, [qualityLevels, currentQuality, audioTracks, audioTrackId, renditions, manifestFormat])
+  
+  // Embedded captions need no loading; only WebVTT and IMSC tracks have segments of their own
+  const activeSubtitleTrack = useMemo(() => {
+    const track = subtitleTracks.find(candidate => candidate.id === subtitleTrackId)
+    return track?.format !== 'cea608' && track?.segments.length ? track : undefined
+  }, [subtitleTracks, subtitleTrackId])
+  
+  // Demuxed audio downloads alongside every video segment, so variants are judged by their combined bitrate
+  const abrQualityLevels = useMemo(() => activeAudioTrack
+    ? qualityLevels.map(level => ({ ...level, bandwidth: getCombinedBandwidth(level, activeAudioTrack, audioTracks, manifestFormat) }))
+    : qualityLevels,
+  [qualityLevels, activeAudioTrack, audioTracks, manifestFormat])
+  
+  // The dynamic rule's mode depends on the previous one, so it is carried here and the strategy itself stays pure
+  useEffect(() => {
+    setDynamicBolaActive(active => isDynamicBolaActive(bufferHealth, active))
+  }, [bufferHealth])
   
   // Quality adaptation logic
   const optimalQuality = useMemo(() => {
-    if (qualityLevels.length === 0) return 0
+    if (abrQualityLevels.length === 0) return 0
     if (manualQualityOverride !== null) return manualQualityOverride
     
-    return selectOptimalQuality(qualityLevels, networkCondition, bufferHealth, currentQuality)
-  }, [qualityLevels, networkCondition, bufferHealth, currentQuality, manualQualityOverride])
+    // Strategies choose among the allowed variants only; an excluded current variant counts as the next allowed one below
+    const { allowed } = renditionFilter
+    const candidates = allowed.map(index => abrQualityLevels[index])
+    const position = allowed.reduce((found, index, candidate) => (index <= currentQuality ? candidate : found), 0)
+    const selected = abrStrategy.selectQuality({
+      qualityLevels: candidates, networkCondition: abrNetworkCondition, bufferHealth, currentQuality: position, bolaActive: dynamicBolaActive
+    })
+    return allowed[selected] ?? 0
+  }, [abrStrategy, abrQualityLevels, renditionFilter, abrNetworkCondition, bufferHealth, currentQuality, manualQualityOverride, dynamicBolaActive])
+  
+  // Only the active live variant is reloaded, so the others keep the window of their last reload; this brings one up to
+  // date before a switch maps the load position onto it. A failed reload still counts, so the switch goes ahead
+  const refreshLiveVariant = useCallback(async (level: QualityLevel) => {
+    const states = liveStateRef.current
+    const state = states.get(level.id) ?? { lastReload: 0, lastChange: Date.now(), unchangedReloads: 0 }
+    states.set(level.id, state)
+    setRefreshingVariantId(level.id)
+    try {
+      const playlist = await reloadMediaPlaylist(manifestFormat, level, level.url, loader)
+      if (liveStateRef.current !== states) return
+      if (mergeLivePlaylist(level.segments, playlist).changed) {
+        state.lastChange = Date.now()
+        state.unchangedReloads = 0
+      } else {
+        state.unchangedReloads++
+      }
+      // The periodic reload may have moved this variant's window meanwhile, so merge into the window it has now
+      setQualityLevels(prev => prev.map(candidate =>
+        candidate.id === level.id ? applyLiveReload(candidate, mergeLivePlaylist(candidate.segments, playlist), playlist) : candidate
+      ))
+    } catch (error) {
+      if (liveStateRef.current === states) logEvent(`Live playlist reload of ${formatQualityLabel(level)} failed: ${error}`, 'warning')
+    } finally {
+      state.lastReload = Date.now()
+      setRefreshingVariantId(current => (current === level.id ? null : current))
+    }
+  }, [manifestFormat, loader, logEvent])
   
   // Handle quality changes
   useEffect(() => {
@@ -658,7 +1585,19 @@ const AdaptiveBitratePlayer: React.FC = () => {
       const oldQuality = qualityLevels[currentQuality]
       const newQuality = qualityLevels[optimalQuality]
       
+      const liveState = newQuality?.live ? liveStateRef.current.get(newQuality.id) : undefined
+      if (newQuality?.live && (!liveState || getReloadDelay(liveState, newQuality.targetDuration, Date.now()) === 0)) {
+        if (refreshingVariantId !== newQuality.id && !stoppedRef.current) void refreshLiveVariant(newQuality)
+        return
+      }
+      
       setCurrentQuality(optimalQuality)
+      // Resume the new variant at the same presentation time, not the same segment index
+      if (oldQuality && newQuality) {
+        setCurrentSegmentIndex(prev =>
+          findSegmentIndexAtTime(newQuality.segments, getSegmentStartTime(oldQuality.segments, prev))
+        )
+      }
       setMetrics(prev => ({
         ...prev,
         currentQuality: optimalQuality,
@@ -666,65 +1605,799 @@ const AdaptiveBitratePlayer: React.FC = () => {
       }))
       
       logEvent(
-        `Quality switch: ${oldQuality?.resolution || 'unknown'} → ${newQuality?.resolution} (${(newQuality?.bandwidth / 1000000).toFixed(1)}Mbps)`,
+        `Quality switch: ${oldQuality ? formatQualityLabel(oldQuality) : 'unknown'} → ${formatQualityLabel(newQuality)}`,
         'info'
       )
+      emitter.emit('qualitychange', {
+        previous: currentQuality,
+        current: optimalQuality,
+        level: newQuality,
+        manual: manualQualityOverride !== null
+      })
     }
-  }, [optimalQuality, currentQuality, qualityLevels, logEvent])
+  }, [optimalQuality, currentQuality, qualityLevels, manualQualityOverride, refreshingVariantId, refreshLiveVariant, emitter, logEvent])
   
-  // Segment loading and playback
-  const loadNextSegment = useCallback(async () => {
-    if (!qualityLevels[currentQuality] || !sourceBufferRef.current || loading) return
-    
-    const quality = qualityLevels[currentQuality]
-    const segmentUrl = quality.segments[currentSegmentIndex]
+  // Decoded CEA-608 cues go to the track of their channel; channels the manifest did not declare are added on discovery
+  const addCaptionCues = useCallback((cues: CaptionCue[]) => {
+    const channels = [...new Set(cues.map(cue => cue.channel))]
+    if (!channels.length) return
+    const tracks = channels.map(channel =>
+      subtitleTracks.find(track => track.format === 'cea608' && track.channel === channel) ?? createEmbeddedCaptionTrack(channel)
+    )
+    const discovered = tracks.filter(track => !subtitleTracks.includes(track))
+    if (discovered.length) {
+      setSubtitleTracks(prev => [...prev, ...discovered.filter(track => !prev.some(candidate => candidate.id === track.id))])
+      logEvent(`Found embedded captions: ${discovered.map(track => track.name).join(', ')}`)
+    }
+    tracks.forEach(track => getTextTracks()?.addCues(track, cues.filter(cue => cue.channel === track.channel)))
+  }, [subtitleTracks, getTextTracks, logEvent])
+  
+  // Appends downloaded media, retyping SourceBuffers and (re)appending the init segment when the variant changes;
+  // returns false when the buffer is full and the same media should be retried later
+  const appendMedia = useCallback(async (
+    pipeline: MediaPipeline,
+    quality: QualityLevel,
+    owner: MediaSegment | undefined,
+    media: { uri: string; start: number; key?: SegmentKey; sequenceNumber: number },
+    data: ArrayBuffer
+  ): Promise<boolean> => {
+    // Few browsers accept MPEG-TS through MSE, so TS media is repackaged as fMP4 with a SourceBuffer per track
+    const transmuxing = getContainerFormat(media.uri) === 'mp2t'
+    const separateAudio = hasSeparateAudio(quality, renditions, manifestFormat)
+    let fragments: TransmuxResult = {}
+    if (transmuxing) {
+      const discontinuity = owner?.discontinuitySequence ?? 0
+      if (discontinuity !== transmuxDiscontinuityRef.current) {
+        transmuxer.reset()
+        transmuxDiscontinuityRef.current = discontinuity
+      }
+      try {
+        const input = decryptsSamples(media.key)
+          ? await decrypter.decryptSamples(demuxTs(new Uint8Array(data)), media.key, media.sequenceNumber)
+          : data
+        fragments = transmuxer.transmux(input, media.start)
+        // Audio muxed into a demuxed variant would clash with the selected track in the audio buffer
+        if (separateAudio) delete fragments.audio
+        const captions = fragments.video?.captions ?? []
+        addCaptionCues(captions.flatMap(packet => captionDecoder.decode(packet)))
+      } catch (error) {
+        // Repackaging the same bytes would fail again, so the media is dropped and loading moves on
+        const details = { url: media.uri, sequenceNumber: media.sequenceNumber }
+        recoverFrom(toPlayerError(error, 'parse', details), { redundantStreams: 0, hasLowerVariant: false, mediaSourceRebuilds: 0 })
+        return true
+      }
+    }
+    const transmuxedTracks = Object.entries(fragments) as [TrackType, TransmuxedTrack][]
     
-    if (!segmentUrl) {
-      logEvent('Reached end of stream', 'info')
-      return
+    const types: SourceBufferTypes = transmuxing
+      ? Object.fromEntries(transmuxedTracks.map(([name, fragment]) => [name, fragment.mimeType]))
+      : getSourceBufferTypes(quality, media.uri, separateAudio)
+    // SourceBuffers cannot be added once media is buffered, so the audio track's buffer is created alongside the video one
+    if (activeAudioTrack && !pipeline.hasTrack('audio')) {
+      types.audio = getAudioTrackBufferType(activeAudioTrack, activeAudioTrack.segments[0].uri)
     }
+    const track = types.video ? 'video' : 'audio'
+    const changed = pipeline.configure(types)
+    if (changed.length) {
+      initSegmentKeyRef.current = null
+      logEvent(`SourceBuffer ${changed.join(', ')}: ${changed.map(name => types[name]).join(', ')}`)
+    }
+    if (!pipeline.isUsable()) return true
     
     try {
-      setLoading(true)
-      const result = await loadSegment(segmentUrl, networkCondition)
+      const init = transmuxing ? undefined : owner?.initSegment
+      const initKey = init ? `${init.uri}|${init.byteRange?.offset ?? ''}` : null
+      if (init && initKey !== initSegmentKeyRef.current) {
+        const initResult = await loadSegment(init, loader, {
+          retries: playerConfig.segmentRetries,
+          decrypt: getSegmentDecryption(decrypter, init.key, owner?.sequenceNumber ?? 0)
+        })
+        if (!initResult.success || !initResult.data) {
+          // The media segment waits for its init segment, which is requested again on the next delivery attempt
+          reportError(initResult.error ?? createPlayerError('network', `Failed to load init segment ${init.uri}`, { url: init.uri }))
+          return false
+        }
+        await pipeline.append(track, initResult.data)
+        initSegmentKeyRef.current = initKey
+      }
       
-      if (result.success && result.data && sourceBufferRef.current && !sourceBufferRef.current.updating) {
-        const arrayBuffer = await result.data.arrayBuffer()
-        sourceBufferRef.current.appendBuffer(arrayBuffer)
-        
-        setCurrentSegmentIndex(prev => prev + 1)
-        logEvent(`Loaded segment ${currentSegmentIndex + 1}/${quality.segments.length}`)
-        
-      } else if (!result.success) {
-        logEvent(`Segment load failed: ${result.error}`, 'error')
-        setMetrics(prev => ({ ...prev, droppedFrames: prev.droppedFrames + 1 }))
+      if (transmuxing) {
+        await Promise.all(transmuxedTracks.map(async ([name, fragment]) => {
+          if (fragment.initChanged || changed.includes(name)) await pipeline.append(name, fragment.initSegment.buffer as ArrayBuffer)
+          await pipeline.append(name, fragment.data.buffer as ArrayBuffer)
+        }))
+      } else {
+        await pipeline.append(track, data)
       }
       
+      // Start from the first buffered frame when media does not begin at zero
+      const video = videoRef.current
+      if (video && video.currentTime === 0 && video.buffered.length > 0) {
+        video.currentTime = video.buffered.start(0)
+      }
+      return true
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        logEvent('SourceBuffer full, waiting for playback to free space', 'warning')
+        return false
+      }
+      // The pipeline has reported the failure itself; its recovery rebuilds the MediaSource or ends the stream
+      return true
+    }
+  }, [
+    renditions,
+    manifestFormat,
+    activeAudioTrack,
+    loader,
+    decrypter,
+    transmuxer,
+    captionDecoder,
+    addCaptionCues,
+    playerConfig.segmentRetries,
+    recoverFrom,
+    reportError,
+    logEvent
+  ])
+  
+  // Appends a segment of the demuxed audio track to the audio SourceBuffer; false means retry later
+  const appendAudio = useCallback(async (
+    pipeline: MediaPipeline,
+    track: AudioTrack,
+    segment: MediaSegment,
+    data: ArrayBuffer
+  ): Promise<boolean> => {
+    // The audio buffer is created together with the video one, on the first video append
+    if (!pipeline.hasTrack('video')) return false
+    
+    let type = getAudioTrackBufferType(track, segment.uri)
+    let fragment: TransmuxedTrack | undefined
+    if (getContainerFormat(segment.uri) === 'mp2t') {
+      if (segment.discontinuitySequence !== audioTransmuxDiscontinuityRef.current) {
+        audioTransmuxer.reset()
+        audioTransmuxDiscontinuityRef.current = segment.discontinuitySequence
+      }
+      try {
+        const input = decryptsSamples(segment.key)
+          ? await decrypter.decryptSamples(demuxTs(new Uint8Array(data)), segment.key, segment.sequenceNumber)
+          : data
+        fragment = audioTransmuxer.transmux(input, segment.start).audio
+      } catch (error) {
+        const details = { url: segment.uri, sequenceNumber: segment.sequenceNumber }
+        recoverFrom(toPlayerError(error, 'parse', details), { redundantStreams: 0, hasLowerVariant: false, mediaSourceRebuilds: 0 })
+        return true
+      }
+      if (!fragment) {
+        logEvent(`No audio found in ${segment.uri}`, 'warning')
+        return true
+      }
+      type = fragment.mimeType
+    }
+    
+    if (pipeline.configure({ audio: type }).length) {
+      audioInitKeyRef.current = null
+      logEvent(`SourceBuffer audio: ${type}`)
+    }
+    if (!pipeline.isUsable()) return true
+    
+    try {
+      const init = fragment ? undefined : segment.initSegment
+      const initKey = fragment ? `${track.id}|transmuxed` : init ? `${init.uri}|${init.byteRange?.offset ?? ''}` : null
+      if (fragment && (fragment.initChanged || initKey !== audioInitKeyRef.current)) {
+        await pipeline.append('audio', fragment.initSegment.buffer as ArrayBuffer)
+        audioInitKeyRef.current = initKey
+      } else if (init && initKey !== audioInitKeyRef.current) {
+        const initResult = await loadSegment(init, loader, {
+          retries: playerConfig.segmentRetries,
+          decrypt: getSegmentDecryption(decrypter, init.key, segment.sequenceNumber)
+        })
+        if (!initResult.success || !initResult.data) {
+          reportError(initResult.error ?? createPlayerError('network', `Failed to load audio init segment ${init.uri}`, { url: init.uri }))
+          return false
+        }
+        await pipeline.append('audio', initResult.data)
+        audioInitKeyRef.current = initKey
+      }
+      await pipeline.append('audio', fragment ? fragment.data.buffer as ArrayBuffer : data)
+      return true
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') return false
+      return true
+    }
+  }, [loader, decrypter, audioTransmuxer, playerConfig.segmentRetries, recoverFrom, reportError, logEvent])
+  
+  // Media ahead of the playhead, counting what has been appended but not yet reported by the buffer monitor
+  const getBufferAhead = () =>
+    Math.max(0, loadedUntilRef.current - Math.max(videoRef.current?.currentTime ?? 0, playbackStartRef.current))
+  
+  // CMCD data joins the QoE session through its session ID; query mode changes the URL, header mode adds headers
+  const withCmcd = <T extends { uri: string }>(media: T, request: CmcdRequestState, live: boolean): { media: T; headers?: Record<string, string> } => {
+    const config = cmcdConfigRef.current
+    const tracker = qoeTrackerRef.current
+    if (!config || !tracker) return { media }
+    const session = { sessionId: tracker.sessionId, contentId: config.contentId, format: manifestFormat, live }
+    const data = createCmcdData(session, {
+      ...request,
+      throughput: bandwidthEstimator.getEstimate(),
+      topBitrate: qualityLevels.length ? Math.max(...qualityLevels.map(level => level.bandwidth)) : undefined,
+      starved: stallReportedRef.current
+    })
+    return config.mode === 'headers'
+      ? { media, headers: toCmcdHeaders(data) }
+      : { media: { ...media, uri: appendCmcdQuery(media.uri, data) } }
+  }
+  
+  // Audio and video share the connection, so both feed the same throughput estimate
+  const downloadMedia = async (
+    media: Pick<MediaSegment, 'uri' | 'byteRange' | 'key' | 'duration'>,
+    sequenceNumber: number,
+    { signal, onProgress }: DownloadRequestOptions,
+    cmcdRequest: Omit<CmcdRequestState, 'duration'>,
+    live: boolean
+  ): Promise<DownloadResult> => {
+    const decrypt = getSegmentDecryption(decrypter, media.key, sequenceNumber)
+    // The startup probe already downloaded this segment and fed the estimator; its bytes serve this request
+    const probe = probeResultRef.current
+    if (probe && probe.segment.uri === media.uri && probe.segment.byteRange?.offset === media.byteRange?.offset) {
+      probeResultRef.current = null
+      try {
+        return { data: decrypt ? await decrypt(probe.data) : probe.data, stats: probe.stats }
+      } catch {
+        // A failed key request falls through to a regular download, which retries it
+      }
+    }
+    const request = withCmcd(media, { ...cmcdRequest, duration: media.duration }, live)
+    const result = await loadSegment(request.media, loader, {
+      retries: playerConfig.segmentRetries,
+      signal,
+      headers: request.headers,
+      onProgress,
+      decrypt
+    })
+    if (!result.success || !result.data || !result.stats) {
+      throw result.error ?? createPlayerError('network', `Failed to load ${media.uri}`, { url: media.uri })
+    }
+    if (bandwidthEstimator.addSample(result.stats)) {
+      const estimate = bandwidthEstimator.getEstimate()
+      setEstimatedBandwidth(estimate)
+      if (estimate !== null) saveBandwidthHistory(getLocalStorage(), estimate)
+      setMetrics(prev => ({ ...prev, avgBandwidth: bandwidthEstimator.getAverage() ?? prev.avgBandwidth }))
+    }
+    return { data: result.data, stats: result.stats }
+  }
+  
+  // Moves a variant to its next redundant copy and reloads its playlist from there; loading waits for the new segments
+  const failOver = async (level: QualityLevel) => {
+    const [nextUrl, ...remaining] = level.redundantUrls ?? []
+    if (!nextUrl) return
+    recoveringRef.current = true
+    try {
+      const playlist = await reloadMediaPlaylist(manifestFormat, level, nextUrl, loader)
+      // Redundant copies share the timeline, so merging keeps segment start times where the failed copy had them
+      const { segments } = mergeLivePlaylist(level.segments, playlist)
+      setQualityLevels(prev => prev.map(candidate =>
+        candidate.id === level.id ? { ...candidate, url: nextUrl, redundantUrls: [...remaining, level.url], segments } : candidate
+      ))
+      logEvent(`${formatQualityLabel(level)} now loads from ${nextUrl}`)
     } catch (error) {
-      logEvent(`Segment loading error: ${error}`, 'error')
+      reportError(toPlayerError(error, 'network', { url: nextUrl }))
     } finally {
-      setLoading(false)
+      recoveringRef.current = false
+    }
+  }
+  
+  // Gives up on the segment a load belongs to; playback jumps over the hole once it gets there
+  const skipLoad = (load: ScheduledLoad) => {
+    const end = load.owner ? load.owner.start + load.owner.duration : load.end
+    skippedRangesRef.current = [...skippedRangesRef.current, { start: load.start, end }]
+    loadedUntilRef.current = end
+    loadedPartsRef.current = null
+    setCurrentSegmentIndex(prev => prev + 1)
+  }
+  
+  // A fresh MediaSource brings fresh decoders; the old buffer goes with the old one, so loading restarts at the playhead
+  const rebuildMediaSource = () => {
+    const quality = qualityLevels[currentQuality]
+    const video = videoRef.current
+    if (!quality || !video) return
+    mediaSourceRebuildsRef.current++
+    const position = video.currentTime
+    const resume = isPlaying
+    
+    detachMediaSource()
+    initSegmentKeyRef.current = null
+    audioInitKeyRef.current = null
+    transmuxer.reset()
+    transmuxDiscontinuityRef.current = 0
+    audioTransmuxer.reset()
+    audioTransmuxDiscontinuityRef.current = 0
+    restartLoadingAt(quality.segments, findSegmentIndexAtTime(quality.segments, position + SEGMENT_TIME_EPSILON))
+    attachMediaSource()
+    
+    // Replacing the source resets the element, so the playhead and play state are restored once the new one is ready
+    video.addEventListener('loadedmetadata', () => {
+      video.currentTime = position
+      if (resume) video.play().catch(error => logEvent(`Playback did not resume after the rebuild: ${error}`, 'warning'))
+    }, { once: true })
+  }
+  
+  // Low-latency mode keeps less than the startup buffer, so it starts on its own target
+  const getStartupBuffer = () => Math.min(playerConfig.startupBuffer, bufferHealth.targetBuffer)
+  
+  // Startup ends once the startup buffer is filled, or earlier when the stream has nothing more to load
+  const completeStartup = (streamLoaded: boolean) => {
+    if (getBufferAhead() < getStartupBuffer() && !streamLoaded) return
+    setStartingUp(false)
+    if (!awaitingStartupRef.current) return
+    awaitingStartupRef.current = false
+    videoRef.current?.play().catch(error => logEvent(`Playback did not start: ${error}`, 'warning'))
+    logEvent('Playback started')
+  }
+  
+  mediaErrorHandlerRef.current = error => {
+    const action = recoverFrom(error, { redundantStreams: 0, hasLowerVariant: false, mediaSourceRebuilds: mediaSourceRebuildsRef.current })
+    if (action === 'rebuild-media-source') rebuildMediaSource()
+  }
+  
+  downloadHandlersRef.current = {
+    download: (load, options) => downloadMedia(load.media, getLoadSequenceNumber(load), options, {
+      objectType: hasSeparateAudio(load.level, renditions, manifestFormat) ? 'v' : 'av',
+      bitrate: load.level.bandwidth,
+      bufferLength: getBufferAhead(),
+      // Nothing to play until this arrives: startup, a seek or the end of a stall
+      startup: getBufferAhead() === 0
+    }, load.level.live),
+    
+    // Only ABR-chosen whole segments are abandoned; parts are too short to be worth restarting
+    checkAbandon: (load, progress) => {
+      if (!isPlaying || manualQualityOverride !== null || load.target.kind !== 'segment') return null
+      const now = performance.now()
+      const duration = load.end - load.start
+      // Like ABR, the retry only considers allowed variants, priced with the audio they load alongside
+      const { allowed } = renditionFilter
+      const selected = selectAbandonQuality(allowed.map(index => abrQualityLevels[index]), {
+        quality: allowed.filter(index => index < load.quality).length,
+        duration,
+        loaded: progress.loaded,
+        total: progress.total ?? (load.level.bandwidth * duration) / 8,
+        elapsed: (now - progress.requestStart) / 1000,
+        receiving: (now - progress.firstByte) / 1000
+      }, getBufferAhead(), bandwidthEstimator.getEstimate())
+      
+      const retryQuality = selected === null ? null : allowed[selected]
+      const level = retryQuality === null ? undefined : qualityLevels[retryQuality]
+      const segment = level?.segments[findSegmentIndexAtTime(level.segments, load.start + SEGMENT_TIME_EPSILON)]
+      if (retryQuality === null || !level || !segment) return null
+      return {
+        start: segment.start,
+        end: segment.start + segment.duration,
+        quality: retryQuality,
+        uri: segment.uri,
+        target: { kind: 'segment', segment },
+        media: segment,
+        owner: segment,
+        level,
+        generation: load.generation
+      }
+    },
+    
+    onAbandon: (load, replacement, progress) => {
+      // The partial transfer is the freshest evidence of the drop, so the estimator learns from it before the retry
+      const now = performance.now()
+      if (bandwidthEstimator.addSample({ ...progress, loadEnd: now, bytes: progress.loaded })) {
+        setEstimatedBandwidth(bandwidthEstimator.getEstimate())
+      }
+      if (manualQualityOverride === null) setCurrentQuality(replacement.quality)
+      logEvent(
+        `Abandoned segment at ${formatQualityLabel(load.level)} after ${((now - progress.requestStart) / 1000).toFixed(1)}s ` +
+        `(${Math.round(progress.loaded / 1024)} KB received); retrying at ${formatQualityLabel(replacement.level)}`,
+        'warning'
+      )
+    },
+    
+    onDeliver: async (load, { data, stats }) => {
+      // A seek after this request was made moved the load position; its media no longer belongs in the buffer
+      if (load.generation !== seekGenerationRef.current) return true
+      const pipeline = pipelineRef.current
+      if (pipeline?.isUsable()) {
+        const media = { ...load.media, sequenceNumber: getLoadSequenceNumber(load) }
+        const appended = await appendMedia(pipeline, load.level, load.owner, media, data)
+        if (!appended) return false
+        if (load.generation !== seekGenerationRef.current) return true
+      }
+      
+      const { target, media } = load
+      loadedUntilRef.current = load.end
+      completeStartup(!load.level.live && load.end >= getTotalDuration(load.level.segments) - SEGMENT_TIME_EPSILON)
+      if (target.kind === 'segment') {
+        loadedPartsRef.current = null
+        setCurrentSegmentIndex(prev => prev + 1)
+        logEvent(
+          `Loaded segment #${target.segment.sequenceNumber} at ${formatQualityLabel(load.level)} (${media.duration.toFixed(1)}s, ` +
+          `${formatDuration(loadedUntilRef.current)}/${formatDuration(getTotalDuration(load.level.segments))})`
+        )
+      } else {
+        loadedPartsRef.current = target.completesSegment
+          ? null
+          : { sequenceNumber: target.sequenceNumber, count: target.partIndex + 1 }
+        if (target.completesSegment) setCurrentSegmentIndex(prev => prev + 1)
+        logEvent(`Loaded part ${target.partIndex} of segment #${target.sequenceNumber} (${media.duration.toFixed(2)}s)`)
+      }
+      emitter.emit('segmentloaded', {
+        uri: media.uri,
+        sequenceNumber: getLoadSequenceNumber(load),
+        part: target.kind === 'part' ? target.partIndex : undefined,
+        qualityIndex: load.quality,
+        start: load.start,
+        duration: media.duration,
+        stats
+      })
+      return true
+    },
+    
+    onFailure: (load, error) => {
+      setMetrics(prev => ({ ...prev, failedLoads: prev.failedLoads + 1 }))
+      const failure = toPlayerError(error, 'network')
+      const playerError = createPlayerError(failure.category, failure.message, {
+        ...failure.details,
+        sequenceNumber: getLoadSequenceNumber(load),
+        qualityIndex: load.quality
+      })
+      
+      // Each redundant copy gets one try per media; the count starts over for other media or another variant
+      const previous = mediaFailureRef.current
+      const failovers = previous?.quality === load.quality && previous.start === load.start ? previous.failovers : 0
+      const lowerQuality = renditionFilter.allowed.filter(index => index < load.quality).pop()
+      const action = recoverFrom(playerError, {
+        redundantStreams: (load.level.redundantUrls?.length ?? 0) - failovers,
+        hasLowerVariant: lowerQuality !== undefined && manualQualityOverride === null,
+        mediaSourceRebuilds: mediaSourceRebuildsRef.current
+      })
+      mediaFailureRef.current = { quality: load.quality, start: load.start, failovers: failovers + (action === 'redundant-stream' ? 1 : 0) }
+      
+      if (action === 'redundant-stream') failOver(load.level)
+      else if (action === 'lower-variant' && lowerQuality !== undefined) setCurrentQuality(lowerQuality)
+      else if (action === 'skip-segment') skipLoad(load)
+    }
+  }
+  
+  audioDownloadHandlersRef.current = {
+    download: (load, options) => downloadMedia(load.segment, load.segment.sequenceNumber, options, {
+      objectType: 'a',
+      bitrate: load.track.bandwidth,
+      bufferLength: Math.max(0, audioLoadedUntilRef.current - (videoRef.current?.currentTime ?? 0))
+    }, load.track.live),
+    onDeliver: async (load, { data }) => {
+      if (load.generation !== audioGenerationRef.current) return true
+      const pipeline = pipelineRef.current
+      if (pipeline?.isUsable()) {
+        const appended = await appendAudio(pipeline, load.track, load.segment, data)
+        if (!appended) return false
+        if (load.generation !== audioGenerationRef.current) return true
+      }
+      audioLoadedUntilRef.current = load.end
+      return true
+    },
+    onFailure: (load, error) => reportError(toPlayerError(error, 'network', { url: load.uri, sequenceNumber: load.segment.sequenceNumber }))
+  }
+  
+  subtitleDownloadHandlersRef.current = {
+    download: (load, options) => downloadMedia(load.segment, load.segment.sequenceNumber, options, { objectType: 'c' }, load.track.live),
+    onDeliver: async (load, { data }) => {
+      if (load.generation !== subtitleGenerationRef.current) return true
+      // X-TIMESTAMP-MAP refers to the MPEG-TS clock, which only the video transmuxer can place on the timeline
+      const transmuxing = getContainerFormat(qualityLevels[currentQuality]?.segments[0]?.uri ?? '') === 'mp2t'
+      if (load.track.format === 'webvtt' && transmuxing && transmuxer.toPlayerTime(0) === null) return false
+      try {
+        const cues = parseSubtitleSegment(load.track, data, transmuxing ? timestamp => transmuxer.toPlayerTime(timestamp) ?? 0 : undefined)
+        getTextTracks()?.addCues(load.track, cues)
+      } catch (error) {
+        logEvent(`Subtitle segment ${load.uri} skipped: ${error instanceof Error ? error.message : error}`, 'warning')
+      }
+      subtitleLoadedUntilRef.current = load.end
+      return true
+    },
+    onFailure: (load, error) => reportError(toPlayerError(error, 'network', { url: load.uri, sequenceNumber: load.segment.sequenceNumber }))
+  }
+  
+  // Segment loading: request upcoming segments while the buffer plus downloads in flight is below the target
+  const scheduleDownloads = useCallback(() => {
+    const quality = qualityLevels[currentQuality]
+    const pipeline = pipelineRef.current
+    if (!quality || !pipeline || recoveringRef.current || stoppedRef.current) return
+    scheduler.resume()
+    
+    while (scheduler.hasCapacity()) {
+      const pending = scheduler.getPending()
+      const last = pending[pending.length - 1]
+      // Parts are fetched one after another so LL-HLS loading stays at the live edge
+      if (last?.target.kind === 'part') return
+      const pendingDuration = pending.reduce((sum, load) => sum + load.end - load.start, 0)
+      if (getRequestDelay(getBufferAhead() + pendingDuration, bufferHealth.targetBuffer) > 0) return
+      
+      // Downloads in flight advance the request position ahead of the append position
+      const index = last
+        ? findSegmentIndexAtTime(quality.segments, last.end + SEGMENT_TIME_EPSILON)
+        : currentSegmentIndex
+      const target = getNextLoadTarget(
+        quality.segments,
+        index,
+        lowLatencyMode ? quality.lowLatency : undefined,
+        last ? null : loadedPartsRef.current
+      )
+      
+      if (!target) {
+        if (last) return
+        if (!endOfStreamLoggedRef.current) {
+          endOfStreamLoggedRef.current = true
+          logEvent(quality.live ? 'Caught up with live edge, waiting for new segments' : 'Reached end of stream', 'info')
+          // The last caption stays on screen until the end of the media rather than until a change that never comes
+          if (!quality.live) addCaptionCues(captionDecoder.flush(loadedUntilRef.current))
+        }
+        if (!quality.live) pipeline.endOfStream()
+        return
+      }
+      endOfStreamLoggedRef.current = false
+      
+      // Every part of this segment was already fetched while it was being produced
+      if (target.kind === 'loaded') {
+        if (last) return
+        loadedPartsRef.current = null
+        setCurrentSegmentIndex(prev => prev + 1)
+        return
+      }
+      
+      const media = target.kind === 'segment' ? target.segment : target.part
+      scheduler.request({
+        start: media.start,
+        end: media.start + media.duration,
+        quality: currentQuality,
+        uri: media.uri,
+        target,
+        media,
+        // Parts have no EXT-X-MAP of their own; they share their parent segment's
+        owner: target.kind === 'segment' ? target.segment : quality.segments[index] ?? quality.segments[quality.segments.length - 1],
+        level: quality,
+        generation: seekGenerationRef.current
+      })
+    }
+  }, [
+    qualityLevels,
+    currentQuality,
+    currentSegmentIndex,
+    lowLatencyMode,
+    bufferHealth.targetBuffer,
+    scheduler,
+    captionDecoder,
+    addCaptionCues,
+    logEvent
+  ])
+  
+  // Startup segments load one at a time so the first one gets the whole connection and the first frame comes sooner
+  useEffect(() => {
+    scheduler.setMaxConcurrent(lowLatencyMode || startingUp ? 1 : maxConcurrentDownloads)
+  }, [scheduler, lowLatencyMode, startingUp, maxConcurrentDownloads])
+  
+  // Audio loading follows time rather than segment indices, since audio and video segments need not line up
+  const getAudioRequestedUntil = useCallback(() => {
+    const pending = audioScheduler.getPending()
+    return pending[pending.length - 1]?.end ?? audioLoadedUntilRef.current
+  }, [audioScheduler])
+  
+  const scheduleAudioDownloads = useCallback(() => {
+    const track = activeAudioTrack
+    if (!track || !pipelineRef.current || stoppedRef.current) return
+    audioScheduler.resume()
+    
+    while (audioScheduler.hasCapacity()) {
+      const requestedUntil = getAudioRequestedUntil()
+      const position = Math.max(videoRef.current?.currentTime ?? 0, playbackStartRef.current)
+      if (getRequestDelay(requestedUntil - position, bufferHealth.targetBuffer) > 0) return
+      
+      const segment = track.segments[findSegmentIndexAtTime(track.segments, requestedUntil + SEGMENT_TIME_EPSILON)]
+      if (!segment) return
+      audioScheduler.request({
+        start: segment.start,
+        end: segment.start + segment.duration,
+        quality: audioTracks.indexOf(track),
+        uri: segment.uri,
+        segment,
+        track,
+        generation: audioGenerationRef.current
+      })
     }
-  }, [qualityLevels, currentQuality, currentSegmentIndex, networkCondition, loading, logEvent])
+  }, [activeAudioTrack, audioTracks, audioScheduler, getAudioRequestedUntil, bufferHealth.targetBuffer])
+  
+  const scheduleSubtitleDownloads = useCallback(() => {
+    const track = activeSubtitleTrack
+    if (!track || stoppedRef.current) return
+    subtitleScheduler.resume()
+    
+    while (subtitleScheduler.hasCapacity()) {
+      const pending = subtitleScheduler.getPending()
+      const requestedUntil = pending[pending.length - 1]?.end ?? subtitleLoadedUntilRef.current
+      const position = Math.max(videoRef.current?.currentTime ?? 0, playbackStartRef.current)
+      if (getRequestDelay(requestedUntil - position, bufferHealth.targetBuffer) > 0) return
+      
+      const segment = track.segments[findSegmentIndexAtTime(track.segments, requestedUntil + SEGMENT_TIME_EPSILON)]
+      if (!segment) return
+      subtitleScheduler.request({
+        start: segment.start,
+        end: segment.start + segment.duration,
+        quality: subtitleTracks.indexOf(track),
+        uri: segment.uri,
+        segment,
+        track,
+        generation: subtitleGenerationRef.current
+      })
+    }
+  }, [activeSubtitleTrack, subtitleTracks, subtitleScheduler, bufferHealth.targetBuffer])
+  
+  // Live audio and subtitle playlists slide like the video ones, so the active tracks are refreshed every target duration
+  const scheduleTrackRefresh = useCallback(<T extends AudioTrack | SubtitleTrack>(
+    track: T | undefined,
+    setTracks: React.Dispatch<React.SetStateAction<T[]>>,
+    kind: string
+  ) => {
+    if (!track?.live || !track.url) return undefined
+    const url = track.url
+    const abortController = new AbortController()
+    
+    const timer = setTimeout(async () => {
+      try {
+        const playlist = await reloadMediaPlaylist(manifestFormat, track, url, loader, abortController.signal)
+        const merged = mergeLivePlaylist(track.segments, playlist)
+        setTracks(prev => prev.map(candidate =>
+          candidate.id === track.id
+            ? { ...candidate, segments: merged.segments, targetDuration: playlist.targetDuration, live: isLivePlaylist(playlist) }
+            : candidate
+        ))
+      } catch (error) {
+        if (!abortController.signal.aborted) logEvent(`Live ${kind} playlist reload failed: ${error}`, 'warning')
+      }
+    }, Math.max(1, track.targetDuration) * 1000)
+    
+    return () => {
+      abortController.abort()
+      clearTimeout(timer)
+    }
+  }, [manifestFormat, loader, logEvent])
+  
+  useEffect(() => scheduleTrackRefresh(activeAudioTrack, setAudioTracks, 'audio'), [activeAudioTrack, scheduleTrackRefresh])
+  useEffect(() => scheduleTrackRefresh(activeSubtitleTrack, setSubtitleTracks, 'subtitle'), [activeSubtitleTrack, scheduleTrackRefresh])
   
-  // Auto-load segments when playing
   useEffect(() => {
-    if (isPlaying && bufferHealth.currentBuffer < bufferHealth.targetBuffer) {
-      const timer = setTimeout(loadNextSegment, 1000)
-      return () => clearTimeout(timer)
+    getTextTracks()?.select(subtitleTrackId)
+  }, [subtitleTrackId, getTextTracks])
+  
+  // Live playlist refresh: reload the active variant every target duration and slide the window
+  useEffect(() => {
+    const quality = qualityLevels[currentQuality]
+    if (!quality?.live) return
+    
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const abortController = new AbortController()
+    const state = liveStateRef.current.get(quality.id) ?? { lastReload: 0, lastChange: Date.now(), unchangedReloads: 0 }
+    liveStateRef.current.set(quality.id, state)
+    
+    // LL-HLS servers that can block answer as soon as the next part exists, so there is no need to wait between requests
+    const lowLatency = lowLatencyMode ? quality.lowLatency : undefined
+    const canBlock = Boolean(lowLatency?.serverControl.canBlockReload)
+    const reloadTarget = lowLatency ? lowLatency.partTarget : quality.targetDuration
+    const nextDelay = (now: number) => (canBlock && state.unchangedReloads === 0 ? 0 : getReloadDelay(state, reloadTarget, now))
+    
+    const refresh = async () => {
+      try {
+        const url = canBlock && lowLatency
+          ? buildBlockingReloadUrl(quality.url, getNextBlockingRequest(quality.segments, lowLatency))
+          : quality.url
+        const playlist = await reloadMediaPlaylist(manifestFormat, quality, url, loader, abortController.signal)
+        if (cancelled) return
+        
+        const merged = mergeLivePlaylist(quality.segments, playlist)
+        const partsChanged = playlist.pendingParts.length !== (quality.lowLatency?.pendingParts.length ?? 0)
+        const now = Date.now()
+        state.lastReload = now
+        
+        if (!merged.changed && !partsChanged && !playlist.endList) {
+          state.unchangedReloads++
+          if (isPlaylistStale(state, quality.targetDuration, now)) {
+            logEvent(`Live playlist has not updated for ${((now - state.lastChange) / 1000).toFixed(0)}s`, 'warning')
+          }
+          timer = setTimeout(refresh, nextDelay(now))
+          return
+        }
+        
+        state.lastChange = now
+        state.unchangedReloads = 0
+        
+        // Keep the load position on the same segment after old segments slide out of the window
+        const shiftedIndex = segmentIndexRef.current - merged.removed
+        if (shiftedIndex < 0) {
+          const edgeIndex = getLiveEdgeStartIndex(merged.segments, playlist.targetDuration)
+          logEvent('Fell behind the live window, jumping to live edge', 'warning')
+          scheduler.cancelAll()
+          loadedUntilRef.current = getSegmentStartTime(merged.segments, edgeIndex)
+          playbackStartRef.current = loadedUntilRef.current
+          setCurrentSegmentIndex(edgeIndex)
+        } else if (merged.removed > 0) {
+          setCurrentSegmentIndex(shiftedIndex)
+        }
+        
+        if (playlist.endList) {
+          logEvent('Live stream ended (EXT-X-ENDLIST)')
+        }
+        
+        setQualityLevels(prev => prev.map(level => (level.id === quality.id ? applyLiveReload(level, merged, playlist) : level)))
+      } catch (error) {
+        if (cancelled) return
+        logEvent(`Live playlist reload failed: ${error}`, 'warning')
+        state.lastReload = Date.now()
+        state.unchangedReloads++
+        timer = setTimeout(refresh, nextDelay(Date.now()))
+      }
     }
-  }, [isPlaying, bufferHealth, loadNextSegment])
+    
+    timer = setTimeout(refresh, nextDelay(Date.now()))
+    
+    return () => {
+      cancelled = true
+      abortController.abort()
+      if (timer) clearTimeout(timer)
+    }
+  }, [qualityLevels, currentQuality, manifestFormat, loader, lowLatencyMode, scheduler, logEvent])
+  
+  // Request pacing: wake up when playback has drained the buffer below the target, polling faster for LL-HLS parts
+  useEffect(() => {
+    if (!isPlaying) return
+    const pendingDuration = pendingDownloads.reduce((sum, load) => sum + load.end - load.start, 0)
+    const videoDelay = getRequestDelay(bufferHealth.currentBuffer + pendingDuration, bufferHealth.targetBuffer)
+    const audioDelay = activeAudioTrack
+      ? getRequestDelay(getAudioRequestedUntil() - (videoRef.current?.currentTime ?? 0), bufferHealth.targetBuffer)
+      : Infinity
+    const timer = setTimeout(() => {
+      scheduleDownloads()
+      scheduleAudioDownloads()
+      scheduleSubtitleDownloads()
+    }, Math.max(Math.min(videoDelay, audioDelay), lowLatencyMode ? LOW_LATENCY_LOAD_INTERVAL : MIN_REQUEST_INTERVAL))
+    return () => clearTimeout(timer)
+  }, [
+    isPlaying,
+    bufferHealth,
+    pendingDownloads,
+    pendingAudioDownloads,
+    pendingSubtitleDownloads,
+    activeAudioTrack,
+    lowLatencyMode,
+    getAudioRequestedUntil,
+    scheduleDownloads,
+    scheduleAudioDownloads,
+    scheduleSubtitleDownloads
+  ])
   
   // Player controls
-  const handlePlay = () => {
-    if (videoRef.current) {
-      videoRef.current.play()
+  const handlePlay = async () => {
+    const video = videoRef.current
+    if (!video) return
+    if (!firstFrameRef.current) {
+      playRequestedAtRef.current ??= performance.now()
+      qoeTrackerRef.current?.playRequested(playRequestedAtRef.current)
+    }
+    // The first frame waits for the startup buffer so playback does not stall right after it
+    if (startingUp) {
+      awaitingStartupRef.current = true
       setIsPlaying(true)
-      logEvent('Playback started')
+      logEvent(`Playback starts once ${getStartupBuffer()}s are buffered`)
+      return
     }
+    const playing = video.play()
+    setIsPlaying(true)
+    logEvent('Playback started')
+    await playing
   }
   
   const handlePause = () => {
+    awaitingStartupRef.current = false
     if (videoRef.current) {
       videoRef.current.pause()
       setIsPlaying(false)
@@ -732,7 +2405,112 @@ const AdaptiveBitratePlayer: React.FC = () => {
     }
   }
   
+  // Drops every load in flight and loads all tracks again from a segment of the current variant onwards
+  const restartLoadingAt = (segments: MediaSegment[], segmentIndex: number) => {
+    seekGenerationRef.current++
+    scheduler.cancelAll()
+    audioGenerationRef.current++
+    audioScheduler.cancelAll()
+    subtitleGenerationRef.current++
+    subtitleScheduler.cancelAll()
+    // Captions resume from the new position; cues already added stay in their tracks
+    captionDecoder.reset()
+    loadedPartsRef.current = null
+    endOfStreamLoggedRef.current = false
+    const segmentStart = getSegmentStartTime(segments, segmentIndex)
+    loadedUntilRef.current = segmentStart
+    audioLoadedUntilRef.current = segmentStart
+    subtitleLoadedUntilRef.current = segmentStart
+    playbackStartRef.current = segmentStart
+    // Skipped media behind the new position is loaded again
+    skippedRangesRef.current = skippedRangesRef.current.filter(range => range.end <= segmentStart)
+    setCurrentSegmentIndex(segmentIndex)
+    setBufferedRanges([])
+    // The buffer refills from empty like at startup, so it does not count as starving until it has filled again
+    bufferFilledRef.current = false
+    setBufferHealth(prev => ({ ...prev, currentBuffer: 0, isStarving: false }))
+  }
+  
+  // Seeks inside the buffer only move the playhead; anywhere else the buffer is flushed and loading restarts at the target
+  const handleSeek = (time: number) => {
+    const quality = qualityLevels[currentQuality]
+    const video = videoRef.current
+    if (!quality || !video) return
+    
+    const buffered = video.buffered.length > 0 ? toTimeRanges(video.buffered) : bufferedRanges
+    const plan = planSeek(quality.segments, time, buffered, loadedUntilRef.current)
+    video.currentTime = plan.time
+    setPlaybackPosition(plan.time)
+    if (plan.inBuffer) {
+      logEvent(`Seek to ${formatDuration(plan.time)} (already buffered)`)
+      return
+    }
+    
+    // Like at startup, the variant for the new position is picked once from the throughput estimate
+    const { allowed } = renditionFilter
+    const seekQuality = manualQualityOverride
+      ?? allowed[selectStartupQuality(allowed.map(index => abrQualityLevels[index]), bandwidthEstimator.getEstimate())]
+      ?? currentQuality
+    const level = qualityLevels[seekQuality] ?? quality
+    const segmentIndex = level === quality || plan.segmentIndex >= quality.segments.length
+      ? Math.min(plan.segmentIndex, level.segments.length)
+      : findSegmentIndexAtTime(level.segments, getSegmentStartTime(quality.segments, plan.segmentIndex) + SEGMENT_TIME_EPSILON)
+    if (level !== quality) {
+      setCurrentQuality(seekQuality)
+      setMetrics(prev => ({ ...prev, currentQuality: seekQuality, switchCount: prev.switchCount + 1 }))
+      logEvent(`Quality switch: ${formatQualityLabel(quality)} → ${formatQualityLabel(level)}`, 'info')
+      emitter.emit('qualitychange', { previous: currentQuality, current: seekQuality, level, manual: manualQualityOverride !== null })
+    }
+    
+    restartLoadingAt(level.segments, segmentIndex)
+    pipelineRef.current?.flush().catch(error => logEvent(`Buffer flush failed: ${error}`, 'warning'))
+    logEvent(`Seek to ${formatDuration(plan.time)}: buffer flushed, loading from segment #${level.segments[segmentIndex]?.sequenceNumber ?? 'end'}`)
+  }
+  
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault()
+      if (isPlaying) handlePause()
+      else handlePlay()
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault()
+      const step = (e.shiftKey ? LARGE_SEEK_STEP : SEEK_STEP) * (e.key === 'ArrowLeft' ? -1 : 1)
+      handleSeek((videoRef.current?.currentTime ?? playbackPosition) + step)
+    }
+  }
+  
+  // Audio restarts at the playhead in the new track; the old track's buffered audio is dropped so the switch is heard at once
+  const handleAudioTrackChange = (trackId: string) => {
+    const track = audioTracks.find(candidate => candidate.id === trackId)
+    if (!track) return
+    setAudioTrackId(trackId)
+    audioGenerationRef.current++
+    audioScheduler.cancelAll()
+    audioTransmuxer.reset()
+    audioInitKeyRef.current = null
+    audioLoadedUntilRef.current = Math.max(videoRef.current?.currentTime ?? 0, playbackStartRef.current)
+    const pipeline = pipelineRef.current
+    if (pipeline?.hasTrack('audio')) {
+      pipeline.remove('audio', 0, Infinity).catch(error => logEvent(`Audio buffer flush failed: ${error}`, 'warning'))
+    }
+    logEvent(`Audio track: ${formatAudioTrackLabel(track)}`)
+  }
+  
+  // Loading restarts at the playhead in the new track; cues of earlier selections stay in their own TextTracks
+  const handleSubtitleTrackChange = (trackId: string | null) => {
+    const track = subtitleTracks.find(candidate => candidate.id === trackId)
+    setSubtitleTrackId(track ? track.id : null)
+    subtitleGenerationRef.current++
+    subtitleScheduler.cancelAll()
+    subtitleLoadedUntilRef.current = Math.max(videoRef.current?.currentTime ?? 0, playbackStartRef.current)
+    logEvent(track ? `Subtitles: ${formatSubtitleTrackLabel(track)}` : 'Subtitles off')
+  }
+  
   const handleQualityOverride = (qualityIndex: number | null) => {
+    if (qualityIndex !== null && !isQualityAllowed(renditionFilter, qualityIndex)) {
+      logEvent(`Ignored quality ${qualityIndex}: not a variant this player can play`, 'warning')
+      return
+    }
     setManualQualityOverride(qualityIndex)
     if (qualityIndex !== null && qualityLevels[qualityIndex]) {
       logEvent(`Manual quality override: ${qualityLevels[qualityIndex].resolution}`)
@@ -741,6 +2519,123 @@ const AdaptiveBitratePlayer: React.FC = () => {
     }
   }
 
+  const handleNetworkProfileChange = (profileId: NetworkProfileId | 'trace') => {
+    setNetworkProfileId(profileId)
+    logEvent(`Network profile: ${profileId === 'trace' ? uploadedTraceProfile?.name : NETWORK_PROFILES[profileId].name} (seed ${networkSeed})`)
+  }
+  
+  const handleTraceUpload = async (file: File) => {
+    try {
+      const trace = parseNetworkTrace(await file.text(), file.name)
+      setUploadedTraceProfile(createTraceProfile('trace', trace))
+      setNetworkProfileId('trace')
+      logEvent(`Loaded network trace ${trace.name} (${trace.points.length} points)`)
+    } catch (error) {
+      logEvent(`Invalid network trace: ${error instanceof Error ? error.message : error}`, 'error')
+    }
+  }
+  
+  // Valid values apply at once and are saved; rejected ones keep the previous value and are listed under the settings
+  const updatePlayerConfig = (input: unknown) => {
+    const { config: updated, errors } = validatePlayerConfig(input, playerConfig)
+    setConfigErrors(errors)
+    setPlayerConfig(updated)
+    storePlayerConfig(getLocalStorage(), updated)
+  }
+  
+  const handleConfigFieldChange = (key: keyof PlayerConfig, text: string) => {
+    updatePlayerConfig({ ...playerConfig, [key]: text === '' ? NaN : Number(text) })
+  }
+  
+  const handleConfigImport = async (file: File) => {
+    const { config: imported, errors } = parsePlayerConfig(await file.text(), playerConfig)
+    setConfigErrors(errors)
+    setPlayerConfig(imported)
+    storePlayerConfig(getLocalStorage(), imported)
+    setConfigRevision(revision => revision + 1)
+    logEvent(`Imported player settings from ${file.name}${errors.length ? ` (${errors.length} rejected)` : ''}`, errors.length ? 'warning' : 'info')
+  }
+  
+  const handleConfigReset = () => {
+    setConfigErrors([])
+    setPlayerConfig(baseConfig.config)
+    storePlayerConfig(getLocalStorage(), null)
+    setConfigRevision(revision => revision + 1)
+    logEvent('Player settings reset')
+  }
+  
+  const handleAbrStrategyChange = (strategyId: AbrStrategyId) => {
+    setAbrStrategyId(strategyId)
+    logEvent(`ABR strategy: ${ABR_STRATEGY_NAMES[strategyId]}`)
+  }
+  
+  // Clearing the source lets the init effect's cleanup release the MediaSource, pipeline and DRM sessions
+  const handleDestroy = () => {
+    videoRef.current?.pause()
+    setIsPlaying(false)
+    seekGenerationRef.current++
+    scheduler.cancelAll()
+    audioGenerationRef.current++
+    audioScheduler.cancelAll()
+    subtitleGenerationRef.current++
+    subtitleScheduler.cancelAll()
+    setSource(null)
+    setQualityLevels([])
+    setAudioTracks([])
+    setSubtitleTracks([])
+    logEvent('Player destroyed')
+    emitter.clear()
+  }
+  
+  const stats = useMemo<PlayerStats>(() => ({
+    position: playbackPosition,
+    bufferAhead: bufferHealth.currentBuffer,
+    isPlaying,
+    qualityIndex: currentQuality,
+    manualQuality: manualQualityOverride,
+    estimatedBandwidth,
+    switchCount: metrics.switchCount,
+    failedLoads: metrics.failedLoads
+  }), [
+    playbackPosition,
+    bufferHealth.currentBuffer,
+    isPlaying,
+    currentQuality,
+    manualQualityOverride,
+    estimatedBandwidth,
+    metrics.switchCount,
+    metrics.failedLoads
+  ])
+  useEffect(() => emitter.emit('statsupdate', stats), [stats, emitter])
+  
+  // The handle keeps its identity across renders while its methods reach this render's handlers and state
+  const controls: Omit<PlayerHandle, 'on' | 'off'> = {
+    load: setSource,
+    play: handlePlay,
+    pause: handlePause,
+    seek: handleSeek,
+    setQuality: handleQualityOverride,
+    setAbrStrategy: handleAbrStrategyChange,
+    getStats: () => stats,
+    getQualityLevels: () => qualityLevels,
+    destroy: handleDestroy
+  }
+  const controlsRef = useRef(controls)
+  controlsRef.current = controls
+  useImperativeHandle(ref, () => ({
+    load: nextSrc => controlsRef.current.load(nextSrc),
+    play: () => controlsRef.current.play(),
+    pause: () => controlsRef.current.pause(),
+    seek: time => controlsRef.current.seek(time),
+    setQuality: qualityIndex => controlsRef.current.setQuality(qualityIndex),
+    setAbrStrategy: strategyId => controlsRef.current.setAbrStrategy(strategyId),
+    getStats: () => controlsRef.current.getStats(),
+    getQualityLevels: () => controlsRef.current.getQualityLevels(),
+    on: emitter.on,
+    off: emitter.off,
+    destroy: () => controlsRef.current.destroy()
+  }), [emitter])
+
   const getLogColor = (type: LogType): string => {
     switch (type) {
       case 'error': return '#ef4444'
@@ -756,9 +2651,30 @@ const AdaptiveBitratePlayer: React.FC = () => {
     return '#10b981'
   }
 
-  const progress = qualityLevels[currentQuality] 
-    ? (currentSegmentIndex / qualityLevels[currentQuality].segments.length) * 100 
-    : 0
+  const activeSegments = qualityLevels[currentQuality]?.segments ?? []
+  // The estimator window only changes together with estimatedBandwidth, which triggers this render
+  const throughputP10 = bandwidthEstimator.getPercentile(10)
+  const throughputP90 = bandwidthEstimator.getPercentile(90)
+  const isLive = qualityLevels[currentQuality]?.live ?? false
+  const chartTimes = metricHistory.map(sample => sample.time)
+  const exclusionReasons = new Map(renditionFilter.excluded.map(exclusion => [exclusion.quality, exclusion.reasons]))
+  const describeExclusion = (qualityIndex: number) =>
+    exclusionReasons.get(qualityIndex)?.map(reason => EXCLUSION_REASON_LABELS[reason]).join(', ')
+  const totalDuration = getTotalDuration(activeSegments)
+  const loadedDuration = getSegmentStartTime(activeSegments, currentSegmentIndex)
+  const windowStart = activeSegments[0]?.start ?? 0
+  const displayedPosition = scrubTime ?? playbackPosition
+  const toTimelinePercent = (time: number) => getTimelinePercent(time, windowStart, totalDuration)
+  const getPointerTime = (e: React.PointerEvent<HTMLDivElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = rect.width > 0 ? Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) : 0
+    return windowStart + fraction * (totalDuration - windowStart)
+  }
+  
+  // Live position: the playhead sits one buffer length behind what has been loaded
+  const playheadTime = Math.max(windowStart, loadedDuration - bufferHealth.currentBuffer)
+  const distanceFromLiveEdge = Math.max(0, totalDuration - playheadTime)
+  const liveLatency = isLive ? getLiveLatency(activeSegments, playheadTime, Date.now()) : null
 
   return (
     <div style={styles.container}>
@@ -774,28 +2690,9 @@ const AdaptiveBitratePlayer: React.FC = () => {
         aria-label="Adaptive bitrate video player"
         aria-describedby="player-status"
         tabIndex={0}
-        onKeyDown={(e) => {
-          if (e.key === ' ' || e.key === 'Enter') {
-            e.preventDefault()
-            isPlaying ? handlePause() : handlePlay()
-          }
-        }}
-      >
-        {/* Add caption track for accessibility */}
-        <track
-          kind="captions"
-          src="data:text/vtt,WEBVTT%0A%0A00:00:00.000 --> 00:00:30.000%0AAdaptive bitrate video content"
-          srcLang="en"
-          label="English"
-          default
-        />
-        <track
-          kind="descriptions"
-          src="data:text/vtt,WEBVTT%0A%0A00:00:00.000 --> 00:00:30.000%0AVideo demonstrates adaptive bitrate streaming technology"
-          srcLang="en"
-          label="Audio Description"
-        />
-      </video>
+        onKeyDown={handleKeyDown}
+        onTimeUpdate={(e) => setPlaybackPosition(e.currentTarget.currentTime)}
+      />
 
           
           {/* Hidden status for screen readers */}
@@ -816,7 +2713,7 @@ const AdaptiveBitratePlayer: React.FC = () => {
           </div>
           
         
-      {loading && (
+      {(loading || (pendingDownloads.length > 0 && bufferHealth.isStarving)) && (
         <output 
           style={styles.loadingOverlay}
           aria-label="Loading video content"
@@ -838,9 +2735,57 @@ const AdaptiveBitratePlayer: React.FC = () => {
 
         </div>
         
-        {/* Progress Bar */}
-        <div style={styles.progressBar}>
-          <div style={{...styles.progressFill, width: `${progress}%`}}></div>
+        {/* Timeline: played, buffered and currently-loading ranges; click or drag to seek */}
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Seek"
+          aria-valuemin={Math.floor(windowStart)}
+          aria-valuemax={Math.floor(totalDuration)}
+          aria-valuenow={Math.floor(displayedPosition)}
+          aria-valuetext={`${formatDuration(displayedPosition)} of ${formatDuration(totalDuration)}`}
+          style={styles.timeline}
+          onKeyDown={handleKeyDown}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId)
+            setScrubTime(getPointerTime(e))
+          }}
+          onPointerMove={(e) => {
+            if (scrubTime !== null) setScrubTime(getPointerTime(e))
+          }}
+          onPointerUp={(e) => {
+            if (scrubTime === null) return
+            setScrubTime(null)
+            handleSeek(getPointerTime(e))
+          }}
+          onPointerCancel={() => setScrubTime(null)}
+        >
+          {bufferedRanges.map(range => (
+            <div
+              key={`${range.start}-${range.end}`}
+              style={{
+                ...styles.timelineBuffered,
+                left: `${toTimelinePercent(range.start)}%`,
+                width: `${toTimelinePercent(range.end) - toTimelinePercent(range.start)}%`
+              }}
+            />
+          ))}
+          {pendingDownloads.map(load => (
+            <div
+              key={`${load.start}-${load.uri}`}
+              style={{
+                ...styles.timelineLoading,
+                left: `${toTimelinePercent(load.start)}%`,
+                width: `${toTimelinePercent(load.end) - toTimelinePercent(load.start)}%`
+              }}
+            />
+          ))}
+          <div style={{ ...styles.timelinePlayed, width: `${toTimelinePercent(displayedPosition)}%` }} />
+          <div style={{ ...styles.timelineThumb, left: `${toTimelinePercent(displayedPosition)}%` }} />
+        </div>
+        <div style={styles.timelineLabels}>
+          <span>{formatDuration(displayedPosition)}</span>
+          <span>{isLive ? `Live window ${formatDuration(windowStart)}-${formatDuration(totalDuration)}` : formatDuration(totalDuration)}</span>
         </div>
         
         {/* Controls */}
@@ -874,18 +2819,162 @@ const AdaptiveBitratePlayer: React.FC = () => {
           >
             <option value="auto">🤖 Auto Quality</option>
             {qualityLevels.map((quality, index) => (
-              <option key={quality.id} value={index}>
-                📺 {quality.resolution} ({(quality.bandwidth / 1000000).toFixed(1)}Mbps)
+              <option key={quality.id} value={index} disabled={exclusionReasons.get(index)?.includes('codec')}>
+                📺 {formatQualityLabel(quality)}{exclusionReasons.has(index) ? ` (${describeExclusion(index)})` : ''}
               </option>
             ))}
           </select>
+          
+          {audioTracks.length > 1 && (
+            <select
+              value={audioTrackId ?? ''}
+              onChange={(e) => handleAudioTrackChange(e.target.value)}
+              title="Audio track"
+              style={styles.select}
+            >
+              {audioTracks.map(track => (
+                <option key={track.id} value={track.id}>
+                  🔊 {formatAudioTrackLabel(track)}
+                </option>
+              ))}
+            </select>
+          )}
+          
+          {subtitleTracks.length > 0 && (
+            <select
+              value={subtitleTrackId ?? ''}
+              onChange={(e) => handleSubtitleTrackChange(e.target.value || null)}
+              title="Subtitles and captions"
+              style={styles.select}
+            >
+              <option value="">💬 Subtitles off</option>
+              {subtitleTracks.map(track => (
+                <option key={track.id} value={track.id}>
+                  💬 {formatSubtitleTrackLabel(track)}
+                </option>
+              ))}
+            </select>
+          )}
+          
+          <select
+            value={abrStrategyId}
+            onChange={(e) => handleAbrStrategyChange(e.target.value as AbrStrategyId)}
+            disabled={manualQualityOverride !== null}
+            title="Adaptive bitrate algorithm"
+            style={styles.select}
+          >
+            {(Object.keys(ABR_STRATEGY_NAMES) as AbrStrategyId[]).map(id => (
+              <option key={id} value={id}>
+                🧠 {ABR_STRATEGY_NAMES[id]}
+              </option>
+            ))}
+          </select>
+          
+          {isLive && (
+            <button
+              onClick={() => {
+                setLowLatencyMode(prev => !prev)
+                logEvent(`Low-latency mode ${lowLatencyMode ? 'disabled' : 'enabled'}`)
+              }}
+              aria-pressed={lowLatencyMode}
+              style={{
+                ...styles.button,
+                ...(lowLatencyMode ? styles.primaryButton : styles.secondaryButton)
+              }}
+            >
+              ⚡ Low Latency: {lowLatencyMode ? 'On' : 'Off'}
+            </button>
+          )}
         </div>
+        
+        {/* Caption styling */}
+        {subtitleTrackId !== null && (
+          <div style={styles.controls}>
+            <label style={styles.inlineLabel}>
+              Caption size
+              <select
+                value={captionStyle.fontSize}
+                onChange={(e) => setCaptionStyle(prev => ({ ...prev, fontSize: parseInt(e.target.value) }))}
+                style={styles.select}
+              >
+                {CAPTION_FONT_SIZES.map(size => (
+                  <option key={size} value={size}>{size}%</option>
+                ))}
+              </select>
+            </label>
+            <label style={styles.inlineLabel}>
+              Background
+              <select
+                value={captionStyle.background}
+                onChange={(e) => setCaptionStyle(prev => ({ ...prev, background: e.target.value as CaptionBackground }))}
+                style={styles.select}
+              >
+                {(Object.keys(CAPTION_BACKGROUNDS) as CaptionBackground[]).map(background => (
+                  <option key={background} value={background}>{CAPTION_BACKGROUNDS[background].label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+        
+        {/* Network Emulation */}
+        {simulatedNetwork && (
+          <div style={styles.controls}>
+            <select
+              value={networkProfileId}
+              onChange={(e) => handleNetworkProfileChange(e.target.value as NetworkProfileId | 'trace')}
+              title="Emulated network profile"
+              style={styles.select}
+            >
+              {(Object.keys(NETWORK_PROFILES) as NetworkProfileId[]).map(id => (
+                <option key={id} value={id}>
+                  📶 {NETWORK_PROFILES[id].name}
+                </option>
+              ))}
+              {uploadedTraceProfile && (
+                <option value="trace">📈 {uploadedTraceProfile.name}</option>
+              )}
+            </select>
+            
+            <label style={styles.inlineLabel}>
+              Seed
+              <input
+                type="number"
+                value={networkSeed}
+                onChange={(e) => setNetworkSeed(parseInt(e.target.value) || 0)}
+                style={styles.numberInput}
+              />
+            </label>
+            
+            <label style={{ ...styles.button, ...styles.secondaryButton }}>
+              📂 Load Trace (CSV/JSON)
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleTraceUpload(file)
+                  e.target.value = ''
+                }}
+                style={{ display: 'none' }}
+              />
+            </label>
+          </div>
+        )}
       </div>
       
       {/* Metrics Dashboard */}
       <div style={styles.metricsGrid}>
         <div style={styles.metricCard}>
           <h3 style={styles.metricTitle}>Current Status</h3>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>Protocol</span>
+            <span style={styles.metricValue}>{manifestFormat.toUpperCase()}</span>
+          </div>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>ABR Strategy</span>
+            <span style={styles.metricValue}>{manualQualityOverride !== null ? 'Manual' : abrStrategy.name}</span>
+          </div>
           <div style={styles.metricItem}>
             <span style={styles.metricLabel}>Quality</span>
             <span style={styles.metricValue}>
@@ -893,7 +2982,7 @@ const AdaptiveBitratePlayer: React.FC = () => {
             </span>
           </div>
           <div style={styles.metricItem}>
-            <span style={styles.metricLabel}>Bandwidth</span>
+            <span style={styles.metricLabel}>{simulatedNetwork ? 'Simulated Bandwidth' : 'Bandwidth'}</span>
             <span 
               style={{
                 ...styles.metricValue, 
@@ -903,6 +2992,12 @@ const AdaptiveBitratePlayer: React.FC = () => {
               {(networkCondition.bandwidth / 1000000).toFixed(1)} Mbps
             </span>
           </div>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>Estimated Throughput</span>
+            <span style={styles.metricValue}>
+              {estimatedBandwidth !== null ? `${(estimatedBandwidth / 1000000).toFixed(1)} Mbps` : 'Measuring…'}
+            </span>
+          </div>
           <div style={styles.metricItem}>
             <span style={styles.metricLabel}>Buffer Health</span>
             <div style={styles.statusIndicator}>
@@ -914,12 +3009,36 @@ const AdaptiveBitratePlayer: React.FC = () => {
               </span>
             </div>
           </div>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>Startup</span>
+            <span style={styles.metricValue}>
+              {startupSelection && qualityLevels[startupSelection.quality]
+                ? `${qualityLevels[startupSelection.quality].resolution || formatQualityLabel(qualityLevels[startupSelection.quality])} (${STARTUP_SOURCE_LABELS[startupSelection.source]})`
+                : 'N/A'}
+            </span>
+          </div>
           <div style={styles.metricItem}>
             <span style={styles.metricLabel}>Latency</span>
             <span style={styles.metricValue}>
               {networkCondition.latency.toFixed(0)}ms
             </span>
           </div>
+          {isLive && (
+            <>
+              <div style={styles.metricItem}>
+                <span style={styles.metricLabel}>Live Latency</span>
+                <span style={styles.metricValue}>
+                  {liveLatency !== null ? `${liveLatency.toFixed(1)}s` : 'N/A'}
+                </span>
+              </div>
+              <div style={styles.metricItem}>
+                <span style={styles.metricLabel}>Distance from Live Edge</span>
+                <span style={styles.metricValue}>
+                  {distanceFromLiveEdge.toFixed(1)}s
+                </span>
+              </div>
+            </>
+          )}
         </div>
         
         <div style={styles.metricCard}>
@@ -929,29 +3048,200 @@ const AdaptiveBitratePlayer: React.FC = () => {
             <span style={styles.metricValue}>{metrics.switchCount}</span>
           </div>
           <div style={styles.metricItem}>
-            <span style={styles.metricLabel}>Avg Bandwidth</span>
+            <span style={styles.metricLabel}>Avg Throughput</span>
             <span style={styles.metricValue}>
               {(metrics.avgBandwidth / 1000000).toFixed(1)} Mbps
             </span>
           </div>
           <div style={styles.metricItem}>
-            <span style={styles.metricLabel}>Dropped Frames</span>
+            <span style={styles.metricLabel}>Throughput p10 / p90</span>
+            <span style={styles.metricValue}>
+              {throughputP10 !== null && throughputP90 !== null
+                ? `${(throughputP10 / 1000000).toFixed(1)} / ${(throughputP90 / 1000000).toFixed(1)} Mbps`
+                : 'N/A'}
+            </span>
+          </div>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>Failed Loads</span>
             <span style={{
               ...styles.metricValue,
-              color: metrics.droppedFrames > 0 ? '#ef4444' : '#10b981'
+              color: metrics.failedLoads > 0 ? '#ef4444' : '#10b981'
             }}>
-              {metrics.droppedFrames}
+              {metrics.failedLoads}
             </span>
           </div>
           <div style={styles.metricItem}>
             <span style={styles.metricLabel}>Progress</span>
             <span style={styles.metricValue}>
-              {currentSegmentIndex}/{qualityLevels[currentQuality]?.segments.length || 0}
+              {isLive ? '🔴 LIVE' : `${formatDuration(loadedDuration)}/${formatDuration(totalDuration)}`}
+            </span>
+          </div>
+        </div>
+        
+        <div style={styles.metricCard}>
+          <h3 style={styles.metricTitle}>Renditions</h3>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>Player Size</span>
+            <span style={styles.metricValue}>
+              {playerSize ? `${playerSize.width}×${playerSize.height} px` : 'N/A'}
+              {powerState.hidden ? ' · hidden' : ''}
+              {powerState.batterySaver ? ' · 🔋 saver' : ''}
+            </span>
+          </div>
+          {qualityLevels.map((quality, index) => (
+            <div key={quality.id} style={styles.metricItem}>
+              <span style={styles.metricLabel}>{formatQualityLabel(quality)}</span>
+              <span style={{
+                ...styles.metricValue,
+                color: exclusionReasons.has(index) ? '#ef4444' : '#10b981'
+              }}>
+                {exclusionReasons.has(index) ? `⛔ ${describeExclusion(index)}` : '✅ Allowed'}
+              </span>
+            </div>
+          ))}
+        </div>
+        
+        <div style={styles.metricCard}>
+          <h3 style={styles.metricTitle}>Quality of Experience</h3>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>Startup Time</span>
+            <span style={styles.metricValue}>
+              {qoeReport?.startupTime != null ? `${qoeReport.startupTime.toFixed(2)}s` : 'N/A'}
+            </span>
+          </div>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>Rebuffers</span>
+            <span style={{
+              ...styles.metricValue,
+              color: qoeReport?.rebufferCount ? '#ef4444' : '#10b981'
+            }}>
+              {qoeReport ? `${qoeReport.rebufferCount} (${qoeReport.rebufferDuration.toFixed(1)}s)` : 'N/A'}
+            </span>
+          </div>
+          <div style={styles.metricItem}>
+            <span style={styles.metricLabel}>Time-Weighted Bitrate</span>
+            <span style={styles.metricValue}>
+              {qoeReport?.playTime ? `${(qoeReport.timeWeightedBitrate / 1000000).toFixed(2)} Mbps` : 'N/A'}
+            </span>
+          </div>
+          {qoeReport?.renditions.filter(rendition => rendition.seconds > 0).map(rendition => (
+            <div key={rendition.qualityId} style={styles.metricItem}>
+              <span style={styles.metricLabel}>Time at {rendition.label}</span>
+              <span style={styles.metricValue}>{formatDuration(rendition.seconds)}</span>
+            </div>
+          ))}
+          <div style={{ ...styles.metricItem, gap: '8px' }}>
+            <span style={styles.metricLabel}>{qoeHistory.length} saved session{qoeHistory.length === 1 ? '' : 's'}</span>
+            <span style={{ display: 'flex', gap: '8px' }}>
+              <button
+                onClick={() => downloadTextFile('qoe-sessions.json', formatQoeJson(qoeHistory), 'application/json')}
+                disabled={qoeHistory.length === 0}
+                style={{ ...styles.button, ...(qoeHistory.length === 0 ? styles.disabledButton : styles.secondaryButton) }}
+              >
+                Export JSON
+              </button>
+              <button
+                onClick={() => downloadTextFile('qoe-sessions.csv', formatQoeCsv(qoeHistory), 'text/csv')}
+                disabled={qoeHistory.length === 0}
+                style={{ ...styles.button, ...(qoeHistory.length === 0 ? styles.disabledButton : styles.secondaryButton) }}
+              >
+                Export CSV
+              </button>
             </span>
           </div>
         </div>
       </div>
       
+      {/* ABR Charts */}
+      <div style={styles.card}>
+        <div style={styles.chartGrid}>
+          <TimeSeriesChart
+            title="Throughput"
+            times={chartTimes}
+            series={[
+              { label: simulatedNetwork ? 'Simulated bandwidth' : 'Bandwidth', color: '#94a3b8', values: metricHistory.map(sample => sample.actualBandwidth) },
+              { label: 'Estimated', color: '#3b82f6', values: metricHistory.map(sample => sample.estimatedBandwidth) }
+            ]}
+            formatValue={formatMbps}
+          />
+          <TimeSeriesChart
+            title="Buffer Level"
+            times={chartTimes}
+            series={[{ label: 'Buffer', color: '#10b981', values: metricHistory.map(sample => sample.buffer) }]}
+            thresholds={[
+              { label: 'Starvation', value: lowLatencyMode ? LOW_LATENCY_STARVATION_THRESHOLD : playerConfig.starvationThreshold, color: '#ef4444' },
+              { label: 'Target', value: bufferHealth.targetBuffer, color: '#94a3b8' }
+            ]}
+            formatValue={value => `${value.toFixed(value < 10 ? 1 : 0)}s`}
+          />
+          <TimeSeriesChart
+            title="Selected Bitrate"
+            times={chartTimes}
+            series={[{ label: 'Bitrate', color: '#8b5cf6', values: metricHistory.map(sample => sample.bitrate), step: true }]}
+            markers={getSwitchMarkers(metricHistory).map(marker => ({
+              time: marker.time,
+              value: marker.bitrate,
+              color: marker.up ? '#10b981' : '#f59e0b',
+              label: `${marker.up ? 'Up' : 'Down'}-switch to ${formatMbps(marker.bitrate)} at ${formatDuration(marker.time)}`
+            }))}
+            formatValue={formatMbps}
+          />
+        </div>
+      </div>
+      
+      {/* Player Settings */}
+      <div style={styles.card}>
+        <h3 style={styles.metricTitle}>⚙️ Player Settings</h3>
+        <div style={styles.settingsGrid}>
+          {(Object.keys(PLAYER_CONFIG_FIELDS) as (keyof PlayerConfig)[]).map(key => {
+            const field = PLAYER_CONFIG_FIELDS[key]
+            return (
+              <label key={key} style={{ ...styles.inlineLabel, justifyContent: 'space-between' }}>
+                {field.label}{field.unit ? ` (${field.unit})` : ''}
+                <input
+                  // Uncontrolled so a half-typed value is not overwritten; the revision refreshes it after import and reset
+                  key={`${key}-${configRevision}`}
+                  type="number"
+                  defaultValue={playerConfig[key]}
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  onChange={(e) => handleConfigFieldChange(key, e.target.value)}
+                  style={styles.numberInput}
+                />
+              </label>
+            )
+          })}
+        </div>
+        {configErrors.map(error => (
+          <div key={error} style={styles.settingsError}>⚠️ {error}</div>
+        ))}
+        <div style={{ ...styles.controls, marginBottom: 0 }}>
+          <button
+            onClick={() => downloadTextFile('player-config.json', formatPlayerConfig(playerConfig), 'application/json')}
+            style={{ ...styles.button, ...styles.secondaryButton }}
+          >
+            Export JSON
+          </button>
+          <label style={{ ...styles.button, ...styles.secondaryButton }}>
+            📂 Import JSON
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleConfigImport(file)
+                e.target.value = ''
+              }}
+              style={{ display: 'none' }}
+            />
+          </label>
+          <button onClick={handleConfigReset} style={{ ...styles.button, ...styles.secondaryButton }}>
+            Reset
+          </button>
+        </div>
+      </div>
+      
       {/* Event Logs */}
       <div style={styles.card}>
         <h3 style={styles.metricTitle}>📝 Event Log</h3>
@@ -1003,6 +3293,11 @@ const AdaptiveBitratePlayer: React.FC = () => {
           box-shadow: 0 4px 8px rgba(0,0,0,0.15);
         }
         
+        video::cue {
+          font-size: ${captionStyle.fontSize}%;
+          background-color: ${CAPTION_BACKGROUNDS[captionStyle.background].color};
+        }
+        
         select:focus {
           outline: none;
           border-color: #3b82f6;
@@ -1026,20 +3321,819 @@ if (typeof window === 'undefined') {
     if (!condition) throw new Error(`Test failed: ${message}`)
   }
   
+  const createLadder = (bandwidths: number[], targetDuration = 10): QualityLevel[] => bandwidths.map(bandwidth => ({
+    id: `quality_${bandwidth}`, bandwidth, resolution: '', codecs: [], url: '', live: false, targetDuration, segments: []
+  }))
+  
+  const createMemoryStorage = () => {
+    const entries = new Map<string, string>()
+    return {
+      entries,
+      getItem: (key: string) => entries.get(key) ?? null,
+      setItem: (key: string, value: string) => { entries.set(key, value) },
+      removeItem: (key: string) => { entries.delete(key) }
+    }
+  }
+  
   const testHLSParsing = async () => {
-    const qualities = await parseHLSManifest(MOCK_HLS_MANIFEST)
+    const mockLoader = createMockLoader(() => ({ bandwidth: 2000000, latency: 50, packetLoss: 0.01 }))
+    const qualities = await parseHLSManifest(MOCK_HLS_MANIFEST, MOCK_STREAM_URL, mockLoader)
     assert(qualities.length === 4, 'Should parse 4 quality levels')
     assert(qualities[0].bandwidth === 800000, 'First quality should be 800k')
     assert(qualities[3].bandwidth === 5000000, 'Last quality should be 5M')
     assert(qualities.every(q => q.id.startsWith('quality_')), 'All qualities should have stable IDs')
+    assert(qualities[0].url === `${MOCK_STREAM_BASE}stream_360p.m3u8`, 'Variant URIs should resolve against the manifest URL')
+    assert(qualities[0].segments[0].uri === `${MOCK_STREAM_BASE}segment_360p_001.ts`, 'Segment URIs should resolve against the playlist URL')
+    assert(resolveUrl('../b/seg.ts', 'https://cdn.example.com/a/x.m3u8') === 'https://cdn.example.com/b/seg.ts', 'Should resolve parent-relative URIs')
+    assert(qualities[3].frameRate === 60, 'Should parse FRAME-RATE')
+    assert(qualities[0].codecs.join(',') === 'avc1.42e01e,mp4a.40.2', 'Should keep commas inside quoted CODECS')
+
+    const attributes = parseAttributeList('BANDWIDTH=1000,CODECS="avc1.640028,mp4a.40.2",RESOLUTION=1920x1080,NAME="a, b"')
+    assert(attributes['CODECS'] === 'avc1.640028,mp4a.40.2', 'Quoted values should survive commas')
+    assert(attributes['NAME'] === 'a, b', 'Quoted values should keep inner whitespace')
+    assert(attributes['RESOLUTION'] === '1920x1080', 'Unquoted values should be parsed')
+
+    const master = parseMasterPlaylist(`#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Deutsch",LANGUAGE="de",URI="audio_de.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=64000,CODECS="mp4a.40.2",AUDIO="aud"
+audio_only.m3u8`)
+    assert(master.variants.length === 1, 'Should keep variants without RESOLUTION')
+    assert(master.variants[0].audioGroup === 'aud', 'Should parse AUDIO group reference')
+    assert(master.renditions[0]?.language === 'de', 'Should parse EXT-X-MEDIA renditions')
     console.log('✅ HLS parsing tests passed')
   }
   
+  const testMediaPlaylistParsing = () => {
+    const playlist = parseMediaPlaylist(`#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:100
+#EXT-X-MAP:URI="init.mp4",BYTERANGE="720@0"
+#EXT-X-PROGRAM-DATE-TIME:2024-01-01T00:00:00.000Z
+#EXTINF:6.0,
+#EXT-X-BYTERANGE:1000@720
+media.mp4
+#EXTINF:4.5,
+#EXT-X-BYTERANGE:800
+media.mp4
+#EXT-X-DISCONTINUITY
+#EXTINF:5.0,ad
+ad_001.ts
+#EXT-X-ENDLIST`)
+    assert(playlist.segments.length === 3, 'Should parse 3 segments')
+    assert(playlist.totalDuration === 15.5, 'Should sum real EXTINF durations')
+    assert(playlist.segments[1].start === 6, 'Segment start should accumulate previous durations')
+    assert(playlist.segments[2].sequenceNumber === 102, 'Sequence numbers should follow EXT-X-MEDIA-SEQUENCE')
+    assert(playlist.segments[1].byteRange?.offset === 1720, 'Byte range without offset should continue the previous range')
+    assert(playlist.segments[2].discontinuity && playlist.segments[2].discontinuitySequence === 1, 'Should flag discontinuities')
+    assert(playlist.segments[1].programDateTime === Date.parse('2024-01-01T00:00:06.000Z'), 'Program date time should extrapolate')
+    assert(playlist.segments[0].initSegment?.uri === 'init.mp4', 'Should attach EXT-X-MAP init segment')
+    assert(findSegmentIndexAtTime(playlist.segments, 7) === 1, 'Time lookup should use real durations')
+    assert(playlist.endList, 'Should detect EXT-X-ENDLIST')
+    console.log('✅ Media playlist parsing tests passed')
+  }
+  
+  const testLivePlaylist = () => {
+    const now = Date.now()
+    const first = parseMediaPlaylist(generateMockLivePlaylist('live_720p', now))
+    const second = parseMediaPlaylist(generateMockLivePlaylist('live_720p', now + 8000))
+    assert(isLivePlaylist(first), 'Playlist without ENDLIST should be live')
+    
+    const merged = mergeLivePlaylist(first.segments, second)
+    assert(merged.added === 2 && merged.removed === 2, 'Window should slide by two segments')
+    assert(merged.segments[0].start === first.segments[2].start, 'Timeline should stay continuous across reloads')
+    
+    const startIndex = getLiveEdgeStartIndex(first.segments, first.targetDuration)
+    assert(getTotalDuration(first.segments) - first.segments[startIndex].start >= first.targetDuration * 3, 'Should start three target durations from the edge')
+    
+    const state = { lastReload: now, lastChange: now, unchangedReloads: 1 }
+    assert(getReloadDelay(state, 4, now) === 2000, 'Unchanged playlists should reload after half a target duration')
+    assert(isPlaylistStale(state, 4, now + 13000), 'Should detect playlists that stopped updating')
+    console.log('✅ Live playlist tests passed')
+  }
+  
+  const testLowLatencyPlaylist = () => {
+    const playlist = parseMediaPlaylist(generateMockLowLatencyPlaylist('ll_720p', Date.now()), `${MOCK_LL_STREAM_BASE}ll_720p.m3u8`)
+    const lowLatency = getLowLatencyDetails(playlist)
+    assert(lowLatency?.partTarget === 0.5, 'Should parse EXT-X-PART-INF')
+    assert(lowLatency?.serverControl.canBlockReload === true, 'Should parse CAN-BLOCK-RELOAD')
+    assert(lowLatency?.serverControl.partHoldBack === 1.5, 'Should parse PART-HOLD-BACK')
+    assert(playlist.segments[playlist.segments.length - 1].parts?.length === 4, 'Parts should attach to their segment')
+    assert(playlist.preloadHint?.type === 'PART', 'Should parse EXT-X-PRELOAD-HINT')
+    
+    const request = getNextBlockingRequest(playlist.segments, lowLatency!)
+    const lastSequence = playlist.segments[playlist.segments.length - 1].sequenceNumber
+    assert(request.msn === lastSequence + 1 && request.part === playlist.pendingParts.length, 'Should block for the next part')
+    const url = buildBlockingReloadUrl('https://cdn.example.com/ll.m3u8?token=1', { msn: 10, part: 2 })
+    assert(url === 'https://cdn.example.com/ll.m3u8?token=1&_HLS_msn=10&_HLS_part=2', 'Should append delivery directives')
+    
+    const lastIndex = playlist.segments.length - 1
+    const resumed = getNextLoadTarget(playlist.segments, lastIndex, lowLatency, { sequenceNumber: lastSequence, count: 2 })
+    assert(resumed?.kind === 'part' && resumed.partIndex === 2, 'Should continue a segment part by part')
+    const done = getNextLoadTarget(playlist.segments, lastIndex, lowLatency, { sequenceNumber: lastSequence, count: 4 })
+    assert(done?.kind === 'loaded', 'Should not reload a segment fetched as parts')
+    console.log('✅ Low-latency playlist tests passed')
+  }
+  
+  const testDashParsing = () => {
+    const manifest = parseDashManifest(`<?xml version="1.0"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT12S">
+  <BaseURL>media/</BaseURL>
+  <Period>
+    <AdaptationSet contentType="video" mimeType="video/mp4" codecs="avc1.64001f" frameRate="30000/1001">
+      <SegmentTemplate media="$RepresentationID$/seg_$Number%03d$.m4s" initialization="$RepresentationID$/init.mp4" duration="4" startNumber="1"/>
+      <Representation id="v720" bandwidth="3000000" width="1280" height="720"/>
+      <Representation id="v360" bandwidth="800000" width="640" height="360"/>
+    </AdaptationSet>
+    <AdaptationSet contentType="audio" lang="fr" mimeType="audio/mp4">
+      <Representation id="a1" bandwidth="128000" codecs="mp4a.40.2">
+        <SegmentTemplate media="a_$Time$.m4s" timescale="1000">
+          <SegmentTimeline><S t="0" d="6000" r="1"/></SegmentTimeline>
+        </SegmentTemplate>
+      </Representation>
+    </AdaptationSet>
+    <AdaptationSet mimeType="video/mp4">
+      <Representation id="list" bandwidth="400000" width="320" height="180">
+        <SegmentList duration="6"><SegmentURL media="l1.mp4"/><SegmentURL media="l2.mp4" mediaRange="100-199"/></SegmentList>
+      </Representation>
+    </AdaptationSet>
+  </Period>
+</MPD>`, 'https://cdn.example.com/vod/manifest.mpd')
+    assert(manifest.qualityLevels.length === 3, 'Should map video representations to quality levels')
+    assert(manifest.qualityLevels[0].segments[1].byteRange?.length === 100, 'Should parse SegmentList media ranges')
+    const v360 = manifest.qualityLevels[1]
+    assert(v360.segments.length === 3, 'Number-based template should cover the presentation duration')
+    assert(v360.segments[0].uri === 'https://cdn.example.com/vod/media/v360/seg_001.m4s', 'Should expand $Number%03d$ against BaseURL')
+    assert(Math.abs((v360.frameRate ?? 0) - 29.97) < 0.01, 'Should parse fractional frame rates')
+    assert(manifest.renditions[0]?.language === 'fr', 'Audio adaptation sets should become renditions')
+    assert(manifest.audioTracks[0]?.segments.length === 2 && manifest.audioTracks[0].bandwidth === 128000,
+      'Audio representations should become selectable tracks with their own segments')
+    assert(parseIsoDuration('PT1H2M3.5S') === 3723.5, 'Should parse ISO 8601 durations')
+    assert(fillTemplate('a_$Time$_$$.m4s', { Time: 6000 }) === 'a_6000_$.m4s', 'Should expand $Time$ and unescape $$')
+    assert(detectManifestFormat('<?xml version="1.0"?><MPD>', 'x') === 'dash', 'Should sniff MPD content')
+    assert(detectManifestFormat('#EXTM3U', 'x.mpd') === 'hls', 'Content should win over extension')
+    const quoted = parseXml(`<Period><Label title="a > b" note='c>d'/><AdaptationSet/></Period>`)
+    assert(quoted.children.length === 2 && quoted.children[0].attributes.title === 'a > b' && quoted.children[0].attributes.note === 'c>d',
+      'A > inside a quoted attribute value should not end the tag')
+    console.log('✅ DASH parsing tests passed')
+  }
+  
+  const testAudioTracks = async () => {
+    const master = parseMasterPlaylist(`#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English",LANGUAGE="en",DEFAULT=YES,AUTOSELECT=YES,CHANNELS="2",URI="en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English 5.1",LANGUAGE="en",AUTOSELECT=YES,CHANNELS="6",URI="en_51.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Deutsch",LANGUAGE="de",AUTOSELECT=YES,CHANNELS="2",URI="de.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=3000000,RESOLUTION=1280x720,CODECS="avc1.4d401f,mp4a.40.2,ec-3",AUDIO="aud"
+720p.m3u8`, 'https://cdn.example.com/master.m3u8')
+    const tracks = buildHlsAudioTracks(master.renditions, master.variants)
+    assert(tracks.length === 3 && tracks[0].url === 'https://cdn.example.com/en.m3u8', 'Audio renditions should become tracks')
+    assert(getRenditionCodec(master.renditions[1], master.variants) === 'ec-3', 'Multichannel renditions should take the Dolby codec of the group')
+    assert(tracks[0].codec === 'mp4a.40.2', 'Stereo renditions should take AAC')
+    assert(formatAudioTrackLabel(tracks[1]) === 'English 5.1 (E-AC-3 5.1)', 'Labels should show codec and channel layout')
+    assert(estimateAudioBitrate('mp4a.40.2', '2') === 128000, 'Stereo AAC should be estimated at 128 kbps')
+    assert(estimateAudioBitrate('mp4a.a5', '6') === 384000, 'AC-3 signalled as an MP4 object type should be recognized')
+    
+    assert(selectDefaultAudioTrack(tracks, ['de-DE', 'en']) === tracks[2].id, 'The browser language should pick the track')
+    assert(selectDefaultAudioTrack(tracks, ['ja']) === tracks[0].id, 'Without a language match the DEFAULT track should play')
+    assert(selectDefaultAudioTrack([], ['en']) === null, 'No tracks means no selection')
+    
+    const variant = master.variants[0]
+    assert(getCombinedBandwidth(variant, tracks[0], tracks, 'hls') === 3000000 - tracks[1].bandwidth + tracks[0].bandwidth,
+      'HLS variants already count their group audio, so only the difference to the selected track is added')
+    assert(getCombinedBandwidth(variant, tracks[0], tracks, 'dash') === 3000000 + tracks[0].bandwidth, 'DASH bandwidths are per stream')
+    assert(getCombinedBandwidth(variant, undefined, tracks, 'hls') === 3000000, 'Muxed audio adds nothing')
+    
+    assert(getAudioTrackBufferType(tracks[1], 'a.mp4') === 'audio/mp4; codecs="ec-3"', 'fMP4 audio keeps its codec')
+    assert(getAudioTrackBufferType({}, 'a.ts') === 'audio/mp4; codecs="mp4a.40.2"', 'TS audio is transmuxed to fMP4')
+    
+    const manifest = await loadManifest(MOCK_STREAM_URL, createMockLoader(() => ({ bandwidth: 50000000, latency: 0, packetLoss: 0 })))
+    assert(manifest.audioTracks.length === 2 && manifest.audioTracks.every(track => track.segments.length === 3),
+      'The demo stream should offer two demuxed audio tracks')
+    const audioTiming = getMockSegmentTiming(manifest.audioTracks[1].segments[1].uri)
+    assert(audioTiming?.startTime === 10, 'Demo audio segments should line up with the video timeline')
+    const audioOnly = demuxTs(createSyntheticTsSegment({ startTime: 0, duration: 1, video: false }))
+    assert(audioOnly.video.length === 0 && audioOnly.audio.length > 0, 'Audio renditions should carry no video')
+    
+    console.log('✅ Audio track tests passed')
+  }
+  
+  const testSubtitles = async () => {
+    const vtt = parseWebVtt(`WEBVTT
+X-TIMESTAMP-MAP=LOCAL:00:00:01.000,MPEGTS:180000
+
+NOTE skipped
+
+intro
+00:00:01.000 --> 00:00:03.500 align:start line:90%
+<i>Hello</i>
+world
+
+00:04.000 --> 00:05.000
+Second`)
+    assert(vtt.cues.length === 2 && vtt.cues[0].text === '<i>Hello</i>\nworld', 'WebVTT cues should keep markup and line breaks')
+    assert(vtt.cues[1].start === 4 && vtt.cues[0].settings?.line === '90%', 'Short timestamps and cue settings should parse')
+    assert(vtt.timestampMap?.mpegts === 180000 && vtt.timestampMap.local === 1, 'X-TIMESTAMP-MAP fields may come in any order')
+    assert(getWebVttTimeOffset(vtt.timestampMap) === 1, 'MPEGTS 2s at LOCAL 1s shifts cues by one second')
+    assert(getWebVttTimeOffset(vtt.timestampMap, timestamp => (timestamp - 180000) / TS_CLOCK_RATE + 10) === 9,
+      'The offset should follow the transmuxer\'s placement of the TS clock')
+    
+    const imsc = parseImsc(`<?xml version="1.0"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter"
+    xmlns:tts="http://www.w3.org/ns/ttml#styling" ttp:frameRate="25" ttp:tickRate="10000000">
+  <body><div begin="10s">
+    <p begin="00:00:01.000" end="00:00:02:12" tts:textAlign="center">Line <span>one</span><br/>Line two</p>
+    <p begin="30000000t" dur="1s">Ticks</p>
+  </div></body>
+</tt>`)
+    assert(imsc.length === 2 && imsc[0].text === 'Line one\nLine two', 'IMSC paragraphs should keep spans and line breaks')
+    assert(imsc[0].start === 11 && Math.abs(imsc[0].end - 12.48) < 1e-9, 'IMSC times should be relative to the parent and support frames')
+    assert(imsc[1].start === 13 && imsc[1].end === 14 && imsc[0].settings?.align === 'center', 'Tick times, dur and alignment should apply')
+    assert(parseTtmlTime('1.5m', { frameRate: 30, tickRate: 1 }) === 90, 'Offset times should support minutes')
+    const wrapped = new Uint8Array([0, 0, 0, 8, 0x73, 0x74, 0x79, 0x70, 0, 0, 0, 12, 0x6d, 0x64, 0x61, 0x74, 0x3c, 0x74, 0x74, 0x3e])
+    assert(extractTimedText(wrapped) === '<tt>', 'IMSC in fMP4 should be read from the mdat box')
+    
+    const master = parseMasterPlaylist(`#EXTM3U
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="Deutsch",LANGUAGE="de",DEFAULT=YES,FORCED=YES,URI="de.m3u8"
+#EXT-X-MEDIA:TYPE=CLOSED-CAPTIONS,GROUP-ID="cc",NAME="English",LANGUAGE="en",INSTREAM-ID="CC3"
+#EXT-X-MEDIA:TYPE=CLOSED-CAPTIONS,GROUP-ID="cc",NAME="English 708",LANGUAGE="en",INSTREAM-ID="SERVICE1"
+#EXT-X-STREAM-INF:BANDWIDTH=800000,SUBTITLES="subs",CLOSED-CAPTIONS="cc"
+360p.m3u8`, 'https://cdn.example.com/master.m3u8')
+    const textTracks = buildHlsSubtitleTracks(master.renditions)
+    assert(textTracks.length === 2 && textTracks[1].format === 'cea608' && textTracks[1].channel === 3,
+      'WebVTT renditions and 608 channels should become tracks; 708 services are skipped')
+    assert(formatSubtitleTrackLabel(textTracks[0]) === 'Deutsch (forced)' && formatSubtitleTrackLabel(textTracks[1]) === 'English (CC3)',
+      'Labels should show forced tracks and caption channels')
+    assert(selectDefaultSubtitleTrack(textTracks, ['en']) === textTracks[0].id, 'A DEFAULT track should be shown from the start')
+    assert(selectDefaultSubtitleTrack(textTracks.slice(1), ['en']) === null, 'Subtitles stay off without a DEFAULT track')
+    
+    // CEA-608 from SEI through the transmuxer: the segment at 10s carries a pop-on caption that stays up until the next one
+    const sei = createSyntheticTsSegment({ startTime: 0, duration: 0.2, caption: 'Hello, world' })
+    const seiUnit = splitNalUnits(demuxTs(sei).video[0].data).find(unit => unit.type === 6)
+    const pairs = seiUnit ? parseSeiCaptionData(seiUnit.data) : []
+    assert(pairs.length === 14 && pairs.every(pair => pair.field === 1) && pairs[0].data[0] === 0x14, 'SEI cc_data should be extracted without parity')
+    
+    const captionTransmuxer = createTransmuxer()
+    const decoder = createCea608Decoder()
+    const decodeSegment = (startTime: number, caption: string) => {
+      const video = captionTransmuxer.transmux(createSyntheticTsSegment({ startTime, duration: 1, caption }), startTime).video
+      return (video?.captions ?? []).flatMap(packet => decoder.decode(packet))
+    }
+    assert(decodeSegment(0, 'First').length === 0, 'A caption is only complete once it leaves the screen')
+    const completed = decodeSegment(1, 'Second')
+    assert(completed.length === 1 && completed[0].text === 'First' && completed[0].channel === 1, 'Pop-on captions should flip on EOC')
+    assert(Math.abs(completed[0].start) < 1e-6 && Math.abs(completed[0].end - 1) < 1e-6, 'Caption times should follow the video PTS')
+    const flushed = decoder.flush(2)
+    assert(flushed.length === 1 && flushed[0].text === 'Second' && flushed[0].end === 2, 'Flushing should end the caption on screen')
+    
+    // Roll-up with a duplicated control code, a special character and an extended character replacing its fallback
+    const rollUp = createCea608Decoder()
+    const feed = (time: number, ...data: [number, number][]) => rollUp.decode({ time, pairs: data.map(pair => ({ field: 1, data: pair })) })
+    feed(0, [0x14, 0x25], [0x14, 0x25], [0x14, 0x2d], [0x14, 0x2d], [0x41, 0x42], [0x11, 0x37])
+    const rolled = feed(1, [0x14, 0x2d], [0x14, 0x2d], [0x63, 0x61], [0x66, 0x65], [0x12, 0x21])
+    assert(rolled.length === 1 && rolled[0].text === 'AB♪', 'Roll-up text should be shown as it arrives')
+    const final = rollUp.flush(2)
+    assert(final[0]?.text === 'AB♪\ncafÉ', 'Carriage return should roll the line up and extended characters replace the fallback')
+    
+    const manifest = await loadManifest(MOCK_STREAM_URL, createMockLoader(() => ({ bandwidth: 50000000, latency: 0, packetLoss: 0 })))
+    assert(manifest.subtitleTracks.length === 3 && manifest.subtitleTracks[0].segments.length === 3,
+      'The demo stream should offer two WebVTT tracks and embedded captions')
+    const firstSubtitle = new TextEncoder().encode(generateMockSubtitleSegment('en', 2, 'vtt')).buffer as ArrayBuffer
+    const subtitleCues = parseSubtitleSegment(manifest.subtitleTracks[0], firstSubtitle, timestamp =>
+      (timestamp - SYNTHETIC_PTS_OFFSET) / TS_CLOCK_RATE)
+    assert(subtitleCues[0].start === 10.5 && subtitleCues[0].text === 'Subtitle 2.1', 'Demo WebVTT should line up with the video')
+    const dash = parseDashManifest(MOCK_DASH_MANIFEST, 'https://cdn.example.com/manifest.mpd')
+    assert(dash.subtitleTracks.length === 1 && dash.subtitleTracks[0].format === 'imsc' && dash.subtitleTracks[0].segments.length === 3,
+      'DASH text adaptation sets should become IMSC tracks with segments')
+    const imscCues = parseSubtitleSegment(dash.subtitleTracks[0], new TextEncoder().encode(generateMockSubtitleSegment('en', 3, 'ttml')).buffer as ArrayBuffer)
+    assert(imscCues.length === 2 && imscCues[1].start === 25, 'Demo IMSC should be timed on the presentation timeline')
+    
+    console.log('✅ Subtitle tests passed')
+  }
+  
+  const testEncryption = async () => {
+    const playlist = parseMediaPlaylist(`#EXTM3U
+#EXT-X-TARGETDURATION:10
+#EXT-X-MEDIA-SEQUENCE:7
+#EXT-X-KEY:METHOD=AES-128,URI="k1.key"
+#EXTINF:10,
+a.ts
+#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://fairplay",KEYFORMAT="com.apple.streamingkeydelivery"
+#EXT-X-KEY:METHOD=SAMPLE-AES,URI="k2.key",IV=0x0102
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:10,
+b.ts
+#EXT-X-KEY:METHOD=NONE
+#EXTINF:10,
+c.ts`, 'https://cdn.example.com/video/index.m3u8')
+    const [first, second, third] = playlist.segments
+    assert(first.key?.method === 'AES-128' && first.key.uri === 'https://cdn.example.com/video/k1.key' && !first.key.iv,
+      'EXT-X-KEY should apply to the following segment with a resolved URI')
+    assert(second.key?.uri.endsWith('k2.key') === true && second.key.iv?.[15] === 0x02 && second.key.iv[14] === 0x01,
+      'Key rotation should prefer the identity key format and left-pad the IV')
+    assert(!second.initSegment?.key && !third.key, 'SAMPLE-AES leaves init sections clear and METHOD=NONE ends encryption')
+    const sequenceIv = getSegmentIv({ method: 'AES-128', uri: 'k1.key', keyFormat: 'identity' }, first.sequenceNumber)
+    assert(sequenceIv[15] === 7 && sequenceIv.slice(0, 15).every(byte => byte === 0), 'Without an IV the media sequence number is used')
+    
+    // The stand-in key server: AES-128 with a key rotated after two segments, requested through the key-loader hook
+    const network = () => ({ bandwidth: 50000000, latency: 0, packetLoss: 0 })
+    const mockLoader = createMockLoader(network, () => 0.5)
+    const keyRequests: string[] = []
+    const authorizedLoader: Loader = {
+      ...mockLoader,
+      loadBinary: (url, options) => {
+        keyRequests.push(`${url} ${options?.headers?.['Authorization']}`)
+        return mockLoader.loadBinary(url, options)
+      }
+    }
+    const decrypter = createSegmentDecrypter(createKeyLoader(authorizedLoader, { Authorization: 'Bearer demo' }))
+    const master = parseMasterPlaylist((await mockLoader.loadText(MOCK_ENCRYPTED_STREAM_URL)).data, MOCK_ENCRYPTED_STREAM_URL)
+    const encrypted = await parseSegmentPlaylist(master.variants[0].url, mockLoader)
+    assert(encrypted.segments.map(segment => segment.key?.uri.split('/').pop()).join() === '1.key,1.key,2.key',
+      'The demo stream should rotate keys mid-playlist')
+    
+    const clearTransmuxer = createTransmuxer()
+    for (const segment of encrypted.segments) {
+      const result = await loadSegment(segment, mockLoader, {
+        retries: 1,
+        decrypt: getSegmentDecryption(decrypter, segment.key, segment.sequenceNumber)
+      })
+      assert(result.success && result.data !== undefined, `Encrypted segment ${segment.uri} should load and decrypt`)
+      const video = clearTransmuxer.transmux(result.data ?? new ArrayBuffer(0), segment.start).video
+      assert(Math.abs((video?.startTime ?? -1) - segment.start) < 1e-6, 'Decrypted segments should transmux in place')
+    }
+    assert(keyRequests.length === 2 && keyRequests.every(request => request.endsWith('Bearer demo')),
+      'Each key should be requested once, with the headers the app attached')
+    const wrongKey = createSegmentDecrypter(async () => getMockKey(9))
+    const rejected = await loadSegment(encrypted.segments[0], mockLoader, {
+      retries: 1,
+      decrypt: getSegmentDecryption(wrongKey, encrypted.segments[0].key, encrypted.segments[0].sequenceNumber)
+    })
+    assert(!rejected.success, 'A wrong key should fail the segment instead of appending garbage')
+    
+    // SAMPLE-AES: encrypt slices and AAC frames the way a packager does, then decrypt them back
+    const rawKey = getMockKey(3)
+    const key = { method: 'SAMPLE-AES' as const, uri: 'sample.key', iv: new Uint8Array(16).fill(9), keyFormat: 'identity' }
+    const cryptoKey = await crypto.subtle.importKey('raw', rawKey as BufferSource, { name: 'AES-CBC' }, false, ['encrypt'])
+    const encryptBlocks = async (data: Uint8Array) =>
+      new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: key.iv as BufferSource }, cryptoKey, data as BufferSource))
+        .slice(0, data.length)
+    const encryptNal = async (nal: Uint8Array) => {
+      if (nal.length <= 48 || ![1, 5].includes(nal[0] & 0x1f)) return nal
+      const output = nal.slice()
+      const offsets = Array.from({ length: Math.ceil((nal.length - 48) / 160) }, (_, index) => 32 + index * 160)
+      const blocks = await encryptBlocks(Uint8Array.from(offsets.flatMap(offset => Array.from(nal.subarray(offset, offset + 16)))))
+      offsets.forEach((offset, index) => output.set(blocks.subarray(index * 16, index * 16 + 16), offset))
+      return addEmulationPrevention(output)
+    }
+    
+    const clear = demuxTs(createSyntheticTsSegment({ startTime: 0, duration: 0.1 }))
+    const protectedVideo = await Promise.all(clear.video.map(async pes => {
+      const units = await Promise.all(splitNalUnits(pes.data).map(unit => encryptNal(unit.data)))
+      return { ...pes, data: Uint8Array.from(units.flatMap(unit => [0, 0, 0, 1, ...unit])) }
+    }))
+    const aacPayload = Uint8Array.from({ length: 50 }, (_, index) => index)
+    const aacFrame = createAdtsFrame(aacPayload)
+    const protectedFrame = aacFrame.slice()
+    protectedFrame.set(await encryptBlocks(aacPayload.subarray(16, 48)), 7 + 16)
+    
+    const sampleDecrypter = createSegmentDecrypter(async () => rawKey)
+    const decrypted = await sampleDecrypter.decryptSamples(
+      { ...clear, video: protectedVideo, audio: [{ pts: 0, data: protectedFrame }] },
+      key,
+      0
+    )
+    const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, index) => byte === b[index])
+    assert(!sameBytes(protectedVideo[0].data, clear.video[0].data), 'The test slice should actually be encrypted')
+    assert(decrypted.video.every((pes, index) => sameBytes(pes.data, clear.video[index].data)),
+      'SAMPLE-AES slices should decrypt back to the clear NAL units')
+    assert(sameBytes(decrypted.audio[0].data, aacFrame), 'SAMPLE-AES AAC frames should decrypt after their clear leader')
+    assert(createTransmuxer().transmux(decrypted, 0).video !== undefined, 'Decrypted samples should feed the transmuxer')
+    
+    console.log('✅ Encryption tests passed')
+  }
+
+  const testDrm = async () => {
+    // HLS: session keys announce DRM before any media playlist loads; identity keys stay with the player
+    const pssh = createPsshBox('edef8ba9-79d6-4ace-a3c8-27dcd51d21ed', Uint8Array.from([1, 2, 3]))
+    const master = parseMasterPlaylist(`#EXTM3U
+#EXT-X-SESSION-KEY:METHOD=SAMPLE-AES,URI="data:text/plain;base64,${btoa(String.fromCharCode(...pssh))}",KEYFORMAT="urn:uuid:edef8ba9-79d6-4ace-a3c8-27dcd51d21ed",KEYID=0x${MOCK_CLEARKEY_KEY_ID}
+#EXT-X-SESSION-KEY:METHOD=SAMPLE-AES,URI="license",KEYFORMAT="org.w3.clearkey",KEYID=0x${MOCK_CLEARKEY_KEY_ID}
+#EXT-X-STREAM-INF:BANDWIDTH=800000
+low.m3u8`, 'https://cdn.example.com/master.m3u8')
+    const [widevine, clearKey] = master.sessionKeys.map(key => getHlsDrmInfo(key))
+    assert(widevine?.keySystem === WIDEVINE && widevine.initDataType === 'cenc' && toHex(widevine.initData ?? new Uint8Array(0)) === toHex(pssh),
+      'A Widevine session key should carry its inline PSSH as cenc init data')
+    assert(clearKey?.keySystem === CLEARKEY && clearKey.licenseUrl === 'https://cdn.example.com/license' && clearKey.keyIds[0] === MOCK_CLEARKEY_KEY_ID,
+      'A ClearKey session key should name its license server and key ID')
+    assert(getHlsDrmInfo({ method: 'AES-128', uri: 'k.key', keyFormat: 'identity' }) === null, 'Identity keys need no DRM system')
+    const protectedPlaylist = parseMediaPlaylist(`#EXTM3U
+#EXT-X-TARGETDURATION:10
+#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://asset-1",KEYFORMAT="com.apple.streamingkeydelivery"
+#EXTINF:10,
+a.ts
+#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://asset-1",KEYFORMAT="com.apple.streamingkeydelivery"
+#EXTINF:10,
+b.ts`)
+    assert(protectedPlaylist.drm?.length === 1 && protectedPlaylist.drm[0].keySystem === FAIRPLAY && protectedPlaylist.drm[0].initDataType === 'skd',
+      'Repeated FairPlay key tags should be merged into one skd entry')
+    
+    // DASH: ContentProtection on the adaptation set applies to every representation and reaches the manifest
+    const network = () => ({ bandwidth: 50000000, latency: 0, packetLoss: 0 })
+    const mockLoader = createMockLoader(network, () => 0.5)
+    const manifest = await loadManifest(MOCK_PROTECTED_STREAM_URL, mockLoader)
+    assert(manifest.qualityLevels.every(level => level.drm?.[0]?.keySystem === CLEARKEY), 'Every video representation should be protected')
+    assert(manifest.drm.length === 1 && manifest.drm[0].licenseUrl === MOCK_LICENSE_URL && manifest.drm[0].keyIds[0] === MOCK_CLEARKEY_KEY_ID
+      && manifest.drm[0].initDataType === 'keyids', 'The manifest should announce ClearKey once, with its laurl and default_KID')
+    assert((await loadManifest(MOCK_DASH_STREAM_URL, mockLoader)).drm.length === 0, 'Clear streams announce no DRM')
+    
+    assert(orderKeySystems([{ keySystem: WIDEVINE, keyIds: [] }, { keySystem: CLEARKEY, keyIds: [] }], { preferredKeySystems: [CLEARKEY, PLAYREADY] })
+      .join() === [CLEARKEY, WIDEVINE].join(), 'Preferred key systems go first, but only those the stream supports')
+    const envelope = `<PlayReadyKeyMessage type="LicenseAcquisition"><LicenseAcquisition Version="1"><Challenge encoding="base64encoded">${btoa('<soap/>')}</Challenge><HttpHeaders><HttpHeader><name>SOAPAction</name><value>AcquireLicense</value></HttpHeader></HttpHeaders></LicenseAcquisition></PlayReadyKeyMessage>`
+    const unwrapped = unwrapPlayReadyMessage(Uint8Array.from(Array.from(envelope).flatMap(character => [character.charCodeAt(0), 0])))
+    assert(new TextDecoder().decode(unwrapped.body) === '<soap/>' && unwrapped.headers['SOAPAction'] === 'AcquireLicense',
+      'PlayReady challenges should be unwrapped with the headers the CDM asks for')
+    
+    // EME against a stand-in CDM: Widevine is refused, ClearKey sessions are answered by the mock license server
+    const sessions: MediaKeySession[] = []
+    const createSession = (): MediaKeySession => {
+      const keyStatuses = new Map<Uint8Array, string>()
+      let close = () => {}
+      const session = Object.assign(new EventTarget(), {
+        sessionId: `session_${sessions.length + 1}`,
+        keyStatuses,
+        closed: new Promise<void>(resolve => { close = resolve }),
+        // A ClearKey CDM turns keyids init data into a license request of the same shape
+        generateRequest: async (_type: string, initData: Uint8Array) => {
+          setTimeout(() => session.dispatchEvent(Object.assign(new Event('message'), { messageType: 'license-request', message: initData.slice().buffer })))
+        },
+        update: async (license: Uint8Array) => {
+          const { keys } = JSON.parse(new TextDecoder().decode(license)) as { keys: { kid: string; k: string }[] }
+          keys.forEach(key => keyStatuses.set(decodeBase64(key.kid), decodeBase64(key.k).length === 16 ? 'usable' : 'internal-error'))
+          session.dispatchEvent(new Event('keystatuseschange'))
+        },
+        close: async () => close()
+      })
+      sessions.push(session as unknown as MediaKeySession)
+      return session as unknown as MediaKeySession
+    }
+    const mediaKeys = { createSession, setServerCertificate: async () => true } as unknown as MediaKeys
+    let attachedKeys: MediaKeys | null = null
+    const video = { setMediaKeys: async (keys: MediaKeys | null) => { attachedKeys = keys } } as unknown as HTMLMediaElement
+    const events: DrmEvent[] = []
+    const waiters: { type: DrmEvent['type']; count: number; resolve: () => void }[] = []
+    const waitForEvents = (type: DrmEvent['type'], count: number) =>
+      new Promise<void>(resolve => waiters.push({ type, count, resolve }))
+    const requests: LicenseRequest[] = []
+    const controller = createEmeController({
+      video,
+      config: {
+        preferredKeySystems: [WIDEVINE],
+        prepareLicenseRequest: request => ({ ...request, headers: { ...request.headers, Authorization: 'Bearer demo' } })
+      },
+      drmInfos: [{ keySystem: WIDEVINE, keyIds: [] }, ...manifest.drm],
+      videoCodecs: ['avc1.42e01e'],
+      audioCodecs: [],
+      transport: async request => {
+        requests.push(request)
+        return createLicenseTransport(mockLoader)(request)
+      },
+      requestAccess: async keySystem => {
+        if (keySystem !== CLEARKEY) throw new Error('Unsupported keySystem')
+        return { keySystem, createMediaKeys: async () => mediaKeys } as unknown as MediaKeySystemAccess
+      },
+      onEvent: event => {
+        events.push(event)
+        waiters.filter(waiter => events.filter(seen => seen.type === waiter.type).length >= waiter.count).forEach(waiter => waiter.resolve())
+      }
+    })
+    const licensed = waitForEvents('license-updated', 1)
+    assert(await controller.attach() === CLEARKEY && attachedKeys === mediaKeys, 'The first supported key system should be attached')
+    await licensed
+    assert(events[0].type === 'access-denied' && events[0].keySystem === WIDEVINE, 'The refused key system should be reported before falling back')
+    assert(requests.length === 1 && requests[0].url === MOCK_LICENSE_URL && requests[0].headers['Authorization'] === 'Bearer demo',
+      'The license request should go to the manifest laurl through the request hook')
+    assert(events.some(event => event.type === 'key-status' && event.keyId === MOCK_CLEARKEY_KEY_ID && event.status === 'usable'),
+      'The licensed key should be reported usable')
+    
+    // The media repeating the manifest's init data opens no second session; an unknown key is refused by the license server
+    await controller.handleEncrypted('keyids', createKeyIdsInitData([MOCK_CLEARKEY_KEY_ID]).slice().buffer)
+    assert(sessions.length === 1, 'Init data already handled should not open another session')
+    const refused = waitForEvents('error', 1)
+    await controller.handleEncrypted('keyids', createKeyIdsInitData(['00'.repeat(16)]).slice().buffer)
+    await refused
+    assert(sessions.length === 2 && formatDrmEvent(events[events.length - 1]).severity === 'error', 'A refused license should surface as an error')
+    
+    const closed = waitForEvents('session-closed', 2)
+    await controller.destroy()
+    await closed
+    assert(attachedKeys === null, 'Destroying the controller should detach MediaKeys and close its sessions')
+    
+    console.log('✅ DRM tests passed')
+  }
+
+  const testPlayerEvents = () => {
+    const emitter = createEventEmitter<PlayerEvents>()
+    const received: string[] = []
+    const unsubscribe = emitter.on('error', ({ message }) => received.push(`first:${message}`))
+    const second = ({ message }: PlayerEvents['error']) => received.push(`second:${message}`)
+    emitter.on('error', second)
+    emitter.on('bufferstall', ({ bufferAhead }) => received.push(`stall:${bufferAhead}`))
+    
+    emitter.emit('error', createPlayerError('network', 'a'))
+    unsubscribe()
+    emitter.off('error', second)
+    emitter.emit('error', createPlayerError('network', 'b'))
+    emitter.emit('bufferstall', { position: 3, bufferAhead: 0.5 })
+    assert(received.join() === 'first:a,second:a,stall:0.5', 'Listeners should receive their own event type until they unsubscribe')
+    
+    // A failing listener is reported but neither stops the others nor reaches the player
+    const reportError = console.error
+    const reported: unknown[] = []
+    console.error = (...args: unknown[]) => reported.push(args)
+    emitter.on('qualitychange', () => { throw new Error('listener bug') })
+    emitter.on('qualitychange', ({ current }) => received.push(`quality:${current}`))
+    emitter.emit('qualitychange', { previous: 0, current: 1, level: createLadder([1])[0], manual: false })
+    console.error = reportError
+    assert(reported.length === 1 && received[received.length - 1] === 'quality:1', 'A throwing listener should not stop the others')
+    
+    // Listeners may unsubscribe themselves while an event is being delivered
+    const once = emitter.on('statsupdate', () => {
+      received.push('stats')
+      once()
+    })
+    const stats = {
+      position: 0,
+      bufferAhead: 0,
+      isPlaying: false,
+      qualityIndex: 0,
+      manualQuality: null,
+      estimatedBandwidth: null,
+      switchCount: 0,
+      failedLoads: 0
+    }
+    emitter.emit('statsupdate', stats)
+    emitter.emit('statsupdate', stats)
+    assert(received.filter(entry => entry === 'stats').length === 1, 'A listener removed during delivery should not run again')
+    emitter.clear()
+    emitter.emit('bufferstall', { position: 0, bufferAhead: 0 })
+    assert(received.filter(entry => entry.startsWith('stall')).length === 1, 'clear() should drop every listener')
+    
+    console.log('✅ Player event tests passed')
+  }
+  
+  const testErrorRecovery = async () => {
+    const missing = classifyManifestError(new Error('HTTP 404 Not Found'), 'https://cdn.test/master.m3u8')
+    assert(missing.category === 'manifest-not-found' && missing.fatal && missing.details.status === 404, 'A 404 manifest should be fatal and not found')
+    assert(classifyManifestError(new TypeError('Failed to fetch'), '').category === 'network', 'A fetch failure should be a network error')
+    assert(classifyManifestError(new Error('Invalid HLS manifest'), '').category === 'parse', 'A malformed manifest should be a parse error')
+    assert(isPlayerError(missing) && !isPlayerError(new Error('plain')), 'Player errors should be told apart from plain errors')
+    assert(formatPlayerError(missing).startsWith('Manifest not found (HTTP 404), fatal:'), 'The log line should name category, status and severity')
+    
+    // Network failures try redundant streams first, then lower variants, and skip the segment as the last resort
+    const network = createPlayerError('network', 'timeout')
+    const context = { redundantStreams: 1, hasLowerVariant: true, mediaSourceRebuilds: 0 }
+    assert(selectRecovery(network, context) === 'redundant-stream', 'A redundant stream should be tried first')
+    assert(selectRecovery(network, { ...context, redundantStreams: 0 }) === 'lower-variant', 'A lower variant should come next')
+    assert(selectRecovery(network, { ...context, redundantStreams: 0, hasLowerVariant: false }) === 'skip-segment', 'Skipping should be the last resort')
+    assert(selectRecovery(createPlayerError('parse', 'bad'), context) === 'skip-segment', 'Unparseable media should be skipped at once')
+    const decode = createPlayerError('media-decode', 'decode')
+    assert(selectRecovery(decode, context) === 'rebuild-media-source', 'A decode error should rebuild the MediaSource')
+    assert(selectRecovery(decode, { ...context, mediaSourceRebuilds: MAX_MEDIA_SOURCE_REBUILDS }) === 'none', 'Rebuilds should be limited')
+    
+    const master = parseMasterPlaylist(`#EXTM3U
+#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360
+https://a.test/360p.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=2000000,RESOLUTION=1280x720
+https://a.test/720p.m3u8
+#EXT-X-STREAM-INF:RESOLUTION=640x360,BANDWIDTH=800000
+https://b.test/360p.m3u8`)
+    assert(master.variants.length === 2, 'A repeated EXT-X-STREAM-INF should not add a variant')
+    assert(master.variants[0].redundantUrls?.join() === 'https://b.test/360p.m3u8', 'The repeat should become a redundant URL')
+    assert(master.variants[1].redundantUrls === undefined, 'Variants without copies should have no redundant URLs')
+    
+    // Segment failures carry the HTTP status; failures after the download belong to the key
+    const failingLoader: Loader = {
+      loadText: async url => { throw new Error(`HTTP 503 for ${url}`) },
+      loadBinary: async url => { throw new Error(`HTTP 503 for ${url}`) }
+    }
+    const failed = await loadSegment({ uri: 'https://a.test/0.ts' }, failingLoader, { retries: 1 })
+    const networkError = failed.error
+    assert(networkError?.category === 'network' && networkError.details.status === 503, 'A failed download should be a network error')
+    assert(networkError?.details.attempts === 1 && !networkError.fatal, 'Segment errors should be recoverable and count attempts')
+    const undecryptable = await loadSegment({ uri: 'test_segment.ts' }, createMockLoader(() => ({ bandwidth: 2000000, latency: 0, packetLoss: 0 }), () => 0.5), {
+      retries: 1,
+      decrypt: async () => { throw new Error('Bad key') }
+    })
+    assert(undecryptable.error?.category === 'key', 'A decryption failure should be a key error')
+    
+    console.log('✅ Error recovery tests passed')
+  }
+
+  const testQoeReporting = async () => {
+    const [low, high] = createLadder([1000000, 2300000], 4)
+    const tracker = createQoeTracker('session-1', 'https://cdn.test/a,b.m3u8', 0, new Date(0))
+    tracker.setRendition(low, '360p', 0)
+    tracker.playRequested(500)
+    tracker.playRequested(800)
+    tracker.waiting(1000)
+    tracker.playing(1500)
+    tracker.waiting(11500)
+    tracker.playing(13500)
+    tracker.setRendition(high, '720p', 23500)
+    tracker.seeking(25500)
+    tracker.waiting(25600)
+    tracker.playing(26000)
+    tracker.paused(30000)
+    tracker.recordError(true)
+    const report = tracker.getReport(40000)
+    assert(report.startupTime === 1, 'Startup should run from the first play request to the first frame, stalls before it included')
+    assert(report.rebufferCount === 1 && report.rebufferDuration === 2, 'Only stalls during playback should count as rebuffers')
+    assert(report.playTime === 26 && report.renditions.map(rendition => rendition.seconds).join() === '20,6', 'Play time should be split by rendition')
+    assert(report.timeWeightedBitrate === 1300000, 'The bitrate should be weighted by time played')
+    assert(report.switchCount === 1 && report.errorCount === 1 && report.fatalErrorCount === 1, 'Switches and errors should be counted')
+    
+    const csv = formatQoeCsv([report]).split('\n')
+    assert(csv[0].endsWith('seconds at 360p,seconds at 720p'), 'Every rendition should get a time column')
+    assert(csv[1].startsWith('session-1,"https://cdn.test/a,b.m3u8",1970-01-01T00:00:00.000Z,1,26,1,2,1300000'), 'Fields with commas should be quoted')
+    assert(JSON.parse(formatQoeJson([report]))[0].sessionId === 'session-1', 'JSON export should hold the reports')
+    
+    // Reports of the running session replace their earlier snapshot; unreadable storage yields an empty history
+    const storage = createMemoryStorage()
+    const history = saveQoeReport(storage, saveQoeReport(storage, [], { ...report, playTime: 1 }), report)
+    assert(history.length === 1 && loadQoeHistory(storage)[0].playTime === 26, 'A session should be saved once, with its latest report')
+    assert(loadQoeHistory({ getItem: () => '{broken' }).length === 0, 'A corrupt history should be ignored')
+    
+    const cmcd = createCmcdData({ sessionId: 'session-1', contentId: 'a"b', format: 'hls', live: false }, {
+      objectType: 'v',
+      bitrate: 2800000,
+      bufferLength: 12.34,
+      duration: 4,
+      throughput: 5432100,
+      topBitrate: 5000000,
+      starved: false,
+      startup: true
+    })
+    assert(
+      serializeCmcd(cmcd) === 'bl=12300,br=2800,cid="a\\"b",d=4000,mtp=5400,ot=v,sf=h,sid="session-1",st=v,su,tb=5000',
+      'CMCD keys should be sorted, rounded to their units and quoted only when they are strings'
+    )
+    const headers = toCmcdHeaders(cmcd)
+    assert(headers['CMCD-Object'] === 'br=2800,d=4000,ot=v,tb=5000' && headers['CMCD-Request'] === 'bl=12300,mtp=5400,su', 'Keys should go to their headers')
+    assert(!('CMCD-Status' in headers), 'Headers without keys should be left out')
+    const url = appendCmcdQuery('https://cdn.test/seg.ts?token=1', { ot: 'a', br: 128 })
+    assert(url === 'https://cdn.test/seg.ts?token=1&CMCD=br%3D128%2Cot%3Da', 'The query argument should be appended and encoded')
+    
+    // The mock CDN ignores CMCD query data, and the mock analytics backend collects beacons
+    const mockLoader = createMockLoader(() => ({ bandwidth: 1000000000, latency: 0, packetLoss: 0 }), () => 0.5)
+    const segmentUrl = `${MOCK_STREAM_BASE}stream_360p_0.ts`
+    const [plain, tagged] = await Promise.all([
+      loadSegment({ uri: segmentUrl }, mockLoader, { retries: 1 }),
+      loadSegment({ uri: appendCmcdQuery(segmentUrl, cmcd) }, mockLoader, { retries: 1 })
+    ])
+    assert(Boolean(tagged.data) && tagged.data?.byteLength === plain.data?.byteLength, 'CMCD data should not change the media served')
+    
+    const sender = createBeaconSender({ url: MOCK_BEACON_URL, interval: 3600 }, mockLoader, () => report, error => { throw error })
+    await sender.flush()
+    await sender.stop()
+    const beacons = getMockBeacons().slice(-2) as BeaconPayload[]
+    assert(beacons.map(beacon => beacon.reason).join() === 'interval,final', 'Beacons should be posted on flush and a final one on stop')
+    assert(beacons[1].report.sessionId === 'session-1', 'Beacons should carry the session report')
+    
+    console.log('✅ QoE reporting tests passed')
+  }
+
+  const testCharts = () => {
+    const sample = (time: number, qualityIndex: number) =>
+      ({ time, actualBandwidth: 2000000, estimatedBandwidth: null, buffer: 10, bitrate: (qualityIndex + 1) * 1000000, qualityIndex })
+    let history: MetricSample[] = []
+    for (let time = 0; time <= 10; time++) history = appendSample(history, sample(time, time < 4 ? 0 : time < 8 ? 2 : 1), 5)
+    assert(history.map(entry => entry.time).join() === '4,5,6,7,8,9,10', 'The window should keep one sample before its start')
+    assert(
+      getSwitchMarkers(history).map(marker => `${marker.time}:${marker.up ? 'up' : 'down'}`).join() === '8:down',
+      'Switches should be marked with their direction'
+    )
+    assert(getSwitchMarkers(appendSample([], sample(0, 0), 5)).length === 0, 'A single sample has no switches')
+    
+    assert(getNiceMax(3.7) === 5 && getNiceMax(5000000) === 5000000 && getNiceMax(12) === 20 && getNiceMax(0) === 1, 'Axis maxima should round up to 1, 2 or 5 times a power of ten')
+    const scale = createLinearScale([0, 10], [100, 0])
+    assert(scale(0) === 100 && scale(2.5) === 75 && createLinearScale([3, 3], [8, 9])(3) === 8, 'Scales should map domains linearly')
+    assert(toLinePath([{ x: 0, y: 1 }, { x: 1, y: 2 }, null, { x: 3, y: 4 }]) === 'M0.0,1.0L1.0,2.0M3.0,4.0', 'Gaps should lift the pen')
+    assert(toStepPath([{ x: 0, y: 5 }, { x: 2, y: 1 }]) === 'M0.0,5.0H2.0V1.0', 'Steps should hold a value until the next point')
+    
+    console.log('✅ Chart tests passed')
+  }
+  
+  const testPlayerConfig = () => {
+    const defaults = validatePlayerConfig({})
+    assert(defaults.errors.length === 0 && formatPlayerConfig(defaults.config) === formatPlayerConfig(DEFAULT_PLAYER_CONFIG), 'Missing settings should take their defaults')
+    
+    const partial = validatePlayerConfig({ targetBuffer: 45, segmentRetries: 2.5, bufferPollInterval: 50, latency: 3 })
+    assert(partial.config.targetBuffer === 45, 'Valid settings should be taken')
+    assert(
+      partial.config.segmentRetries === DEFAULT_PLAYER_CONFIG.segmentRetries && partial.config.bufferPollInterval === DEFAULT_PLAYER_CONFIG.bufferPollInterval,
+      'Invalid settings should keep their base values'
+    )
+    assert(partial.errors.length === 3 && partial.errors.some(error => error.includes('"latency"')), 'Each rejected setting should be named')
+    
+    const crossed = validatePlayerConfig({ switchUpThreshold: 1, switchDownThreshold: 1, starvationThreshold: 50 }, partial.config)
+    assert(crossed.errors.length === 2, 'Settings that contradict each other should be rejected')
+    assert(crossed.config.switchUpThreshold === DEFAULT_PLAYER_CONFIG.switchUpThreshold && crossed.config.targetBuffer === 45,
+      'Contradicting settings should fall back to the base config')
+    assert(parsePlayerConfig('{"targetBuffer":').errors.length === 1 && validatePlayerConfig([]).errors.length === 1, 'Malformed settings should be reported')
+    
+    const storage = createMemoryStorage()
+    storePlayerConfig(storage, partial.config)
+    assert(validatePlayerConfig(loadStoredPlayerConfig(storage)).config.targetBuffer === 45, 'Stored settings should load back')
+    storePlayerConfig(storage, null)
+    assert(storage.entries.size === 0 && JSON.stringify(loadStoredPlayerConfig(storage)) === '{}', 'Reset should forget stored settings')
+    
+    const ladder = createLadder([800000, 1400000, 2800000])
+    const network = { bandwidth: 4000000, latency: 20, packetLoss: 0 }
+    const buffer = { currentBuffer: 20, targetBuffer: 30, isStarving: false }
+    assert(selectOptimalQuality(ladder, network, buffer, 0) === 0, 'The default buffer ratio should hold back an upswitch')
+    assert(selectOptimalQuality(ladder, network, buffer, 0, { ...DEFAULT_PLAYER_CONFIG, upswitchBufferRatio: 0.5 }) === 2,
+      'A lower buffer ratio should allow the upswitch')
+    assert(createAbrStrategy('hysteresis', { ...DEFAULT_PLAYER_CONFIG, switchUpThreshold: 1.5 }).selectQuality({
+      qualityLevels: ladder, networkCondition: network, bufferHealth: { ...buffer, currentBuffer: 40 }, currentQuality: 0
+    }) === 1, 'The strategy should use its switch-up factor')
+    
+    console.log('✅ Player config tests passed')
+  }
+  
+  const testStartup = () => {
+    const ladder = createLadder([800000, 1400000, 2800000])
+    assert(selectStartupQuality(ladder, null) === 0, 'Without an estimate playback should start at the lowest variant')
+    assert(selectStartupQuality(ladder, 1000000) === 0, 'Nothing fitting should still start at the lowest variant')
+    assert(selectStartupQuality(ladder, 2500000) === 1, 'The startup variant should leave headroom below the estimate')
+    assert(selectStartupQuality(ladder, 10000000) === 2, 'Fast connections should start at the top')
+    
+    const storage = createMemoryStorage()
+    assert(loadBandwidthHistory(storage) === null, 'A first visit has no bandwidth history')
+    saveBandwidthHistory(storage, 5000000, 1000)
+    assert(loadBandwidthHistory(storage, 2000) === 5000000, 'The last estimate should be remembered')
+    assert(loadBandwidthHistory(storage, 1000 + 25 * 60 * 60 * 1000) === null, 'Estimates from more than a day ago should be ignored')
+    storage.entries.set([...storage.entries.keys()][0], '{"bandwidth":"fast"}')
+    assert(loadBandwidthHistory(storage) === null, 'Malformed history should be ignored')
+    
+    const startup = validatePlayerConfig({ targetBuffer: 10, startupBuffer: 12 })
+    assert(startup.errors.length === 1 && startup.config.startupBuffer === DEFAULT_PLAYER_CONFIG.startupBuffer,
+      'A startup buffer above the target buffer could never be filled')
+    
+    console.log('✅ Startup tests passed')
+  }
+  
+  const testRenditionFiltering = async () => {
+    const ladder = [[640, 360, 'avc1.4d401e'], [1280, 720, 'avc1.4d401f'], [1920, 1080, 'hvc1.1.6.L120.90'], [3840, 2160, 'avc1.640033']]
+      .map(([width, height, codec], index) => ({
+        id: `q${index}`,
+        bandwidth: (index + 1) * 1500000,
+        resolution: `${width}x${height}`,
+        width: Number(width),
+        height: Number(height),
+        codecs: [String(codec), 'mp4a.40.2'],
+        url: '',
+        live: false,
+        targetDuration: 6,
+        segments: [{ uri: `${index}.ts`, duration: 6, sequenceNumber: 0, start: 0, discontinuity: false, discontinuitySequence: 0 }]
+      }))
+    const idle = { hidden: false, batterySaver: false }
+    const describe = (filter: ReturnType<typeof filterQualityLevels>) =>
+      filter.excluded.map(exclusion => `${exclusion.quality}:${exclusion.reasons.join('+')}`).join()
+    
+    const unconstrained = filterQualityLevels(ladder, { playerSize: null, decodable: [], power: idle })
+    assert(unconstrained.allowed.join() === '0,1,2,3' && unconstrained.excluded.length === 0, 'Unknown constraints should exclude nothing')
+    const small = filterQualityLevels(ladder, { playerSize: { width: 900, height: 506 }, decodable: [], power: idle })
+    assert(small.allowed.join() === '0,1' && describe(small) === '2:player-size,3:player-size', 'Variants above the one covering the player should be excluded')
+    const noHevc = filterQualityLevels(ladder, { playerSize: { width: 1600, height: 900 }, decodable: [true, true, false, true], power: idle })
+    assert(noHevc.allowed.join() === '0,1,3' && describe(noHevc) === '2:codec', 'Undecodable variants should not count as covering the player')
+    const saving = filterQualityLevels(ladder, { playerSize: null, decodable: [], power: { hidden: false, batterySaver: true } })
+    assert(saving.allowed.join() === '0,1', 'Battery saver should cap the resolution')
+    const hidden = filterQualityLevels(ladder.slice(1), { playerSize: null, decodable: [], power: { hidden: true, batterySaver: true } })
+    assert(hidden.allowed.join() === '0' && describe(hidden) === '1:hidden+battery-saver,2:hidden+battery-saver',
+      'The lowest variant should stay when every variant is capped')
+    
+    const decodingQueries: string[] = []
+    const decodable = await checkDecodingSupport(ladder, {
+      decodingInfo: async configuration => {
+        decodingQueries.push(`${configuration.video?.contentType}@${configuration.video?.height}`)
+        if (configuration.video?.height === 2160) throw new TypeError('Unsupported configuration')
+        return { supported: !configuration.video?.contentType.includes('hvc1'), smooth: true, powerEfficient: true } as MediaCapabilitiesDecodingInfo
+      },
+      isTypeSupported: type => !type.includes('avc1.6400')
+    })
+    assert(decodable.join() === 'true,true,false,false', 'MediaCapabilities should decide, with isTypeSupported as its fallback')
+    assert(decodingQueries[0] === 'video/mp4; codecs="avc1.4d401e"@360', 'TS variants should be checked as the MP4 they are transmuxed to')
+    assert((await checkDecodingSupport(ladder, {})).every(Boolean), 'Without capability APIs every variant should count as decodable')
+    assert(isQualityAllowed(noHevc, 3) && !isQualityAllowed(noHevc, 2), 'Only allowed variants should be selectable')
+    assert([99, -1, 0.5, NaN].every(quality => !isQualityAllowed(unconstrained, quality)), 'Indices outside the ladder should be rejected')
+    
+    console.log('✅ Rendition filtering tests passed')
+  }
+
   const testQualitySelection = () => {
     const mockQualities: QualityLevel[] = [
-      { id: 'quality_800000_360p', bandwidth: 800000, resolution: '360p', url: '', segments: [] },
-      { id: 'quality_1400000_480p', bandwidth: 1400000, resolution: '480p', url: '', segments: [] },
-      { id: 'quality_2800000_720p', bandwidth: 2800000, resolution: '720p', url: '', segments: [] }
+      { id: 'quality_800000_360p', bandwidth: 800000, resolution: '640x360', codecs: [], url: '', live: false, targetDuration: 10, segments: [] },
+      { id: 'quality_1400000_480p', bandwidth: 1400000, resolution: '854x480', codecs: [], url: '', live: false, targetDuration: 10, segments: [] },
+      { id: 'quality_2800000_720p', bandwidth: 2800000, resolution: '1280x720', codecs: [], url: '', live: false, targetDuration: 10, segments: [] }
     ]
     
     const goodNetwork = { bandwidth: 4000000, latency: 20, packetLoss: 0.01 }
@@ -1059,6 +4153,72 @@ if (typeof window === 'undefined') {
     console.log('✅ Quality selection tests passed')
   }
   
+  const testAbrStrategies = () => {
+    const ladder = createLadder([800000, 1400000, 2800000, 5000000])
+    const network = { bandwidth: 3500000, latency: 50, packetLoss: 0 }
+    const emptyBuffer = { currentBuffer: 0, targetBuffer: 30, isStarving: true }
+    const fullBuffer = { currentBuffer: 30, targetBuffer: 30, isStarving: false }
+    
+    assert(selectBolaQuality(ladder, emptyBuffer) === 0, 'BOLA should pick the lowest rung on an empty buffer')
+    assert(selectBolaQuality(ladder, fullBuffer) === 3, 'BOLA should pick the highest rung on a full buffer')
+    assert(
+      selectBolaQuality(ladder, { ...fullBuffer, currentBuffer: 15 }) >= selectBolaQuality(ladder, { ...fullBuffer, currentBuffer: 8 }),
+      'BOLA choice should not fall as the buffer grows'
+    )
+    
+    const throughput = createThroughputStrategy()
+    assert(throughput.selectQuality({ qualityLevels: ladder, networkCondition: network, bufferHealth: fullBuffer, currentQuality: 0 }) === 2,
+      'Throughput rule should pick the highest rung under the safety margin')
+    assert(throughput.selectQuality({ qualityLevels: ladder, networkCondition: { ...network, bandwidth: 3000000 }, bufferHealth: fullBuffer, currentQuality: 3 }) === 1,
+      'Throughput rule should leave headroom below the estimate')
+    
+    const dynamic = createDynamicStrategy()
+    const slowNetwork = { ...network, bandwidth: 1000000 }
+    assert(dynamic.selectQuality({ qualityLevels: ladder, networkCondition: slowNetwork, bufferHealth: emptyBuffer, currentQuality: 0 }) === 0,
+      'Dynamic rule should follow throughput on an empty buffer')
+    assert(dynamic.selectQuality({ qualityLevels: ladder, networkCondition: slowNetwork, bufferHealth: fullBuffer, currentQuality: 0 }) === 3,
+      'Dynamic rule should hand over to BOLA once the buffer is full')
+    const middleBuffer = { ...fullBuffer, currentBuffer: 8 }
+    assert(!isDynamicBolaActive(middleBuffer, false) && isDynamicBolaActive(middleBuffer, true),
+      'Between the thresholds the dynamic rule should keep its previous mode')
+    const context = { qualityLevels: ladder, networkCondition: slowNetwork, bufferHealth: middleBuffer, currentQuality: 0, bolaActive: true }
+    assert(dynamic.selectQuality(context) === selectBolaQuality(ladder, middleBuffer) && dynamic.selectQuality(context) > 0,
+      'A dynamic rule already running BOLA should stay with it between the thresholds')
+    assert(createBolaStrategy().selectQuality({ qualityLevels: ladder, networkCondition: network, bufferHealth: emptyBuffer, currentQuality: 0 }) === 0,
+      'BOLA strategy should stay low while starving')
+    assert(createAbrStrategy('hysteresis').selectQuality({ qualityLevels: [], networkCondition: network, bufferHealth: fullBuffer, currentQuality: 0 }) === 0,
+      'Strategies should handle an empty ladder')
+    
+    console.log('✅ ABR strategy tests passed')
+  }
+  
+  const testBandwidthEstimation = () => {
+    const stats = (bytes: number, latency: number, transfer: number) =>
+      ({ requestStart: 1000, firstByte: 1000 + latency, loadEnd: 1000 + latency + transfer, bytes })
+    
+    assert(toThroughputSample(stats(1000, 50, 10)) === null, 'Should ignore responses below the minimum sample size')
+    assert(toThroughputSample(stats(MIN_SAMPLE_BYTES * 10, CACHE_HIT_TTFB_MS / 2, 1)) === null, 'Should ignore cache hits')
+    const sample = toThroughputSample(stats(250000, 100, 900))
+    assert(sample?.bitsPerSecond === 2000000, 'Throughput should be bits over the full request time')
+    
+    const estimator = createBandwidthEstimator(5)
+    assert(estimator.getEstimate() === null, 'Estimator should report nothing before the first sample')
+    for (let i = 0; i < 8; i++) estimator.addSample(stats(1000000, 50, 950)) // 8 Mbps
+    assert(Math.abs((estimator.getEstimate() ?? 0) - 8000000) < 1, 'Steady samples should converge without zero bias')
+    assert(!estimator.addSample(stats(100, 50, 10)), 'Filtered samples should be reported as rejected')
+    
+    estimator.addSample(stats(375000, 50, 2950)) // 1 Mbps for three seconds
+    const estimate = estimator.getEstimate() ?? 0
+    assert(estimate < (estimator.getAverage() ?? 0), 'Fast EWMA should react to a drop before the slow one')
+    assert(estimate < 5000000, 'Estimate should fall by half after one fast half-life')
+    assert(estimator.getSampleCount() === 5, 'Percentile window should stay bounded')
+    assert(estimator.getPercentile(10) === 1000000 && estimator.getPercentile(90) === 8000000, 'Should answer window percentiles')
+    estimator.reset()
+    assert(estimator.getPercentile(50) === null, 'Reset should clear the window')
+    
+    console.log('✅ Bandwidth estimation tests passed')
+  }
+  
   const testNetworkSimulation = () => {
     const conditions = Array.from({ length: 100 }, simulateNetworkConditions)
     const bandwidths = conditions.map(c => c.bandwidth)
@@ -1073,9 +4233,354 @@ if (typeof window === 'undefined') {
     console.log('✅ Network simulation tests passed')
   }
   
+  const testNetworkEmulation = () => {
+    const sequence = (seed: number) => {
+      const random = createSeededRandom(seed)
+      return Array.from({ length: 20 }, (_, tick) => NETWORK_PROFILES['congested-wifi'].getCondition(tick * 2, random))
+    }
+    assert(JSON.stringify(sequence(42)) === JSON.stringify(sequence(42)), 'Same seed should replay the same conditions')
+    assert(JSON.stringify(sequence(42)) !== JSON.stringify(sequence(43)), 'Different seeds should differ')
+    
+    const tiers = simulateNetworkConditions(createSeededRandom(7))
+    assert(tiers.bandwidth === simulateNetworkConditions(createSeededRandom(7)).bandwidth, 'Legacy tiers should be seedable')
+    
+    const csv = parseNetworkTrace('time,bandwidth,latency,loss\n0,4000000,40,0.01\n5,500000,300,0.1\n10,2000000,80,0', 'drive.csv')
+    assert(csv.points.length === 3 && csv.points[1].packetLoss === 0.1, 'Should parse CSV traces with a loss column')
+    assert(getTracePointAt(csv.points, 7).bandwidth === 500000, 'Trace rows should hold until the next row')
+    assert(getTracePointAt(csv.points, 16).bandwidth === 4000000, 'Traces should loop after the last row')
+    assert(createTraceProfile('trace', csv).interval === 2000, 'Coarse traces should update at the default interval')
+    
+    const json = parseNetworkTrace('{"name":"tunnel","points":[{"time":0,"bandwidth":1000,"latency":10},{"time":0.5,"bandwidth":0,"latency":900}]}')
+    assert(json.name === 'tunnel' && json.points[1].packetLoss === 0, 'Should parse JSON traces with optional loss')
+    assert(createTraceProfile('trace', json).interval === 500, 'Fine traces should drive a faster monitor interval')
+    
+    let rejected = false
+    try {
+      parseNetworkTrace('time,bandwidth\n5,100\n1,200')
+    } catch {
+      rejected = true
+    }
+    assert(rejected, 'Should reject traces whose times go backwards')
+    
+    console.log('✅ Network emulation tests passed')
+  }
+  
+  const testAbrSimulation = () => {
+    const ladder = createLadder([800000, 1400000, 2800000, 5000000], 4).map(level => ({
+      ...level,
+      segments: Array.from({ length: 30 }, (_, index) => ({
+        uri: `${level.bandwidth}_${index}.ts`, duration: 4, start: index * 4, sequenceNumber: index, discontinuity: false, discontinuitySequence: 0
+      }))
+    }))
+    const lowest = () => 0
+    const highest = (levels: QualityLevel[]) => levels.length - 1
+    
+    const run = runAbrSimulation({ qualityLevels: ladder, profile: NETWORK_PROFILES.lte, abr: selectOptimalQuality, seed: 5 })
+    assert(run.completed && run.downloads.length === 30, 'Should download the whole presentation')
+    assert(JSON.stringify(run) === JSON.stringify(runAbrSimulation({ qualityLevels: ladder, profile: NETWORK_PROFILES.lte, abr: selectOptimalQuality, seed: 5 })),
+      'Same seed should reproduce the same session')
+    
+    const safe = runAbrSimulation({ qualityLevels: ladder, profile: NETWORK_PROFILES.lte, abr: lowest })
+    assert(safe.qoe.rebufferCount === 0 && safe.qoe.averageBitrate === 800000, 'Lowest rung on LTE should never stall')
+    assert(safe.qoe.startupDelay > 0 && safe.qoe.startupDelay < 2, 'Startup delay should cover the first download only')
+    
+    const greedy = runAbrSimulation({ qualityLevels: ladder, profile: NETWORK_PROFILES['train-tunnel'], abr: highest })
+    assert(greedy.qoe.rebufferRatio > 0, 'Top rung through a tunnel should stall')
+    assert(greedy.qoe.score < safe.qoe.score || greedy.qoe.rebufferDuration > 0, 'Stalls should be penalised')
+    
+    const deadTrace = createTraceProfile('dead', { name: 'dead', points: [{ time: 0, bandwidth: 0, latency: 50, packetLoss: 0 }] })
+    const stuck = runAbrSimulation({ qualityLevels: ladder, profile: deadTrace, abr: lowest, maxSessionTime: 60 })
+    assert(!stuck.completed, 'A dead network should end the run incomplete instead of hanging')
+    
+    const started = Date.now()
+    const scenarios = Array.from({ length: 25 }, (_, seed) => ({ name: `wifi-${seed}`, profile: NETWORK_PROFILES['congested-wifi'], seed }))
+    const batch = runSimulationBatch(ladder, scenarios, [
+      { name: 'hysteresis', create: () => selectOptimalQuality },
+      { name: 'bola', create: createBolaStrategy },
+      { name: 'dynamic', create: createDynamicStrategy }
+    ])
+    assert(batch.length === 3 && batch.every(entry => entry.runs.length === 25), 'Batch should run every rule on every scenario')
+    assert(batch.every(entry => entry.mean.averageBitrate >= 800000), 'Batch means should be populated')
+    assert(Date.now() - started < 5000, 'A batch of 75 sessions should run in well under real time')
+    
+    console.log('✅ ABR simulation tests passed')
+  }
+  
+  const testMediaPipeline = async () => {
+    const level = (codecs: string[], extra: Partial<QualityLevel> = {}): QualityLevel =>
+      ({ id: 'q', bandwidth: 1, resolution: '640x360', codecs, url: '', live: false, targetDuration: 4, segments: [], ...extra })
+    
+    assert(getSourceBufferTypes(level(['avc1.42e01e', 'mp4a.40.2']), 'seg.ts', false).video === 'video/mp2t; codecs="avc1.42e01e,mp4a.40.2"',
+      'Muxed variants should share one buffer with both codecs')
+    assert(JSON.stringify(getSourceBufferTypes(level(['avc1.640028', 'mp4a.40.2']), 'seg.m4s', true)) === '{"video":"video/mp4; codecs=\\"avc1.640028\\""}',
+      'Demuxed variants should only declare the video codec')
+    assert(getSourceBufferTypes(level(['mp4a.40.5'], { resolution: '' }), 'a.m4a', false).audio === 'audio/mp4; codecs="mp4a.40.5"',
+      'Audio-only variants should get an audio buffer')
+    assert(getCodecType('hvc1.1.6.L93.B0') === 'video' && getCodecType('ec-3') === 'audio', 'Should classify codecs')
+    assert(getContainerFormat('https://cdn/x/seg_1.ts?token=1') === 'mp2t', 'Should read the container from the URI')
+    assert(hasSeparateAudio(level([], { audioGroup: 'aac' }), [
+      { id: 'a', type: 'AUDIO', groupId: 'aac', name: 'English', isDefault: true, autoselect: true, forced: false, characteristics: [], uri: 'a.m3u8' }
+    ], 'hls'), 'Audio renditions with a URI should be demuxed')
+    
+    // A SourceBuffer stand-in that enforces the updating rule and a byte quota like a browser does
+    const createFakeBuffer = (quota: number) => {
+      const listeners = new Map<string, () => void>()
+      let ranges: [number, number][] = []
+      let stored = 0
+      const fake = {
+        updating: false,
+        appends: 0,
+        aborts: 0,
+        removals: [] as number[],
+        types: [] as string[],
+        buffered: { get length() { return ranges.length }, start: (i: number) => ranges[i][0], end: (i: number) => ranges[i][1] },
+        addEventListener: (name: string, listener: () => void) => listeners.set(name, listener),
+        removeEventListener: (name: string) => listeners.delete(name),
+        finish: () => setTimeout(() => {
+          fake.updating = false
+          listeners.get('updateend')?.()
+        }, 0),
+        appendBuffer: (data: ArrayBuffer) => {
+          if (fake.updating) throw new DOMException('Buffer is updating', 'InvalidStateError')
+          if (stored + data.byteLength > quota) throw new DOMException('Buffer full', 'QuotaExceededError')
+          const end = ranges.length ? ranges[0][1] : 0
+          ranges = [[ranges[0]?.[0] ?? 0, end + 4]]
+          stored += data.byteLength
+          fake.appends++
+          fake.updating = true
+          fake.finish()
+        },
+        remove: (_start: number, end: number) => {
+          fake.removals.push(end)
+          ranges = ranges.length && end < ranges[0][1] ? [[end, ranges[0][1]]] : []
+          stored = 0
+          fake.updating = true
+          fake.finish()
+        },
+        changeType: (type: string) => fake.types.push(type),
+        // The pending finish timer delivers the updateend that follows an abort
+        abort: () => {
+          fake.updating = false
+          fake.aborts++
+        }
+      }
+      return fake
+    }
+    const buffer = createFakeBuffer(300)
+    const mediaSource = { readyState: 'open', addSourceBuffer: () => buffer, endOfStream: () => {} } as unknown as MediaSource
+    const errors: Error[] = []
+    const pipeline = createMediaPipeline(mediaSource, {
+      getCurrentTime: () => 30,
+      isTypeSupported: type => !type.includes('mp2t'),
+      onError: error => errors.push(error)
+    })
+    
+    assert(pipeline.configure({ video: 'video/mp4; codecs="avc1.42e01e"' }).join() === 'video', 'First configure should create the buffer')
+    await Promise.all([1, 2, 3].map(() => pipeline.append('video', new ArrayBuffer(100))))
+    assert(buffer.appends === 3, 'Concurrent appends should be queued instead of hitting an updating buffer')
+    
+    await pipeline.append('video', new ArrayBuffer(100))
+    assert(buffer.removals[0] === 25 && buffer.appends === 4, 'QuotaExceededError should evict back-buffer and retry')
+    
+    assert(pipeline.configure({ video: 'video/mp4; codecs="avc1.42e01e"' }).length === 0, 'Unchanged codecs should not retype the buffer')
+    assert(pipeline.configure({ video: 'video/mp4; codecs="hvc1.1.6.L93.B0"' }).join() === 'video', 'Codec changes should be reported')
+    await pipeline.append('video', new ArrayBuffer(10))
+    assert(buffer.types[0] === 'video/mp4; codecs="hvc1.1.6.L93.B0"', 'Codec changes should call changeType')
+    
+    // Flushing mid-append aborts the append in progress, drops queued media and empties the buffer
+    const outcomes = Promise.allSettled([pipeline.append('video', new ArrayBuffer(10)), pipeline.append('video', new ArrayBuffer(10))])
+    await pipeline.flush()
+    const [aborted, dropped] = await outcomes
+    assert(aborted.status === 'rejected' && dropped.status === 'rejected' && buffer.aborts === 1, 'Flush should abort and drop pending appends')
+    assert(buffer.buffered.length === 0 && buffer.removals[buffer.removals.length - 1] === Infinity, 'Flush should empty the buffer')
+    await pipeline.append('video', new ArrayBuffer(10))
+    assert(buffer.buffered.length === 1 && pipeline.isUsable(), 'Appends should resume after a flush')
+    
+    pipeline.configure({ video: 'video/mp2t; codecs="avc1.42e01e"' })
+    assert(!pipeline.isUsable() && errors.length === 1, 'Unsupported types should stop the pipeline once')
+    
+    console.log('✅ Media pipeline tests passed')
+  }
+  
+  const testSeeking = () => {
+    // Uneven segment lengths: 0-4, 4-10, 10-12, 12-20
+    const segments = [4, 6, 2, 8].map((duration, index, all) => ({
+      uri: `s${index}.ts`,
+      duration,
+      start: all.slice(0, index).reduce((sum, value) => sum + value, 0),
+      sequenceNumber: index,
+      discontinuity: false,
+      discontinuitySequence: 0
+    }))
+    
+    const outside = planSeek(segments, 11, [{ start: 0, end: 6 }], 10)
+    assert(outside.segmentIndex === 2 && !outside.inBuffer, 'Seeks past the buffer should reload from the segment holding the target')
+    const inside = planSeek(segments, 5, [{ start: 0, end: 10.2 }], 10)
+    assert(inside.inBuffer && inside.segmentIndex === 1, 'Seeks inside a buffered range reaching the load position should not flush')
+    const behindGap = planSeek(segments, 1, [{ start: 0, end: 2 }, { start: 4, end: 10 }], 10)
+    assert(!behindGap.inBuffer, 'A range that stops short of the load position cannot serve the seek')
+    const clamped = planSeek(segments, 99, [], 0)
+    assert(clamped.segmentIndex === 3 && clamped.time < 20, 'Seeks past the end should land in the last segment')
+    assert(planSeek(segments, -5, [], 0).time === 0, 'Seeks before the window should clamp to its start')
+    
+    assert(getTimelinePercent(15, 10, 20) === 50 && getTimelinePercent(25, 10, 20) === 100, 'Timeline positions are relative to the window')
+    
+    console.log('✅ Seeking tests passed')
+  }
+  
+  const testTransmuxer = () => {
+    const writer = createBitWriter()
+    for (const value of [0, 1, 7, 25, 300]) writer.writeUE(value)
+    writer.writeSE(-3)
+    writer.writeTrailingBits()
+    const reader = createBitReader(writer.toBytes())
+    assert([0, 1, 7, 25, 300].every(value => reader.readUE() === value) && reader.readSE() === -3, 'Exp-Golomb codes should round-trip')
+    const escaped = addEmulationPrevention(Uint8Array.from([0, 0, 1, 0, 0, 0, 5]))
+    assert(escaped.join() === '0,0,3,1,0,0,3,0,5', 'Start-code-like runs should be escaped')
+    assert(removeEmulationPrevention(escaped).join() === '0,0,1,0,0,0,5', 'Escaping should be reversible')
+    
+    // A one-second fixture starting 4 s into the stream: 30 frames and 43 AAC frames in PES groups of 8
+    const fixture = createSyntheticTsSegment({ startTime: 4, duration: 1 })
+    const demuxed = demuxTs(fixture)
+    assert(demuxed.video.length === 30 && demuxed.audio.length === 6, 'Should reassemble every PES packet')
+    assert(demuxed.video[0].pts === SYNTHETIC_PTS_OFFSET + 4 * TS_CLOCK_RATE, 'Should read 33-bit PTS values')
+    
+    const units = splitNalUnits(demuxed.video[0].data)
+    assert(units.map(unit => unit.type).join() === '9,7,8,5', 'Should split AUD, SPS, PPS and IDR NAL units')
+    const sps = parseSps(units[1].data)
+    assert(sps.width === 16 && sps.height === 16 && sps.codec === 'avc1.42c00a', 'Should read size and codec from the SPS')
+    
+    const adts = parseAdts(demuxed.audio[0].data)
+    if (!adts) throw new Error('Should find ADTS frames in the audio PES')
+    assert(adts.config.codec === 'mp4a.40.2' && adts.config.sampleRate === 44100 && adts.config.channelCount === 2,
+      'Should read the AAC configuration from ADTS')
+    assert(adts.frames.length === 8 && adts.frames[0].length === 9, 'Should strip ADTS headers from each frame')
+    
+    // Walk top-level (or nested) boxes of an MP4 buffer
+    const readBoxes = (data: Uint8Array, start = 0, end = data.length) => {
+      const view = new DataView(data.buffer, data.byteOffset)
+      const boxes: { type: string; start: number; size: number }[] = []
+      for (let offset = start; offset + 8 <= end; offset += view.getUint32(offset)) {
+        boxes.push({ type: String.fromCharCode(...data.subarray(offset + 4, offset + 8)), start: offset, size: view.getUint32(offset) })
+      }
+      return boxes
+    }
+    const findBox = (data: Uint8Array, path: string[]) => {
+      let scope = { start: -8, size: data.length + 8 }
+      for (const type of path) {
+        const found = readBoxes(data, scope.start + 8, scope.start + scope.size).find(candidate => candidate.type === type)
+        if (!found) return null
+        scope = found
+      }
+      return scope
+    }
+    
+    const transmuxer = createTransmuxer()
+    const first = transmuxer.transmux(fixture, 4)
+    if (!first.video || !first.audio) throw new Error('Should produce video and audio fragments')
+    assert(first.video.mimeType === 'video/mp4; codecs="avc1.42c00a"' && first.audio.mimeType === 'audio/mp4; codecs="mp4a.40.2"',
+      'Should describe both fMP4 tracks')
+    assert(first.video.initChanged && first.audio.initChanged, 'The first segment should carry init segments')
+    assert(readBoxes(first.video.initSegment).map(entry => entry.type).join() === 'ftyp,moov', 'Init segments should be ftyp + moov')
+    assert(findBox(first.video.initSegment, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stsd']) !== null, 'Init should describe samples')
+    assert(readBoxes(first.video.data).map(entry => entry.type).join() === 'moof,mdat', 'Fragments should be moof + mdat')
+    assert(Math.abs(first.video.startTime - 4) < 1e-6 && Math.abs(first.audio.startTime - 4) < 1e-6,
+      'The TS clock should be anchored to the playlist time')
+    assert(Math.abs(first.video.endTime - 5) < 1e-6, 'Video should cover the segment duration')
+    
+    const media = first.video.data
+    const view = new DataView(media.buffer, media.byteOffset)
+    const tfdt = findBox(media, ['moof', 'traf', 'tfdt'])
+    const trun = findBox(media, ['moof', 'traf', 'trun'])
+    assert(tfdt !== null && view.getUint32(tfdt.start + 16) === 4 * TS_CLOCK_RATE, 'tfdt should hold the decode time in track units')
+    assert(trun !== null && view.getUint32(trun.start + 12) === 30, 'trun should list every frame')
+    assert(trun !== null && view.getUint32(trun.start + 16) === (findBox(media, ['moof'])?.size ?? 0) + 8,
+      'The data offset should point at the mdat payload')
+    
+    const second = transmuxer.transmux(createSyntheticTsSegment({ startTime: 5, duration: 1 }), 5)
+    assert(second.video?.initChanged === false && Math.abs(second.video.startTime - 5) < 1e-6,
+      'Later segments should keep the timeline and reuse the init segment')
+    transmuxer.reset()
+    const afterReset = transmuxer.transmux(createSyntheticTsSegment({ startTime: 5, duration: 1 }), 100)
+    assert(afterReset.video?.initChanged === true && Math.abs(afterReset.video.startTime - 100) < 1e-6,
+      'A reset should re-anchor the timeline and resend init segments')
+    
+    assert(normalizePts(100, 8589934592 - 100) === 8589934592 + 100, 'Timestamps should be unwrapped across the 33-bit rollover')
+    let rejected = false
+    try {
+      createTransmuxer().transmux(new Uint8Array(400), 0)
+    } catch {
+      rejected = true
+    }
+    assert(rejected, 'Non-TS data should be rejected')
+    
+    const part = getMockSegmentTiming(`${MOCK_LL_STREAM_BASE}ll_360p_5.part2.ts`)
+    assert(part?.startTime === 11 && part.duration === 0.5, 'Mock parts should sit inside their segment')
+    assert(getMockSegmentTiming(`${MOCK_STREAM_BASE}segment_720p_002.ts`)?.startTime === 10, 'Mock VOD segments are numbered from 1')
+    
+    console.log('✅ Transmuxer tests passed')
+  }
+  
+  const testDownloadScheduling = async () => {
+    assert(getRequestDelay(12, 30) === 0, 'Requests should go out while the buffer is below target')
+    assert(getRequestDelay(32, 30) === 2000, 'Requests should wait until playback drains the excess')
+    
+    const ladder = createLadder([400000, 1200000, 3000000], 4)
+    // A 4s segment at 3 Mbps is 1.5 MB; 100 KB in the first second means 14s more against a 5s buffer
+    const stalled = { quality: 2, duration: 4, loaded: 100000, total: 1500000, elapsed: 1, receiving: 1 }
+    assert(selectAbandonQuality(ladder, stalled, 5, null) === 0, 'A stalled download should drop to a rung that fits the buffer')
+    assert(selectAbandonQuality(ladder, { ...stalled, loaded: 1000000 }, 5, null) === null, 'A download that finishes in time should continue')
+    assert(selectAbandonQuality(ladder, { ...stalled, elapsed: 0.2 }, 5, null) === null, 'Too little has been measured to abandon yet')
+    assert(selectAbandonQuality(ladder, { ...stalled, quality: 0 }, 5, null) === null, 'The lowest rung has nothing to fall back to')
+    
+    const downloads = new Map<string, { resolve: (result: DownloadResult) => void; onProgress: (progress: LoadProgress) => void; signal: AbortSignal }>()
+    const delivered: string[] = []
+    const toResult = (bytes: number): DownloadResult => ({
+      data: new ArrayBuffer(bytes),
+      stats: { requestStart: 0, firstByte: 0, loadEnd: 1, bytes }
+    })
+    const toTarget = (index: number, quality: number): DownloadTarget => ({
+      start: index * 4, end: index * 4 + 4, quality, uri: `${quality ? 'high' : 'low'}${index}`
+    })
+    const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+    const scheduler = createDownloadScheduler<DownloadTarget>({
+      maxConcurrent: 2,
+      download: (target, { signal, onProgress }) => new Promise(resolve => {
+        downloads.set(target.uri, { resolve, onProgress, signal })
+      }),
+      checkAbandon: (target, progress) => (progress.loaded < 10 && target.quality > 0 ? toTarget(target.start / 4, 0) : null),
+      onDeliver: async target => {
+        delivered.push(target.uri)
+        return true
+      }
+    })
+    
+    scheduler.request(toTarget(0, 1))
+    scheduler.request(toTarget(1, 1))
+    assert(!scheduler.hasCapacity(), 'The concurrency limit should be respected')
+    downloads.get('high1')?.resolve(toResult(100))
+    await settle()
+    assert(delivered.length === 0 && scheduler.hasCapacity(), 'A later segment finishing first should wait for the earlier one')
+    
+    downloads.get('high0')?.onProgress({ loaded: 5, total: 100, requestStart: 0, firstByte: 0 })
+    assert(Boolean(downloads.get('high0')?.signal.aborted) && downloads.has('low0'), 'A stalled head download should be aborted and retried lower')
+    downloads.get('low0')?.resolve(toResult(50))
+    await settle()
+    assert(delivered.join(',') === 'low0,high1', 'The retry should keep its place in delivery order')
+    assert(scheduler.getPending().length === 0, 'Delivered downloads should leave the queue')
+    
+    scheduler.request(toTarget(2, 1))
+    scheduler.cancelAll()
+    downloads.get('high2')?.resolve(toResult(100))
+    await settle()
+    assert(Boolean(downloads.get('high2')?.signal.aborted) && delivered.length === 2, 'Cancelled downloads should never be delivered')
+    
+    console.log('✅ Download scheduling tests passed')
+  }
+  
   const testSegmentLoading = async () => {
     const goodNetwork = { bandwidth: 2000000, latency: 50, packetLoss: 0.01 }
-    const result = await loadSegment('test_segment.ts', goodNetwork)
+    const result = await loadSegment({ uri: 'test_segment.ts' }, createMockLoader(() => goodNetwork))
     
     assert(typeof result === 'object', 'Should return result object')
     assert('success' in result, 'Should have success property')
@@ -1087,8 +4592,31 @@ if (typeof window === 'undefined') {
   const runTests = async () => {
     try {
       await testHLSParsing()
+      testMediaPlaylistParsing()
+      testLivePlaylist()
+      testLowLatencyPlaylist()
+      testDashParsing()
+      await testAudioTracks()
+      await testSubtitles()
+      await testEncryption()
+      await testDrm()
+      testPlayerEvents()
+      await testErrorRecovery()
+      await testQoeReporting()
+      testCharts()
+      testPlayerConfig()
+      testStartup()
+      await testRenditionFiltering()
       testQualitySelection()
+      testAbrStrategies()
+      testBandwidthEstimation()
       testNetworkSimulation()
+      testNetworkEmulation()
+      testAbrSimulation()
+      await testMediaPipeline()
+      testSeeking()
+      testTransmuxer()
+      await testDownloadScheduling()
       await testSegmentLoading()
       console.log('🎉 All tests passed! Coverage: 95%+')
     } catch (error) {
@@ -0,0 +1,294 @@
+import type { BufferHealth, NetworkCondition, QualityLevel } from './types'
+
+export type AbrStrategyId = 'hysteresis' | 'bola' | 'throughput' | 'dynamic'
+
+export interface AbrContext {
+  qualityLevels: QualityLevel[]
+  networkCondition: NetworkCondition
+  bufferHealth: BufferHealth
+  currentQuality: number
+  /** Whether the dynamic rule was running BOLA at the previous decision; the caller carries it between decisions */
+  bolaActive?: boolean
+}
+
+export interface AbrStrategy {
+  id: AbrStrategyId
+  name: string
+  /** Picks the index into qualityLevels to load next */
+  selectQuality: (context: AbrContext) => number
+}
+
+/** Thresholds of the hysteresis rule */
+export interface HysteresisTuning {
+  /** Bandwidth must exceed a higher rung's bitrate by this factor before switching up */
+  switchUpThreshold: number
+  /** The current rung is kept while bandwidth covers this share of its bitrate */
+  switchDownThreshold: number
+  /** Buffer, as a multiple of the target buffer, required before switching up */
+  upswitchBufferRatio: number
+}
+
+// Switch up only with 40% headroom, down below 80% coverage, and up only with more than the target buffered
+export const DEFAULT_HYSTERESIS_TUNING: HysteresisTuning = {
+  switchUpThreshold: 1.4,
+  switchDownThreshold: 0.8,
+  upswitchBufferRatio: 1.2
+}
+
+// Fraction of the estimated throughput the throughput rule is willing to spend
+export const THROUGHPUT_SAFETY_FACTOR = 0.9
+
+// BOLA reserves this much buffer (scaled to the target buffer) before it prefers anything but the lowest rung
+const BOLA_MINIMUM_BUFFER = 10
+const BOLA_BUFFER_PER_LEVEL = 2
+
+// The dynamic rule hands over to BOLA once this share of the target buffer is filled, and back below the lower share
+const DYNAMIC_BOLA_ON_RATIO = 1 / 3
+const DYNAMIC_BOLA_OFF_RATIO = 1 / 5
+
+export const ABR_STRATEGY_NAMES: Record<AbrStrategyId, string> = {
+  hysteresis: 'Hysteresis (default)',
+  bola: 'BOLA (buffer)',
+  throughput: 'Throughput (EWMA)',
+  dynamic: 'Dynamic (throughput + BOLA)'
+}
+
+const clampQuality = (qualityLevels: QualityLevel[], quality: number): number =>
+  Math.max(0, Math.min(quality, qualityLevels.length - 1))
+
+const getAvailableBandwidth = (networkCondition: NetworkCondition): number =>
+  networkCondition.bandwidth * (1 - networkCondition.packetLoss)
+
+/**
+ * Implements adaptive bitrate selection algorithm based on network conditions and buffer health
+ * @intuition ABR algorithms must balance quality with playback stability, switching up aggressively but down conservatively
+ * @approach Use buffer-based switching with bandwidth estimation, implement hysteresis to prevent oscillation
+ * @complexity O(k) time where k is quality levels, O(1) space for calculations
+ */
+export const selectOptimalQuality = (
+  qualityLevels: QualityLevel[],
+  networkCondition: NetworkCondition,
+  bufferHealth: BufferHealth,
+  currentQuality: number,
+  { switchUpThreshold, switchDownThreshold, upswitchBufferRatio }: HysteresisTuning = DEFAULT_HYSTERESIS_TUNING
+): number => {
+  if (!qualityLevels.length) return 0
+
+  // Ensure currentQuality is within bounds
+  const safeCurrentQuality = clampQuality(qualityLevels, currentQuality)
+
+  const availableBandwidth = getAvailableBandwidth(networkCondition)
+  const bufferRatio = bufferHealth.currentBuffer / bufferHealth.targetBuffer
+
+  // Emergency downswitch if buffer is starving
+  if (bufferHealth.isStarving && safeCurrentQuality > 0) {
+    return Math.max(0, safeCurrentQuality - 1)
+  }
+
+  // Conservative switching with hysteresis
+  for (let i = qualityLevels.length - 1; i >= 0; i--) {
+    const requiredBandwidth = qualityLevels[i].bandwidth
+    const canSustain = availableBandwidth > requiredBandwidth * switchDownThreshold
+    const canUpgrade = availableBandwidth > requiredBandwidth * switchUpThreshold
+
+    if (i === safeCurrentQuality && canSustain) {
+      return i // Stay at current quality if sustainable
+    }
+
+    if (i > safeCurrentQuality && canUpgrade && bufferRatio > upswitchBufferRatio) {
+      return i // Upgrade if buffer is healthy
+    }
+
+    if (i < safeCurrentQuality && canSustain) {
+      return i // Find highest sustainable quality below current
+    }
+  }
+
+  return 0 // Fallback to lowest quality
+}
+
+/**
+ * Picks the highest rung whose bitrate fits in a throughput budget
+ * @intuition Throughput rules only need the best level the connection can download faster than real time
+ * @approach Walk the bandwidth-sorted ladder from the top and return the first level under the budget
+ * @complexity O(k) time where k is quality levels, O(1) space
+ */
+export const selectQualityForThroughput = (qualityLevels: QualityLevel[], bitsPerSecond: number): number => {
+  for (let i = qualityLevels.length - 1; i > 0; i--) {
+    if (qualityLevels[i].bandwidth <= bitsPerSecond) return i
+  }
+  return 0
+}
+
+/**
+ * Creates the original hysteresis rule as a strategy
+ * @intuition Keeps the long-standing behaviour available as a baseline to compare new algorithms against
+ * @approach Delegate to selectOptimalQuality with the given thresholds
+ * @complexity O(k) time per decision, O(1) space
+ */
+export const createHysteresisStrategy = (tuning: HysteresisTuning = DEFAULT_HYSTERESIS_TUNING): AbrStrategy => ({
+  id: 'hysteresis',
+  name: ABR_STRATEGY_NAMES.hysteresis,
+  selectQuality: ({ qualityLevels, networkCondition, bufferHealth, currentQuality }) =>
+    selectOptimalQuality(qualityLevels, networkCondition, bufferHealth, currentQuality, tuning)
+})
+
+/**
+ * Creates a throughput rule
+ * @intuition The network condition handed to strategies is already a conservative dual-EWMA estimate once segments
+ * have been measured, so the rule only has to leave headroom on top of it
+ * @approach Spend a safety fraction of the available bandwidth on the highest rung that fits
+ * @complexity O(k) time per decision, O(1) space
+ */
+export const createThroughputStrategy = (): AbrStrategy => ({
+  id: 'throughput',
+  name: ABR_STRATEGY_NAMES.throughput,
+  selectQuality: ({ qualityLevels, networkCondition }) =>
+    selectQualityForThroughput(qualityLevels, getAvailableBandwidth(networkCondition) * THROUGHPUT_SAFETY_FACTOR)
+})
+
+/**
+ * Chooses a quality with BOLA-BASIC (Spiteri et al., "BOLA: Near-Optimal Bitrate Adaptation for Online Videos")
+ * @intuition Treat buffer level as the only signal: an emptier buffer makes the cost of a big download outweigh its
+ * utility, so the choice rises smoothly with buffer and needs no throughput estimate
+ * @approach Give each rung utility ln(bitrate / lowest) + 1, derive the control parameters Vp and gp from the buffer
+ * target, and pick the rung maximising (Vp * (utility + gp) - buffer) / bitrate
+ * @complexity O(k) time where k is quality levels, O(k) space for utilities
+ */
+export const selectBolaQuality = (qualityLevels: QualityLevel[], bufferHealth: BufferHealth): number => {
+  if (qualityLevels.length < 2) return 0
+
+  const bitrates = qualityLevels.map(level => Math.max(1, level.bandwidth))
+  const utilities = bitrates.map(bitrate => Math.log(bitrate / bitrates[0]) + 1)
+  const highestUtility = utilities[utilities.length - 1]
+
+  // Scale the reserved buffer so short low-latency targets still leave BOLA room to climb
+  const minimumBuffer = Math.min(BOLA_MINIMUM_BUFFER, bufferHealth.targetBuffer / 3)
+  const bufferTarget = Math.max(
+    bufferHealth.targetBuffer,
+    minimumBuffer + (minimumBuffer / BOLA_MINIMUM_BUFFER) * BOLA_BUFFER_PER_LEVEL * qualityLevels.length
+  )
+  const gp = (highestUtility - 1) / (bufferTarget / minimumBuffer - 1)
+  const vp = minimumBuffer / gp
+
+  let best = 0
+  let bestScore = -Infinity
+  utilities.forEach((utility, index) => {
+    const score = (vp * (utility - 1 + gp) - bufferHealth.currentBuffer) / bitrates[index]
+    if (score >= bestScore) {
+      best = index
+      bestScore = score
+    }
+  })
+  return best
+}
+
+/**
+ * Creates a buffer-based BOLA strategy
+ * @intuition Pure buffer control ignores throughput, which is risky only while the buffer is too empty to absorb a
+ * wrong guess
+ * @approach Use BOLA's choice, but cap it at the throughput-safe rung while the buffer is starving
+ * @complexity O(k) time per decision, O(k) space
+ */
+export const createBolaStrategy = (): AbrStrategy => ({
+  id: 'bola',
+  name: ABR_STRATEGY_NAMES.bola,
+  selectQuality: ({ qualityLevels, networkCondition, bufferHealth }) => {
+    const quality = selectBolaQuality(qualityLevels, bufferHealth)
+    if (!bufferHealth.isStarving) return quality
+    return Math.min(quality, selectQualityForThroughput(qualityLevels, getAvailableBandwidth(networkCondition)))
+  }
+})
+
+/**
+ * Decides whether the dynamic rule runs BOLA for the current buffer
+ * @intuition The mode depends on the previous one, so it is passed in rather than kept inside the strategy, which
+ * React may call any number of times per render
+ * @approach Switch to BOLA once the buffer crosses an upper share of the target and back below a lower share; the gap
+ * between the two thresholds stops the rules from flapping
+ * @complexity O(1) time and space
+ */
+export const isDynamicBolaActive = ({ currentBuffer, targetBuffer }: BufferHealth, bolaActive: boolean): boolean =>
+  bolaActive ? currentBuffer >= targetBuffer * DYNAMIC_BOLA_OFF_RATIO : currentBuffer >= targetBuffer * DYNAMIC_BOLA_ON_RATIO
+
+/**
+ * Creates a dash.js-style dynamic strategy that switches between throughput and BOLA
+ * @intuition Throughput rules start fast from an empty buffer while BOLA is steadier once a buffer exists,
+ * so use each where it is strongest
+ * @approach Run BOLA when isDynamicBolaActive says so for the context's buffer and previous mode, the throughput rule
+ * otherwise; the strategy holds no state, so repeated calls with one context agree
+ * @complexity O(k) time per decision, O(k) space
+ */
+export const createDynamicStrategy = (): AbrStrategy => {
+  const throughput = createThroughputStrategy()
+  const bola = createBolaStrategy()
+
+  return {
+    id: 'dynamic',
+    name: ABR_STRATEGY_NAMES.dynamic,
+    selectQuality: context =>
+      (isDynamicBolaActive(context.bufferHealth, context.bolaActive ?? false) ? bola : throughput).selectQuality(context)
+  }
+}
+
+// Only the hysteresis rule has tunable thresholds; the other factories ignore them
+const STRATEGY_FACTORIES: Record<AbrStrategyId, (tuning: HysteresisTuning) => AbrStrategy> = {
+  hysteresis: createHysteresisStrategy,
+  bola: createBolaStrategy,
+  throughput: createThroughputStrategy,
+  dynamic: createDynamicStrategy
+}
+
+export const createAbrStrategy = (id: AbrStrategyId, tuning: HysteresisTuning = DEFAULT_HYSTERESIS_TUNING): AbrStrategy =>
+  STRATEGY_FACTORIES[id](tuning)
+
+export interface DownloadProgressSnapshot {
+  /** Index of the rung being downloaded */
+  quality: number
+  /** Media seconds the download covers */
+  duration: number
+  loaded: number
+  /** Expected body size in bytes */
+  total: number
+  /** Seconds since the request was sent */
+  elapsed: number
+  /** Seconds since the first byte arrived */
+  receiving: number
+}
+
+// Give a request this long before judging it, so a slow first byte alone does not trigger a switch
+const ABANDON_MIN_ELAPSED = 0.5
+// Only count this share of the buffer as available, leaving room for the retry's own latency
+const ABANDON_BUFFER_SAFETY = 0.8
+
+/**
+ * Decides whether an in-flight download should be abandoned for a lower rung of the same segment
+ * @intuition A download that will not finish before the buffer drains causes a stall; refetching the segment at a
+ * lower bitrate is worth the wasted bytes when it arrives sooner
+ * @approach Measure this request's own throughput (or fall back to the estimate before bytes arrive) and project the
+ * remaining time; if it exceeds the usable buffer, pick the highest lower rung whose whole download fits, or the lowest
+ * rung when nothing fits but it would still finish first
+ * @complexity O(k) time where k is the rung count, O(1) space
+ */
+export const selectAbandonQuality = (
+  qualityLevels: QualityLevel[],
+  progress: DownloadProgressSnapshot,
+  bufferLevel: number,
+  estimatedBandwidth: number | null
+): number | null => {
+  if (progress.quality <= 0 || progress.elapsed < ABANDON_MIN_ELAPSED) return null
+
+  const measured = progress.receiving > 0 && progress.loaded > 0 ? (progress.loaded * 8) / progress.receiving : null
+  const throughput = measured ?? estimatedBandwidth
+  if (!throughput) return null
+
+  const remainingTime = ((progress.total - progress.loaded) * 8) / throughput
+  const usableBuffer = bufferLevel * ABANDON_BUFFER_SAFETY
+  if (remainingTime <= usableBuffer) return null
+
+  const fetchTime = (quality: number) => (qualityLevels[quality].bandwidth * progress.duration) / throughput
+  for (let quality = Math.min(progress.quality, qualityLevels.length) - 1; quality >= 0; quality--) {
+    if (fetchTime(quality) < usableBuffer) return quality
+  }
+  return fetchTime(0) < remainingTime ? 0 : null
+}
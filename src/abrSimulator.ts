@@ -0,0 +1,316 @@
+import type { BufferHealth, NetworkCondition, QualityLevel } from './types'
+import { isDynamicBolaActive } from './abr'
+import type { AbrContext, AbrStrategy } from './abr'
+import { createBandwidthEstimator } from './bandwidthEstimator'
+import { createSeededRandom } from './networkEmulation'
+import type { NetworkProfile } from './networkEmulation'
+import { findSegmentIndexAtTime, getTotalDuration } from './segmentTimeline'
+
+/** The signature of selectOptimalQuality, so ad-hoc heuristics can be simulated without wrapping them */
+export type QualitySelector = (
+  qualityLevels: QualityLevel[],
+  networkCondition: NetworkCondition,
+  bufferHealth: BufferHealth,
+  currentQuality: number
+) => number
+
+export interface SimulationOptions {
+  qualityLevels: QualityLevel[]
+  profile: NetworkProfile
+  abr: AbrStrategy | QualitySelector
+  seed?: number
+  /** Seconds of media the player tries to keep buffered */
+  targetBuffer?: number
+  /** Seconds below which the buffer counts as starving */
+  starvationThreshold?: number
+  /** Seconds of buffer needed before playback starts or resumes after a stall */
+  startupThreshold?: number
+  /** Index of the rung to start on */
+  initialQuality?: number
+  /** Abort a run whose virtual clock passes this many seconds (e.g. a trace stuck at zero bandwidth) */
+  maxSessionTime?: number
+}
+
+export interface SimulatedDownload {
+  segmentIndex: number
+  quality: number
+  bitrate: number
+  requestTime: number
+  downloadTime: number
+  bufferAfter: number
+}
+
+export interface QoeReport {
+  /** Duration-weighted mean bitrate of the downloaded media, bits per second */
+  averageBitrate: number
+  switchCount: number
+  rebufferCount: number
+  /** Seconds spent stalled after playback started */
+  rebufferDuration: number
+  /** Stall time as a share of the whole viewing session */
+  rebufferRatio: number
+  /** Seconds from the first request until playback started */
+  startupDelay: number
+  /** Linear QoE (Yin et al., SIGCOMM 2015) per segment: bitrate utility minus switch, stall and startup penalties */
+  score: number
+}
+
+export interface SimulationResult {
+  completed: boolean
+  sessionTime: number
+  downloads: SimulatedDownload[]
+  qoe: QoeReport
+}
+
+export interface SimulationScenario {
+  name: string
+  profile: NetworkProfile
+  seed: number
+}
+
+export interface BatchEntry {
+  name: string
+  create: () => AbrStrategy | QualitySelector
+}
+
+export interface BatchResult {
+  name: string
+  runs: { scenario: string; result: SimulationResult }[]
+  mean: QoeReport
+}
+
+// Defaults mirror the player: 30 s target buffer and a 5 s starvation threshold
+const DEFAULT_TARGET_BUFFER = 30
+const DEFAULT_STARVATION_THRESHOLD = 5
+const DEFAULT_STARTUP_THRESHOLD = 2
+const DEFAULT_MAX_SESSION_TIME = 24 * 60 * 60
+
+// Stall and startup penalties are expressed in Mbps-equivalents, as in the linear QoE model
+const QOE_SWITCH_PENALTY = 1
+const QOE_REBUFFER_PENALTY = 4.3
+const QOE_STARTUP_PENALTY = 4.3
+
+const toSelector = (abr: AbrStrategy | QualitySelector): ((context: AbrContext) => number) =>
+  typeof abr === 'function'
+    ? ({ qualityLevels, networkCondition, bufferHealth, currentQuality }) =>
+      abr(qualityLevels, networkCondition, bufferHealth, currentQuality)
+    : abr.selectQuality
+
+/**
+ * Computes QoE metrics from a finished run
+ * @intuition Viewers notice low bitrate, visible switches, stalls and slow starts, so a single score has to trade all four
+ * @approach Average bitrate weighted by media duration; score each segment's bitrate in Mbps and subtract switch magnitude,
+ * stall seconds and startup seconds scaled by the standard penalties, normalised per segment
+ * @complexity O(d) time where d is the download count, O(1) space
+ */
+export const computeQoe = (
+  downloads: SimulatedDownload[],
+  segmentDurations: number[],
+  rebufferCount: number,
+  rebufferDuration: number,
+  startupDelay: number,
+  sessionTime: number
+): QoeReport => {
+  const mediaTime = segmentDurations.reduce((sum, duration) => sum + duration, 0)
+  const averageBitrate = mediaTime > 0
+    ? downloads.reduce((sum, download, index) => sum + download.bitrate * segmentDurations[index], 0) / mediaTime
+    : 0
+
+  let switchCount = 0
+  let switchMagnitude = 0
+  downloads.forEach((download, index) => {
+    if (index === 0 || download.quality === downloads[index - 1].quality) return
+    switchCount++
+    switchMagnitude += Math.abs(download.bitrate - downloads[index - 1].bitrate) / 1e6
+  })
+
+  const utility = downloads.reduce((sum, download) => sum + download.bitrate / 1e6, 0)
+  const score = downloads.length
+    ? (utility - QOE_SWITCH_PENALTY * switchMagnitude - QOE_REBUFFER_PENALTY * rebufferDuration -
+      QOE_STARTUP_PENALTY * startupDelay) / downloads.length
+    : 0
+
+  return {
+    averageBitrate,
+    switchCount,
+    rebufferCount,
+    rebufferDuration,
+    rebufferRatio: sessionTime > 0 ? rebufferDuration / sessionTime : 0,
+    startupDelay,
+    score
+  }
+}
+
+/**
+ * Replays a VOD ladder through an ABR rule on a virtual clock
+ * @intuition The download/drain loop only depends on segment sizes, the network timeline and the ABR rule, so it can run
+ * in Node without timers, a video element or wall-clock time, thousands of times faster than real time
+ * @approach Per segment: ask the rule for a rung, download bitrate x duration bytes through the profile's step function
+ * (latency, then bits integrated across condition changes), drain the buffer meanwhile and book any stall, feed the
+ * timing into the bandwidth estimator, and idle while the buffer is above target
+ * @complexity O(s * (k + c)) time for s segments, k rungs and c condition steps per download, O(s) space for the download log
+ */
+export const runAbrSimulation = (options: SimulationOptions): SimulationResult => {
+  const {
+    qualityLevels,
+    profile,
+    seed = 1,
+    targetBuffer = DEFAULT_TARGET_BUFFER,
+    starvationThreshold = DEFAULT_STARVATION_THRESHOLD,
+    startupThreshold = DEFAULT_STARTUP_THRESHOLD,
+    maxSessionTime = DEFAULT_MAX_SESSION_TIME
+  } = options
+  const select = toSelector(options.abr)
+  const random = createSeededRandom(seed)
+  const estimator = createBandwidthEstimator()
+  const interval = profile.interval / 1000
+
+  // Conditions are drawn lazily but strictly in tick order, so a seed always yields the same timeline
+  const conditions: NetworkCondition[] = []
+  const conditionAt = (time: number): NetworkCondition => {
+    const tick = Math.floor(time / interval)
+    while (conditions.length <= tick) conditions.push(profile.getCondition(conditions.length * interval, random))
+    return conditions[tick]
+  }
+
+  const downloads: SimulatedDownload[] = []
+  const segmentDurations: number[] = []
+  const contentDuration = qualityLevels.length ? getTotalDuration(qualityLevels[0].segments) : 0
+  let clock = 0
+  let buffer = 0
+  let mediaTime = 0
+  let playing = false
+  let startupDelay = 0
+  let started = false
+  let rebufferCount = 0
+  let rebufferDuration = 0
+  let quality = Math.max(0, Math.min(options.initialQuality ?? 0, qualityLevels.length - 1))
+  let bolaActive = false
+
+  // Advance the clock, draining buffer while playing and booking stalls when it runs dry
+  const elapse = (seconds: number) => {
+    if (playing) {
+      if (seconds > buffer) {
+        rebufferCount++
+        rebufferDuration += seconds - buffer
+        buffer = 0
+        playing = false
+      } else {
+        buffer -= seconds
+      }
+    } else if (started) {
+      rebufferDuration += seconds
+    }
+    clock += seconds
+  }
+
+  while (qualityLevels.length && mediaTime < contentDuration && clock < maxSessionTime) {
+    const condition = conditionAt(clock)
+    const estimate = estimator.getEstimate()
+    const networkCondition = estimate !== null ? { ...condition, bandwidth: estimate, packetLoss: 0 } : condition
+    const bufferHealth = { currentBuffer: buffer, targetBuffer, isStarving: buffer < starvationThreshold }
+    quality = Math.max(0, Math.min(select({ qualityLevels, networkCondition, bufferHealth, currentQuality: quality, bolaActive }), qualityLevels.length - 1))
+    bolaActive = isDynamicBolaActive(bufferHealth, bolaActive)
+
+    const level = qualityLevels[quality]
+    const segmentIndex = findSegmentIndexAtTime(level.segments, mediaTime)
+    const segment = level.segments[segmentIndex]
+    if (!segment) break
+
+    // Download: first byte after the current latency, then integrate bits across condition steps
+    const requestTime = clock
+    elapse(condition.latency / 1000)
+    const firstByte = clock
+    const bytes = (level.bandwidth * segment.duration) / 8
+    let bitsLeft = bytes * 8
+    while (bitsLeft > 0 && clock < maxSessionTime) {
+      const current = conditionAt(clock)
+      const rate = current.bandwidth * (1 - current.packetLoss)
+      const stepEnd = (Math.floor(clock / interval) + 1) * interval
+      const stepSeconds = Math.max(stepEnd - clock, 1e-9)
+      if (rate * stepSeconds >= bitsLeft) {
+        elapse(bitsLeft / rate)
+        bitsLeft = 0
+      } else {
+        bitsLeft -= rate * stepSeconds
+        elapse(stepSeconds)
+      }
+    }
+    if (bitsLeft > 0) break
+
+    estimator.addSample({ requestStart: requestTime * 1000, firstByte: firstByte * 1000, loadEnd: clock * 1000, bytes })
+    buffer += segment.start + segment.duration - mediaTime
+    segmentDurations.push(segment.start + segment.duration - mediaTime)
+    mediaTime = segment.start + segment.duration
+    downloads.push({ segmentIndex, quality, bitrate: level.bandwidth, requestTime, downloadTime: clock - requestTime, bufferAfter: buffer })
+
+    if (!playing && (buffer >= startupThreshold || mediaTime >= contentDuration)) {
+      if (!started) startupDelay = clock
+      started = true
+      playing = true
+    }
+
+    // Idle until there is room for another segment, like the player's buffer target
+    const idle = buffer + segment.duration - targetBuffer
+    if (playing && idle > 0) elapse(idle)
+  }
+
+  const completed = mediaTime >= contentDuration
+  // Play out whatever is left in the buffer
+  if (completed) {
+    if (!started) {
+      startupDelay = clock
+      started = true
+    }
+    playing = true
+    elapse(buffer)
+  }
+
+  return {
+    completed,
+    sessionTime: clock,
+    downloads,
+    qoe: computeQoe(downloads, segmentDurations, rebufferCount, rebufferDuration, startupDelay, clock)
+  }
+}
+
+const averageQoe = (reports: QoeReport[]): QoeReport => {
+  const mean = (pick: (report: QoeReport) => number) =>
+    reports.length ? reports.reduce((sum, report) => sum + pick(report), 0) / reports.length : 0
+  return {
+    averageBitrate: mean(report => report.averageBitrate),
+    switchCount: mean(report => report.switchCount),
+    rebufferCount: mean(report => report.rebufferCount),
+    rebufferDuration: mean(report => report.rebufferDuration),
+    rebufferRatio: mean(report => report.rebufferRatio),
+    startupDelay: mean(report => report.startupDelay),
+    score: mean(report => report.score)
+  }
+}
+
+/**
+ * Runs every ABR rule against every scenario and averages the QoE
+ * @intuition Comparing algorithms on one trace proves little; a batch over many traces and seeds shows systematic differences
+ * @approach Run each rule against each scenario and average each metric; strategies are stateless and the simulation
+ * carries the dynamic rule's mode itself, so runs cannot affect one another
+ * @complexity O(a * n * r) time for a rules, n scenarios and r the cost of one run, O(a * n) space for the results
+ */
+export const runSimulationBatch = (
+  qualityLevels: QualityLevel[],
+  scenarios: SimulationScenario[],
+  entries: BatchEntry[],
+  options: Omit<SimulationOptions, 'qualityLevels' | 'profile' | 'abr' | 'seed'> = {}
+): BatchResult[] =>
+  entries.map(entry => {
+    const runs = scenarios.map(scenario => ({
+      scenario: scenario.name,
+      result: runAbrSimulation({
+        ...options,
+        qualityLevels,
+        profile: scenario.profile,
+        seed: scenario.seed,
+        abr: entry.create()
+      })
+    }))
+    return { name: entry.name, runs, mean: averageQoe(runs.map(run => run.result.qoe)) }
+  })
@@ -0,0 +1,159 @@
+import type { AudioTrack, MediaRendition, QualityLevel } from './types'
+import type { ManifestFormat } from './manifest'
+import { getCodecType } from './mediaPipeline'
+
+type AudioCodecFamily = 'aac' | 'ac-3' | 'ec-3' | 'opus' | 'other'
+
+// Typical per-channel bitrates, used where HLS does not declare what an audio rendition costs
+const AUDIO_BITRATE_PER_CHANNEL: Record<AudioCodecFamily, number> = {
+  aac: 64000,
+  'ac-3': 64000,
+  'ec-3': 42000,
+  opus: 48000,
+  other: 64000
+}
+const DEFAULT_CHANNEL_COUNT = 2
+
+const CHANNEL_LABELS: Record<number, string> = { 1: 'mono', 2: 'stereo', 6: '5.1', 8: '7.1' }
+
+const getAudioCodecFamily = (codec: string | undefined): AudioCodecFamily => {
+  const normalized = codec?.trim().toLowerCase() ?? 'mp4a'
+  // Dolby codecs are also signalled through the MP4 object type (mp4a.a5 / mp4a.a6)
+  if (normalized.startsWith('ec-3') || normalized === 'mp4a.a6') return 'ec-3'
+  if (normalized.startsWith('ac-3') || normalized === 'mp4a.a5') return 'ac-3'
+  if (normalized.startsWith('mp4a')) return 'aac'
+  if (normalized.startsWith('opus')) return 'opus'
+  return 'other'
+}
+
+// CHANNELS may carry extra parameters after a slash, e.g. "16/JOC" for Dolby Atmos
+const getChannelCount = (channels: string | undefined): number => parseInt(channels ?? '') || DEFAULT_CHANNEL_COUNT
+
+export const getAudioCodecLabel = (codec: string | undefined): string => {
+  switch (codec?.trim().toLowerCase()) {
+    case 'mp4a.40.5':
+      return 'HE-AAC'
+    case 'mp4a.40.29':
+      return 'HE-AACv2'
+  }
+  const family = getAudioCodecFamily(codec)
+  if (family === 'other') return codec?.split('.')[0] ?? 'Unknown'
+  return { aac: 'AAC', 'ac-3': 'AC-3', 'ec-3': 'E-AC-3', opus: 'Opus' }[family]
+}
+
+export const formatAudioChannels = (channels: string | undefined): string => {
+  if (!channels) return ''
+  if (/\/JOC$/i.test(channels)) return 'Atmos'
+  const count = getChannelCount(channels)
+  return CHANNEL_LABELS[count] ?? `${count}ch`
+}
+
+/**
+ * Builds a label for the audio track picker
+ * @intuition Listeners choose by language first, but the same language often ships in stereo AAC and surround Dolby
+ * @approach Name followed by codec and channel layout
+ * @complexity O(1) time, O(1) space
+ */
+export const formatAudioTrackLabel = (track: AudioTrack): string => {
+  const details = [getAudioCodecLabel(track.codec), formatAudioChannels(track.channels)].filter(Boolean).join(' ')
+  return `${track.name} (${details})`
+}
+
+/**
+ * Estimates the bitrate of an audio rendition
+ * @intuition HLS EXT-X-MEDIA has no BANDWIDTH attribute, yet a 5.1 Dolby track can cost several times a stereo AAC one
+ * @approach Typical per-channel rate for the codec family times the signalled channel count
+ * @complexity O(1) time, O(1) space
+ */
+export const estimateAudioBitrate = (codec: string | undefined, channels: string | undefined): number =>
+  AUDIO_BITRATE_PER_CHANNEL[getAudioCodecFamily(codec)] * getChannelCount(channels)
+
+/**
+ * Works out which codec an HLS audio rendition uses
+ * @intuition Renditions carry no CODECS of their own; the variants referencing the group list every codec in it
+ * @approach Collect audio codecs of the group's variants; with several (e.g. AAC and E-AC-3 in one group) give multichannel
+ * renditions the Dolby codec and the rest AAC
+ * @complexity O(k * c) time for k variants with c codecs each, O(c) space
+ */
+export const getRenditionCodec = (rendition: MediaRendition, variants: QualityLevel[]): string | undefined => {
+  const codecs = [...new Set(
+    variants
+      .filter(variant => variant.audioGroup === rendition.groupId)
+      .flatMap(variant => variant.codecs.filter(codec => getCodecType(codec) === 'audio'))
+  )]
+  if (codecs.length <= 1) return codecs[0]
+
+  const multichannel = getChannelCount(rendition.channels) > DEFAULT_CHANNEL_COUNT
+  const dolby = codecs.find(codec => ['ac-3', 'ec-3'].includes(getAudioCodecFamily(codec)))
+  const aac = codecs.find(codec => getAudioCodecFamily(codec) === 'aac')
+  return (multichannel ? dolby : aac) ?? codecs[0]
+}
+
+/**
+ * Turns HLS EXT-X-MEDIA audio renditions into selectable tracks
+ * @intuition The picker and the ABR need codec and bitrate per track, which HLS spreads across renditions and variants
+ * @approach Keep AUDIO renditions, derive each codec from its group's variants and estimate its bitrate; segments are filled
+ * in once the rendition playlists are loaded
+ * @complexity O(r * k) time for r renditions and k variants, O(r) space
+ */
+export const buildHlsAudioTracks = (renditions: MediaRendition[], variants: QualityLevel[]): AudioTrack[] =>
+  renditions
+    .filter(rendition => rendition.type === 'AUDIO')
+    .map(rendition => {
+      const codec = getRenditionCodec(rendition, variants)
+      return {
+        id: rendition.id,
+        groupId: rendition.groupId,
+        name: rendition.name,
+        language: rendition.language,
+        channels: rendition.channels,
+        codec,
+        bandwidth: estimateAudioBitrate(codec, rendition.channels),
+        isDefault: rendition.isDefault,
+        autoselect: rendition.autoselect,
+        url: rendition.uri,
+        live: false,
+        targetDuration: 0,
+        segments: []
+      }
+    })
+
+/**
+ * Picks the audio track to start with
+ * @intuition A viewer whose browser prefers Spanish should hear the Spanish track when one is offered, otherwise the
+ * author's default
+ * @approach Match preferred languages in order (full tag, then primary subtag) among AUTOSELECT tracks, then fall back to
+ * DEFAULT=YES and finally the first track
+ * @complexity O(p * t) time for p preferred languages and t tracks, O(1) space
+ */
+export const selectDefaultAudioTrack = (tracks: AudioTrack[], preferredLanguages: readonly string[] = []): string | null => {
+  const candidates = tracks.filter(track => track.autoselect || track.isDefault)
+  for (const preferred of preferredLanguages) {
+    const wanted = preferred.toLowerCase()
+    const match = candidates.find(track => track.language?.toLowerCase() === wanted)
+      ?? candidates.find(track => track.language?.toLowerCase().split('-')[0] === wanted.split('-')[0])
+    if (match) return match.id
+  }
+  return (tracks.find(track => track.isDefault) ?? tracks[0])?.id ?? null
+}
+
+/**
+ * Computes the bitrate a variant really costs while a given audio track plays alongside it
+ * @intuition Demuxed audio is downloaded in parallel, so a variant is only sustainable if video plus the chosen audio fit
+ * @approach DASH declares video alone, so the track is added; an HLS variant's BANDWIDTH already counts the audio of its own
+ * group, so that share is swapped for the selected track's
+ * @complexity O(t) time for t tracks, O(1) space
+ */
+export const getCombinedBandwidth = (
+  quality: QualityLevel,
+  track: AudioTrack | undefined,
+  tracks: AudioTrack[],
+  format: ManifestFormat
+): number => {
+  if (!track) return quality.bandwidth
+  if (format === 'dash') return quality.bandwidth + track.bandwidth
+
+  const groupTracks = tracks.filter(candidate => candidate.groupId === quality.audioGroup)
+  const includedAudio = groupTracks.length ? Math.max(...groupTracks.map(candidate => candidate.bandwidth)) : 0
+  return Math.max(0, quality.bandwidth - includedAudio) + track.bandwidth
+}
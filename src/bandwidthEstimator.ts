@@ -0,0 +1,115 @@
+import type { LoadStats } from './loader'
+
+// Half-lives in seconds of the fast and slow throughput averages
+export const FAST_EWMA_HALF_LIFE = 3
+export const SLOW_EWMA_HALF_LIFE = 9
+// Number of recent samples kept for percentile queries
+export const THROUGHPUT_WINDOW_SIZE = 20
+// Responses smaller than this are dominated by request latency and say little about throughput
+export const MIN_SAMPLE_BYTES = 16000
+// A response whose first byte arrives this quickly came from a cache rather than the network
+export const CACHE_HIT_TTFB_MS = 5
+
+export interface ThroughputSample {
+  bitsPerSecond: number
+  latency: number
+  bytes: number
+  duration: number
+}
+
+export interface BandwidthEstimator {
+  /** Records a finished request; returns false when the sample was filtered out */
+  addSample: (stats: LoadStats) => boolean
+  /** Conservative estimate in bits per second, or null before the first usable sample */
+  getEstimate: () => number | null
+  /** Long-term average in bits per second, or null before the first usable sample */
+  getAverage: () => number | null
+  /** Throughput percentile (0-100) over the recent sample window */
+  getPercentile: (percentile: number) => number | null
+  /** Mean time to first byte in milliseconds over the recent sample window */
+  getLatency: () => number | null
+  getSampleCount: () => number
+  reset: () => void
+}
+
+/**
+ * Creates an exponentially weighted moving average over duration-weighted samples
+ * @intuition A half-life in seconds makes the average forget at the same wall-clock rate however often samples arrive
+ * @approach Decay the estimate by alpha^duration per sample and divide by the accumulated weight to remove the zero-start bias
+ * @complexity O(1) time per sample, O(1) space
+ */
+export const createEwma = (halfLife: number) => {
+  const alpha = Math.exp(Math.log(0.5) / halfLife)
+  let estimate = 0
+  let totalWeight = 0
+
+  return {
+    sample: (value: number, weight: number) => {
+      const adjustedAlpha = Math.pow(alpha, weight)
+      estimate = value * (1 - adjustedAlpha) + adjustedAlpha * estimate
+      totalWeight += weight
+    },
+    getEstimate: (): number => {
+      const zeroFactor = 1 - Math.pow(alpha, totalWeight)
+      return zeroFactor > 0 ? estimate / zeroFactor : 0
+    },
+    hasSamples: (): boolean => totalWeight > 0
+  }
+}
+
+/**
+ * Turns loader timing into a throughput sample, rejecting requests that did not measure the network
+ * @intuition Tiny responses and cache hits complete almost instantly and would report absurd throughput
+ * @approach Drop responses under MIN_SAMPLE_BYTES or with a near-zero time to first byte, otherwise divide bits by wall time
+ * @complexity O(1) time, O(1) space
+ */
+export const toThroughputSample = (stats: LoadStats): ThroughputSample | null => {
+  const duration = (stats.loadEnd - stats.requestStart) / 1000
+  const latency = stats.firstByte - stats.requestStart
+
+  if (stats.bytes < MIN_SAMPLE_BYTES || duration <= 0) return null
+  if (latency < CACHE_HIT_TTFB_MS) return null
+
+  return { bitsPerSecond: (stats.bytes * 8) / duration, latency, bytes: stats.bytes, duration }
+}
+
+/**
+ * Creates a throughput estimator fed by real request timings
+ * @intuition A fast average reacts to drops while a slow one ignores short spikes; taking the lower of the two is
+ * quick to switch down and slow to switch up, and a sliding window answers percentile questions the averages cannot
+ * @approach Weight each accepted sample by its transfer time into both averages and keep the newest samples in a bounded window
+ * @complexity O(1) time per sample, O(w log w) time per percentile query, O(w) space for a window of w samples
+ */
+export const createBandwidthEstimator = (windowSize = THROUGHPUT_WINDOW_SIZE): BandwidthEstimator => {
+  let fast = createEwma(FAST_EWMA_HALF_LIFE)
+  let slow = createEwma(SLOW_EWMA_HALF_LIFE)
+  let window: ThroughputSample[] = []
+
+  return {
+    addSample: stats => {
+      const sample = toThroughputSample(stats)
+      if (!sample) return false
+
+      fast.sample(sample.bitsPerSecond, sample.duration)
+      slow.sample(sample.bitsPerSecond, sample.duration)
+      window = [...window.slice(-(windowSize - 1)), sample]
+      return true
+    },
+    getEstimate: () => (fast.hasSamples() ? Math.min(fast.getEstimate(), slow.getEstimate()) : null),
+    getAverage: () => (slow.hasSamples() ? slow.getEstimate() : null),
+    getPercentile: percentile => {
+      if (!window.length) return null
+      const sorted = window.map(sample => sample.bitsPerSecond).sort((a, b) => a - b)
+      const rank = Math.min(sorted.length - 1, Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1))
+      return sorted[rank]
+    },
+    getLatency: () =>
+      window.length ? window.reduce((sum, sample) => sum + sample.latency, 0) / window.length : null,
+    getSampleCount: () => window.length,
+    reset: () => {
+      fast = createEwma(FAST_EWMA_HALF_LIFE)
+      slow = createEwma(SLOW_EWMA_HALF_LIFE)
+      window = []
+    }
+  }
+}
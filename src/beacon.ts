@@ -0,0 +1,68 @@
+import type { Loader } from './loader'
+import type { QoeReport } from './qoe'
+
+export interface BeaconConfig {
+  /** Endpoint that receives QoE reports as JSON POSTs */
+  url: string
+  /** Seconds between reports; defaults to 10 */
+  interval?: number
+  /** Extra request headers, e.g. an API key */
+  headers?: Record<string, string>
+}
+
+export interface BeaconSender {
+  /** Posts the current report now, e.g. when the session ends */
+  flush: () => Promise<void>
+  /** Stops the periodic reports and sends a last one */
+  stop: () => Promise<void>
+}
+
+export interface BeaconPayload {
+  /** Why the report was sent: on the timer or at the end of the session */
+  reason: 'interval' | 'final'
+  sentAt: string
+  report: QoeReport
+}
+
+const DEFAULT_BEACON_INTERVAL = 10
+
+/**
+ * Starts sending periodic QoE reports to an analytics endpoint
+ * @intuition Backends want the session while it is running, not only when it ends, so a stalled viewer who closes the
+ * tab is still counted
+ * @approach Post the latest report through the player's loader on a timer so mock:// endpoints and custom loaders work
+ * alike, and a final report on stop; a failed post is reported and the next tick simply sends a newer snapshot
+ * @complexity O(n) time and space per beacon in the report size
+ */
+export const createBeaconSender = (
+  config: BeaconConfig,
+  loader: Loader,
+  getReport: () => QoeReport,
+  onError: (error: unknown) => void
+): BeaconSender => {
+  let stopped = false
+
+  const send = async (reason: BeaconPayload['reason']) => {
+    const payload: BeaconPayload = { reason, sentAt: new Date().toISOString(), report: getReport() }
+    try {
+      await loader.loadBinary(config.url, {
+        headers: { 'Content-Type': 'application/json', ...config.headers },
+        body: new TextEncoder().encode(JSON.stringify(payload))
+      })
+    } catch (error) {
+      onError(error)
+    }
+  }
+
+  const timer = setInterval(() => send('interval'), (config.interval ?? DEFAULT_BEACON_INTERVAL) * 1000)
+
+  return {
+    flush: () => send('interval'),
+    stop: async () => {
+      if (stopped) return
+      stopped = true
+      clearInterval(timer)
+      await send('final')
+    }
+  }
+}
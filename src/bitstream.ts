@@ -0,0 +1,146 @@
+// Bit-level readers and writers for codec headers (H.264 parameter sets, slice headers)
+
+export interface BitReader {
+  readBits: (count: number) => number
+  readBit: () => number
+  /** Unsigned Exp-Golomb code, ue(v) */
+  readUE: () => number
+  /** Signed Exp-Golomb code, se(v) */
+  readSE: () => number
+  skipBits: (count: number) => void
+  bitsLeft: () => number
+}
+
+export interface BitWriter {
+  writeBits: (value: number, count: number) => void
+  writeUE: (value: number) => void
+  writeSE: (value: number) => void
+  /** Pads with zero bits up to the next byte boundary */
+  alignZero: () => void
+  /** rbsp_trailing_bits: a stop bit followed by zero alignment */
+  writeTrailingBits: () => void
+  toBytes: () => Uint8Array
+}
+
+export const createBitReader = (data: Uint8Array): BitReader => {
+  let position = 0
+
+  const readBit = (): number => {
+    if (position >= data.length * 8) throw new Error('Bitstream ended unexpectedly')
+    const bit = (data[position >> 3] >> (7 - (position & 7))) & 1
+    position++
+    return bit
+  }
+
+  const readBits = (count: number): number => {
+    let value = 0
+    for (let i = 0; i < count; i++) value = value * 2 + readBit()
+    return value
+  }
+
+  const readUE = (): number => {
+    let leadingZeros = 0
+    while (readBit() === 0) {
+      leadingZeros++
+      if (leadingZeros > 31) throw new Error('Invalid Exp-Golomb code')
+    }
+    return Math.pow(2, leadingZeros) - 1 + readBits(leadingZeros)
+  }
+
+  return {
+    readBits,
+    readBit,
+    readUE,
+    readSE: () => {
+      const value = readUE()
+      return value % 2 === 1 ? (value + 1) / 2 : -value / 2
+    },
+    skipBits: count => {
+      position += count
+    },
+    bitsLeft: () => data.length * 8 - position
+  }
+}
+
+export const createBitWriter = (): BitWriter => {
+  const bytes: number[] = []
+  let current = 0
+  let filled = 0
+
+  const writeBit = (bit: number) => {
+    current = (current << 1) | (bit & 1)
+    filled++
+    if (filled === 8) {
+      bytes.push(current)
+      current = 0
+      filled = 0
+    }
+  }
+
+  const writeBits = (value: number, count: number) => {
+    for (let i = count - 1; i >= 0; i--) writeBit(Math.floor(value / Math.pow(2, i)) & 1)
+  }
+
+  const writeUE = (value: number) => {
+    const codeNum = value + 1
+    const length = Math.floor(Math.log2(codeNum))
+    writeBits(0, length)
+    writeBits(codeNum, length + 1)
+  }
+
+  const alignZero = () => {
+    while (filled !== 0) writeBit(0)
+  }
+
+  return {
+    writeBits,
+    writeUE,
+    writeSE: value => writeUE(value > 0 ? value * 2 - 1 : -value * 2),
+    alignZero,
+    writeTrailingBits: () => {
+      writeBit(1)
+      alignZero()
+    },
+    toBytes: () => Uint8Array.from(filled ? [...bytes, current << (8 - filled)] : bytes)
+  }
+}
+
+/**
+ * Strips emulation prevention bytes (00 00 03 -> 00 00) from a NAL unit payload
+ * @intuition Encoders insert 0x03 after two zero bytes so payloads never mimic a start code; parsers must undo it
+ * @approach Copy bytes, skipping any 0x03 that follows two consecutive zeros
+ * @complexity O(n) time, O(n) space
+ */
+export const removeEmulationPrevention = (data: Uint8Array): Uint8Array => {
+  const output: number[] = []
+  let zeros = 0
+  for (const byte of data) {
+    if (zeros >= 2 && byte === 0x03) {
+      zeros = 0
+      continue
+    }
+    output.push(byte)
+    zeros = byte === 0 ? zeros + 1 : 0
+  }
+  return Uint8Array.from(output)
+}
+
+/**
+ * Inserts emulation prevention bytes so an RBSP can be carried in a NAL unit
+ * @intuition The inverse of removeEmulationPrevention, needed when writing NAL units
+ * @approach After two zero bytes, escape any byte <= 0x03 with a 0x03 prefix
+ * @complexity O(n) time, O(n) space
+ */
+export const addEmulationPrevention = (rbsp: Uint8Array): Uint8Array => {
+  const output: number[] = []
+  let zeros = 0
+  for (const byte of rbsp) {
+    if (zeros >= 2 && byte <= 0x03) {
+      output.push(0x03)
+      zeros = 0
+    }
+    output.push(byte)
+    zeros = byte === 0 ? zeros + 1 : 0
+  }
+  return Uint8Array.from(output)
+}
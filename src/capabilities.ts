@@ -0,0 +1,193 @@
+import { getCodecType, getContainerFormat } from './mediaPipeline'
+import type { QualityLevel } from './types'
+
+/** Why ABR may not pick a variant */
+export type ExclusionReason = 'codec' | 'player-size' | 'hidden' | 'battery-saver'
+
+export interface RenditionExclusion {
+  /** Index into the quality levels */
+  quality: number
+  reasons: ExclusionReason[]
+}
+
+export interface RenditionFilter {
+  /** Indices ABR chooses from, in ladder order */
+  allowed: number[]
+  excluded: RenditionExclusion[]
+}
+
+export interface PowerState {
+  /** The page is in a background tab or minimized */
+  hidden: boolean
+  batterySaver: boolean
+}
+
+export interface RenditionConstraints {
+  /** Player size in device pixels; null until it is known */
+  playerSize: { width: number; height: number } | null
+  /** Whether each variant can be decoded, by quality index; unknown variants count as decodable */
+  decodable: boolean[]
+  power: PowerState
+}
+
+// Nobody watches a hidden tab and battery saver trades sharpness for decoding power, so both cap the height
+const HIDDEN_MAX_HEIGHT = 360
+const BATTERY_SAVER_MAX_HEIGHT = 720
+
+// Browsers expose no battery saver flag; a discharging battery at the level phones switch theirs on stands in for it
+const BATTERY_SAVER_LEVEL = 0.2
+
+const getDimensions = (level: QualityLevel): { width: number; height: number } | null => {
+  if (level.width && level.height) return { width: level.width, height: level.height }
+  const match = /^(\d+)x(\d+)$/.exec(level.resolution)
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : null
+}
+
+/**
+ * Filters the variants ABR may choose from
+ * @intuition Pixels beyond what the player shows are downloaded for nothing, and a codec the browser cannot decode ends
+ * playback with a fatal error, however much bandwidth there is
+ * @approach Drop undecodable variants, then every variant above the first one that covers the player size (so the picture
+ * is scaled down, never up) and above the power caps; variants without a resolution are never capped, and the lowest
+ * remaining candidate always stays so ABR is never left without a choice
+ * @complexity O(n) time and space for n variants
+ */
+export const filterQualityLevels = (qualityLevels: QualityLevel[], constraints: RenditionConstraints): RenditionFilter => {
+  const { playerSize, decodable, power } = constraints
+  const reasons = qualityLevels.map((): ExclusionReason[] => [])
+  qualityLevels.forEach((_, index) => {
+    if (decodable[index] === false) reasons[index].push('codec')
+  })
+
+  const covering = playerSize && qualityLevels.find((level, index) => {
+    const dimensions = getDimensions(level)
+    return !reasons[index].length && dimensions && (dimensions.width >= playerSize.width || dimensions.height >= playerSize.height)
+  })
+  const sizeCap = covering ? getDimensions(covering)?.height : undefined
+
+  qualityLevels.forEach((level, index) => {
+    const height = getDimensions(level)?.height
+    if (height === undefined) return
+    if (sizeCap !== undefined && height > sizeCap) reasons[index].push('player-size')
+    if (power.hidden && height > HIDDEN_MAX_HEIGHT) reasons[index].push('hidden')
+    if (power.batterySaver && height > BATTERY_SAVER_MAX_HEIGHT) reasons[index].push('battery-saver')
+  })
+
+  if (reasons.every(entry => entry.length)) {
+    // Caps only narrow the choice, so the lowest decodable variant stays; with none decodable the lowest stays and the
+    // pipeline reports the codec error
+    const fallback = Math.max(0, reasons.findIndex(entry => !entry.includes('codec')))
+    if (reasons[fallback]) reasons[fallback] = []
+  }
+
+  return {
+    allowed: reasons.flatMap((entry, index) => (entry.length ? [] : [index])),
+    excluded: reasons.flatMap((entry, quality) => (entry.length ? [{ quality, reasons: entry }] : []))
+  }
+}
+
+// Allowed indices come from the ladder itself, so anything else is out of range, fractional or excluded
+export const isQualityAllowed = (filter: RenditionFilter, quality: number): boolean => filter.allowed.includes(quality)
+
+export interface DecoderCapabilities {
+  isTypeSupported?: (type: string) => boolean
+  decodingInfo?: (configuration: MediaDecodingConfiguration) => Promise<MediaCapabilitiesDecodingInfo>
+}
+
+export const getBrowserDecoderCapabilities = (): DecoderCapabilities => ({
+  isTypeSupported: typeof MediaSource !== 'undefined' ? type => MediaSource.isTypeSupported(type) : undefined,
+  decodingInfo: typeof navigator !== 'undefined' && navigator.mediaCapabilities
+    ? configuration => navigator.mediaCapabilities.decodingInfo(configuration)
+    : undefined
+})
+
+// TS is transmuxed and raw AAC wrapped before appending, so both reach the decoder as MP4
+const getDecodingConfiguration = (level: QualityLevel): MediaDecodingConfiguration => {
+  const format = getContainerFormat(level.segments[0]?.uri ?? '')
+  const container = format === 'mp2t' || format === 'aac' ? 'mp4' : format
+  const videoCodec = level.codecs.find(codec => getCodecType(codec) === 'video')
+  const audioCodec = level.codecs.find(codec => getCodecType(codec) === 'audio')
+  const dimensions = getDimensions(level)
+  return {
+    type: 'media-source',
+    video: videoCodec
+      ? {
+          contentType: `video/${container}; codecs="${videoCodec}"`,
+          width: dimensions?.width ?? 1,
+          height: dimensions?.height ?? 1,
+          bitrate: level.bandwidth,
+          framerate: level.frameRate ?? 30
+        }
+      : undefined,
+    audio: audioCodec ? { contentType: `audio/${container}; codecs="${audioCodec}"` } : undefined
+  }
+}
+
+/**
+ * Finds out which variants the browser can decode
+ * @intuition isTypeSupported only knows codec strings, while MediaCapabilities also weighs resolution, bitrate and frame
+ * rate, e.g. 4K HEVC on a decoder that stops at 1080p
+ * @approach Ask MediaCapabilities where it exists and fall back to isTypeSupported when it is missing or rejects the
+ * configuration; variants without CODECS, or a browser with neither API, count as decodable
+ * @complexity O(n) decoder queries for n variants, run concurrently; O(n) space
+ */
+export const checkDecodingSupport = (qualityLevels: QualityLevel[], capabilities: DecoderCapabilities): Promise<boolean[]> =>
+  Promise.all(qualityLevels.map(async level => {
+    const configuration = getDecodingConfiguration(level)
+    const contentTypes = [configuration.video?.contentType, configuration.audio?.contentType].filter(type => type !== undefined)
+    if (!contentTypes.length) return true
+    if (capabilities.decodingInfo) {
+      try {
+        return (await capabilities.decodingInfo(configuration)).supported
+      } catch {
+        // Invalid or unknown configurations fall through to the plain codec check
+      }
+    }
+    return capabilities.isTypeSupported ? contentTypes.every(type => capabilities.isTypeSupported?.(type)) : true
+  }))
+
+interface BatteryStatus extends EventTarget {
+  charging: boolean
+  level: number
+}
+
+/**
+ * Watches the page visibility and battery state
+ * @intuition Both change while a stream plays, and the rendition caps should follow them without a reload
+ * @approach Report the state now and on every visibilitychange, chargingchange and levelchange; the Battery Status API
+ * exists in Chromium only, elsewhere battery saver stays off
+ * @complexity O(1) time per event and O(1) space
+ */
+export const watchPowerState = (onChange: (state: PowerState) => void): (() => void) => {
+  let battery: BatteryStatus | null = null
+  let stopped = false
+  const report = () => onChange({
+    hidden: document.visibilityState === 'hidden',
+    batterySaver: Boolean(battery && !battery.charging && battery.level <= BATTERY_SAVER_LEVEL)
+  })
+
+  document.addEventListener('visibilitychange', report)
+  const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryStatus> }).getBattery
+  getBattery?.call(navigator).then(status => {
+    if (stopped) return
+    battery = status
+    status.addEventListener('chargingchange', report)
+    status.addEventListener('levelchange', report)
+    report()
+  }).catch(() => {})
+  report()
+
+  return () => {
+    stopped = true
+    document.removeEventListener('visibilitychange', report)
+    battery?.removeEventListener('chargingchange', report)
+    battery?.removeEventListener('levelchange', report)
+  }
+}
+
+export const EXCLUSION_REASON_LABELS: Record<ExclusionReason, string> = {
+  codec: 'codec not supported',
+  'player-size': 'larger than the player',
+  hidden: 'tab hidden',
+  'battery-saver': 'battery saver'
+}
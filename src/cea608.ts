@@ -0,0 +1,335 @@
+import type { SubtitleCue } from './types'
+import { removeEmulationPrevention } from './bitstream'
+
+// CEA-608 closed captions as carried in H.264 SEI (ATSC A/53): extraction of the cc_data byte pairs and a decoder for
+// the four caption channels that turns pop-on, roll-up and paint-on captions into timed cues
+
+export interface CcPair {
+  /** 1 for field 1 (CC1/CC2), 2 for field 2 (CC3/CC4) */
+  field: 1 | 2
+  /** The two caption bytes with their parity bits removed */
+  data: [number, number]
+}
+
+export interface CaptionPacket {
+  /** Presentation time of the frame carrying the pairs, in seconds on the player timeline */
+  time: number
+  pairs: CcPair[]
+}
+
+export interface CaptionCue extends SubtitleCue {
+  /** Caption channel 1-4 (CC1-CC4) */
+  channel: number
+}
+
+export interface Cea608Decoder {
+  /** Decodes one frame's caption data, in presentation order, and returns the cues that ended with it */
+  decode: (packet: CaptionPacket) => CaptionCue[]
+  /** Ends whatever is on screen at `time`, e.g. when the stream ends */
+  flush: (time: number) => CaptionCue[]
+  reset: () => void
+}
+
+type CaptionMode = 'pop-on' | 'roll-up' | 'paint-on'
+// Row number (1-15) to the characters on that row
+type CaptionMemory = Map<number, string>
+
+interface ChannelState {
+  mode: CaptionMode
+  displayed: CaptionMemory
+  nonDisplayed: CaptionMemory
+  row: number
+  column: number
+  rollUpRows: number
+  shownText: string
+  shownSince: number
+}
+
+const SEI_USER_DATA_REGISTERED = 4
+const ITU_T35_COUNTRY_USA = 0xb5
+const ITU_T35_PROVIDER_ATSC = 0x0031
+const ATSC_USER_IDENTIFIER = 'GA94'
+const ATSC_CC_DATA = 0x03
+const BOTTOM_ROW = 15
+const MAX_COLUMNS = 32
+
+// Preamble address codes name a pair of rows by their first byte; bit 0x20 of the second byte picks the lower one
+const PAC_ROWS: Record<number, [number, number]> = {
+  0x10: [11, 11],
+  0x11: [1, 2],
+  0x12: [3, 4],
+  0x13: [12, 13],
+  0x14: [14, 15],
+  0x15: [5, 6],
+  0x16: [7, 8],
+  0x17: [9, 10]
+}
+
+// Basic characters are ASCII except for these positions
+const BASIC_CHARACTERS: Record<number, string> = {
+  0x2a: 'á',
+  0x5c: 'é',
+  0x5e: 'í',
+  0x5f: 'ó',
+  0x60: 'ú',
+  0x7b: 'ç',
+  0x7c: '÷',
+  0x7d: 'Ñ',
+  0x7e: 'ñ',
+  0x7f: '█'
+}
+// Indexed by second byte minus 0x30 after 0x11, and minus 0x20 after 0x12 and 0x13
+const SPECIAL_CHARACTERS = '®°½¿™¢£♪à èâêîôû'
+const EXTENDED_CHARACTERS: Record<number, string> = {
+  0x12: 'ÁÉÓÚÜü‘¡*\'—©℠•“”ÀÂÇÈÊËëÎÏïÔÙùÛ«»',
+  0x13: 'ÃãÍÌìÒòÕõ{}\\^_|~ÄäÖöß¥¤│ÅåØø┌┐└┘'
+}
+
+/**
+ * Reads the CEA-608 byte pairs out of an ITU-T T.35 SEI payload
+ * @intuition ATSC A/53 wraps cc_data in user_data_registered_itu_t_t35 with a fixed US/ATSC/GA94 prefix; anything else
+ * in that payload type is someone else's data
+ * @approach Check the prefix and user_data_type_code, then keep valid triplets of type 0 or 1 (608 fields) and strip
+ * the odd parity bit from each byte; 708 DTVCC triplets are skipped
+ * @complexity O(n) time in the payload size, O(c) space for c pairs
+ */
+const parseCcData = (payload: Uint8Array): CcPair[] => {
+  if (payload.length < 10 || payload[0] !== ITU_T35_COUNTRY_USA) return []
+  if (((payload[1] << 8) | payload[2]) !== ITU_T35_PROVIDER_ATSC) return []
+  if (String.fromCharCode(...payload.subarray(3, 7)) !== ATSC_USER_IDENTIFIER || payload[7] !== ATSC_CC_DATA) return []
+  if (!(payload[8] & 0x40)) return [] // process_cc_data_flag
+
+  const count = payload[8] & 0x1f
+  const pairs: CcPair[] = []
+  for (let index = 0; index < count; index++) {
+    const offset = 10 + index * 3 // after cc_count and em_data
+    if (offset + 3 > payload.length) break
+    const valid = payload[offset] & 0x04
+    const type = payload[offset] & 0x03
+    if (valid && type < 2) pairs.push({ field: type === 0 ? 1 : 2, data: [payload[offset + 1] & 0x7f, payload[offset + 2] & 0x7f] })
+  }
+  return pairs
+}
+
+/**
+ * Extracts CEA-608 caption pairs from an H.264 SEI NAL unit
+ * @intuition Broadcast-style streams carry captions inside the video, one or two byte pairs per frame, in SEI messages
+ * @approach Undo emulation prevention, walk the SEI messages (type and size are 0xFF-extended) and parse every
+ * user_data_registered_itu_t_t35 payload
+ * @complexity O(n) time and space in the NAL size
+ */
+export const parseSeiCaptionData = (nal: Uint8Array): CcPair[] => {
+  const rbsp = removeEmulationPrevention(nal.subarray(1))
+  const pairs: CcPair[] = []
+  let offset = 0
+
+  // The last byte holds the rbsp trailing bits
+  while (offset < rbsp.length - 1) {
+    let payloadType = 0
+    while (rbsp[offset] === 0xff) payloadType += rbsp[offset++]
+    payloadType += rbsp[offset++] ?? 0
+    let payloadSize = 0
+    while (rbsp[offset] === 0xff) payloadSize += rbsp[offset++]
+    payloadSize += rbsp[offset++] ?? 0
+
+    if (payloadType === SEI_USER_DATA_REGISTERED) pairs.push(...parseCcData(rbsp.subarray(offset, offset + payloadSize)))
+    offset += payloadSize
+  }
+  return pairs
+}
+
+const createChannelState = (): ChannelState => ({
+  mode: 'pop-on',
+  displayed: new Map(),
+  nonDisplayed: new Map(),
+  row: BOTTOM_ROW,
+  column: 0,
+  rollUpRows: 2,
+  shownText: '',
+  shownSince: 0
+})
+
+const getMemoryText = (memory: CaptionMemory): string =>
+  [...memory.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, text]) => text.trim())
+    .filter(Boolean)
+    .join('\n')
+
+const getBasicCharacter = (code: number): string => BASIC_CHARACTERS[code] ?? String.fromCharCode(code)
+
+/**
+ * Creates a decoder for the caption channels of one video stream
+ * @intuition 608 is a stream of screen-editing commands rather than timed text; a cue is simply what the screen showed
+ * between two changes
+ * @approach Keep displayed and non-displayed memories per channel, apply characters, preamble address codes and control
+ * codes (skipping the redundant second copy of each control code) and whenever the displayed text changes, emit the
+ * previous text as a cue spanning from when it appeared until now
+ * @complexity O(p) time per packet of p pairs, O(1) space per channel (15 rows of 32 characters)
+ */
+export const createCea608Decoder = (): Cea608Decoder => {
+  let channels = new Map<number, ChannelState>()
+  // Data channel (1 or 2) each field last addressed, and the last control code seen per field
+  let activeDataChannel: Record<number, number> = { 1: 1, 2: 1 }
+  let lastControl: Record<number, number | null> = { 1: null, 2: null }
+
+  const getChannel = (channel: number): ChannelState => {
+    let state = channels.get(channel)
+    if (!state) {
+      state = createChannelState()
+      channels.set(channel, state)
+    }
+    return state
+  }
+
+  const refresh = (channel: number, state: ChannelState, time: number, cues: CaptionCue[]) => {
+    const text = getMemoryText(state.displayed)
+    if (text === state.shownText) return
+    if (state.shownText && time > state.shownSince) {
+      cues.push({ channel, start: state.shownSince, end: time, text: state.shownText })
+    }
+    state.shownText = text
+    state.shownSince = time
+  }
+
+  const getTarget = (state: ChannelState): CaptionMemory => (state.mode === 'pop-on' ? state.nonDisplayed : state.displayed)
+
+  const write = (state: ChannelState, character: string) => {
+    const memory = getTarget(state)
+    const line = (memory.get(state.row) ?? '').padEnd(state.column)
+    memory.set(state.row, line.slice(0, state.column) + character + line.slice(state.column + 1))
+    state.column = Math.min(MAX_COLUMNS - 1, state.column + 1)
+  }
+
+  const backspace = (state: ChannelState) => {
+    if (state.column === 0) return
+    state.column--
+    const memory = getTarget(state)
+    const line = memory.get(state.row) ?? ''
+    memory.set(state.row, line.slice(0, state.column) + line.slice(state.column + 1))
+  }
+
+  const rollUp = (state: ChannelState) => {
+    const rolled: CaptionMemory = new Map()
+    state.displayed.forEach((text, row) => {
+      if (row - 1 > state.row - state.rollUpRows && row <= state.row) rolled.set(row - 1, text)
+    })
+    state.displayed = rolled
+    state.column = 0
+  }
+
+  const applyControl = (state: ChannelState, code: number) => {
+    switch (code) {
+      case 0x20: // resume caption loading
+        state.mode = 'pop-on'
+        break
+      case 0x21: // backspace
+        backspace(state)
+        break
+      case 0x24: { // delete to end of row
+        const memory = getTarget(state)
+        memory.set(state.row, (memory.get(state.row) ?? '').slice(0, state.column))
+        break
+      }
+      case 0x25:
+      case 0x26:
+      case 0x27: // roll-up with 2, 3 or 4 rows
+        if (state.mode !== 'roll-up') {
+          state.displayed.clear()
+          state.nonDisplayed.clear()
+        }
+        state.mode = 'roll-up'
+        state.rollUpRows = code - 0x23
+        break
+      case 0x29: // resume direct captioning
+        state.mode = 'paint-on'
+        break
+      case 0x2c: // erase displayed memory
+        state.displayed.clear()
+        break
+      case 0x2d: // carriage return
+        if (state.mode === 'roll-up') rollUp(state)
+        else state.column = 0
+        break
+      case 0x2e: // erase non-displayed memory
+        state.nonDisplayed.clear()
+        break
+      case 0x2f: { // end of caption: flip memories
+        const shown = state.displayed
+        state.displayed = state.nonDisplayed
+        state.nonDisplayed = shown
+        state.mode = 'pop-on'
+        break
+      }
+    }
+  }
+
+  const decodePair = (field: 1 | 2, [first, second]: [number, number], time: number, cues: CaptionCue[]) => {
+    if (first === 0 && second === 0) return // padding
+
+    if (first >= 0x10 && first <= 0x1f) {
+      // Control codes are sent twice so a corrupted copy can be survived; act on the first only
+      const key = (first << 8) | second
+      if (lastControl[field] === key) {
+        lastControl[field] = null
+        return
+      }
+      lastControl[field] = key
+
+      activeDataChannel[field] = first & 0x08 ? 2 : 1
+      const channel = (field - 1) * 2 + activeDataChannel[field]
+      const state = getChannel(channel)
+      const code = first & 0xf7
+
+      if (second >= 0x40 && PAC_ROWS[code]) {
+        state.row = PAC_ROWS[code][second & 0x20 ? 1 : 0]
+        state.column = second & 0x10 ? ((second & 0x0e) >> 1) * 4 : 0
+      } else if (code === 0x11 && second >= 0x20 && second <= 0x2f) {
+        write(state, ' ') // mid-row style change occupies a space
+      } else if (code === 0x11 && second >= 0x30 && second <= 0x3f) {
+        write(state, SPECIAL_CHARACTERS[second - 0x30])
+      } else if ((code === 0x12 || code === 0x13) && second >= 0x20 && second <= 0x3f) {
+        // Extended characters replace the basic fallback character sent just before them
+        backspace(state)
+        write(state, EXTENDED_CHARACTERS[code][second - 0x20])
+      } else if ((code === 0x14 || code === 0x15) && second >= 0x20 && second <= 0x2f) {
+        applyControl(state, second)
+      } else if (code === 0x17 && second >= 0x21 && second <= 0x23) {
+        state.column = Math.min(MAX_COLUMNS - 1, state.column + (second - 0x20)) // tab offset
+      }
+      refresh(channel, state, time, cues)
+      return
+    }
+
+    if (first < 0x20) return
+    lastControl[field] = null
+    const channel = (field - 1) * 2 + activeDataChannel[field]
+    const state = getChannel(channel)
+    write(state, getBasicCharacter(first))
+    if (second >= 0x20) write(state, getBasicCharacter(second))
+    refresh(channel, state, time, cues)
+  }
+
+  return {
+    decode: packet => {
+      const cues: CaptionCue[] = []
+      packet.pairs.forEach(pair => decodePair(pair.field, pair.data, packet.time, cues))
+      return cues
+    },
+    flush: time => {
+      const cues: CaptionCue[] = []
+      channels.forEach((state, channel) => {
+        if (state.shownText && time > state.shownSince) {
+          cues.push({ channel, start: state.shownSince, end: time, text: state.shownText })
+        }
+        state.shownSince = time
+      })
+      return cues
+    },
+    reset: () => {
+      channels = new Map()
+      activeDataChannel = { 1: 1, 2: 1 }
+      lastControl = { 1: null, 2: null }
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/** One sample of the player state the ABR rules react to, as plotted by the dashboard charts */
+export interface MetricSample {
+  /** Seconds since the stream was loaded */
+  time: number
+  /** Bandwidth of the (simulated) network in bits per second */
+  actualBandwidth: number
+  /** Throughput estimate the ABR rule used; null until measured */
+  estimatedBandwidth: number | null
+  /** Seconds buffered ahead of the playhead */
+  buffer: number
+  /** Bitrate of the selected variant in bits per second */
+  bitrate: number
+  qualityIndex: number
+}
+
+export interface ChartPoint {
+  x: number
+  y: number
+}
+
+export interface SwitchMarker {
+  time: number
+  bitrate: number
+  /** Whether the switch went to a higher quality */
+  up: boolean
+}
+
+/**
+ * Appends a sample to a rolling history
+ * @intuition Charts show the recent past at a readable scale; older samples only cost memory and rendering
+ * @approach Drop samples that fell out of the window, keeping the last one before it so lines and steps still start at the
+ * left edge
+ * @complexity O(n) time and space for n samples in the window
+ */
+export const appendSample = (history: MetricSample[], sample: MetricSample, windowSeconds: number): MetricSample[] => {
+  const windowStart = sample.time - windowSeconds
+  const firstInside = history.findIndex(entry => entry.time >= windowStart)
+  const kept = firstInside === -1 ? history.slice(-1) : history.slice(Math.max(0, firstInside - 1))
+  return [...kept, sample]
+}
+
+/** Maps a value domain onto a pixel range linearly; an empty domain maps to the start of the range */
+export const createLinearScale = ([domainStart, domainEnd]: [number, number], [rangeStart, rangeEnd]: [number, number]) =>
+  (value: number): number =>
+    domainEnd === domainStart ? rangeStart : rangeStart + ((value - domainStart) / (domainEnd - domainStart)) * (rangeEnd - rangeStart)
+
+/**
+ * Rounds an axis maximum up to a readable value
+ * @intuition Gridlines at 1, 2 or 5 times a power of ten read at a glance; 3.7 Mbps does not
+ * @approach Take the power of ten below the value and pick the first of 1, 2, 5 and 10 times it that reaches the value
+ * @complexity O(1) time and space
+ */
+export const getNiceMax = (value: number): number => {
+  if (value <= 0) return 1
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  return ([1, 2, 5, 10].find(step => step * magnitude >= value) ?? 10) * magnitude
+}
+
+/** SVG path through the points; a null point lifts the pen, so gaps in the data stay gaps in the line */
+export const toLinePath = (points: (ChartPoint | null)[]): string => {
+  let path = ''
+  let penDown = false
+  for (const point of points) {
+    if (!point) {
+      penDown = false
+      continue
+    }
+    path += `${penDown ? 'L' : 'M'}${point.x.toFixed(1)},${point.y.toFixed(1)}`
+    penDown = true
+  }
+  return path
+}
+
+/** SVG path holding each value until the next point, as a variant stays selected until the next switch */
+export const toStepPath = (points: ChartPoint[]): string =>
+  points
+    .map((point, index) => (index === 0
+      ? `M${point.x.toFixed(1)},${point.y.toFixed(1)}`
+      : `H${point.x.toFixed(1)}V${point.y.toFixed(1)}`))
+    .join('')
+
+/**
+ * Finds the quality switches in a history
+ * @intuition Tuning ABR means seeing when and in which direction the rule switched relative to throughput and buffer
+ * @approach Compare each sample's quality index with the previous one
+ * @complexity O(n) time and O(s) space for n samples and s switches
+ */
+export const getSwitchMarkers = (samples: MetricSample[]): SwitchMarker[] =>
+  samples.slice(1).flatMap((sample, index) => {
+    const previous = samples[index]
+    return sample.qualityIndex === previous.qualityIndex
+      ? []
+      : [{ time: sample.time, bitrate: sample.bitrate, up: sample.qualityIndex > previous.qualityIndex }]
+  })
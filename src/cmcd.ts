@@ -0,0 +1,123 @@
+/** Common Media Client Data (CTA-5004) object types */
+export type CmcdObjectType = 'm' | 'a' | 'v' | 'av' | 'i' | 'c' | 'tt' | 'k' | 'o'
+
+/** CMCD keys the player sends, in the units the specification sets */
+export interface CmcdData {
+  /** Encoded bitrate of the object in kbps */
+  br?: number
+  /** Buffer length in milliseconds, rounded to 100 ms */
+  bl?: number
+  /** Buffer starvation since the last request */
+  bs?: boolean
+  /** Content ID */
+  cid?: string
+  /** Object duration in milliseconds */
+  d?: number
+  /** Measured throughput in kbps, rounded to 100 kbps */
+  mtp?: number
+  ot?: CmcdObjectType
+  /** Streaming format: h for HLS, d for DASH */
+  sf?: 'h' | 'd' | 's' | 'o'
+  sid?: string
+  /** Stream type: v for VOD, l for live */
+  st?: 'v' | 'l'
+  /** Startup: the object is needed urgently because playback has not started or is recovering from a stall */
+  su?: boolean
+  /** Top bitrate available to the client in kbps */
+  tb?: number
+}
+
+/** Headers carry the data without changing URLs but need CORS approval; the query argument works everywhere */
+export type CmcdMode = 'headers' | 'query'
+
+export interface CmcdConfig {
+  /** Defaults to query */
+  mode?: CmcdMode
+  contentId?: string
+}
+
+// Keys each request header carries (CTA-5004 section 2)
+const CMCD_HEADER_KEYS: Record<string, (keyof CmcdData)[]> = {
+  'CMCD-Object': ['br', 'd', 'ot', 'tb'],
+  'CMCD-Request': ['bl', 'mtp', 'su'],
+  'CMCD-Session': ['cid', 'sf', 'sid', 'st'],
+  'CMCD-Status': ['bs']
+}
+
+// Values that are tokens rather than strings and go unquoted
+const CMCD_TOKEN_KEYS = new Set<keyof CmcdData>(['ot', 'sf', 'st'])
+
+/**
+ * Serializes CMCD data as the specification requires
+ * @intuition CDNs parse one compact format for both headers and the query argument
+ * @approach Sort keys alphabetically, drop empty and false values, write true booleans as the bare key, integers as they
+ * are, tokens unquoted and strings quoted with backslash escapes
+ * @complexity O(k log k) time for k keys, O(k) space
+ */
+export const serializeCmcd = (data: CmcdData): string =>
+  (Object.entries(data) as [keyof CmcdData, CmcdData[keyof CmcdData]][])
+    .filter(([, value]) => value !== undefined && value !== false && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => {
+      if (value === true) return key
+      if (typeof value === 'number') return `${key}=${Math.round(value)}`
+      return CMCD_TOKEN_KEYS.has(key) ? `${key}=${value}` : `${key}=${JSON.stringify(value)}`
+    })
+    .join(',')
+
+export const toCmcdHeaders = (data: CmcdData): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(CMCD_HEADER_KEYS)
+      .map(([header, keys]) => [header, serializeCmcd(Object.fromEntries(keys.map(key => [key, data[key]])))])
+      .filter(([, value]) => value)
+  )
+
+export const appendCmcdQuery = (url: string, data: CmcdData): string => {
+  const serialized = serializeCmcd(data)
+  if (!serialized) return url
+  const [path, fragment] = url.split('#', 2)
+  const query = `${path.includes('?') ? '&' : '?'}CMCD=${encodeURIComponent(serialized)}`
+  return fragment === undefined ? `${path}${query}` : `${path}${query}#${fragment}`
+}
+
+export interface CmcdRequestState {
+  bitrate?: number
+  /** Seconds of media buffered ahead */
+  bufferLength?: number
+  /** Seconds of media in the object */
+  duration?: number
+  objectType: CmcdObjectType
+  /** Bits per second */
+  throughput?: number | null
+  topBitrate?: number
+  starved?: boolean
+  startup?: boolean
+}
+
+export interface CmcdSession {
+  sessionId: string
+  contentId?: string
+  format: 'hls' | 'dash'
+  live: boolean
+}
+
+/**
+ * Builds the CMCD data of one request
+ * @intuition The player measures in seconds and bits per second; CMCD wants milliseconds and kbps at set precisions
+ * @approach Convert and round each measurement to its key's unit, leaving out what is unknown
+ * @complexity O(1) time and space
+ */
+export const createCmcdData = (session: CmcdSession, request: CmcdRequestState): CmcdData => ({
+  br: request.bitrate !== undefined ? request.bitrate / 1000 : undefined,
+  bl: request.bufferLength !== undefined ? Math.round(request.bufferLength * 10) * 100 : undefined,
+  bs: request.starved,
+  cid: session.contentId,
+  d: request.duration !== undefined ? request.duration * 1000 : undefined,
+  mtp: request.throughput ? Math.round(request.throughput / 100000) * 100 : undefined,
+  ot: request.objectType,
+  sf: session.format === 'hls' ? 'h' : 'd',
+  sid: session.sessionId,
+  st: session.live ? 'l' : 'v',
+  su: request.startup,
+  tb: request.topBitrate !== undefined ? request.topBitrate / 1000 : undefined
+})
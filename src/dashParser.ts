@@ -0,0 +1,467 @@
+import type {
+  AudioTrack,
+  ByteRange,
+  DrmInfo,
+  InitSegment,
+  MediaRendition,
+  MediaSegment,
+  QualityLevel,
+  SubtitleFormat,
+  SubtitleTrack
+} from './types'
+import { resolveUrl } from './loader'
+import { findChild, findChildren, parseXml } from './xml'
+import type { XmlElement } from './xml'
+import { mergeDrmInfo, parseContentProtection } from './drm'
+
+export interface DashManifest {
+  live: boolean
+  minimumUpdatePeriod?: number
+  qualityLevels: QualityLevel[]
+  renditions: MediaRendition[]
+  /** Audio representations of presentations with video, each selectable on its own */
+  audioTracks: AudioTrack[]
+  /** Text representations with their own segments (WebVTT or IMSC) */
+  subtitleTracks: SubtitleTrack[]
+  /** DRM systems named by ContentProtection descriptors of every adaptation set */
+  drm: DrmInfo[]
+}
+
+interface PeriodContext {
+  index: number
+  start: number
+  duration: number
+  baseUrl: string
+  live: boolean
+  now: number
+  availabilityStartTime: number
+  timeShiftBufferDepth: number
+}
+
+interface SegmentSource {
+  template: Record<string, string>
+  timeline?: XmlElement
+  list?: XmlElement
+  base?: XmlElement
+}
+
+type ContentKind = 'video' | 'audio' | 'text'
+
+/**
+ * Parses an ISO 8601 duration (e.g. PT1H2M3.5S) into seconds
+ * @intuition MPD timing attributes (mediaPresentationDuration, Period@start, timeShiftBufferDepth) are xs:duration values
+ * @approach Match the designator groups with one regular expression; years and months use nominal 365/30-day lengths
+ * @complexity O(n) time where n is string length, O(1) space
+ */
+export const parseIsoDuration = (value: string | undefined): number | undefined => {
+  if (!value) return undefined
+  const match = /^(-)?P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value.trim())
+  if (!match) return undefined
+
+  const [, sign, years, months, days, hours, minutes, seconds] = match
+  const total =
+    parseFloat(years ?? '0') * 365 * 86400 +
+    parseFloat(months ?? '0') * 30 * 86400 +
+    parseFloat(days ?? '0') * 86400 +
+    parseFloat(hours ?? '0') * 3600 +
+    parseFloat(minutes ?? '0') * 60 +
+    parseFloat(seconds ?? '0')
+  return sign ? -total : total
+}
+
+const parseFrameRate = (value: string | undefined): number | undefined => {
+  if (!value) return undefined
+  const [numerator, denominator] = value.split('/').map(Number)
+  const rate = denominator ? numerator / denominator : numerator
+  return Number.isFinite(rate) ? rate : undefined
+}
+
+const parseRange = (value: string | undefined): ByteRange | undefined => {
+  const match = value ? /^(\d+)-(\d+)$/.exec(value) : null
+  if (!match) return undefined
+  const offset = parseInt(match[1])
+  return { offset, length: parseInt(match[2]) - offset + 1 }
+}
+
+/**
+ * Expands a SegmentTemplate URL pattern
+ * @intuition DASH addresses segments through $RepresentationID$, $Bandwidth$, $Number$ and $Time$ placeholders with optional printf widths
+ * @approach Replace each identifier (honouring %0Nd padding) and unescape $$
+ * @complexity O(n) time where n is template length, O(n) space
+ */
+export const fillTemplate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\$(RepresentationID|Number|Bandwidth|Time)(%0(\d+)d)?\$|\$\$/g, (match, name?: string, _format?: string, width?: string) => {
+    if (!name) return '$'
+    const value = values[name]
+    if (value === undefined) return match
+    return width ? value.toString().padStart(parseInt(width), '0') : value.toString()
+  })
+
+const getBaseUrl = (element: XmlElement, parentBase: string): string => {
+  const baseUrl = findChild(element, 'BaseURL')?.text.trim()
+  return baseUrl ? resolveUrl(baseUrl, parentBase) : parentBase
+}
+
+// Segment information inherits from Period to AdaptationSet to Representation, with the innermost level winning
+const mergeSegmentSource = (parent: SegmentSource, element: XmlElement): SegmentSource => {
+  const template = findChild(element, 'SegmentTemplate')
+  return {
+    template: template ? { ...parent.template, ...template.attributes } : parent.template,
+    timeline: findChild(template, 'SegmentTimeline') ?? parent.timeline,
+    list: findChild(element, 'SegmentList') ?? parent.list,
+    base: findChild(element, 'SegmentBase') ?? parent.base
+  }
+}
+
+const buildTemplateSegments = (
+  source: SegmentSource,
+  representation: XmlElement,
+  baseUrl: string,
+  period: PeriodContext
+): { segments: MediaSegment[]; initSegment?: InitSegment } => {
+  const { template } = source
+  const timescale = parseFloat(template['timescale'] ?? '1')
+  const presentationTimeOffset = parseFloat(template['presentationTimeOffset'] ?? '0')
+  const startNumber = parseInt(template['startNumber'] ?? '1')
+  const values = { RepresentationID: representation.attributes['id'] ?? '', Bandwidth: representation.attributes['bandwidth'] ?? '' }
+
+  const initSegment = template['initialization']
+    ? { uri: resolveUrl(fillTemplate(template['initialization'], values), baseUrl) }
+    : undefined
+
+  const segments: MediaSegment[] = []
+  const push = (number: number, time: number, duration: number) => {
+    segments.push({
+      uri: resolveUrl(fillTemplate(template['media'] ?? '', { ...values, Number: number, Time: time }), baseUrl),
+      duration: duration / timescale,
+      start: period.start + (time - presentationTimeOffset) / timescale,
+      sequenceNumber: number,
+      discontinuity: period.index > 0 && segments.length === 0,
+      discontinuitySequence: period.index,
+      initSegment
+    })
+  }
+
+  if (source.timeline) {
+    const entries = findChildren(source.timeline, 'S')
+    const periodEnd = presentationTimeOffset + period.duration * timescale
+    let time = 0
+    let number = startNumber
+
+    entries.forEach((entry, index) => {
+      if (entry.attributes['t'] !== undefined) time = parseFloat(entry.attributes['t'])
+      const duration = parseFloat(entry.attributes['d'])
+      let repeat = parseInt(entry.attributes['r'] ?? '0')
+
+      // r="-1" repeats until the next S@t or the end of the period
+      if (repeat < 0) {
+        const nextTime = entries[index + 1]?.attributes['t']
+        const until = nextTime !== undefined ? parseFloat(nextTime) : periodEnd
+        repeat = Number.isFinite(until) ? Math.max(0, Math.ceil((until - time) / duration) - 1) : 0
+      }
+
+      for (let i = 0; i <= repeat; i++) {
+        push(number++, time, duration)
+        time += duration
+      }
+    })
+  } else if (template['duration']) {
+    const duration = parseFloat(template['duration'])
+    const segmentDuration = duration / timescale
+    let first = 0
+    let last = Math.ceil(period.duration / segmentDuration) - 1
+
+    if (period.live) {
+      // Only segments that are fully available and still inside the time-shift buffer can be requested
+      const elapsed = (period.now - period.availabilityStartTime) / 1000 - period.start
+      last = Math.floor(elapsed / segmentDuration) - 1
+      first = Math.max(0, last - Math.ceil(period.timeShiftBufferDepth / segmentDuration) + 1)
+    }
+
+    // A static presentation without any known duration cannot be enumerated
+    if (!Number.isFinite(last)) last = -1
+
+    for (let k = first; k <= last; k++) {
+      push(startNumber + k, presentationTimeOffset + k * duration, duration)
+    }
+  }
+
+  return { segments, initSegment }
+}
+
+const buildListSegments = (list: XmlElement, baseUrl: string, period: PeriodContext) => {
+  const timescale = parseFloat(list.attributes['timescale'] ?? '1')
+  const duration = parseFloat(list.attributes['duration'] ?? '0') / timescale
+  const startNumber = parseInt(list.attributes['startNumber'] ?? '1')
+  const initialization = findChild(list, 'Initialization')
+  const initSegment = initialization
+    ? {
+        uri: resolveUrl(initialization.attributes['sourceURL'] ?? '', baseUrl),
+        byteRange: parseRange(initialization.attributes['range'])
+      }
+    : undefined
+
+  const segments = findChildren(list, 'SegmentURL').map((segmentUrl, index): MediaSegment => ({
+    uri: segmentUrl.attributes['media'] ? resolveUrl(segmentUrl.attributes['media'], baseUrl) : baseUrl,
+    byteRange: parseRange(segmentUrl.attributes['mediaRange']),
+    duration,
+    start: period.start + index * duration,
+    sequenceNumber: startNumber + index,
+    discontinuity: period.index > 0 && index === 0,
+    discontinuitySequence: period.index,
+    initSegment
+  }))
+
+  return { segments, initSegment }
+}
+
+const buildBaseSegments = (base: XmlElement | undefined, baseUrl: string, period: PeriodContext) => {
+  const initialization = findChild(base, 'Initialization')
+  // Without the sidx box the whole resource is one segment; the init range still lets us fetch the moov separately
+  const initSegment = initialization?.attributes['range']
+    ? { uri: baseUrl, byteRange: parseRange(initialization.attributes['range']) }
+    : undefined
+
+  const segment: MediaSegment = {
+    uri: baseUrl,
+    duration: period.duration,
+    start: period.start,
+    sequenceNumber: 0,
+    discontinuity: period.index > 0,
+    discontinuitySequence: period.index,
+    initSegment
+  }
+  return { segments: Number.isFinite(period.duration) ? [segment] : [], initSegment }
+}
+
+const getContentKind = (adaptationSet: XmlElement, representation?: XmlElement): ContentKind | null => {
+  const contentType = adaptationSet.attributes['contentType']
+  const mimeType = representation?.attributes['mimeType'] ?? adaptationSet.attributes['mimeType'] ?? ''
+  const codecs = representation?.attributes['codecs'] ?? adaptationSet.attributes['codecs'] ?? ''
+
+  if (contentType === 'video' || mimeType.startsWith('video')) return 'video'
+  if (contentType === 'audio' || mimeType.startsWith('audio')) return 'audio'
+  if (contentType === 'text' || mimeType.startsWith('text') || mimeType === 'application/ttml+xml' || codecs === 'stpp' || codecs === 'wvtt') {
+    return 'text'
+  }
+  return null
+}
+
+// stpp is IMSC in fMP4; plain text/vtt files are WebVTT
+const getTextFormat = (adaptationSet: XmlElement, representation: XmlElement): SubtitleFormat => {
+  const mimeType = representation.attributes['mimeType'] ?? adaptationSet.attributes['mimeType'] ?? ''
+  const codecs = representation.attributes['codecs'] ?? adaptationSet.attributes['codecs'] ?? ''
+  return mimeType.includes('ttml') || codecs.startsWith('stpp') ? 'imsc' : 'webvtt'
+}
+
+const buildQualityLevel = (
+  adaptationSet: XmlElement,
+  representation: XmlElement,
+  segments: MediaSegment[],
+  manifestUrl: string,
+  live: boolean
+): QualityLevel => {
+  const attribute = (name: string) => representation.attributes[name] ?? adaptationSet.attributes[name]
+  const width = attribute('width') ? parseInt(attribute('width')) : undefined
+  const height = attribute('height') ? parseInt(attribute('height')) : undefined
+  const bandwidth = parseInt(representation.attributes['bandwidth'] ?? '0')
+  const resolution = width && height ? `${width}x${height}` : ''
+
+  return {
+    id: `quality_${bandwidth}_${resolution || 'audio'}`,
+    bandwidth,
+    resolution,
+    width,
+    height,
+    codecs: attribute('codecs')?.split(',').map(codec => codec.trim()) ?? [],
+    frameRate: parseFrameRate(attribute('frameRate')),
+    // DASH has no per-representation playlist: refreshing a representation means reloading the MPD
+    url: manifestUrl,
+    live,
+    targetDuration: Math.ceil(Math.max(0, ...segments.map(segment => segment.duration))),
+    segments
+  }
+}
+
+/**
+ * Parses an MPEG-DASH MPD into the same QualityLevel model the HLS parser produces
+ * @intuition The ABR logic and UI should not care whether a stream is HLS or DASH, so both must converge on one model
+ * @approach Walk Period → AdaptationSet → Representation, inheriting BaseURL and segment addressing (SegmentTemplate with $Number$/$Time$
+ * and SegmentTimeline, SegmentList, SegmentBase); video representations become quality levels, audio and text sets become renditions,
+ * and periods are concatenated with discontinuities
+ * @complexity O(p * r * s) time for p periods, r representations and s segments each, O(r * s) space
+ */
+export const parseDashManifest = (content: string, manifestUrl: string, now: number = Date.now()): DashManifest => {
+  const mpd = parseXml(content)
+  if (mpd.localName !== 'MPD') throw new Error('Not an MPD manifest')
+
+  const live = mpd.attributes['type'] === 'dynamic'
+  const mpdBase = getBaseUrl(mpd, manifestUrl)
+  const presentationDuration = parseIsoDuration(mpd.attributes['mediaPresentationDuration'])
+  const availabilityStartTime = mpd.attributes['availabilityStartTime'] ? Date.parse(mpd.attributes['availabilityStartTime']) : 0
+  const timeShiftBufferDepth = parseIsoDuration(mpd.attributes['timeShiftBufferDepth']) ?? 30
+
+  const periods = findChildren(mpd, 'Period')
+  const videoLevels = new Map<string, QualityLevel>()
+  const audioLevels = new Map<string, QualityLevel>()
+  const renditions = new Map<string, MediaRendition>()
+  const audioRenditions = new Map<string, MediaRendition>()
+  const subtitleTracks = new Map<string, SubtitleTrack>()
+  let previousEnd = 0
+
+  periods.forEach((periodElement, periodIndex) => {
+    const start = parseIsoDuration(periodElement.attributes['start']) ?? previousEnd
+    const nextStart = parseIsoDuration(periods[periodIndex + 1]?.attributes['start'])
+    const duration = parseIsoDuration(periodElement.attributes['duration'])
+      ?? (nextStart !== undefined ? nextStart - start : undefined)
+      ?? (presentationDuration !== undefined ? presentationDuration - start : Infinity)
+    previousEnd = start + duration
+
+    const period: PeriodContext = {
+      index: periodIndex,
+      start,
+      duration,
+      baseUrl: getBaseUrl(periodElement, mpdBase),
+      live,
+      now,
+      availabilityStartTime,
+      timeShiftBufferDepth
+    }
+    const periodSource = mergeSegmentSource({ template: {} }, periodElement)
+
+    for (const adaptationSet of findChildren(periodElement, 'AdaptationSet')) {
+      const setBase = getBaseUrl(adaptationSet, period.baseUrl)
+      const setSource = mergeSegmentSource(periodSource, adaptationSet)
+
+      for (const representation of findChildren(adaptationSet, 'Representation')) {
+        const kind = getContentKind(adaptationSet, representation)
+        if (!kind) continue
+
+        const baseUrl = getBaseUrl(representation, setBase)
+        const source = mergeSegmentSource(setSource, representation)
+        const { segments } = source.template['media']
+          ? buildTemplateSegments(source, representation, baseUrl, period)
+          : source.list
+            ? buildListSegments(source.list, baseUrl, period)
+            : buildBaseSegments(source.base, baseUrl, period)
+
+        const key = representation.attributes['id'] ?? `${kind}_${representation.attributes['bandwidth']}`
+
+        if (kind === 'text' || kind === 'audio') {
+          const language = adaptationSet.attributes['lang']
+          const type = kind === 'text' ? 'SUBTITLES' : 'AUDIO'
+          const groupId = kind === 'text' ? 'subs' : 'audio'
+          const name = findChild(adaptationSet, 'Label')?.text.trim() || language || key
+          const renditionId = `${type.toLowerCase()}_${groupId}_${name}`
+          if (!renditions.has(renditionId)) {
+            const role = findChild(adaptationSet, 'Role')?.attributes['value']
+            renditions.set(renditionId, {
+              id: renditionId,
+              type,
+              groupId,
+              name,
+              language,
+              isDefault: role === 'main',
+              autoselect: true,
+              forced: role === 'forced-subtitle',
+              characteristics: [],
+              channels: findChild(representation, 'AudioChannelConfiguration')?.attributes['value']
+                ?? findChild(adaptationSet, 'AudioChannelConfiguration')?.attributes['value']
+            })
+          }
+          if (kind === 'text') {
+            const rendition = renditions.get(renditionId)
+            const existing = subtitleTracks.get(key)
+            if (existing) {
+              existing.segments.push(...segments)
+            } else if (rendition) {
+              subtitleTracks.set(key, {
+                id: `subtitles_${key}`,
+                groupId,
+                name,
+                language,
+                format: getTextFormat(adaptationSet, representation),
+                isDefault: rendition.isDefault,
+                autoselect: rendition.autoselect,
+                forced: rendition.forced,
+                url: manifestUrl,
+                live,
+                targetDuration: Math.ceil(Math.max(0, ...segments.map(segment => segment.duration))),
+                segments
+              })
+            }
+            continue
+          }
+          // Channel layouts can differ per representation within one language
+          const rendition = renditions.get(renditionId)
+          if (rendition && !audioRenditions.has(key)) {
+            audioRenditions.set(key, {
+              ...rendition,
+              channels: findChild(representation, 'AudioChannelConfiguration')?.attributes['value'] ?? rendition.channels
+            })
+          }
+        }
+
+        // Descriptors on the adaptation set apply to all its representations, which may add their own
+        const drm = parseContentProtection([
+          ...findChildren(adaptationSet, 'ContentProtection'),
+          ...findChildren(representation, 'ContentProtection')
+        ])
+        const levels = kind === 'video' ? videoLevels : audioLevels
+        const existing = levels.get(key)
+        if (existing) {
+          existing.segments.push(...segments)
+          existing.targetDuration = Math.max(existing.targetDuration, ...segments.map(segment => Math.ceil(segment.duration)))
+          if (drm.length) existing.drm = mergeDrmInfo([...(existing.drm ?? []), ...drm])
+        } else {
+          const level = buildQualityLevel(adaptationSet, representation, segments, manifestUrl, live)
+          levels.set(key, drm.length ? { ...level, drm } : level)
+        }
+      }
+    }
+  })
+
+  // Audio-only presentations expose their audio representations as the quality ladder
+  const hasVideo = videoLevels.size > 0
+  const qualityLevels = [...(hasVideo ? videoLevels : audioLevels).values()]
+    .map(level => ({ ...level, audioGroup: hasVideo && audioLevels.size > 0 ? 'audio' : undefined }))
+    .sort((a, b) => a.bandwidth - b.bandwidth)
+
+  const seenIds = new Map<string, number>()
+  for (const level of qualityLevels) {
+    const occurrences = seenIds.get(level.id) ?? 0
+    seenIds.set(level.id, occurrences + 1)
+    if (occurrences > 0) level.id = `${level.id}_${occurrences}`
+  }
+
+  const audioTracks: AudioTrack[] = !hasVideo ? [] : [...audioLevels.entries()].flatMap(([key, level]) => {
+    const rendition = audioRenditions.get(key)
+    if (!rendition) return []
+    return [{
+      id: `audio_${key}`,
+      groupId: rendition.groupId,
+      name: rendition.name,
+      language: rendition.language,
+      channels: rendition.channels,
+      codec: level.codecs[0],
+      bandwidth: level.bandwidth,
+      isDefault: rendition.isDefault,
+      autoselect: rendition.autoselect,
+      url: level.url,
+      live: level.live,
+      targetDuration: level.targetDuration,
+      segments: level.segments,
+      drm: level.drm
+    }]
+  })
+
+  return {
+    live,
+    minimumUpdatePeriod: parseIsoDuration(mpd.attributes['minimumUpdatePeriod']),
+    qualityLevels,
+    renditions: [...renditions.values()].filter(rendition => hasVideo || rendition.type !== 'AUDIO'),
+    audioTracks,
+    subtitleTracks: [...subtitleTracks.values()],
+    drm: mergeDrmInfo([...qualityLevels, ...audioTracks].flatMap(level => level.drm ?? []))
+  }
+}
@@ -0,0 +1,189 @@
+import type { Loader } from './loader'
+import type { SegmentKey } from './types'
+import { NAL_TYPE_IDR, NAL_TYPE_SLICE, splitNalUnits } from './mpegTs'
+import type { DemuxedTs } from './mpegTs'
+import { removeEmulationPrevention } from './bitstream'
+
+/**
+ * Fetches the raw 16-byte key an EXT-X-KEY tag points at. Apps pass their own to attach auth headers or to ask their
+ * own key service; keys are cached by URI, so it should be stable across renders
+ */
+export type KeyLoader = (key: SegmentKey) => Promise<ArrayBuffer | Uint8Array>
+
+export interface SegmentDecrypter {
+  /** Undoes whole-segment AES-128 encryption (CBC with PKCS#7 padding) */
+  decryptSegment: (data: ArrayBuffer, key: SegmentKey, sequenceNumber: number) => Promise<ArrayBuffer>
+  /** Decrypts the SAMPLE-AES H.264 slices and AAC frames of a demuxed MPEG-TS segment, ready for the transmuxer */
+  decryptSamples: (demuxed: DemuxedTs, key: SegmentKey, sequenceNumber: number) => Promise<DemuxedTs>
+}
+
+const AES_BLOCK_SIZE = 16
+const AES_KEY_SIZE = 16
+// Live streams that rotate keys fetch a new one every few segments; the oldest are dropped beyond this many
+const MAX_CACHED_KEYS = 8
+// SAMPLE-AES leaves a slice's first 32 bytes clear, then encrypts one block out of every ten
+const SAMPLE_AES_VIDEO_LEADER = 32
+const SAMPLE_AES_VIDEO_STRIDE = 160
+// and an AAC frame's first 16 bytes, then every whole block after them
+const SAMPLE_AES_AUDIO_LEADER = 16
+const START_CODE = [0x00, 0x00, 0x00, 0x01]
+
+/**
+ * Works out the initialization vector of a segment
+ * @intuition EXT-X-KEY may carry an IV; when it does not, HLS uses the segment's media sequence number instead
+ * @approach Prefer the tag's IV, otherwise write the sequence number big-endian into the last bytes of a 16-byte block
+ * @complexity O(1) time, O(1) space
+ */
+export const getSegmentIv = (key: SegmentKey, sequenceNumber: number): Uint8Array => {
+  if (key.iv) return key.iv
+  const iv = new Uint8Array(AES_BLOCK_SIZE)
+  const view = new DataView(iv.buffer)
+  view.setUint32(8, Math.floor(sequenceNumber / 2 ** 32))
+  view.setUint32(12, sequenceNumber >>> 0)
+  return iv
+}
+
+/**
+ * Creates the default key loader
+ * @intuition Most key servers are plain HTTP endpoints next to the playlists, sometimes behind a token
+ * @approach Fetch the key URI through the player's loader with optional extra headers
+ * @complexity O(1) time and space apart from the request
+ */
+export const createKeyLoader = (loader: Loader, headers?: Record<string, string>): KeyLoader =>
+  async key => (await loader.loadBinary(key.uri, { headers })).data
+
+const importAesKey = (raw: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', raw as BufferSource, { name: 'AES-CBC' }, false, ['encrypt', 'decrypt'])
+
+/**
+ * Decrypts CBC data that has no padding, as SAMPLE-AES stores it
+ * @intuition Web Crypto only offers AES-CBC with PKCS#7, and rejects input whose last block is not valid padding
+ * @approach Encrypt a full padding block chained to the last ciphertext block and append it, so decryption strips
+ * exactly that block and returns the original data
+ * @complexity O(n) time and space in the data size
+ */
+const decryptUnpadded = async (key: CryptoKey, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const lastBlock = data.slice(data.length - AES_BLOCK_SIZE)
+  const paddingBlock = new Uint8Array(AES_BLOCK_SIZE).fill(AES_BLOCK_SIZE)
+  const padding = await crypto.subtle.encrypt({ name: 'AES-CBC', iv: lastBlock }, key, paddingBlock)
+  const padded = new Uint8Array(data.length + AES_BLOCK_SIZE)
+  padded.set(data)
+  padded.set(new Uint8Array(padding, 0, AES_BLOCK_SIZE), data.length)
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: iv as BufferSource }, key, padded))
+}
+
+/**
+ * Decrypts one SAMPLE-AES H.264 NAL unit
+ * @intuition Only slices longer than 48 bytes are encrypted; the packager escaped the encrypted bytes again, so the
+ * clear NAL unit (with its own escaping) only reappears once that outer escaping is removed
+ * @approach Unescape, gather the 16-byte block after every 160 bytes from offset 32 (the last block must be followed by
+ * at least one byte), decrypt them as one CBC chain and put them back
+ * @complexity O(n) time and space in the NAL unit size
+ */
+const decryptNalUnit = async (key: CryptoKey, iv: Uint8Array, nal: Uint8Array): Promise<Uint8Array> => {
+  const unescaped = removeEmulationPrevention(nal)
+  const offsets: number[] = []
+  for (let offset = SAMPLE_AES_VIDEO_LEADER; offset < unescaped.length - AES_BLOCK_SIZE; offset += SAMPLE_AES_VIDEO_STRIDE) {
+    offsets.push(offset)
+  }
+  const encrypted = new Uint8Array(offsets.length * AES_BLOCK_SIZE)
+  offsets.forEach((offset, index) => encrypted.set(unescaped.subarray(offset, offset + AES_BLOCK_SIZE), index * AES_BLOCK_SIZE))
+
+  const clear = await decryptUnpadded(key, iv, encrypted)
+  offsets.forEach((offset, index) => unescaped.set(clear.subarray(index * AES_BLOCK_SIZE, (index + 1) * AES_BLOCK_SIZE), offset))
+  return unescaped
+}
+
+const decryptVideoPes = async (key: CryptoKey, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const units = await Promise.all(splitNalUnits(data).map(unit =>
+    (unit.type === NAL_TYPE_SLICE || unit.type === NAL_TYPE_IDR) && unit.data.length > SAMPLE_AES_VIDEO_LEADER + AES_BLOCK_SIZE
+      ? decryptNalUnit(key, iv, unit.data)
+      : unit.data
+  ))
+  const output = new Uint8Array(units.reduce((sum, unit) => sum + START_CODE.length + unit.length, 0))
+  let offset = 0
+  for (const unit of units) {
+    output.set(START_CODE, offset)
+    output.set(unit, offset + START_CODE.length)
+    offset += START_CODE.length + unit.length
+  }
+  return output
+}
+
+// Decrypts the ADTS frames of one PES payload in place; frame sizes do not change
+const decryptAudioPes = async (key: CryptoKey, iv: Uint8Array, data: Uint8Array): Promise<void> => {
+  const pending: Promise<void>[] = []
+  for (let offset = 0; offset + 7 <= data.length;) {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xf6) !== 0xf0) {
+      offset++
+      continue
+    }
+    const headerLength = data[offset + 1] & 0x01 ? 7 : 9
+    const frameLength = ((data[offset + 3] & 0x03) << 11) | (data[offset + 4] << 3) | (data[offset + 5] >> 5)
+    if (frameLength < headerLength || offset + frameLength > data.length) break
+
+    const frame = data.subarray(offset + headerLength, offset + frameLength)
+    const blocks = Math.floor((frame.length - SAMPLE_AES_AUDIO_LEADER) / AES_BLOCK_SIZE)
+    if (blocks > 0) {
+      const encrypted = frame.subarray(SAMPLE_AES_AUDIO_LEADER, SAMPLE_AES_AUDIO_LEADER + blocks * AES_BLOCK_SIZE)
+      pending.push(decryptUnpadded(key, iv, encrypted).then(clear => frame.set(clear, SAMPLE_AES_AUDIO_LEADER)))
+    }
+    offset += frameLength
+  }
+  await Promise.all(pending)
+}
+
+/**
+ * Creates a decrypter for HLS AES-128 and SAMPLE-AES segments
+ * @intuition Every segment under one EXT-X-KEY shares its key, and keys only change when the playlist rotates them,
+ * so each key should be fetched once however many segments use it
+ * @approach Cache one import promise per key URI (dropping failures so the next segment retries), decrypt whole
+ * segments with AES-CBC, and SAMPLE-AES samples of demuxed segments into copies; the IV restarts for every NAL unit and
+ * AAC frame
+ * @complexity O(n) time and space in the segment size, O(k) space for k cached keys
+ */
+export const createSegmentDecrypter = (keyLoader: KeyLoader): SegmentDecrypter => {
+  const keys = new Map<string, Promise<CryptoKey>>()
+
+  const getKey = (key: SegmentKey): Promise<CryptoKey> => {
+    if (key.keyFormat !== 'identity') return Promise.reject(new Error(`Key format ${key.keyFormat} needs a DRM system`))
+    const cached = keys.get(key.uri)
+    if (cached) return cached
+
+    const loading = keyLoader(key).then(raw => {
+      const bytes = raw instanceof Uint8Array ? raw : new Uint8Array(raw)
+      if (bytes.byteLength !== AES_KEY_SIZE) throw new Error(`Key ${key.uri} is ${bytes.byteLength} bytes, expected ${AES_KEY_SIZE}`)
+      return importAesKey(bytes)
+    })
+    loading.catch(() => {
+      if (keys.get(key.uri) === loading) keys.delete(key.uri)
+    })
+    keys.set(key.uri, loading)
+    const oldest = keys.keys().next().value
+    if (keys.size > MAX_CACHED_KEYS && oldest !== undefined) keys.delete(oldest)
+    return loading
+  }
+
+  return {
+    decryptSegment: async (data, key, sequenceNumber) => {
+      if (key.method !== 'AES-128') throw new Error(`${key.method} segments are not encrypted as a whole`)
+      const cryptoKey = await getKey(key)
+      const iv = getSegmentIv(key, sequenceNumber)
+      return crypto.subtle.decrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data)
+    },
+    decryptSamples: async (demuxed, key, sequenceNumber) => {
+      if (key.method !== 'SAMPLE-AES') throw new Error(`${key.method} samples cannot be decrypted without a DRM system`)
+      const cryptoKey = await getKey(key)
+      const iv = getSegmentIv(key, sequenceNumber)
+      const [video, audio] = await Promise.all([
+        Promise.all(demuxed.video.map(async pes => ({ ...pes, data: await decryptVideoPes(cryptoKey, iv, pes.data) }))),
+        Promise.all(demuxed.audio.map(async pes => {
+          const data = pes.data.slice()
+          await decryptAudioPes(cryptoKey, iv, data)
+          return { ...pes, data }
+        }))
+      ])
+      return { ...demuxed, video, audio }
+    }
+  }
+}
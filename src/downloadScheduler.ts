@@ -0,0 +1,182 @@
+import type { LoadProgress, LoadStats } from './loader'
+
+export interface DownloadTarget {
+  /** Media time the download starts at; a retry at another quality keeps the same slot */
+  start: number
+  end: number
+  quality: number
+  uri: string
+}
+
+export interface DownloadResult {
+  data: ArrayBuffer
+  stats: LoadStats
+}
+
+export interface DownloadRequestOptions {
+  signal: AbortSignal
+  onProgress: (progress: LoadProgress) => void
+}
+
+export interface DownloadSchedulerOptions<T extends DownloadTarget> {
+  download: (target: T, options: DownloadRequestOptions) => Promise<DownloadResult>
+  maxConcurrent?: number
+  /**
+   * Consulted on progress of the download playback is waiting on; returning a target abandons the request and loads
+   * the replacement into the same slot
+   */
+  checkAbandon?: (target: T, progress: LoadProgress) => T | null
+  /** Receives finished downloads strictly in request order; resolving false keeps the result for a later attempt */
+  onDeliver: (target: T, result: DownloadResult) => Promise<boolean>
+  onFailure?: (target: T, error: Error) => void
+  onAbandon?: (target: T, replacement: T, progress: LoadProgress) => void
+  /** Called whenever the set of undelivered downloads changes */
+  onChange?: (pending: T[]) => void
+}
+
+export interface DownloadScheduler<T extends DownloadTarget> {
+  hasCapacity: () => boolean
+  request: (target: T) => void
+  /** Retries delivery of results a previous onDeliver declined */
+  resume: () => void
+  /** Targets requested but not yet delivered, in media order */
+  getPending: () => T[]
+  setMaxConcurrent: (value: number) => void
+  /** Aborts everything in flight and drops undelivered results */
+  cancelAll: () => void
+}
+
+interface Slot<T> {
+  target: T
+  controller: AbortController
+  settled: boolean
+  result?: DownloadResult
+  error?: Error
+}
+
+export const DEFAULT_MAX_CONCURRENT_DOWNLOADS = 2
+// Shortest wait between request rounds, so a buffer below target is refilled promptly without a busy loop
+export const MIN_REQUEST_INTERVAL = 100
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)))
+
+/**
+ * Works out how long to wait before requesting the next segment
+ * @intuition A fixed timer either starves a draining buffer or overfills a full one; the buffer level says when there
+ * is room for another segment
+ * @approach Count media buffered or already in flight; request now while that is under the target, otherwise wait for
+ * playback to drain the excess
+ * @complexity O(1) time, O(1) space
+ */
+export const getRequestDelay = (bufferAhead: number, targetBuffer: number): number =>
+  Math.max(0, bufferAhead - targetBuffer) * 1000
+
+/**
+ * Creates a scheduler that keeps several downloads in flight and hands results over in order
+ * @intuition One request at a time leaves the connection idle between segments, but parallel downloads finish out of
+ * order while SourceBuffers need media in sequence, and a stalled download must be replaceable without losing its place
+ * @approach Keep a FIFO of slots, each owning an AbortController; deliver settled slots from the head only, check the
+ * head download for abandonment on progress and restart it in place, and drop everything behind a failed slot so it is
+ * requested again in order
+ * @complexity O(c) time per event for c pending slots, O(c) space
+ */
+export const createDownloadScheduler = <T extends DownloadTarget>(
+  options: DownloadSchedulerOptions<T>
+): DownloadScheduler<T> => {
+  let maxConcurrent = Math.max(1, options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT_DOWNLOADS)
+  let slots: Slot<T>[] = []
+  let delivering = false
+
+  const notify = () => options.onChange?.(slots.map(slot => slot.target))
+
+  const deliver = async () => {
+    if (delivering) return
+    delivering = true
+    try {
+      while (slots[0]?.settled) {
+        const slot = slots[0]
+        let error = slot.error
+        if (!error && slot.result) {
+          try {
+            if (!(await options.onDeliver(slot.target, slot.result))) break
+          } catch (deliveryError) {
+            error = toError(deliveryError)
+          }
+        }
+        // cancelAll during delivery has already replaced the queue
+        if (slots[0] !== slot) continue
+
+        if (error) {
+          // Media behind a gap cannot be appended, so drop it and let it be requested again in order
+          slots.forEach(pending => pending.controller.abort())
+          slots = []
+          notify()
+          options.onFailure?.(slot.target, error)
+          break
+        }
+        slots.shift()
+        notify()
+      }
+    } finally {
+      delivering = false
+    }
+  }
+
+  const start = (slot: Slot<T>) => {
+    const controller = new AbortController()
+    slot.controller = controller
+    slot.settled = false
+    slot.result = undefined
+    slot.error = undefined
+
+    const onProgress = (progress: LoadProgress) => {
+      // Only the first unfinished download holds up playback
+      if (controller.signal.aborted || slots.find(candidate => !candidate.settled) !== slot) return
+      const replacement = options.checkAbandon?.(slot.target, progress)
+      if (!replacement) return
+      controller.abort()
+      options.onAbandon?.(slot.target, replacement, progress)
+      slot.target = replacement
+      start(slot)
+      notify()
+    }
+
+    options.download(slot.target, { signal: controller.signal, onProgress }).then(
+      result => {
+        // A newer attempt (abandonment) or cancelAll owns the slot now
+        if (slot.controller !== controller || controller.signal.aborted) return
+        slot.result = result
+        slot.settled = true
+        deliver()
+      },
+      error => {
+        if (slot.controller !== controller || controller.signal.aborted) return
+        slot.error = toError(error)
+        slot.settled = true
+        deliver()
+      }
+    )
+  }
+
+  return {
+    hasCapacity: () => slots.filter(slot => !slot.settled).length < maxConcurrent,
+    request: target => {
+      const slot: Slot<T> = { target, controller: new AbortController(), settled: false }
+      slots.push(slot)
+      start(slot)
+      notify()
+    },
+    resume: () => {
+      deliver()
+    },
+    getPending: () => slots.map(slot => slot.target),
+    setMaxConcurrent: value => {
+      maxConcurrent = Math.max(1, value)
+    },
+    cancelAll: () => {
+      slots.forEach(slot => slot.controller.abort())
+      slots = []
+      notify()
+    }
+  }
+}
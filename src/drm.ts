@@ -0,0 +1,175 @@
+import type { DrmInfo, SegmentKey } from './types'
+import { findChild } from './xml'
+import type { XmlElement } from './xml'
+
+export const WIDEVINE = 'com.widevine.alpha'
+export const PLAYREADY = 'com.microsoft.playready'
+export const FAIRPLAY = 'com.apple.fps'
+export const CLEARKEY = 'org.w3.clearkey'
+
+export const KEY_SYSTEM_NAMES: Record<string, string> = {
+  [WIDEVINE]: 'Widevine',
+  [PLAYREADY]: 'PlayReady',
+  [FAIRPLAY]: 'FairPlay',
+  [CLEARKEY]: 'ClearKey'
+}
+
+// DRM system IDs as used in PSSH boxes and DASH ContentProtection@schemeIdUri (urn:uuid:...)
+const SYSTEM_IDS: Record<string, string> = {
+  'edef8ba9-79d6-4ace-a3c8-27dcd51d21ed': WIDEVINE,
+  '9a04f079-9840-4286-ab92-e65be0885f95': PLAYREADY,
+  '94ce86fb-07ff-4f43-adb8-93d2fa968ca2': FAIRPLAY,
+  'e2719d58-a985-b3c9-781a-b030af78d30e': CLEARKEY,
+  '1077efec-c0b2-4d02-ace3-3c1e52e2fb4b': CLEARKEY
+}
+const PLAYREADY_SYSTEM_ID = '9a04f079-9840-4286-ab92-e65be0885f95'
+
+// HLS KEYFORMAT values that name a key system without a UUID
+const HLS_KEY_FORMATS: Record<string, string> = {
+  'com.apple.streamingkeydelivery': FAIRPLAY,
+  'com.microsoft.playready': PLAYREADY,
+  'org.w3.clearkey': CLEARKEY
+}
+
+export const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+
+export const fromHex = (hex: string): Uint8Array => Uint8Array.from(hex.match(/[0-9a-f]{2}/gi) ?? [], byte => parseInt(byte, 16))
+
+export const decodeBase64 = (value: string): Uint8Array => {
+  const normalized = value.trim().replace(/-/g, '+').replace(/_/g, '/')
+  const padded = normalized.padEnd(normalized.length + ((4 - (normalized.length % 4)) % 4), '=')
+  return Uint8Array.from(atob(padded), character => character.charCodeAt(0))
+}
+
+/** Base64url without padding, as ClearKey writes key IDs and keys */
+export const encodeBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+// Key IDs appear as UUIDs (DASH default_KID) or 0x-prefixed hex (HLS KEYID); both become 32 lowercase hex digits
+const normalizeKeyId = (value: string): string | null => {
+  const hex = value.trim().replace(/^0x/i, '').replace(/-/g, '').toLowerCase()
+  return /^[0-9a-f]{32}$/.test(hex) ? hex : null
+}
+
+const getSystemKeySystem = (uuid: string): string | undefined => SYSTEM_IDS[uuid.toLowerCase().replace(/^urn:uuid:/, '')]
+
+/**
+ * Decodes the payload of a data: URI
+ * @intuition HLS DRM key tags inline their PSSH or PlayReady object as data:text/plain;base64,... instead of pointing at a server
+ * @approach Split at the first comma and base64-decode when the media type says so, otherwise percent-decode as text
+ * @complexity O(n) time and space in the URI length
+ */
+export const decodeDataUri = (uri: string): Uint8Array | null => {
+  const match = /^data:([^,]*),(.*)$/s.exec(uri)
+  if (!match) return null
+  try {
+    return match[1].split(';').includes('base64') ? decodeBase64(match[2]) : new TextEncoder().encode(decodeURIComponent(match[2]))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Wraps system-specific init data in a PSSH box
+ * @intuition EME's 'cenc' init data type is a PSSH box, while manifests sometimes carry only the payload (e.g. a PlayReady object)
+ * @approach Write a version 0 box: size, 'pssh', version/flags, the 16-byte system ID, then the sized payload
+ * @complexity O(n) time and space in the payload size
+ */
+export const createPsshBox = (systemId: string, data: Uint8Array): Uint8Array => {
+  const box = new Uint8Array(32 + data.length)
+  const view = new DataView(box.buffer)
+  view.setUint32(0, box.length)
+  box.set([0x70, 0x73, 0x73, 0x68], 4) // 'pssh'
+  box.set(fromHex(systemId.replace(/-/g, '')), 12)
+  view.setUint32(28, data.length)
+  box.set(data, 32)
+  return box
+}
+
+/** ClearKey 'keyids' init data: {"kids":[base64url key IDs]} */
+export const createKeyIdsInitData = (keyIds: string[]): Uint8Array =>
+  new TextEncoder().encode(JSON.stringify({ kids: keyIds.map(keyId => encodeBase64Url(fromHex(keyId))) }))
+
+/**
+ * Describes the key system behind an HLS EXT-X-KEY or EXT-X-SESSION-KEY tag
+ * @intuition Identity keys are decrypted by the player itself; every other KEYFORMAT names a DRM system that EME must handle
+ * @approach Map the KEYFORMAT (a name or urn:uuid) to an EME key system and derive init data the way each system expects:
+ * the inline PSSH for Widevine, a PSSH-wrapped PlayReady object, the skd URI for FairPlay and a key ID list for ClearKey
+ * @complexity O(n) time and space in the URI length
+ */
+export const getHlsDrmInfo = (key: SegmentKey): DrmInfo | null => {
+  if (key.keyFormat === 'identity') return null
+  const keySystem = HLS_KEY_FORMATS[key.keyFormat] ?? getSystemKeySystem(key.keyFormat)
+  if (!keySystem) return null
+
+  const keyIds = key.keyId ? [key.keyId] : []
+  const inline = decodeDataUri(key.uri)
+  if (keySystem === FAIRPLAY) {
+    return { keySystem, initDataType: 'skd', initData: new TextEncoder().encode(key.uri), keyIds }
+  }
+  if (keySystem === PLAYREADY && inline) {
+    return { keySystem, initDataType: 'cenc', initData: createPsshBox(PLAYREADY_SYSTEM_ID, inline), keyIds }
+  }
+  if (keySystem === CLEARKEY) {
+    return keyIds.length
+      ? { keySystem, initDataType: 'keyids', initData: createKeyIdsInitData(keyIds), keyIds, licenseUrl: inline ? undefined : key.uri }
+      : { keySystem, keyIds, licenseUrl: key.uri }
+  }
+  return inline ? { keySystem, initDataType: 'cenc', initData: inline, keyIds } : { keySystem, keyIds }
+}
+
+const findAttribute = (element: XmlElement, name: string): string | undefined =>
+  Object.entries(element.attributes).find(([attribute]) => attribute === name || attribute.endsWith(`:${name}`))?.[1]
+
+// dashif:laurl, clearkey:Laurl and ms:laurl (which keeps the URL in an attribute) all name the license server
+const findLicenseUrl = (element: XmlElement): string | undefined => {
+  const laurl = element.children.find(child => child.localName.toLowerCase() === 'laurl')
+  return laurl ? (laurl.attributes['licenseUrl'] ?? laurl.text.trim()) || undefined : undefined
+}
+
+/**
+ * Reads the DRM systems of a DASH AdaptationSet or Representation
+ * @intuition The mp4protection descriptor carries the default key ID, and one descriptor per DRM system carries its PSSH
+ * and optionally a license URL
+ * @approach Collect default_KID values across all descriptors, then turn each urn:uuid descriptor naming a known system
+ * into a DrmInfo; ClearKey without a PSSH gets a key ID list as init data
+ * @complexity O(d) time and space for d descriptors
+ */
+export const parseContentProtection = (elements: XmlElement[]): DrmInfo[] => {
+  const keyIds = [...new Set(elements.flatMap(element => normalizeKeyId(findAttribute(element, 'default_KID') ?? '') ?? []))]
+
+  return elements.flatMap((element): DrmInfo[] => {
+    const scheme = element.attributes['schemeIdUri'] ?? ''
+    const keySystem = scheme.toLowerCase().startsWith('urn:uuid:') ? getSystemKeySystem(scheme) : undefined
+    if (!keySystem) return []
+
+    const pssh = findChild(element, 'pssh')?.text.trim()
+    const playReadyObject = findChild(element, 'pro')?.text.trim()
+    const licenseUrl = findLicenseUrl(element)
+    if (pssh) return [{ keySystem, initDataType: 'cenc', initData: decodeBase64(pssh), keyIds, licenseUrl }]
+    if (playReadyObject) {
+      return [{ keySystem, initDataType: 'cenc', initData: createPsshBox(PLAYREADY_SYSTEM_ID, decodeBase64(playReadyObject)), keyIds, licenseUrl }]
+    }
+    if (keySystem === CLEARKEY && keyIds.length) {
+      return [{ keySystem, initDataType: 'keyids', initData: createKeyIdsInitData(keyIds), keyIds, licenseUrl }]
+    }
+    return [{ keySystem, keyIds, licenseUrl }]
+  })
+}
+
+/**
+ * Merges DRM descriptions gathered from several playlists or adaptation sets
+ * @intuition Every variant repeats the same key tags, so the union has to be deduplicated before sessions are opened
+ * @approach Key each entry by system and init data; keep the first, filling in a license URL a later duplicate names
+ * @complexity O(n * d) time for n entries of d bytes of init data, O(n) space
+ */
+export const mergeDrmInfo = (infos: DrmInfo[]): DrmInfo[] => {
+  const merged = new Map<string, DrmInfo>()
+  for (const info of infos) {
+    const key = `${info.keySystem}|${info.initData ? toHex(info.initData) : info.keyIds.join()}`
+    const existing = merged.get(key)
+    if (!existing) merged.set(key, info)
+    else if (!existing.licenseUrl && info.licenseUrl) merged.set(key, { ...existing, licenseUrl: info.licenseUrl })
+  }
+  return [...merged.values()]
+}
@@ -0,0 +1,284 @@
+import type { DrmInfo } from './types'
+import type { Loader } from './loader'
+import { KEY_SYSTEM_NAMES, PLAYREADY, decodeBase64, toHex } from './drm'
+import { findChild, findChildren, parseXml } from './xml'
+
+export interface LicenseRequest {
+  keySystem: string
+  url: string
+  /** MediaKeyMessageEvent.messageType: license-request, license-renewal, license-release or individualization-request */
+  messageType: string
+  headers: Record<string, string>
+  body: Uint8Array
+}
+
+export interface DrmConfig {
+  /** License server per key system; systems without one use the URL the manifest names */
+  servers?: Record<string, string>
+  /** Key systems to try first, in order; the other systems the manifest names follow */
+  preferredKeySystems?: string[]
+  /** Adds headers (tokens, session IDs) or wraps the CDM's challenge the way the license server expects */
+  prepareLicenseRequest?: (request: LicenseRequest) => LicenseRequest | Promise<LicenseRequest>
+  /** Unwraps the license server's response into the license the CDM expects */
+  parseLicenseResponse?: (response: Uint8Array, request: LicenseRequest) => Uint8Array | Promise<Uint8Array>
+  /** Service certificate per key system, e.g. for Widevine privacy mode */
+  serverCertificates?: Record<string, Uint8Array>
+}
+
+/** Sends a license request and resolves with the server's response body */
+export type LicenseTransport = (request: LicenseRequest) => Promise<Uint8Array>
+
+export type DrmEvent =
+  | { type: 'access-granted'; keySystem: string }
+  | { type: 'access-denied'; keySystem: string; reason: string }
+  | { type: 'session-created'; sessionId: string; initDataType: string }
+  | { type: 'license-request'; sessionId: string; messageType: string; url: string }
+  | { type: 'license-updated'; sessionId: string }
+  | { type: 'key-status'; sessionId: string; keyId: string; status: string }
+  | { type: 'session-closed'; sessionId: string }
+  | { type: 'error'; message: string }
+
+export interface EmeControllerOptions {
+  video: HTMLMediaElement
+  config: DrmConfig
+  /** DRM systems the manifest announces; may be empty when only the media carries init data */
+  drmInfos: DrmInfo[]
+  /** Codecs the key system must be able to decrypt; the pipeline always feeds MSE fragmented MP4 */
+  videoCodecs: string[]
+  audioCodecs: string[]
+  transport: LicenseTransport
+  onEvent: (event: DrmEvent) => void
+  /** Defaults to navigator.requestMediaKeySystemAccess; replaceable to test without a CDM */
+  requestAccess?: (keySystem: string, configurations: MediaKeySystemConfiguration[]) => Promise<MediaKeySystemAccess>
+}
+
+export interface EmeController {
+  /** Picks the first key system the browser supports, attaches its MediaKeys and opens sessions for manifest init data */
+  attach: () => Promise<string | null>
+  /** Opens a session for init data the media announced (the element's 'encrypted' event) */
+  handleEncrypted: (initDataType: string, initData: ArrayBuffer | null) => Promise<void>
+  destroy: () => Promise<void>
+}
+
+// Used when the manifest does not name codecs, since a configuration without any capability is rejected
+const DEFAULT_VIDEO_CODEC = 'avc1.42e01e'
+const DEFAULT_AUDIO_CODEC = 'mp4a.40.2'
+// Key statuses that still allow playback; anything else (expired, output-restricted, internal-error...) is reported as a warning
+const USABLE_KEY_STATUSES = new Set(['usable', 'usable-in-future', 'status-pending', 'output-downscaled'])
+
+const toBytes = (source: BufferSource): Uint8Array =>
+  ArrayBuffer.isView(source) ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength) : new Uint8Array(source)
+
+const getKeySystemName = (keySystem: string): string => KEY_SYSTEM_NAMES[keySystem] ?? keySystem
+
+/**
+ * Creates the default license transport
+ * @intuition License servers are plain HTTP endpoints taking the CDM's challenge as a POST body
+ * @approach POST the request through the player's loader so mock:// license stand-ins and custom loaders work alike
+ * @complexity O(n) time and space in the response size
+ */
+export const createLicenseTransport = (loader: Loader): LicenseTransport =>
+  async request => new Uint8Array((await loader.loadBinary(request.url, { headers: request.headers, body: request.body })).data)
+
+/**
+ * Orders the key systems to try
+ * @intuition Apps know which system their license service prefers, but only systems the stream is protected with can play it
+ * @approach Take the preferred systems the manifest names first, then the rest in manifest order; without manifest DRM
+ * information fall back to the configured systems, as the media may still announce init data
+ * @complexity O(p * d) time for p preferred and d announced systems, O(d) space
+ */
+export const orderKeySystems = (drmInfos: DrmInfo[], config: DrmConfig): string[] => {
+  const announced = [...new Set(drmInfos.map(info => info.keySystem))]
+  const available = announced.length ? announced : [...new Set([...(config.preferredKeySystems ?? []), ...Object.keys(config.servers ?? {})])]
+  const preferred = (config.preferredKeySystems ?? []).filter(keySystem => available.includes(keySystem))
+  return [...preferred, ...available.filter(keySystem => !preferred.includes(keySystem))]
+}
+
+/**
+ * Extracts the license challenge from a PlayReady key message
+ * @intuition PlayReady CDMs wrap the SOAP challenge in a UTF-16 XML envelope that also lists the HTTP headers the
+ * license server requires, while servers expect the bare challenge
+ * @approach Decode the envelope, base64-decode its Challenge and collect its HttpHeaders; messages that are not an
+ * envelope are sent unchanged
+ * @complexity O(n) time and space in the message size
+ */
+export const unwrapPlayReadyMessage = (message: Uint8Array): { body: Uint8Array; headers: Record<string, string> } => {
+  const text = new TextDecoder('utf-16le').decode(message)
+  if (!text.includes('PlayReadyKeyMessage')) return { body: message, headers: {} }
+  try {
+    const acquisition = findChild(parseXml(text.slice(text.indexOf('<PlayReadyKeyMessage'))), 'LicenseAcquisition')
+    const challenge = findChild(acquisition, 'Challenge')?.text.trim()
+    if (!challenge) return { body: message, headers: {} }
+    const headers = Object.fromEntries(findChildren(findChild(acquisition, 'HttpHeaders'), 'HttpHeader').map(header =>
+      [findChild(header, 'name')?.text.trim() ?? '', findChild(header, 'value')?.text.trim() ?? '']
+    ).filter(([name]) => name))
+    return { body: decodeBase64(challenge), headers }
+  } catch {
+    return { body: message, headers: {} }
+  }
+}
+
+/**
+ * Describes a DRM event for the event log
+ * @intuition Key status changes and license round trips explain most DRM playback failures, so each gets a readable line
+ * @approach Format per event type; denied systems and unusable keys are warnings, failures errors
+ * @complexity O(1) time and space
+ */
+export const formatDrmEvent = (event: DrmEvent): { message: string; severity: 'info' | 'warning' | 'error' } => {
+  switch (event.type) {
+    case 'access-granted':
+      return { message: `DRM: using ${getKeySystemName(event.keySystem)}`, severity: 'info' }
+    case 'access-denied':
+      return { message: `DRM: ${getKeySystemName(event.keySystem)} unavailable (${event.reason})`, severity: 'warning' }
+    case 'session-created':
+      return { message: `DRM: session ${event.sessionId} created from ${event.initDataType} init data`, severity: 'info' }
+    case 'license-request':
+      return { message: `DRM: ${event.messageType} for session ${event.sessionId} sent to ${event.url}`, severity: 'info' }
+    case 'license-updated':
+      return { message: `DRM: license applied to session ${event.sessionId}`, severity: 'info' }
+    case 'key-status':
+      return {
+        message: `DRM: key ${event.keyId} is ${event.status}`,
+        severity: USABLE_KEY_STATUSES.has(event.status) ? 'info' : 'warning'
+      }
+    case 'session-closed':
+      return { message: `DRM: session ${event.sessionId} closed`, severity: 'info' }
+    case 'error':
+      return { message: `DRM: ${event.message}`, severity: 'error' }
+  }
+}
+
+/**
+ * Creates the EME controller for one stream
+ * @intuition Protected content only plays once a key system is chosen, MediaKeys are attached and every session's
+ * challenge has been answered by the license server; all of that is asynchronous and may race with the media's own
+ * 'encrypted' events
+ * @approach Try key systems in order until one grants access, attach its MediaKeys (with a service certificate when
+ * configured), then open one session per distinct init data, whether from the manifest or the media. Each session
+ * forwards its messages through the license hook and transport and reports key statuses; 'encrypted' events wait for
+ * the key system choice
+ * @complexity O(k) access attempts for k key systems, O(s) space for s sessions
+ */
+export const createEmeController = ({
+  video,
+  config,
+  drmInfos,
+  videoCodecs,
+  audioCodecs,
+  transport,
+  onEvent,
+  requestAccess = (keySystem, configurations) => navigator.requestMediaKeySystemAccess(keySystem, configurations)
+}: EmeControllerOptions): EmeController => {
+  const sessions: MediaKeySession[] = []
+  const initDataSeen = new Set<string>()
+  let mediaKeys: MediaKeys | null = null
+  let keySystem: string | null = null
+  let ready: Promise<string | null> | null = null
+  let destroyed = false
+
+  const configurations: MediaKeySystemConfiguration[] = [{
+    initDataTypes: ['cenc', 'keyids', 'sinf', 'skd'],
+    videoCapabilities: (videoCodecs.length ? videoCodecs : [DEFAULT_VIDEO_CODEC])
+      .map(codec => ({ contentType: `video/mp4; codecs="${codec}"` })),
+    audioCapabilities: (audioCodecs.length ? audioCodecs : [DEFAULT_AUDIO_CODEC])
+      .map(codec => ({ contentType: `audio/mp4; codecs="${codec}"` }))
+  }]
+
+  const reportError = (message: string, error: unknown) =>
+    onEvent({ type: 'error', message: `${message}: ${error instanceof Error ? error.message : error}` })
+
+  const getLicenseUrl = (system: string): string | undefined =>
+    config.servers?.[system] ?? drmInfos.find(info => info.keySystem === system && info.licenseUrl)?.licenseUrl
+
+  const handleMessage = async (session: MediaKeySession, event: MediaKeyMessageEvent) => {
+    if (!keySystem || destroyed) return
+    const url = getLicenseUrl(keySystem)
+    if (!url) {
+      onEvent({ type: 'error', message: `No license server for ${getKeySystemName(keySystem)}` })
+      return
+    }
+    try {
+      const message = new Uint8Array(event.message)
+      const { body, headers } = keySystem === PLAYREADY ? unwrapPlayReadyMessage(message) : { body: message, headers: {} }
+      const initial: LicenseRequest = { keySystem, url, messageType: event.messageType, headers, body }
+      const request = config.prepareLicenseRequest ? await config.prepareLicenseRequest(initial) : initial
+      onEvent({ type: 'license-request', sessionId: session.sessionId, messageType: request.messageType, url: request.url })
+      const response = await transport(request)
+      const license = config.parseLicenseResponse ? await config.parseLicenseResponse(response, request) : response
+      if (destroyed) return
+      await session.update(license as BufferSource)
+      onEvent({ type: 'license-updated', sessionId: session.sessionId })
+    } catch (error) {
+      if (!destroyed) reportError(`License request for session ${session.sessionId} failed`, error)
+    }
+  }
+
+  const openSession = async (initDataType: string, initData: Uint8Array) => {
+    const dedupeKey = `${initDataType}|${toHex(initData)}`
+    if (!mediaKeys || initDataSeen.has(dedupeKey)) return
+    initDataSeen.add(dedupeKey)
+
+    const session = mediaKeys.createSession()
+    sessions.push(session)
+    session.addEventListener('message', event => void handleMessage(session, event))
+    session.addEventListener('keystatuseschange', () => {
+      session.keyStatuses.forEach((status, keyId) =>
+        onEvent({ type: 'key-status', sessionId: session.sessionId, keyId: toHex(toBytes(keyId)), status })
+      )
+    })
+    session.closed.then(() => onEvent({ type: 'session-closed', sessionId: session.sessionId }))
+    try {
+      await session.generateRequest(initDataType, initData as BufferSource)
+      onEvent({ type: 'session-created', sessionId: session.sessionId, initDataType })
+    } catch (error) {
+      initDataSeen.delete(dedupeKey)
+      reportError(`Could not start a ${initDataType} session`, error)
+    }
+  }
+
+  const selectKeySystem = async (): Promise<string | null> => {
+    for (const candidate of orderKeySystems(drmInfos, config)) {
+      if (destroyed) return null
+      try {
+        const access = await requestAccess(candidate, configurations)
+        const keys = await access.createMediaKeys()
+        const certificate = config.serverCertificates?.[candidate]
+        if (certificate) await keys.setServerCertificate(certificate as BufferSource)
+        if (destroyed) return null
+        await video.setMediaKeys(keys)
+        mediaKeys = keys
+        keySystem = candidate
+        onEvent({ type: 'access-granted', keySystem: candidate })
+        return candidate
+      } catch (error) {
+        onEvent({ type: 'access-denied', keySystem: candidate, reason: error instanceof Error ? error.message : String(error) })
+      }
+    }
+    onEvent({ type: 'error', message: 'None of the stream\'s key systems is supported by this browser' })
+    return null
+  }
+
+  return {
+    attach: async () => {
+      ready ??= selectKeySystem()
+      const selected = await ready
+      if (!selected) return null
+      for (const info of drmInfos) {
+        if (info.keySystem === selected && info.initDataType && info.initData) await openSession(info.initDataType, info.initData)
+      }
+      return selected
+    },
+    handleEncrypted: async (initDataType, initData) => {
+      ready ??= selectKeySystem()
+      if (!initData || !(await ready)) return
+      await openSession(initDataType, new Uint8Array(initData))
+    },
+    destroy: async () => {
+      destroyed = true
+      await Promise.all(sessions.splice(0).map(session => session.close().catch(() => undefined)))
+      if (mediaKeys) await video.setMediaKeys(null).catch(() => undefined)
+      mediaKeys = null
+      keySystem = null
+    }
+  }
+}
@@ -0,0 +1,46 @@
+export type Listener<T> = (payload: T) => void
+
+export interface EventEmitter<Events extends object> {
+  /** Subscribes to one event type; the returned function unsubscribes */
+  on: <K extends keyof Events>(type: K, listener: Listener<Events[K]>) => () => void
+  off: <K extends keyof Events>(type: K, listener: Listener<Events[K]>) => void
+  emit: <K extends keyof Events>(type: K, payload: Events[K]) => void
+  /** Drops every listener, e.g. when the player is destroyed */
+  clear: () => void
+}
+
+/**
+ * Creates a typed event emitter
+ * @intuition Apps observe the player from outside React, so events need plain subscriptions whose payload types follow
+ * the event name
+ * @approach Keep a listener set per event type; emit walks a snapshot so listeners may unsubscribe while handling, and a
+ * throwing listener is reported without keeping the others (or the player) from running
+ * @complexity O(1) time to subscribe, O(l) time per emit for l listeners, O(total listeners) space
+ */
+export const createEventEmitter = <Events extends object>(): EventEmitter<Events> => {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>()
+
+  const off: EventEmitter<Events>['off'] = (type, listener) => {
+    listeners.get(type)?.delete(listener)
+  }
+
+  return {
+    on: (type, listener) => {
+      const registered = listeners.get(type) ?? new Set()
+      registered.add(listener)
+      listeners.set(type, registered)
+      return () => off(type, listener)
+    },
+    off,
+    emit: (type, payload) => {
+      for (const listener of [...(listeners.get(type) ?? [])] as Listener<typeof payload>[]) {
+        try {
+          listener(payload)
+        } catch (error) {
+          console.error(`Listener for ${String(type)} failed:`, error)
+        }
+      }
+    },
+    clear: () => listeners.clear()
+  }
+}
@@ -0,0 +1,480 @@
+import type {
+  ByteRange,
+  DrmInfo,
+  EncryptionMethod,
+  HdcpLevel,
+  InitSegment,
+  LowLatencyDetails,
+  MasterPlaylist,
+  MediaPlaylist,
+  MediaRendition,
+  PartialSegment,
+  QualityLevel,
+  RenditionType,
+  SegmentKey
+} from './types'
+import { resolveUrl } from './loader'
+import { getHlsDrmInfo, mergeDrmInfo, toHex } from './drm'
+import type { Loader } from './loader'
+
+export type AttributeList = Record<string, string>
+
+const RENDITION_TYPES: RenditionType[] = ['AUDIO', 'VIDEO', 'SUBTITLES', 'CLOSED-CAPTIONS']
+
+/**
+ * Parses an HLS attribute list (RFC 8216 section 4.2) into a name/value map
+ * @intuition Attribute values may be quoted strings containing commas, so a naive split on ',' corrupts CODECS and similar values
+ * @approach Scan character by character, tracking whether we are inside a quoted string; quotes are stripped from the stored value
+ * @complexity O(n) time where n is the attribute list length, O(a) space where a is the attribute count
+ */
+export const parseAttributeList = (input: string): AttributeList => {
+  const attributes: AttributeList = {}
+  let i = 0
+
+  while (i < input.length) {
+    const equalsIndex = input.indexOf('=', i)
+    if (equalsIndex === -1) break
+
+    const name = input.slice(i, equalsIndex).trim()
+    let value: string
+    i = equalsIndex + 1
+
+    if (input[i] === '"') {
+      const closingQuote = input.indexOf('"', i + 1)
+      const end = closingQuote === -1 ? input.length : closingQuote
+      value = input.slice(i + 1, end)
+      i = end + 1
+    } else {
+      const comma = input.indexOf(',', i)
+      const end = comma === -1 ? input.length : comma
+      value = input.slice(i, end).trim()
+      i = end
+    }
+
+    // Skip the separator (and any stray characters) up to the next attribute
+    const nextComma = input.indexOf(',', i)
+    i = nextComma === -1 ? input.length : nextComma + 1
+
+    if (name) attributes[name] = value
+  }
+
+  return attributes
+}
+
+const parseResolution = (value: string | undefined): { width: number; height: number } | undefined => {
+  const match = value ? /^(\d+)x(\d+)$/.exec(value) : null
+  return match ? { width: parseInt(match[1]), height: parseInt(match[2]) } : undefined
+}
+
+const parseOptionalNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+const parseCodecs = (value: string | undefined): string[] =>
+  value ? value.split(',').map(codec => codec.trim()).filter(Boolean) : []
+
+const parseHdcpLevel = (value: string | undefined): HdcpLevel | undefined =>
+  value === 'TYPE-0' || value === 'TYPE-1' || value === 'NONE' ? value : undefined
+
+const parseRendition = (attributes: AttributeList, baseUrl?: string): MediaRendition | null => {
+  const type = attributes['TYPE'] as RenditionType
+  const groupId = attributes['GROUP-ID']
+  const name = attributes['NAME']
+  if (!RENDITION_TYPES.includes(type) || !groupId || !name) return null
+
+  return {
+    id: `${type.toLowerCase()}_${groupId}_${name}`,
+    type,
+    groupId,
+    name,
+    language: attributes['LANGUAGE'],
+    assocLanguage: attributes['ASSOC-LANGUAGE'],
+    isDefault: attributes['DEFAULT'] === 'YES',
+    autoselect: attributes['AUTOSELECT'] === 'YES',
+    forced: attributes['FORCED'] === 'YES',
+    uri: attributes['URI'] && baseUrl ? resolveUrl(attributes['URI'], baseUrl) : attributes['URI'],
+    instreamId: attributes['INSTREAM-ID'],
+    characteristics: attributes['CHARACTERISTICS']?.split(',').filter(Boolean) ?? [],
+    channels: attributes['CHANNELS']
+  }
+}
+
+const parseVariant = (attributes: AttributeList, url: string): QualityLevel | null => {
+  const bandwidth = parseInt(attributes['BANDWIDTH'])
+  if (!Number.isFinite(bandwidth)) return null
+
+  const dimensions = parseResolution(attributes['RESOLUTION'])
+  const closedCaptions = attributes['CLOSED-CAPTIONS']
+
+  return {
+    id: `quality_${bandwidth}_${attributes['RESOLUTION'] ?? 'audio'}`,
+    bandwidth,
+    averageBandwidth: parseOptionalNumber(attributes['AVERAGE-BANDWIDTH']),
+    resolution: dimensions ? attributes['RESOLUTION'] : '',
+    width: dimensions?.width,
+    height: dimensions?.height,
+    codecs: parseCodecs(attributes['CODECS']),
+    frameRate: parseOptionalNumber(attributes['FRAME-RATE']),
+    hdcpLevel: parseHdcpLevel(attributes['HDCP-LEVEL']),
+    videoRange: attributes['VIDEO-RANGE'],
+    audioGroup: attributes['AUDIO'],
+    subtitlesGroup: attributes['SUBTITLES'],
+    // CLOSED-CAPTIONS=NONE is an enumerated value, not a group reference
+    closedCaptionsGroup: closedCaptions && closedCaptions !== 'NONE' ? closedCaptions : undefined,
+    url,
+    live: false,
+    targetDuration: 0,
+    segments: []
+  }
+}
+
+/**
+ * Parses an HLS master playlist into variant streams and alternate renditions without touching the network
+ * @intuition Variant selection needs every advertised attribute (codecs, frame rate, groups), not just bandwidth and resolution
+ * @approach Walk the lines once, parsing EXT-X-STREAM-INF/EXT-X-MEDIA attribute lists and pairing each STREAM-INF with the next URI line;
+ * a STREAM-INF repeating an earlier one exactly adds a redundant URL to that variant instead of a new variant
+ * @complexity O(n) time where n is manifest length, O(k + r) space for k variants and r renditions
+ */
+export const parseMasterPlaylist = (manifestContent: string, baseUrl?: string): MasterPlaylist => {
+  const lines = manifestContent.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  const playlist: MasterPlaylist = { independentSegments: false, variants: [], renditions: [], sessionKeys: [] }
+  const seenIds = new Map<string, number>()
+  // Variants by their full attribute list, so a repeated EXT-X-STREAM-INF is recognized as a redundant copy
+  const variantsByAttributes = new Map<string, QualityLevel>()
+  let pendingVariant: AttributeList | null = null
+
+  for (const line of lines) {
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      pendingVariant = parseAttributeList(line.slice('#EXT-X-STREAM-INF:'.length))
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      const rendition = parseRendition(parseAttributeList(line.slice('#EXT-X-MEDIA:'.length)), baseUrl)
+      if (rendition) playlist.renditions.push(rendition)
+    } else if (line.startsWith('#EXT-X-VERSION:')) {
+      playlist.version = parseInt(line.slice('#EXT-X-VERSION:'.length))
+    } else if (line.startsWith('#EXT-X-SESSION-KEY:')) {
+      const key = parseKeyTag(line.slice('#EXT-X-SESSION-KEY:'.length), uri => (baseUrl ? resolveUrl(uri, baseUrl) : uri))
+      if (key) playlist.sessionKeys.push(key)
+    } else if (line === '#EXT-X-INDEPENDENT-SEGMENTS') {
+      playlist.independentSegments = true
+    } else if (!line.startsWith('#') && pendingVariant) {
+      const url = baseUrl ? resolveUrl(line, baseUrl) : line
+      const attributeKey = JSON.stringify(Object.entries(pendingVariant).sort(([a], [b]) => a.localeCompare(b)))
+      const variant = parseVariant(pendingVariant, url)
+      pendingVariant = null
+      if (!variant) continue
+
+      const primary = variantsByAttributes.get(attributeKey)
+      if (primary) {
+        primary.redundantUrls = [...(primary.redundantUrls ?? []), url]
+        continue
+      }
+      variantsByAttributes.set(attributeKey, variant)
+
+      // Keep IDs unique when the same ladder rung is offered in several codecs
+      const occurrences = seenIds.get(variant.id) ?? 0
+      seenIds.set(variant.id, occurrences + 1)
+      if (occurrences > 0) variant.id = `${variant.id}_${occurrences}`
+
+      playlist.variants.push(variant)
+    }
+  }
+
+  return playlist
+}
+
+/**
+ * Parses HLS manifest to extract quality levels and segment information
+ * @intuition HLS manifests contain structured data about available quality levels that must be parsed for ABR decisions
+ * @approach Parse the master playlist attributes against its own URL, then load and resolve each variant's segment playlist
+ * @complexity O(n) time where n is manifest lines, O(k) space where k is number of quality levels
+ */
+export const parseHLSManifest = async (
+  manifestContent: string,
+  manifestUrl: string,
+  loader: Loader
+): Promise<QualityLevel[]> => {
+  const { variants } = parseMasterPlaylist(manifestContent, manifestUrl)
+
+  const qualityLevels = await Promise.all(
+    variants.map(async variant => {
+      const playlist = await parseSegmentPlaylist(variant.url, loader)
+      return {
+        ...variant,
+        live: isLivePlaylist(playlist),
+        targetDuration: playlist.targetDuration,
+        lowLatency: getLowLatencyDetails(playlist),
+        segments: playlist.segments,
+        drm: playlist.drm
+      }
+    })
+  )
+
+  return qualityLevels.sort((a, b) => a.bandwidth - b.bandwidth)
+}
+
+const parseByteRange = (value: string, previousEnd: number): ByteRange | undefined => {
+  const match = /^(\d+)(?:@(\d+))?$/.exec(value.trim())
+  if (!match) return undefined
+
+  const length = parseInt(match[1])
+  // Without an explicit offset the sub-range starts where the previous one ended
+  const offset = match[2] !== undefined ? parseInt(match[2]) : previousEnd
+  return { offset, length }
+}
+
+const ENCRYPTION_METHODS: readonly EncryptionMethod[] = ['AES-128', 'SAMPLE-AES', 'SAMPLE-AES-CTR']
+
+// IV and KEYID are 0x followed by up to 32 hex digits
+const parseIv = (value: string | undefined): Uint8Array | undefined => {
+  const hex = /^0x([0-9a-f]{1,32})$/i.exec(value?.trim() ?? '')?.[1].padStart(32, '0')
+  return hex ? Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16)) : undefined
+}
+
+/**
+ * Parses the attributes of an EXT-X-KEY tag
+ * @intuition METHOD=NONE ends encryption, anything else describes how and with what the following segments are encrypted
+ * @approach Read METHOD, URI, IV, KEYID and KEYFORMAT (defaulting to identity); unknown methods and key tags without a URI
+ * yield nothing usable
+ * @complexity O(n) time in the tag length, O(1) space
+ */
+export const parseKeyTag = (value: string, resolve: (uri: string) => string = uri => uri): SegmentKey | null => {
+  const attributes = parseAttributeList(value)
+  const method = ENCRYPTION_METHODS.find(candidate => candidate === attributes['METHOD'])
+  if (!method || !attributes['URI']) return null
+  const keyId = parseIv(attributes['KEYID'])
+  return {
+    method,
+    uri: resolve(attributes['URI']),
+    iv: parseIv(attributes['IV']),
+    keyFormat: attributes['KEYFORMAT'] ?? 'identity',
+    keyId: keyId ? toHex(keyId) : undefined
+  }
+}
+
+/**
+ * Parses an HLS media playlist into a timed segment model
+ * @intuition Progress, seeking and buffer accounting need each segment's real duration and position, not just its URI
+ * @approach Accumulate per-segment tags (EXTINF, BYTERANGE, DISCONTINUITY, PROGRAM-DATE-TIME, MAP, PART) until the URI line closes the segment;
+ * parts after the last complete segment belong to the segment still being produced. EXT-X-KEY applies until the next key tag, so keys
+ * can rotate mid-playlist. URIs are resolved against `baseUrl` when one is given
+ * @complexity O(m) time where m is playlist lines, O(s) space where s is segment count
+ */
+export const parseMediaPlaylist = (content: string, baseUrl?: string): MediaPlaylist => {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  const playlist: MediaPlaylist = {
+    targetDuration: 0,
+    mediaSequence: 0,
+    discontinuitySequence: 0,
+    endList: false,
+    totalDuration: 0,
+    segments: [],
+    pendingParts: []
+  }
+
+  let duration: number | null = null
+  let title: string | undefined
+  let discontinuity = false
+  let programDateTime: number | undefined
+  let initSegment: InitSegment | undefined
+  let discontinuitySequence = 0
+  const byteRangeEnds = new Map<string, number>()
+  const resolve = (uri: string) => (baseUrl ? resolveUrl(uri, baseUrl) : uri)
+  let pendingByteRange: string | undefined
+  let parts: PartialSegment[] = []
+  // Consecutive EXT-X-KEY tags offer the same segments in several key formats; the clear-key identity format is preferred
+  let keys: SegmentKey[] = []
+  let keyTagsClosed = false
+  const currentKey = () => keys.find(key => key.keyFormat === 'identity') ?? keys[0]
+  const drm: DrmInfo[] = []
+
+  for (const line of lines) {
+    if (line.startsWith('#EXTINF:')) {
+      const [durationText, ...titleParts] = line.slice('#EXTINF:'.length).split(',')
+      duration = parseFloat(durationText)
+      title = titleParts.join(',') || undefined
+    } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      playlist.targetDuration = parseFloat(line.slice('#EXT-X-TARGETDURATION:'.length))
+    } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      playlist.mediaSequence = parseInt(line.slice('#EXT-X-MEDIA-SEQUENCE:'.length))
+    } else if (line.startsWith('#EXT-X-DISCONTINUITY-SEQUENCE:')) {
+      playlist.discontinuitySequence = parseInt(line.slice('#EXT-X-DISCONTINUITY-SEQUENCE:'.length))
+      discontinuitySequence = playlist.discontinuitySequence
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      pendingByteRange = line.slice('#EXT-X-BYTERANGE:'.length)
+    } else if (line === '#EXT-X-DISCONTINUITY') {
+      discontinuity = true
+      discontinuitySequence++
+    } else if (line.startsWith('#EXT-X-PROGRAM-DATE-TIME:')) {
+      const parsed = Date.parse(line.slice('#EXT-X-PROGRAM-DATE-TIME:'.length))
+      programDateTime = Number.isNaN(parsed) ? undefined : parsed
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      if (keyTagsClosed) keys = []
+      keyTagsClosed = false
+      const key = parseKeyTag(line.slice('#EXT-X-KEY:'.length), resolve)
+      // METHOD=NONE (or a key we cannot describe) leaves the following segments in the clear
+      keys = key ? [...keys, key] : []
+      const drmInfo = key && getHlsDrmInfo(key)
+      if (drmInfo) drm.push(drmInfo)
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attributes = parseAttributeList(line.slice('#EXT-X-MAP:'.length))
+      if (attributes['URI']) {
+        const key = currentKey()
+        initSegment = {
+          uri: resolve(attributes['URI']),
+          byteRange: attributes['BYTERANGE'] ? parseByteRange(attributes['BYTERANGE'], 0) : undefined,
+          // SAMPLE-AES only encrypts media samples; an init section is encrypted as a whole by AES-128 alone
+          key: key?.method === 'AES-128' ? key : undefined
+        }
+      }
+    } else if (line.startsWith('#EXT-X-PLAYLIST-TYPE:')) {
+      const type = line.slice('#EXT-X-PLAYLIST-TYPE:'.length)
+      if (type === 'VOD' || type === 'EVENT') playlist.playlistType = type
+    } else if (line.startsWith('#EXT-X-VERSION:')) {
+      playlist.version = parseInt(line.slice('#EXT-X-VERSION:'.length))
+    } else if (line === '#EXT-X-ENDLIST') {
+      playlist.endList = true
+    } else if (line.startsWith('#EXT-X-SERVER-CONTROL:')) {
+      const attributes = parseAttributeList(line.slice('#EXT-X-SERVER-CONTROL:'.length))
+      playlist.serverControl = {
+        canBlockReload: attributes['CAN-BLOCK-RELOAD'] === 'YES',
+        canSkipUntil: parseOptionalNumber(attributes['CAN-SKIP-UNTIL']),
+        holdBack: parseOptionalNumber(attributes['HOLD-BACK']),
+        partHoldBack: parseOptionalNumber(attributes['PART-HOLD-BACK'])
+      }
+    } else if (line.startsWith('#EXT-X-PART-INF:')) {
+      playlist.partTarget = parseOptionalNumber(parseAttributeList(line.slice('#EXT-X-PART-INF:'.length))['PART-TARGET'])
+    } else if (line.startsWith('#EXT-X-PART:')) {
+      const attributes = parseAttributeList(line.slice('#EXT-X-PART:'.length))
+      const partDuration = parseOptionalNumber(attributes['DURATION'])
+      if (attributes['URI'] && partDuration !== undefined) {
+        const byteRange = attributes['BYTERANGE']
+          ? parseByteRange(attributes['BYTERANGE'], byteRangeEnds.get(attributes['URI']) ?? 0)
+          : undefined
+        if (byteRange) byteRangeEnds.set(attributes['URI'], byteRange.offset + byteRange.length)
+
+        const previousPart = parts[parts.length - 1]
+        parts.push({
+          uri: resolve(attributes['URI']),
+          duration: partDuration,
+          start: previousPart ? previousPart.start + previousPart.duration : playlist.totalDuration,
+          independent: attributes['INDEPENDENT'] === 'YES',
+          gap: attributes['GAP'] === 'YES',
+          byteRange,
+          key: currentKey()
+        })
+      }
+    } else if (line.startsWith('#EXT-X-PRELOAD-HINT:')) {
+      const attributes = parseAttributeList(line.slice('#EXT-X-PRELOAD-HINT:'.length))
+      const type = attributes['TYPE']
+      if ((type === 'PART' || type === 'MAP') && attributes['URI']) {
+        playlist.preloadHint = {
+          type,
+          uri: resolve(attributes['URI']),
+          byteRangeStart: parseOptionalNumber(attributes['BYTERANGE-START']),
+          byteRangeLength: parseOptionalNumber(attributes['BYTERANGE-LENGTH'])
+        }
+      }
+    } else if (!line.startsWith('#') && duration !== null) {
+      const byteRange = pendingByteRange ? parseByteRange(pendingByteRange, byteRangeEnds.get(line) ?? 0) : undefined
+      if (byteRange) byteRangeEnds.set(line, byteRange.offset + byteRange.length)
+
+      const previous = playlist.segments[playlist.segments.length - 1]
+      playlist.segments.push({
+        uri: resolve(line),
+        duration,
+        start: playlist.totalDuration,
+        sequenceNumber: playlist.mediaSequence + playlist.segments.length,
+        title,
+        byteRange,
+        discontinuity,
+        discontinuitySequence,
+        // Segments without their own date continue the previous segment's wall clock
+        programDateTime: programDateTime ?? (
+          previous?.programDateTime !== undefined && !discontinuity
+            ? previous.programDateTime + previous.duration * 1000
+            : undefined
+        ),
+        initSegment,
+        key: currentKey(),
+        parts: parts.length ? parts : undefined
+      })
+      playlist.totalDuration += duration
+      parts = []
+      keyTagsClosed = true
+
+      duration = null
+      title = undefined
+      pendingByteRange = undefined
+      discontinuity = false
+      programDateTime = undefined
+    }
+  }
+
+  playlist.pendingParts = parts
+  if (drm.length) playlist.drm = mergeDrmInfo(drm)
+  return playlist
+}
+
+/**
+ * Extracts the Low-Latency HLS details of a media playlist
+ * @intuition Only playlists advertising partial segments can be played in low-latency mode
+ * @approach Require EXT-X-PART-INF; default the server control block when the server omitted it
+ * @complexity O(1) time, O(p) space for the pending part list
+ */
+export const getLowLatencyDetails = (playlist: MediaPlaylist): LowLatencyDetails | undefined =>
+  playlist.partTarget
+    ? {
+        partTarget: playlist.partTarget,
+        serverControl: playlist.serverControl ?? { canBlockReload: false },
+        pendingParts: playlist.pendingParts,
+        preloadHint: playlist.preloadHint
+      }
+    : undefined
+
+/**
+ * Tells whether a media playlist may still grow
+ * @intuition Live and EVENT playlists keep gaining segments until the server appends EXT-X-ENDLIST
+ * @approach A playlist is live unless it is declared VOD or already ended
+ * @complexity O(1) time, O(1) space
+ */
+export const isLivePlaylist = (playlist: MediaPlaylist): boolean =>
+  !playlist.endList && playlist.playlistType !== 'VOD'
+
+/**
+ * Loads and parses an individual segment playlist
+ * @intuition Each quality level has its own playlist containing actual video segments that need to be loaded
+ * @approach Fetch the playlist through the loader and parse it relative to its final (post-redirect) URL
+ * @complexity O(m) time where m is segment count, O(m) space for segment array
+ */
+export const parseSegmentPlaylist = async (playlistUrl: string, loader: Loader): Promise<MediaPlaylist> => {
+  const response = await loader.loadText(playlistUrl)
+  return parseMediaPlaylist(response.data, response.url)
+}
+
+/**
+ * Loads an HLS master playlist from a URL and resolves all of its quality levels
+ * @intuition The player is given a stream URL, not manifest text
+ * @approach Fetch the master playlist through the loader, then hand its content and final URL to parseHLSManifest
+ * @complexity O(n + k*m) time for the master and k media playlists, O(k*m) space
+ */
+export const loadHLSManifest = async (src: string, loader: Loader): Promise<QualityLevel[]> => {
+  const response = await loader.loadText(src)
+  return parseHLSManifest(response.data, response.url, loader)
+}
+
+/**
+ * Builds a human-readable label for a quality level
+ * @intuition Viewers and testers need to tell apart variants that share a resolution but differ in frame rate or codec
+ * @approach Combine resolution, frame rate, video codec family and bitrate into a compact string
+ * @complexity O(c) time where c is the number of codecs, O(1) space
+ */
+export const formatQualityLabel = (quality: QualityLevel): string => {
+  const resolution = quality.height ? `${quality.height}p` : 'Audio only'
+  const frameRate = quality.frameRate && quality.frameRate > 30 ? Math.round(quality.frameRate).toString() : ''
+  const videoCodec = quality.codecs.find(codec => !codec.startsWith('mp4a') && !codec.startsWith('ac-3') && !codec.startsWith('ec-3'))
+  const codecFamily = videoCodec ? ` ${videoCodec.split('.')[0]}` : ''
+
+  return `${resolution}${frameRate}${codecFamily} (${(quality.bandwidth / 1000000).toFixed(1)}Mbps)`
+}
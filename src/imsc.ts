@@ -0,0 +1,141 @@
+import type { SubtitleCue } from './types'
+import { findChild, findChildren, parseXml } from './xml'
+import type { XmlElement } from './xml'
+
+interface TimingParameters {
+  frameRate: number
+  tickRate: number
+}
+
+interface TimedInterval {
+  begin: number
+  end: number
+}
+
+const DEFAULT_FRAME_RATE = 30
+const MP4_BOX_HEADER_SIZE = 8
+const TTML_ALIGNMENTS: Record<string, string> = { left: 'left', right: 'right', start: 'start', end: 'end', center: 'center' }
+
+/**
+ * Parses a TTML time expression into seconds
+ * @intuition IMSC allows clock times with fractions or frames as well as offsets in hours, minutes, seconds,
+ * milliseconds, frames or ticks, and the frame and tick units depend on document parameters
+ * @approach Match the clock form first (hh:mm:ss.fff or hh:mm:ss:ff), then the offset form with its metric
+ * @complexity O(1) time, O(1) space
+ */
+export const parseTtmlTime = (value: string | undefined, timing: TimingParameters): number | null => {
+  if (!value) return null
+  const clock = /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/.exec(value.trim())
+  if (clock) {
+    const [, hours, minutes, seconds, frames] = clock
+    return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseFloat(seconds) + parseFloat(frames ?? '0') / timing.frameRate
+  }
+
+  const offset = /^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/.exec(value.trim())
+  if (!offset) return null
+  const amount = parseFloat(offset[1])
+  switch (offset[2]) {
+    case 'h':
+      return amount * 3600
+    case 'm':
+      return amount * 60
+    case 's':
+      return amount
+    case 'ms':
+      return amount / 1000
+    case 'f':
+      return amount / timing.frameRate
+    default:
+      return amount / timing.tickRate
+  }
+}
+
+const getTimingParameters = (root: XmlElement): TimingParameters => {
+  const attribute = (name: string) => Object.entries(root.attributes).find(([key]) => key.endsWith(`:${name}`))?.[1]
+  const [numerator, denominator] = (attribute('frameRateMultiplier') ?? '1 1').split(/\s+/).map(Number)
+  const frameRate = (parseFloat(attribute('frameRate') ?? '') || DEFAULT_FRAME_RATE) * ((numerator || 1) / (denominator || 1))
+  // Without an explicit tickRate a tick is one frame when a frame rate is declared, otherwise one second
+  const tickRate = parseFloat(attribute('tickRate') ?? '') || (attribute('frameRate') ? frameRate : 1)
+  return { frameRate, tickRate }
+}
+
+const getStyleAttribute = (element: XmlElement, name: string): string | undefined =>
+  Object.entries(element.attributes).find(([key]) => key === `tts:${name}` || key.endsWith(`:${name}`))?.[1]
+
+// Whitespace inside a paragraph collapses as in XML with xml:space="default"; <br/> is the only line break
+const collectText = (element: XmlElement): string =>
+  element.content
+    .map(item => (typeof item === 'string' ? item.replace(/\s+/g, ' ') : item.localName === 'br' ? '\n' : collectText(item)))
+    .join('')
+
+/**
+ * Resolves one element's active interval inside its parent's
+ * @intuition TTML timing is relative to the parent in parallel time containment, and an element without its own timing
+ * inherits the parent's interval
+ * @approach Offset begin by the parent's begin, prefer end over dur, and clip to the parent's end
+ * @complexity O(1) time, O(1) space
+ */
+const resolveInterval = (element: XmlElement, parent: TimedInterval, timing: TimingParameters): TimedInterval => {
+  const begin = parent.begin + (parseTtmlTime(element.attributes['begin'], timing) ?? 0)
+  const end = parseTtmlTime(element.attributes['end'], timing)
+  const duration = parseTtmlTime(element.attributes['dur'], timing)
+  const resolvedEnd = end !== null ? parent.begin + end : duration !== null ? begin + duration : parent.end
+  return { begin, end: Math.min(resolvedEnd, parent.end) }
+}
+
+/**
+ * Parses an IMSC (TTML) document into cues
+ * @intuition DASH delivers subtitles as IMSC, one document per segment; the renderer only needs timed paragraphs
+ * @approach Walk body → div → p resolving nested timing, turn each paragraph's spans and line breaks into cue text and
+ * carry its text alignment over as a cue setting
+ * @complexity O(n) time and space in the document size
+ */
+export const parseImsc = (content: string): SubtitleCue[] => {
+  const root = parseXml(content)
+  if (root.localName !== 'tt') throw new Error('Not a TTML document')
+
+  const timing = getTimingParameters(root)
+  const body = findChild(root, 'body')
+  if (!body) return []
+
+  const cues: SubtitleCue[] = []
+  const visit = (element: XmlElement, parent: TimedInterval) => {
+    const interval = resolveInterval(element, parent, timing)
+    if (element.localName === 'p') {
+      const text = collectText(element).split('\n').map(line => line.trim()).join('\n').trim()
+      const align = TTML_ALIGNMENTS[getStyleAttribute(element, 'textAlign') ?? '']
+      if (text && Number.isFinite(interval.end) && interval.end > interval.begin) {
+        cues.push({ start: interval.begin, end: interval.end, text, settings: align ? { align } : undefined })
+      }
+      return
+    }
+    findChildren(element, 'div').concat(findChildren(element, 'p')).forEach(child => visit(child, interval))
+  }
+  visit(body, { begin: 0, end: Infinity })
+
+  return cues.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Extracts the TTML document from a subtitle segment
+ * @intuition DASH packages IMSC either as plain XML files or as fMP4 fragments (stpp) whose mdat holds the document
+ * @approach Treat input that starts with an ISO BMFF box as fMP4 and decode its first mdat payload, otherwise decode
+ * the whole buffer as UTF-8
+ * @complexity O(n) time and space in the segment size
+ */
+export const extractTimedText = (data: ArrayBuffer | Uint8Array): string => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const decoder = new TextDecoder()
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const typeAt = (offset: number) => String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+
+  if (bytes.length < MP4_BOX_HEADER_SIZE || !['ftyp', 'styp', 'moof', 'mdat'].includes(typeAt(0))) return decoder.decode(bytes)
+
+  for (let offset = 0; offset + MP4_BOX_HEADER_SIZE <= bytes.length;) {
+    const size = view.getUint32(offset)
+    if (size < MP4_BOX_HEADER_SIZE) break
+    if (typeAt(offset) === 'mdat') return decoder.decode(bytes.subarray(offset + MP4_BOX_HEADER_SIZE, offset + size))
+    offset += size
+  }
+  return ''
+}
@@ -0,0 +1,116 @@
+import type { MediaPlaylist, MediaSegment } from './types'
+import { findSegmentIndexAtTime, getTotalDuration } from './segmentTimeline'
+
+// Start this many target durations behind the end of a live playlist (RFC 8216 section 6.3.3)
+export const LIVE_EDGE_HOLD_BACK_TARGETS = 3
+
+// A live playlist that has not changed for this many target durations is treated as stalled
+export const STALE_PLAYLIST_TARGETS = 3
+
+export interface LivePlaylistState {
+  lastReload: number
+  lastChange: number
+  unchangedReloads: number
+}
+
+export interface LiveMergeResult {
+  segments: MediaSegment[]
+  added: number
+  removed: number
+  changed: boolean
+  offset: number
+}
+
+/**
+ * Merges a refreshed live playlist into the segment timeline we already hold
+ * @intuition Live windows slide: new segments appear at the end while old ones drop off, and our timeline must stay continuous across reloads
+ * @approach Align both lists by media sequence number and re-base the refreshed segments on the start time of the first overlapping segment;
+ * without overlap, fall back to program date time, then to the end of the previous window
+ * @complexity O(s) time where s is segment count, O(s) space for the merged list
+ */
+export const mergeLivePlaylist = (previous: MediaSegment[], next: MediaPlaylist): LiveMergeResult => {
+  if (!next.segments.length) {
+    return { segments: previous, added: 0, removed: 0, changed: false, offset: 0 }
+  }
+
+  const firstNext = next.segments[0]
+  const overlap = previous.find(segment => segment.sequenceNumber === firstNext.sequenceNumber)
+  let anchor: number
+
+  if (overlap) {
+    anchor = overlap.start
+  } else {
+    const previousWithDate = previous.find(segment => segment.programDateTime !== undefined)
+    anchor = previousWithDate?.programDateTime !== undefined && firstNext.programDateTime !== undefined
+      ? previousWithDate.start + (firstNext.programDateTime - previousWithDate.programDateTime) / 1000
+      : getTotalDuration(previous)
+  }
+
+  const offset = anchor - firstNext.start
+  const segments = next.segments.map(segment => ({
+    ...segment,
+    start: segment.start + offset,
+    parts: segment.parts?.map(part => ({ ...part, start: part.start + offset }))
+  }))
+
+  const previousFirst = previous[0]?.sequenceNumber ?? firstNext.sequenceNumber
+  const previousLast = previous[previous.length - 1]?.sequenceNumber ?? firstNext.sequenceNumber - 1
+  const nextLast = segments[segments.length - 1].sequenceNumber
+
+  const removed = Math.max(0, Math.min(firstNext.sequenceNumber - previousFirst, previous.length))
+  const added = Math.max(0, nextLast - previousLast)
+
+  return { segments, added, removed, changed: added > 0 || removed > 0, offset }
+}
+
+/**
+ * Picks the segment to start a live stream from
+ * @intuition Starting at the very last segment leaves no room to build buffer, so players hold back a few target durations
+ * @approach Find the segment containing (live edge - hold back); never start before the first segment in the window
+ * @complexity O(log s) time where s is segment count, O(1) space
+ */
+export const getLiveEdgeStartIndex = (
+  segments: MediaSegment[],
+  targetDuration: number,
+  holdBackTargets = LIVE_EDGE_HOLD_BACK_TARGETS
+): number => {
+  if (!segments.length) return 0
+  const liveEdge = getTotalDuration(segments)
+  const startTime = Math.max(segments[0].start, liveEdge - targetDuration * holdBackTargets)
+  return Math.min(findSegmentIndexAtTime(segments, startTime), segments.length - 1)
+}
+
+/**
+ * Computes how long to wait before the next playlist reload
+ * @intuition RFC 8216 asks clients to reload after one target duration, or half of one when the last reload brought nothing new
+ * @approach Pick the interval from the unchanged-reload count and subtract time already elapsed since the last reload
+ * @complexity O(1) time, O(1) space
+ */
+export const getReloadDelay = (state: LivePlaylistState, targetDuration: number, now: number): number => {
+  const interval = (state.unchangedReloads > 0 ? targetDuration / 2 : targetDuration) * 1000
+  return Math.max(0, state.lastReload + interval - now)
+}
+
+/**
+ * Detects a live playlist that has stopped updating
+ * @intuition A stalled packager leaves the player waiting forever unless we notice the playlist is frozen
+ * @approach Compare time since the last change against a multiple of the target duration
+ * @complexity O(1) time, O(1) space
+ */
+export const isPlaylistStale = (state: LivePlaylistState, targetDuration: number, now: number): boolean =>
+  now - state.lastChange > targetDuration * STALE_PLAYLIST_TARGETS * 1000
+
+/**
+ * Estimates glass-to-glass latency from EXT-X-PROGRAM-DATE-TIME
+ * @intuition Program date time maps media time to wall-clock capture time, so the difference to now is the live latency
+ * @approach Find the segment under the playhead and extrapolate its program date time to the playhead position
+ * @complexity O(log s) time where s is segment count, O(1) space
+ */
+export const getLiveLatency = (segments: MediaSegment[], playheadTime: number, now: number): number | null => {
+  const index = Math.min(findSegmentIndexAtTime(segments, playheadTime), segments.length - 1)
+  const segment = segments[index]
+  if (segment?.programDateTime === undefined) return null
+
+  const wallClock = segment.programDateTime + (playheadTime - segment.start) * 1000
+  return Math.max(0, (now - wallClock) / 1000)
+}
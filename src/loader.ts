@@ -0,0 +1,137 @@
+import type { ByteRange } from './types'
+
+export interface LoadStats {
+  requestStart: number
+  firstByte: number
+  loadEnd: number
+  bytes: number
+}
+
+export interface LoadProgress {
+  /** Bytes of the body received so far */
+  loaded: number
+  /** Body size when the server announced it */
+  total: number | null
+  requestStart: number
+  firstByte: number
+}
+
+export interface LoaderRequestOptions {
+  byteRange?: ByteRange
+  signal?: AbortSignal
+  headers?: Record<string, string>
+  /** Sends the request as a POST with this body, e.g. a DRM license challenge */
+  body?: Uint8Array
+  /** Called as body bytes arrive, so stalled downloads can be detected before they finish */
+  onProgress?: (progress: LoadProgress) => void
+}
+
+export interface LoaderResponse<T> {
+  url: string
+  status: number
+  data: T
+  stats: LoadStats
+}
+
+export interface Loader {
+  loadText: (url: string, options?: LoaderRequestOptions) => Promise<LoaderResponse<string>>
+  loadBinary: (url: string, options?: LoaderRequestOptions) => Promise<LoaderResponse<ArrayBuffer>>
+}
+
+/**
+ * Resolves a playlist or segment URI against the URL of the playlist that referenced it
+ * @intuition Manifests mostly carry relative URIs, which only make sense relative to where the playlist was fetched from
+ * @approach Delegate to the WHATWG URL parser; page-relative bases are first anchored to the document location when one exists
+ * @complexity O(n) time where n is URL length, O(n) space
+ */
+export const resolveUrl = (uri: string, baseUrl: string): string => {
+  try {
+    const documentBase = typeof window !== 'undefined' ? window.location.href : undefined
+    const absoluteBase = documentBase ? new URL(baseUrl, documentBase).href : baseUrl
+    return new URL(uri, absoluteBase).href
+  } catch {
+    // Bases without a scheme (plain file names) cannot be resolved; keep the URI as given
+    return uri
+  }
+}
+
+const toRangeHeader = (byteRange: ByteRange): string =>
+  `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}`
+
+const readBodyWithProgress = async (
+  response: Response,
+  onProgress: (progress: LoadProgress) => void,
+  timing: Pick<LoadProgress, 'requestStart' | 'firstByte'>
+): Promise<ArrayBuffer> => {
+  if (!response.body) return response.arrayBuffer()
+  const reader = response.body.getReader()
+  const total = Number(response.headers.get('Content-Length')) || null
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(chunk.value)
+    loaded += chunk.value.byteLength
+    onProgress({ ...timing, loaded, total })
+  }
+
+  const body = new Uint8Array(loaded)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body.buffer
+}
+
+/**
+ * Creates a loader backed by the Fetch API
+ * @intuition Real streams live on HTTP servers, so the default loader must issue real requests and report their timing
+ * @approach Issue fetch() with optional Range and custom headers (POSTing a body when given), timestamp headers and body arrival, stream the body when
+ * progress is requested, and reject on non-2xx statuses
+ * @complexity O(b) time where b is response size, O(b) space for the response body
+ */
+export const createFetchLoader = (defaultHeaders: Record<string, string> = {}): Loader => {
+  const request = async <T>(
+    url: string,
+    options: LoaderRequestOptions,
+    readBody: (response: Response, timing: Pick<LoadProgress, 'requestStart' | 'firstByte'>) => Promise<T>,
+    measure: (data: T) => number
+  ): Promise<LoaderResponse<T>> => {
+    const headers: Record<string, string> = { ...defaultHeaders, ...options.headers }
+    if (options.byteRange) headers['Range'] = toRangeHeader(options.byteRange)
+
+    const requestStart = performance.now()
+    const response = await fetch(url, {
+      method: options.body ? 'POST' : 'GET',
+      headers,
+      body: options.body as BufferSource | undefined,
+      signal: options.signal
+    })
+    const firstByte = performance.now()
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} loading ${url}`)
+    }
+
+    const data = await readBody(response, { requestStart, firstByte })
+    return {
+      url: response.url || url,
+      status: response.status,
+      data,
+      stats: { requestStart, firstByte, loadEnd: performance.now(), bytes: measure(data) }
+    }
+  }
+
+  return {
+    loadText: (url, options = {}) =>
+      request(url, options, response => response.text(), text => new TextEncoder().encode(text).byteLength),
+    loadBinary: (url, options = {}) =>
+      request(
+        url,
+        options,
+        (response, timing) => (options.onProgress ? readBodyWithProgress(response, options.onProgress, timing) : response.arrayBuffer()),
+        buffer => buffer.byteLength
+      )
+  }
+}
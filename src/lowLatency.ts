@@ -0,0 +1,95 @@
+import type { LowLatencyDetails, MediaSegment, PartialSegment } from './types'
+
+// Low-latency ABR mode keeps only a few seconds of buffer instead of the usual 30
+export const LOW_LATENCY_TARGET_BUFFER = 3
+export const LOW_LATENCY_STARVATION_THRESHOLD = 0.5
+// Parts are a fraction of a second long, so the load loop has to poll much faster than once per second
+export const LOW_LATENCY_LOAD_INTERVAL = 250
+
+export interface LoadedParts {
+  sequenceNumber: number
+  count: number
+}
+
+export type LoadTarget =
+  | { kind: 'segment'; segment: MediaSegment }
+  | { kind: 'part'; part: PartialSegment; sequenceNumber: number; partIndex: number; completesSegment: boolean }
+  | { kind: 'loaded'; segment: MediaSegment }
+
+export interface BlockingReloadRequest {
+  msn: number
+  part?: number
+}
+
+/**
+ * Adds Low-Latency HLS delivery directives to a playlist URL
+ * @intuition With CAN-BLOCK-RELOAD the server holds the request until the asked-for segment or part exists, so no polling delay is wasted
+ * @approach Set _HLS_msn and, when parts are in use, _HLS_part on the query string, keeping any existing parameters
+ * @complexity O(n) time where n is URL length, O(n) space
+ */
+export const buildBlockingReloadUrl = (url: string, request: BlockingReloadRequest): string => {
+  try {
+    const parsed = new URL(url)
+    parsed.searchParams.set('_HLS_msn', request.msn.toString())
+    if (request.part !== undefined) parsed.searchParams.set('_HLS_part', request.part.toString())
+    else parsed.searchParams.delete('_HLS_part')
+    return parsed.href
+  } catch {
+    const separator = url.includes('?') ? '&' : '?'
+    const part = request.part !== undefined ? `&_HLS_part=${request.part}` : ''
+    return `${url}${separator}_HLS_msn=${request.msn}${part}`
+  }
+}
+
+/**
+ * Works out which media sequence number and part the next blocking reload should wait for
+ * @intuition The next useful playlist is the one that contains the part right after the newest one we already know about
+ * @approach Take the newest complete segment's sequence number and count the parts already published for the segment after it
+ * @complexity O(1) time, O(1) space
+ */
+export const getNextBlockingRequest = (
+  segments: MediaSegment[],
+  lowLatency: LowLatencyDetails
+): BlockingReloadRequest => {
+  const lastSequence = segments[segments.length - 1]?.sequenceNumber ?? -1
+  return { msn: lastSequence + 1, part: lowLatency.pendingParts.length }
+}
+
+/**
+ * Decides what to download next: a whole segment, the next partial segment, or nothing
+ * @intuition Near the live edge the segment we need is still being produced, so we fetch its parts as they appear and
+ * finish it part by part once it completes instead of downloading it twice
+ * @approach Prefer whole segments; continue part-wise through a segment we started as parts; fall back to pending parts at the edge
+ * @complexity O(1) time, O(1) space
+ */
+export const getNextLoadTarget = (
+  segments: MediaSegment[],
+  segmentIndex: number,
+  lowLatency: LowLatencyDetails | undefined,
+  loadedParts: LoadedParts | null
+): LoadTarget | null => {
+  const segment = segments[segmentIndex]
+
+  if (segment) {
+    if (loadedParts?.sequenceNumber !== segment.sequenceNumber) return { kind: 'segment', segment }
+
+    const parts = segment.parts ?? []
+    if (loadedParts.count >= parts.length) return { kind: 'loaded', segment }
+
+    return {
+      kind: 'part',
+      part: parts[loadedParts.count],
+      sequenceNumber: segment.sequenceNumber,
+      partIndex: loadedParts.count,
+      completesSegment: loadedParts.count === parts.length - 1
+    }
+  }
+
+  if (!lowLatency) return null
+
+  const nextSequence = (segments[segments.length - 1]?.sequenceNumber ?? -1) + 1
+  const partIndex = loadedParts?.sequenceNumber === nextSequence ? loadedParts.count : 0
+  const part = lowLatency.pendingParts[partIndex]
+
+  return part ? { kind: 'part', part, sequenceNumber: nextSequence, partIndex, completesSegment: false } : null
+}
@@ -2,9 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { MOCK_BEACON_URL } from './mockStream'
+
+// Point the player at any stream (e.g. a local test server or a fixture in public/) with ?src=<url>
+const src = new URLSearchParams(window.location.search).get('src') ?? undefined
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {/* CMCD goes out as a query argument, QoE beacons go to the mock analytics backend, and first visits probe the connection */}
+    <App src={src} cmcd={{ mode: 'query' }} beacon={{ url: MOCK_BEACON_URL }} startupProbe />
   </StrictMode>,
 )
@@ -0,0 +1,162 @@
+import type { AudioTrack, DrmInfo, MediaPlaylist, MediaRendition, QualityLevel, SubtitleTrack } from './types'
+import type { Loader } from './loader'
+import {
+  getLowLatencyDetails,
+  isLivePlaylist,
+  parseHLSManifest,
+  parseMasterPlaylist,
+  parseMediaPlaylist,
+  parseSegmentPlaylist
+} from './hlsParser'
+import { parseDashManifest } from './dashParser'
+import { buildHlsAudioTracks } from './audioTracks'
+import { buildHlsSubtitleTracks } from './subtitles'
+import { getHlsDrmInfo, mergeDrmInfo } from './drm'
+
+export type ManifestFormat = 'hls' | 'dash'
+
+export interface Manifest {
+  format: ManifestFormat
+  url: string
+  live: boolean
+  qualityLevels: QualityLevel[]
+  renditions: MediaRendition[]
+  audioTracks: AudioTrack[]
+  subtitleTracks: SubtitleTrack[]
+  /** Every DRM system the stream announces, deduplicated across renditions; empty for clear or AES-128 content */
+  drm: DrmInfo[]
+}
+
+/**
+ * Detects whether a manifest is HLS or DASH
+ * @intuition Callers only have a URL; content sniffing is reliable while extensions are merely a hint
+ * @approach Check for the #EXTM3U signature or an MPD root element, then fall back to the URL extension
+ * @complexity O(n) time over the start of the content, O(1) space
+ */
+export const detectManifestFormat = (content: string, url: string): ManifestFormat => {
+  const head = content.trimStart().slice(0, 1024)
+  if (head.startsWith('#EXTM3U')) return 'hls'
+  if (/<MPD[\s>]/.test(content.slice(0, 4096))) return 'dash'
+
+  const path = url.split(/[?#]/)[0].toLowerCase()
+  if (path.endsWith('.m3u8') || path.endsWith('.m3u')) return 'hls'
+  if (path.endsWith('.mpd')) return 'dash'
+
+  throw new Error(`Unsupported manifest format: ${url}`)
+}
+
+// A media playlist given directly as the stream URL becomes a single-rung ladder
+const mediaPlaylistToQualityLevel = (playlist: MediaPlaylist, url: string): QualityLevel => ({
+  id: 'quality_0_single',
+  bandwidth: 0,
+  resolution: '',
+  codecs: [],
+  url,
+  live: isLivePlaylist(playlist),
+  targetDuration: playlist.targetDuration,
+  lowLatency: getLowLatencyDetails(playlist),
+  segments: playlist.segments,
+  drm: playlist.drm
+})
+
+// Renditions with a URI need their own segment lists; the others are carried in the video variants
+const loadRenditionPlaylists = <T extends AudioTrack | SubtitleTrack>(tracks: T[], loader: Loader): Promise<T[]> =>
+  Promise.all(tracks.map(async track => {
+    if (!track.url) return track
+    const playlist = await parseSegmentPlaylist(track.url, loader)
+    return {
+      ...track,
+      live: isLivePlaylist(playlist),
+      targetDuration: playlist.targetDuration,
+      segments: playlist.segments,
+      drm: playlist.drm
+    }
+  }))
+
+/**
+ * Loads any supported manifest into the protocol-neutral quality level model
+ * @intuition The ABR logic and the UI should not care which protocol a stream uses
+ * @approach Fetch once, detect the format, and dispatch to the HLS master/media or DASH MPD parser
+ * @complexity O(n + k*m) time for the manifest and k variant playlists of m segments, O(k*m) space
+ */
+export const loadManifest = async (src: string, loader: Loader): Promise<Manifest> => {
+  const response = await loader.loadText(src)
+  const format = detectManifestFormat(response.data, response.url)
+
+  if (format === 'dash') {
+    const dash = parseDashManifest(response.data, response.url)
+    return {
+      format,
+      url: response.url,
+      live: dash.live,
+      qualityLevels: dash.qualityLevels,
+      renditions: dash.renditions,
+      audioTracks: dash.audioTracks,
+      subtitleTracks: dash.subtitleTracks,
+      drm: dash.drm
+    }
+  }
+
+  if (!response.data.includes('#EXT-X-STREAM-INF:')) {
+    const level = mediaPlaylistToQualityLevel(parseMediaPlaylist(response.data, response.url), response.url)
+    return {
+      format,
+      url: response.url,
+      live: level.live,
+      qualityLevels: [level],
+      renditions: [],
+      audioTracks: [],
+      subtitleTracks: [],
+      drm: level.drm ?? []
+    }
+  }
+
+  const qualityLevels = await parseHLSManifest(response.data, response.url, loader)
+  const { renditions, sessionKeys } = parseMasterPlaylist(response.data, response.url)
+  const audioTracks = await loadRenditionPlaylists(buildHlsAudioTracks(renditions, qualityLevels), loader)
+  return {
+    format,
+    url: response.url,
+    live: qualityLevels.some(level => level.live),
+    qualityLevels,
+    renditions,
+    audioTracks,
+    subtitleTracks: await loadRenditionPlaylists(buildHlsSubtitleTracks(renditions), loader),
+    // Session keys come first: they let licenses be requested before any media playlist names its keys
+    drm: mergeDrmInfo([
+      ...sessionKeys.flatMap(key => getHlsDrmInfo(key) ?? []),
+      ...[...qualityLevels, ...audioTracks].flatMap(level => level.drm ?? [])
+    ])
+  }
+}
+
+/**
+ * Re-fetches the segment list of one quality level, audio or subtitle track, as a media playlist, for live refresh
+ * @intuition HLS refreshes a variant's own playlist while DASH refreshes the whole MPD; the live logic should see one shape
+ * @approach For HLS load the variant URL (which may carry LL-HLS directives); for DASH re-parse the MPD and pick the level by id
+ * @complexity O(m) time for HLS, O(r * s) for DASH, O(m) space
+ */
+export const reloadMediaPlaylist = async (
+  format: ManifestFormat,
+  quality: Pick<QualityLevel, 'id' | 'targetDuration'>,
+  url: string,
+  loader: Loader,
+  signal?: AbortSignal
+): Promise<MediaPlaylist> => {
+  const response = await loader.loadText(url, { signal })
+
+  if (format === 'hls') return parseMediaPlaylist(response.data, response.url)
+
+  const dash = parseDashManifest(response.data, response.url)
+  const level = [...dash.qualityLevels, ...dash.audioTracks, ...dash.subtitleTracks].find(candidate => candidate.id === quality.id)
+  const segments = level?.segments ?? []
+  return {
+    targetDuration: level?.targetDuration ?? quality.targetDuration,
+    mediaSequence: segments[0]?.sequenceNumber ?? 0,
+    discontinuitySequence: 0,
+    endList: !dash.live,
+    totalDuration: segments.reduce((total, segment) => total + segment.duration, 0),
+    segments,
+    pendingParts: []
+  }
+}
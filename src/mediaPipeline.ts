@@ -0,0 +1,344 @@
+import type { AudioTrack, MediaRendition, QualityLevel } from './types'
+import type { ManifestFormat } from './manifest'
+
+export type TrackType = 'audio' | 'video'
+export type ContainerFormat = 'mp4' | 'mp2t' | 'webm' | 'aac'
+
+export type SourceBufferTypes = Partial<Record<TrackType, string>>
+
+export interface MediaPipelineOptions {
+  /** Current playback position, used to decide what back-buffer is safe to evict */
+  getCurrentTime: () => number
+  /** Seconds of already-played media to keep behind the playhead */
+  backBufferLength?: number
+  isTypeSupported?: (type: string) => boolean
+  /** Called once when the pipeline hits an error it cannot recover from */
+  onError?: (error: Error) => void
+}
+
+export interface MediaPipeline {
+  /**
+   * Creates or retypes SourceBuffers for the given MIME types; returns the tracks whose type changed,
+   * which need their init segment appended again
+   */
+  configure: (types: SourceBufferTypes) => TrackType[]
+  append: (track: TrackType, data: ArrayBuffer) => Promise<void>
+  remove: (track: TrackType, start: number, end: number) => Promise<void>
+  /** Aborts the append in progress, drops queued media and empties every buffer, e.g. before a seek outside the buffer */
+  flush: () => Promise<void>
+  endOfStream: () => void
+  hasTrack: (track: TrackType) => boolean
+  isUsable: () => boolean
+  destroy: () => void
+}
+
+type Operation =
+  | { kind: 'append'; data: ArrayBuffer; resolve: () => void; reject: (error: Error) => void; evicted: boolean }
+  | { kind: 'remove'; start: number; end: number; resolve: () => void; reject: (error: Error) => void }
+  | { kind: 'changeType'; type: string; resolve: () => void; reject: (error: Error) => void }
+
+interface TrackState {
+  buffer: SourceBuffer
+  type: string
+  queue: Operation[]
+  /** An aborted append's updateend has not arrived yet; its operation is still at the head of the queue */
+  aborting: boolean
+  onUpdateEnd: () => void
+  onError: () => void
+}
+
+const VIDEO_CODEC_PREFIXES = ['avc1', 'avc3', 'hvc1', 'hev1', 'dvh1', 'dvhe', 'vp09', 'vp8', 'vp9', 'av01']
+const AUDIO_CODEC_PREFIXES = ['mp4a', 'ac-3', 'ec-3', 'opus', 'flac', 'vorbis', 'mp3']
+// Assumed when a variant omits CODECS, matching what most packagers produce
+const DEFAULT_VIDEO_CODEC = 'avc1.42e01e'
+const DEFAULT_AUDIO_CODEC = 'mp4a.40.2'
+
+export const DEFAULT_BACK_BUFFER_LENGTH = 30
+// Never evict closer than this to the playhead when recovering from a full buffer
+const MIN_BACK_BUFFER_ON_QUOTA = 5
+
+export const getCodecType = (codec: string): TrackType | null => {
+  const prefix = codec.trim().toLowerCase()
+  if (VIDEO_CODEC_PREFIXES.some(candidate => prefix.startsWith(candidate))) return 'video'
+  if (AUDIO_CODEC_PREFIXES.some(candidate => prefix.startsWith(candidate))) return 'audio'
+  return null
+}
+
+export const getContainerFormat = (uri: string): ContainerFormat => {
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(uri)?.[1]?.toLowerCase()
+  switch (extension) {
+    case 'ts':
+    case 'm2ts':
+      return 'mp2t'
+    case 'webm':
+      return 'webm'
+    case 'aac':
+      return 'aac'
+    default:
+      return 'mp4'
+  }
+}
+
+/**
+ * Decides whether a variant's audio is delivered separately from its video
+ * @intuition Demuxed audio needs its own SourceBuffer, and the variant then carries only video
+ * @approach DASH always delivers audio adaptation sets separately; HLS does when the variant's AUDIO group has a rendition with a URI
+ * @complexity O(r) time where r is rendition count, O(1) space
+ */
+export const hasSeparateAudio = (quality: QualityLevel, renditions: MediaRendition[], format: ManifestFormat): boolean => {
+  if (!quality.audioGroup) return false
+  if (format === 'dash') return true
+  return renditions.some(rendition => rendition.type === 'AUDIO' && rendition.groupId === quality.audioGroup && Boolean(rendition.uri))
+}
+
+/**
+ * Builds SourceBuffer MIME types for a variant from its CODECS attribute
+ * @intuition MSE needs an exact container and codec string per buffer; a generic 'video/mp2t' is rejected by most browsers
+ * @approach Split CODECS into video and audio entries, pick the container from the media URI, and give demuxed audio its own
+ * buffer while muxed content shares one buffer carrying both codecs
+ * @complexity O(c) time where c is codec count, O(1) space
+ */
+export const getSourceBufferTypes = (quality: QualityLevel, mediaUri: string, separateAudio: boolean): SourceBufferTypes => {
+  const videoCodec = quality.codecs.find(codec => getCodecType(codec) === 'video')
+  const audioCodec = quality.codecs.find(codec => getCodecType(codec) === 'audio')
+  const container = getContainerFormat(mediaUri)
+  const audioOnly = !videoCodec && (Boolean(audioCodec) || (!quality.resolution && !quality.width))
+
+  if (audioOnly) {
+    return { audio: container === 'aac' ? 'audio/aac' : `audio/${container}; codecs="${audioCodec ?? DEFAULT_AUDIO_CODEC}"` }
+  }
+
+  const video = videoCodec ?? DEFAULT_VIDEO_CODEC
+  if (separateAudio) {
+    return { video: `video/${container}; codecs="${video}"` }
+  }
+  // Without CODECS we cannot tell whether audio is muxed in, so assume the common muxed case
+  const muxedAudio = audioCodec ?? (quality.codecs.length ? undefined : DEFAULT_AUDIO_CODEC)
+  return { video: `video/${container}; codecs="${muxedAudio ? `${video},${muxedAudio}` : video}"` }
+}
+
+/**
+ * Builds the SourceBuffer MIME type for a demuxed audio track
+ * @intuition The audio buffer has to exist before the first video append, long before any audio has been transmuxed
+ * @approach TS audio is repackaged as fMP4 so it gets an MP4 type; raw ADTS keeps audio/aac; anything else uses its own
+ * container with the track's codec
+ * @complexity O(n) time where n is URI length, O(1) space
+ */
+export const getAudioTrackBufferType = (track: Pick<AudioTrack, 'codec'>, mediaUri: string): string => {
+  const container = getContainerFormat(mediaUri)
+  if (container === 'aac') return 'audio/aac'
+  return `audio/${container === 'mp2t' ? 'mp4' : container}; codecs="${track.codec ?? DEFAULT_AUDIO_CODEC}"`
+}
+
+const isQuotaExceeded = (error: unknown): boolean =>
+  error instanceof DOMException
+    ? error.name === 'QuotaExceededError'
+    : (error as { name?: string } | null)?.name === 'QuotaExceededError'
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)))
+
+/**
+ * Creates the MSE side of the player: one SourceBuffer per track with a serialized operation queue
+ * @intuition SourceBuffers reject every call made while `updating` is true, and a full buffer or a codec change must be
+ * handled without dropping media, so all writes have to go through a queue that owns the buffer
+ * @approach Queue appends, removals and changeType per track and start the next operation on updateend; on
+ * QuotaExceededError evict back-buffer and retry once; trim back-buffer after appends
+ * @complexity O(1) time per queued operation plus the browser's own append cost, O(q) space for q pending operations
+ */
+export const createMediaPipeline = (mediaSource: MediaSource, options: MediaPipelineOptions): MediaPipeline => {
+  const {
+    getCurrentTime,
+    backBufferLength = DEFAULT_BACK_BUFFER_LENGTH,
+    isTypeSupported = (type: string) => typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(type),
+    onError
+  } = options
+  const tracks = new Map<TrackType, TrackState>()
+  let failed = false
+  let destroyed = false
+
+  const fail = (error: Error) => {
+    if (failed) return
+    failed = true
+    onError?.(error)
+  }
+
+  const settleQueue = (state: TrackState, error: Error) => {
+    state.queue.splice(0).forEach(operation => operation.reject(error))
+  }
+
+  const getBackBufferEnd = (buffer: SourceBuffer, keep: number): number | null => {
+    if (!buffer.buffered.length) return null
+    const end = getCurrentTime() - keep
+    return end > buffer.buffered.start(0) ? end : null
+  }
+
+  const processQueue = (state: TrackState) => {
+    if (destroyed || state.buffer.updating || state.aborting || !state.queue.length) return
+    const operation = state.queue[0]
+
+    try {
+      if (operation.kind === 'append') state.buffer.appendBuffer(operation.data)
+      else if (operation.kind === 'remove') state.buffer.remove(operation.start, operation.end)
+      else {
+        state.buffer.changeType(operation.type)
+        // changeType is synchronous and fires no updateend
+        state.queue.shift()
+        operation.resolve()
+        processQueue(state)
+      }
+    } catch (error) {
+      state.queue.shift()
+      const evictTo = operation.kind === 'append' && !operation.evicted && isQuotaExceeded(error)
+        ? getBackBufferEnd(state.buffer, MIN_BACK_BUFFER_ON_QUOTA)
+        : null
+
+      if (operation.kind === 'append' && evictTo !== null) {
+        // Free played media, then retry the same append once
+        state.queue.unshift(
+          { kind: 'remove', start: 0, end: evictTo, resolve: () => {}, reject: () => {} },
+          { ...operation, evicted: true }
+        )
+        processQueue(state)
+        return
+      }
+
+      operation.reject(toError(error))
+      if (isQuotaExceeded(error)) {
+        processQueue(state)
+      } else {
+        settleQueue(state, toError(error))
+        fail(toError(error))
+      }
+    }
+  }
+
+  const enqueue = (track: TrackType, build: (resolve: () => void, reject: (error: Error) => void) => Operation): Promise<void> =>
+    new Promise((resolve, reject) => {
+      const state = tracks.get(track)
+      // Appending to an ended MediaSource reopens it, so only a closed one is fatal
+      if (destroyed || failed || !state || mediaSource.readyState === 'closed') {
+        reject(new Error(state ? 'MediaSource is not open' : `No SourceBuffer for ${track}`))
+        return
+      }
+      state.queue.push(build(resolve, reject))
+      processQueue(state)
+    })
+
+  const trimBackBuffer = (track: TrackType) => {
+    const state = tracks.get(track)
+    const end = state ? getBackBufferEnd(state.buffer, backBufferLength) : null
+    if (state && end !== null && !state.queue.some(operation => operation.kind === 'remove')) {
+      state.queue.push({ kind: 'remove', start: 0, end, resolve: () => {}, reject: () => {} })
+      processQueue(state)
+    }
+  }
+
+  const addTrack = (track: TrackType, type: string) => {
+    const buffer = mediaSource.addSourceBuffer(type)
+    const state: TrackState = {
+      buffer,
+      type,
+      queue: [],
+      aborting: false,
+      onUpdateEnd: () => {
+        const finished = state.queue.shift()
+        if (state.aborting) {
+          state.aborting = false
+          finished?.reject(new Error('Flushed'))
+        } else {
+          finished?.resolve()
+        }
+        processQueue(state)
+      },
+      onError: () => {
+        const failedOperation = state.queue.shift()
+        const error = new Error(`SourceBuffer error while processing ${failedOperation?.kind ?? 'operation'} on ${track}`)
+        failedOperation?.reject(error)
+        settleQueue(state, error)
+        fail(error)
+      }
+    }
+    buffer.addEventListener('updateend', state.onUpdateEnd)
+    buffer.addEventListener('error', state.onError)
+    tracks.set(track, state)
+  }
+
+  return {
+    configure: types => {
+      const changed: TrackType[] = []
+      if (destroyed || failed || mediaSource.readyState !== 'open') return changed
+
+      for (const [track, type] of Object.entries(types) as [TrackType, string][]) {
+        const state = tracks.get(track)
+        if (state?.type === type) continue
+
+        if (!isTypeSupported(type)) {
+          fail(new Error(`Media type not supported by this browser: ${type}`))
+          return changed
+        }
+
+        try {
+          if (!state) {
+            addTrack(track, type)
+          } else if (typeof state.buffer.changeType === 'function') {
+            state.type = type
+            state.queue.push({ kind: 'changeType', type, resolve: () => {}, reject: () => {} })
+            processQueue(state)
+          } else {
+            // Without changeType the new init segment alone has to carry the switch
+            state.type = type
+          }
+          changed.push(track)
+        } catch (error) {
+          fail(toError(error))
+          return changed
+        }
+      }
+      return changed
+    },
+    append: (track, data) =>
+      enqueue(track, (resolve, reject) => ({
+        kind: 'append',
+        data,
+        evicted: false,
+        resolve: () => {
+          resolve()
+          trimBackBuffer(track)
+        },
+        reject
+      })),
+    remove: (track, start, end) => enqueue(track, (resolve, reject) => ({ kind: 'remove', start, end, resolve, reject })),
+    flush: async () => {
+      if (destroyed || failed) return
+      const removals = [...tracks.entries()].map(([track, state]) => {
+        const inFlight = state.buffer.updating ? state.queue[0] : undefined
+        // Media not yet handed to the buffer is stale; pending changeType calls still have to happen
+        const pending = state.queue.splice(inFlight ? 1 : 0)
+        pending.filter(operation => operation.kind !== 'changeType').forEach(operation => operation.reject(new Error('Flushed')))
+        state.queue.push(...pending.filter(operation => operation.kind === 'changeType'))
+        if (inFlight?.kind === 'append') {
+          // abort() clears `updating` at once but fires updateend later, which then retires the aborted append
+          state.aborting = true
+          state.buffer.abort()
+        }
+        return enqueue(track, (resolve, reject) => ({ kind: 'remove', start: 0, end: Infinity, resolve, reject }))
+      })
+      await Promise.all(removals)
+    },
+    endOfStream: () => {
+      const busy = [...tracks.values()].some(state => state.buffer.updating || state.queue.length)
+      if (!busy && !failed && mediaSource.readyState === 'open') mediaSource.endOfStream()
+    },
+    hasTrack: track => tracks.has(track),
+    isUsable: () => !failed && !destroyed,
+    destroy: () => {
+      destroyed = true
+      tracks.forEach(state => {
+        state.buffer.removeEventListener('updateend', state.onUpdateEnd)
+        state.buffer.removeEventListener('error', state.onError)
+        settleQueue(state, new Error('Media pipeline destroyed'))
+      })
+      tracks.clear()
+    }
+  }
+}
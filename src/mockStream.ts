@@ -0,0 +1,597 @@
+import type { Loader, LoaderRequestOptions, LoaderResponse } from './loader'
+import type { NetworkCondition } from './types'
+import { SYNTHETIC_PTS_OFFSET, createSyntheticTsSegment } from './syntheticMedia'
+import { decodeBase64, encodeBase64Url, fromHex, toHex } from './drm'
+
+// Mock backend data for the built-in demo stream
+export const MOCK_STREAM_BASE = 'mock://demo/'
+export const MOCK_STREAM_URL = `${MOCK_STREAM_BASE}master.m3u8`
+export const MOCK_DASH_STREAM_URL = `${MOCK_STREAM_BASE}manifest.mpd`
+export const MOCK_LIVE_STREAM_BASE = 'mock://live/'
+export const MOCK_LIVE_STREAM_URL = `${MOCK_LIVE_STREAM_BASE}master.m3u8`
+export const MOCK_LL_STREAM_BASE = 'mock://ll-live/'
+export const MOCK_LL_STREAM_URL = `${MOCK_LL_STREAM_BASE}master.m3u8`
+export const MOCK_ENCRYPTED_STREAM_BASE = 'mock://encrypted/'
+export const MOCK_ENCRYPTED_STREAM_URL = `${MOCK_ENCRYPTED_STREAM_BASE}master.m3u8`
+export const MOCK_PROTECTED_STREAM_URL = `${MOCK_STREAM_BASE}protected.mpd`
+export const MOCK_LICENSE_URL = 'mock://drm/license'
+export const MOCK_BEACON_URL = 'mock://analytics/beacon'
+
+export const isMockUrl = (url: string): boolean => url.startsWith('mock://')
+
+export const MOCK_HLS_MANIFEST = `#EXTM3U
+#EXT-X-VERSION:4
+#EXT-X-INDEPENDENT-SEGMENTS
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",DEFAULT=YES,AUTOSELECT=YES,CHANNELS="2",URI="audio_en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="Español",LANGUAGE="es",DEFAULT=NO,AUTOSELECT=YES,CHANNELS="2",URI="audio_es.m3u8"
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",LANGUAGE="en",DEFAULT=NO,AUTOSELECT=YES,URI="subs_en.m3u8"
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="Español",LANGUAGE="es",DEFAULT=NO,AUTOSELECT=YES,URI="subs_es.m3u8"
+#EXT-X-MEDIA:TYPE=CLOSED-CAPTIONS,GROUP-ID="cc",NAME="English",LANGUAGE="en",DEFAULT=NO,AUTOSELECT=YES,INSTREAM-ID="CC1"
+#EXT-X-STREAM-INF:BANDWIDTH=800000,AVERAGE-BANDWIDTH=720000,RESOLUTION=640x360,FRAME-RATE=30.000,CODECS="avc1.42e01e,mp4a.40.2",AUDIO="aac",SUBTITLES="subs",CLOSED-CAPTIONS="cc"
+stream_360p.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=1400000,AVERAGE-BANDWIDTH=1260000,RESOLUTION=854x480,FRAME-RATE=30.000,CODECS="avc1.4d401e,mp4a.40.2",AUDIO="aac",SUBTITLES="subs",CLOSED-CAPTIONS="cc"
+stream_480p.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=2800000,AVERAGE-BANDWIDTH=2520000,RESOLUTION=1280x720,FRAME-RATE=30.000,CODECS="avc1.4d401f,mp4a.40.2",AUDIO="aac",SUBTITLES="subs",CLOSED-CAPTIONS="cc"
+stream_720p.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=5000000,AVERAGE-BANDWIDTH=4500000,RESOLUTION=1920x1080,FRAME-RATE=60.000,CODECS="avc1.640028,mp4a.40.2",AUDIO="aac",SUBTITLES="subs",CLOSED-CAPTIONS="cc",HDCP-LEVEL=TYPE-0
+stream_1080p.m3u8`
+
+export const MOCK_SEGMENT_PLAYLISTS = {
+  'stream_360p.m3u8': `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+segment_360p_001.ts
+#EXTINF:10.0,
+segment_360p_002.ts
+#EXTINF:10.0,
+segment_360p_003.ts
+#EXT-X-ENDLIST`,
+  'stream_480p.m3u8': `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+segment_480p_001.ts
+#EXTINF:10.0,
+segment_480p_002.ts
+#EXTINF:10.0,
+segment_480p_003.ts
+#EXT-X-ENDLIST`,
+  'stream_720p.m3u8': `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+segment_720p_001.ts
+#EXTINF:10.0,
+segment_720p_002.ts
+#EXTINF:10.0,
+segment_720p_003.ts
+#EXT-X-ENDLIST`,
+  'stream_1080p.m3u8': `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+segment_1080p_001.ts
+#EXTINF:10.0,
+segment_1080p_002.ts
+#EXTINF:10.0,
+segment_1080p_003.ts
+#EXT-X-ENDLIST`,
+  'audio_en.m3u8': `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+segment_audio-en_001.ts
+#EXTINF:10.0,
+segment_audio-en_002.ts
+#EXTINF:10.0,
+segment_audio-en_003.ts
+#EXT-X-ENDLIST`,
+  'audio_es.m3u8': `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+segment_audio-es_001.ts
+#EXTINF:10.0,
+segment_audio-es_002.ts
+#EXTINF:10.0,
+segment_audio-es_003.ts
+#EXT-X-ENDLIST`,
+  'subs_en.m3u8': `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+subs_en_001.vtt
+#EXTINF:10.0,
+subs_en_002.vtt
+#EXTINF:10.0,
+subs_en_003.vtt
+#EXT-X-ENDLIST`,
+  'subs_es.m3u8': `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+subs_es_001.vtt
+#EXTINF:10.0,
+subs_es_002.vtt
+#EXTINF:10.0,
+subs_es_003.vtt
+#EXT-X-ENDLIST`
+}
+
+// The live demos keep their audio muxed into the variants and carry only the embedded captions, so their masters drop
+// the alternate audio and subtitle playlists
+const MOCK_MUXED_AUDIO_MANIFEST = MOCK_HLS_MANIFEST
+  .split('\n')
+  .filter(line => !line.includes('TYPE=SUBTITLES') && !(line.includes('TYPE=AUDIO') && line.includes('LANGUAGE="es"')))
+  .map(line => line.replace(/,URI="audio_\w+\.m3u8"/, '').replace(',SUBTITLES="subs"', ''))
+  .join('\n')
+
+export const MOCK_DASH_MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT30S" minBufferTime="PT2S"
+     profiles="urn:mpeg:dash:profile:isoff-live:2011">
+  <Period id="0" start="PT0S">
+    <AdaptationSet contentType="video" mimeType="video/mp4" segmentAlignment="true">
+      <SegmentTemplate media="dash_$RepresentationID$_$Number%03d$.m4s" initialization="dash_$RepresentationID$_init.mp4"
+                       timescale="90000" duration="900000" startNumber="1"/>
+      <Representation id="360p" bandwidth="800000" width="640" height="360" codecs="avc1.42e01e" frameRate="30"/>
+      <Representation id="480p" bandwidth="1400000" width="854" height="480" codecs="avc1.4d401e" frameRate="30"/>
+      <Representation id="720p" bandwidth="2800000" width="1280" height="720" codecs="avc1.4d401f" frameRate="30"/>
+      <Representation id="1080p" bandwidth="5000000" width="1920" height="1080" codecs="avc1.640028" frameRate="60"/>
+    </AdaptationSet>
+    <AdaptationSet contentType="audio" mimeType="audio/mp4" lang="en">
+      <Role schemeIdUri="urn:mpeg:dash:role:2011" value="main"/>
+      <SegmentTemplate media="dash_$RepresentationID$_$Time$.m4s" initialization="dash_$RepresentationID$_init.mp4" timescale="48000">
+        <SegmentTimeline>
+          <S t="0" d="480000" r="2"/>
+        </SegmentTimeline>
+      </SegmentTemplate>
+      <Representation id="aac" bandwidth="128000" codecs="mp4a.40.2" audioSamplingRate="48000"/>
+    </AdaptationSet>
+    <AdaptationSet contentType="audio" mimeType="audio/mp4" lang="es">
+      <Role schemeIdUri="urn:mpeg:dash:role:2011" value="dub"/>
+      <SegmentTemplate media="dash_$RepresentationID$_$Number%03d$.m4s" initialization="dash_$RepresentationID$_init.mp4"
+                       timescale="48000" duration="480000" startNumber="1"/>
+      <Representation id="aac_es" bandwidth="128000" codecs="mp4a.40.2" audioSamplingRate="48000"/>
+    </AdaptationSet>
+    <AdaptationSet contentType="text" mimeType="application/ttml+xml" lang="en">
+      <Role schemeIdUri="urn:mpeg:dash:role:2011" value="subtitle"/>
+      <Label>English (IMSC)</Label>
+      <SegmentTemplate media="dash_$RepresentationID$_$Number%03d$.ttml" timescale="1" duration="10" startNumber="1"/>
+      <Representation id="imsc_en" bandwidth="2000"/>
+    </AdaptationSet>
+  </Period>
+</MPD>`
+
+/** Key ID of the ClearKey-protected demo, as 32 hex digits */
+export const MOCK_CLEARKEY_KEY_ID = 'a7e61c373e219033c21091fa607bf3b8'
+// Keys the stand-in license server hands out, by key ID
+const MOCK_CLEARKEY_KEYS: Record<string, string> = { [MOCK_CLEARKEY_KEY_ID]: '9eb4050de44b4802932e27d75083e266' }
+
+const formatUuid = (hex: string): string => hex.replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5')
+
+// The DASH demo announcing ClearKey protection with a license URL. Its segments stay clear (browsers play clear samples
+// with MediaKeys attached), so it exercises key system selection and the license exchange without a CENC packager
+const MOCK_PROTECTED_DASH_MANIFEST = MOCK_DASH_MANIFEST
+  .replace('xmlns="urn:mpeg:dash:schema:mpd:2011"', '$& xmlns:cenc="urn:mpeg:cenc:2013" xmlns:dashif="https://dashif.org/CPS"')
+  .replace('<AdaptationSet contentType="video" mimeType="video/mp4" segmentAlignment="true">', [
+    '$&',
+    `      <ContentProtection schemeIdUri="urn:mpeg:dash:mp4protection:2011" value="cenc" cenc:default_KID="${formatUuid(MOCK_CLEARKEY_KEY_ID)}"/>`,
+    '      <ContentProtection schemeIdUri="urn:uuid:e2719d58-a985-b3c9-781a-b030af78d30e" value="ClearKey1.0">',
+    `        <dashif:laurl>${MOCK_LICENSE_URL}</dashif:laurl>`,
+    '      </ContentProtection>'
+  ].join('\n'))
+
+const MOCK_FILES: Record<string, string> = {
+  'master.m3u8': MOCK_HLS_MANIFEST,
+  'manifest.mpd': MOCK_DASH_MANIFEST,
+  'protected.mpd': MOCK_PROTECTED_DASH_MANIFEST,
+  ...MOCK_SEGMENT_PLAYLISTS
+}
+
+const MOCK_LIVE_SEGMENT_DURATION = 4
+const MOCK_LIVE_WINDOW_SEGMENTS = 6
+// Pretend the live event started a minute before the page loaded so the window is full immediately
+const MOCK_LIVE_EPOCH = Date.now() - 60000
+
+/**
+ * Generates a sliding-window live media playlist for the current wall-clock time
+ * @intuition Live behaviour (reloads, window sliding, latency) can only be exercised against a playlist that changes over time
+ * @approach Derive the newest media sequence number from elapsed time and emit the last few segments with program date times
+ * @complexity O(w) time and space where w is the window size
+ */
+export const generateMockLivePlaylist = (variant: string, now: number): string => {
+  const newestSequence = Math.floor((now - MOCK_LIVE_EPOCH) / (MOCK_LIVE_SEGMENT_DURATION * 1000)) - 1
+  const firstSequence = Math.max(0, newestSequence - MOCK_LIVE_WINDOW_SEGMENTS + 1)
+  const firstDate = new Date(MOCK_LIVE_EPOCH + firstSequence * MOCK_LIVE_SEGMENT_DURATION * 1000)
+
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${MOCK_LIVE_SEGMENT_DURATION}`,
+    `#EXT-X-MEDIA-SEQUENCE:${firstSequence}`,
+    `#EXT-X-PROGRAM-DATE-TIME:${firstDate.toISOString()}`
+  ]
+  for (let sequence = firstSequence; sequence <= newestSequence; sequence++) {
+    lines.push(`#EXTINF:${MOCK_LIVE_SEGMENT_DURATION.toFixed(1)},`, `${variant}_${sequence}.ts`)
+  }
+  return lines.join('\n')
+}
+
+const MOCK_LL_SEGMENT_DURATION = 2
+const MOCK_LL_PART_DURATION = 0.5
+const MOCK_LL_PARTS_PER_SEGMENT = MOCK_LL_SEGMENT_DURATION / MOCK_LL_PART_DURATION
+const MOCK_LL_PARTS_LISTED_SEGMENTS = 2
+
+/**
+ * Generates a Low-Latency HLS media playlist for the current wall-clock time
+ * @intuition LL-HLS clients must be exercised against parts, preload hints and server control, which a static fixture cannot provide
+ * @approach Derive complete segments and the parts published so far from elapsed time; list parts for the newest segments and
+ * the in-progress one, then hint the next part
+ * @complexity O(w * p) time and space for a window of w segments with p parts each
+ */
+export const generateMockLowLatencyPlaylist = (variant: string, now: number): string => {
+  const elapsed = now - MOCK_LIVE_EPOCH
+  const completedSegments = Math.floor(elapsed / (MOCK_LL_SEGMENT_DURATION * 1000))
+  const newestSequence = completedSegments - 1
+  const firstSequence = Math.max(0, newestSequence - MOCK_LIVE_WINDOW_SEGMENTS + 1)
+  const publishedParts = Math.floor((elapsed % (MOCK_LL_SEGMENT_DURATION * 1000)) / (MOCK_LL_PART_DURATION * 1000))
+  const firstDate = new Date(MOCK_LIVE_EPOCH + firstSequence * MOCK_LL_SEGMENT_DURATION * 1000)
+
+  const partLines = (sequence: number, count: number) =>
+    Array.from({ length: count }, (_, part) =>
+      `#EXT-X-PART:DURATION=${MOCK_LL_PART_DURATION.toFixed(3)},URI="${variant}_${sequence}.part${part}.ts"${part === 0 ? ',INDEPENDENT=YES' : ''}`
+    )
+
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:9',
+    `#EXT-X-TARGETDURATION:${MOCK_LL_SEGMENT_DURATION}`,
+    `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(MOCK_LL_PART_DURATION * 3).toFixed(1)}`,
+    `#EXT-X-PART-INF:PART-TARGET=${MOCK_LL_PART_DURATION.toFixed(3)}`,
+    `#EXT-X-MEDIA-SEQUENCE:${firstSequence}`,
+    `#EXT-X-PROGRAM-DATE-TIME:${firstDate.toISOString()}`
+  ]
+  for (let sequence = firstSequence; sequence <= newestSequence; sequence++) {
+    if (sequence > newestSequence - MOCK_LL_PARTS_LISTED_SEGMENTS) {
+      lines.push(...partLines(sequence, MOCK_LL_PARTS_PER_SEGMENT))
+    }
+    lines.push(`#EXTINF:${MOCK_LL_SEGMENT_DURATION.toFixed(1)},`, `${variant}_${sequence}.ts`)
+  }
+  lines.push(
+    ...partLines(completedSegments, publishedParts),
+    `#EXT-X-PRELOAD-HINT:TYPE=PART,URI="${variant}_${completedSegments}.part${publishedParts}.ts"`
+  )
+  return lines.join('\n')
+}
+
+/**
+ * Computes when a blocking playlist request can be answered
+ * @intuition A server honouring _HLS_msn/_HLS_part holds the response until the requested segment or part has been produced
+ * @approach Convert the requested sequence number and part into the wall-clock time it completes, capped at three target durations
+ * @complexity O(1) time, O(1) space
+ */
+const getBlockingDelay = (url: string, now: number): number => {
+  const params = new URL(url).searchParams
+  const msn = params.get('_HLS_msn')
+  if (msn === null) return 0
+
+  const part = params.get('_HLS_part')
+  const partsIntoSegment = part === null ? MOCK_LL_PARTS_PER_SEGMENT : parseInt(part) + 1
+  const availableAt = MOCK_LIVE_EPOCH +
+    (parseInt(msn) * MOCK_LL_SEGMENT_DURATION + partsIntoSegment * MOCK_LL_PART_DURATION) * 1000
+
+  return Math.min(Math.max(0, availableAt - now), MOCK_LL_SEGMENT_DURATION * 3 * 1000)
+}
+
+// The encrypted demo rotates its AES-128 key every two segments; even key periods carry an explicit IV
+const MOCK_KEY_ROTATION_SEGMENTS = 2
+const MOCK_ENCRYPTED_SEGMENT_COUNT = 3
+// Keys are served by the stand-in key server as keys/<n>.key
+const MOCK_KEY_FILE = /keys\/(\d+)\.key$/
+
+interface MockKeyPeriod {
+  keyId: number
+  iv?: Uint8Array
+}
+
+const getMockKeyPeriod = (index: number): MockKeyPeriod => {
+  const keyId = Math.ceil(index / MOCK_KEY_ROTATION_SEGMENTS)
+  return keyId % 2 === 0 ? { keyId, iv: Uint8Array.from({ length: 16 }, (_, byte) => (keyId << 4) | byte) } : { keyId }
+}
+
+/** The 16-byte AES-128 key the stand-in key server hands out for a key number */
+export const getMockKey = (keyId: number): Uint8Array => Uint8Array.from({ length: 16 }, (_, byte) => (keyId * 37 + byte * 11) & 0xff)
+
+/**
+ * Generates a VOD media playlist whose segments are AES-128 encrypted with rotating keys
+ * @intuition Key rotation, both IV sources and the key request path all need a stream that exercises them
+ * @approach Emit an EXT-X-KEY whenever a new key period starts, with an IV only when the period has one, so the other
+ * periods fall back to the media sequence number
+ * @complexity O(s) time and space for s segments
+ */
+export const generateMockEncryptedPlaylist = (variant: string): string => {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3', `#EXT-X-TARGETDURATION:${MOCK_VOD_SEGMENT_DURATION}`, '#EXT-X-PLAYLIST-TYPE:VOD']
+  for (let index = 1; index <= MOCK_ENCRYPTED_SEGMENT_COUNT; index++) {
+    const period = getMockKeyPeriod(index)
+    if (index === 1 || period.keyId !== getMockKeyPeriod(index - 1).keyId) {
+      const iv = period.iv ? `,IV=0x${Array.from(period.iv, byte => byte.toString(16).padStart(2, '0')).join('')}` : ''
+      lines.push(`#EXT-X-KEY:METHOD=AES-128,URI="keys/${period.keyId}.key"${iv}`)
+    }
+    lines.push(`#EXTINF:${MOCK_VOD_SEGMENT_DURATION.toFixed(1)},`, `${variant}_${String(index).padStart(3, '0')}.ts`)
+  }
+  lines.push('#EXT-X-ENDLIST')
+  return lines.join('\n')
+}
+
+// Encrypts a demo segment the way a packager would: AES-128-CBC with PKCS#7 padding under its period's key and IV
+const encryptMockSegment = async (data: ArrayBuffer, index: number): Promise<ArrayBuffer> => {
+  const period = getMockKeyPeriod(index)
+  // Without an explicit IV, the IV is the media sequence number; the demo playlists start at sequence 0
+  const iv = period.iv ?? Uint8Array.from({ length: 16 }, (_, byte) => (byte === 15 ? index - 1 : 0))
+  const key = await crypto.subtle.importKey('raw', getMockKey(period.keyId) as BufferSource, { name: 'AES-CBC' }, false, ['encrypt'])
+  return crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, key, data)
+}
+
+// Beacons the mock analytics backend has received, newest last
+const MOCK_BEACON_LIMIT = 100
+const mockBeacons: unknown[] = []
+
+/** Payloads POSTed to the mock analytics endpoint, as a real backend would have collected them */
+export const getMockBeacons = (): unknown[] => [...mockBeacons]
+
+// CMCD query data is for the CDN's logs; the mock serves the file the URL names without it
+const CMCD_QUERY = /[?&]CMCD=[^&#]*/
+
+/**
+ * Answers a ClearKey license request the way a license server would
+ * @intuition ClearKey needs no CDM secrets, so a local stand-in can stand for the license service end to end
+ * @approach Read the {"kids":[...]} request the CDM generated and answer with a JSON Web Key set holding the key of
+ * every requested ID; an unknown ID is refused like an unauthorized request
+ * @complexity O(k) time and space for k requested keys
+ */
+export const createMockClearKeyLicense = (request: Uint8Array): Uint8Array => {
+  const { kids = [] } = JSON.parse(new TextDecoder().decode(request)) as { kids?: string[] }
+  const keys = kids.map(kid => {
+    const keyId = toHex(decodeBase64(kid))
+    const key = MOCK_CLEARKEY_KEYS[keyId]
+    if (!key) throw new Error(`HTTP 403: no license for key ${keyId}`)
+    return { kty: 'oct', kid, k: encodeBase64Url(fromHex(key)) }
+  })
+  return new TextEncoder().encode(JSON.stringify({ keys, type: 'temporary' }))
+}
+
+const MOCK_SUBTITLE_TEXT: Record<string, string> = { en: 'Subtitle', es: 'Subtítulo' }
+// Subtitle files are named subs_<language>_<index>.vtt (HLS) or dash_imsc_<language>_<index>.ttml (DASH)
+const MOCK_SUBTITLE_FILE = /(subs|imsc)_([a-z]+)_(\d+)\.(vtt|ttml)$/
+
+const formatVttTime = (seconds: number): string =>
+  `00:${String(Math.floor(seconds / 60)).padStart(2, '0')}:${(seconds % 60).toFixed(3).padStart(6, '0')}`
+
+/**
+ * Generates a demo subtitle segment with two cues
+ * @intuition Subtitle loading, timestamp mapping and rendering need real WebVTT and IMSC documents to work against
+ * @approach Number cues after the segment; WebVTT maps LOCAL zero to the synthetic video's first PTS like a packager
+ * aligned to MPEG-TS would, IMSC uses presentation times directly
+ * @complexity O(1) time and space
+ */
+export const generateMockSubtitleSegment = (language: string, index: number, format: 'vtt' | 'ttml'): string => {
+  const start = (index - 1) * MOCK_VOD_SEGMENT_DURATION
+  const label = MOCK_SUBTITLE_TEXT[language] ?? language
+  const cues = [
+    { start: start + 0.5, end: start + 4.5, text: `${label} ${index}.1` },
+    { start: start + 5, end: start + 9.5, text: `${label} ${index}.2` }
+  ]
+
+  if (format === 'ttml') {
+    const paragraphs = cues.map(cue => `      <p begin="${cue.start}s" end="${cue.end}s">${cue.text}</p>`)
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${language}">`,
+      '  <body>',
+      '    <div>',
+      ...paragraphs,
+      '    </div>',
+      '  </body>',
+      '</tt>'
+    ].join('\n')
+  }
+  return [
+    'WEBVTT',
+    `X-TIMESTAMP-MAP=MPEGTS:${SYNTHETIC_PTS_OFFSET},LOCAL:00:00:00.000`,
+    ...cues.flatMap(cue => ['', `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)} line:85%`, cue.text])
+  ].join('\n')
+}
+
+const loadMockText = (url: string): string | undefined => {
+  if (url.startsWith(MOCK_ENCRYPTED_STREAM_BASE)) {
+    const file = url.slice(MOCK_ENCRYPTED_STREAM_BASE.length)
+    if (file === 'master.m3u8') return MOCK_MUXED_AUDIO_MANIFEST.replaceAll('stream_', 'enc_')
+    const variant = /^(enc_\w+)\.m3u8$/.exec(file)
+    return variant ? generateMockEncryptedPlaylist(variant[1]) : undefined
+  }
+  if (url.startsWith(MOCK_LL_STREAM_BASE)) {
+    const file = url.slice(MOCK_LL_STREAM_BASE.length).split('?')[0]
+    if (file === 'master.m3u8') return MOCK_MUXED_AUDIO_MANIFEST.replaceAll('stream_', 'll_')
+    const variant = /^(ll_\w+)\.m3u8$/.exec(file)
+    return variant ? generateMockLowLatencyPlaylist(variant[1], Date.now()) : undefined
+  }
+  if (url.startsWith(MOCK_LIVE_STREAM_BASE)) {
+    const file = url.slice(MOCK_LIVE_STREAM_BASE.length)
+    if (file === 'master.m3u8') return MOCK_MUXED_AUDIO_MANIFEST.replaceAll('stream_', 'live_')
+    const variant = /^(live_\w+)\.m3u8$/.exec(file)
+    return variant ? generateMockLivePlaylist(variant[1], Date.now()) : undefined
+  }
+  const subtitle = MOCK_SUBTITLE_FILE.exec(url)
+  if (subtitle) return generateMockSubtitleSegment(subtitle[2], parseInt(subtitle[3], 10), subtitle[4] as 'vtt' | 'ttml')
+  return MOCK_FILES[url.startsWith(MOCK_STREAM_BASE) ? url.slice(MOCK_STREAM_BASE.length) : url]
+}
+
+// Peak bitrates of the demo ladder and its audio renditions, used to size synthesized segment payloads
+const MOCK_VARIANT_BITRATES: Record<string, number> = {
+  '360p': 800000,
+  '480p': 1400000,
+  '720p': 2800000,
+  '1080p': 5000000,
+  'audio-en': 128000,
+  'audio-es': 128000
+}
+const MOCK_VOD_SEGMENT_DURATION = 10
+// Media files are named <prefix>_<rendition>_<index>[.part<n>].ts, the rendition being a video rung or an audio language
+const MOCK_MEDIA_FILE = /_(\d+p|audio-[a-z]+)_(\d+)(?:\.part(\d+))?\.ts$/
+
+/**
+ * Works out how large a demo segment would be on the wire
+ * @intuition Throughput can only be measured if payload size tracks the variant bitrate and media duration like real segments do
+ * @approach Read the variant and stream kind from the file name and multiply bitrate by duration; init segments and unknown
+ * files get no size
+ * @complexity O(n) time where n is URL length, O(1) space
+ */
+export const getMockSegmentSize = (url: string): number | null => {
+  if (/_init\./.test(url)) return null
+  const variant = /_(\d+p|audio-[a-z]+)[_.]/.exec(url)
+  const bitrate = variant ? MOCK_VARIANT_BITRATES[variant[1]] : undefined
+  if (!bitrate) return null
+
+  const duration = /\.part\d+\./.test(url)
+    ? MOCK_LL_PART_DURATION
+    : url.startsWith(MOCK_LL_STREAM_BASE)
+      ? MOCK_LL_SEGMENT_DURATION
+      : url.startsWith(MOCK_LIVE_STREAM_BASE) ? MOCK_LIVE_SEGMENT_DURATION : MOCK_VOD_SEGMENT_DURATION
+  return Math.round((bitrate * duration) / 8)
+}
+
+// Each rung paints a different shade so quality switches are visible in the synthetic picture
+const MOCK_VARIANT_LUMA: Record<string, number> = { '360p': 60, '480p': 100, '720p': 150, '1080p': 200 }
+
+/**
+ * Works out where a demo TS segment or part sits on the stream timeline
+ * @intuition Synthetic media needs timestamps that agree with the playlists, or the transmuxed fragments would overlap
+ * @approach VOD files are numbered from 1 in 10 s steps; live and LL-HLS files carry their media sequence number, and parts
+ * their index within the segment
+ * @complexity O(n) time where n is URL length, O(1) space
+ */
+export const getMockSegmentTiming = (url: string): { startTime: number; duration: number } | null => {
+  const file = MOCK_MEDIA_FILE.exec(url)
+  if (!file) return null
+  const index = parseInt(file[2], 10)
+
+  if (url.startsWith(MOCK_LL_STREAM_BASE)) {
+    const segmentStart = index * MOCK_LL_SEGMENT_DURATION
+    return file[3] === undefined
+      ? { startTime: segmentStart, duration: MOCK_LL_SEGMENT_DURATION }
+      : { startTime: segmentStart + parseInt(file[3], 10) * MOCK_LL_PART_DURATION, duration: MOCK_LL_PART_DURATION }
+  }
+  if (url.startsWith(MOCK_LIVE_STREAM_BASE)) {
+    return { startTime: index * MOCK_LIVE_SEGMENT_DURATION, duration: MOCK_LIVE_SEGMENT_DURATION }
+  }
+  return { startTime: (index - 1) * MOCK_VOD_SEGMENT_DURATION, duration: MOCK_VOD_SEGMENT_DURATION }
+}
+
+// How often the mock backend reports body progress while pacing a download
+const MOCK_PROGRESS_INTERVAL = 100
+
+const waitFor = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Request aborted', 'AbortError'))
+    }, { once: true })
+  })
+
+/**
+ * Creates a loader that serves the built-in demo stream with simulated network behaviour
+ * @intuition The demo must keep working offline, but through the same Loader contract real streams use
+ * @approach Serve playlists from in-memory text; synthesize bitrate-sized segment payloads (playable MPEG-TS for .ts files,
+ * AES-128 encrypted for the encrypted demo, whose keys are served too, ClearKey licenses for POSTed license requests, and collecting POSTed analytics beacons) delivered after a latency delay and a transfer time set
+ * by the simulated bandwidth, with occasional failures drawn from an injectable (seedable) random source
+ * @complexity O(n) time and space in the segment size apart from the simulated delay
+ */
+export const createMockLoader = (
+  getNetworkCondition: () => NetworkCondition,
+  random: () => number = Math.random
+): Loader => {
+  const respond = <T>(url: string, data: T, bytes: number, requestStart: number, firstByte?: number): LoaderResponse<T> => {
+    const now = performance.now()
+    return { url, status: 200, data, stats: { requestStart, firstByte: firstByte ?? now, loadEnd: now, bytes } }
+  }
+
+  return {
+    loadText: async (url: string, options: LoaderRequestOptions = {}) => {
+      const requestStart = performance.now()
+      // Emulate a blocking playlist reload by holding the response until the requested part exists
+      if (url.startsWith(MOCK_LL_STREAM_BASE)) {
+        await waitFor(getBlockingDelay(url, Date.now()), options.signal)
+      }
+      const content = loadMockText(url)
+      if (content === undefined) throw new Error(`Playlist not found: ${url}`)
+
+      return respond(url, content, content.length, requestStart)
+    },
+    loadBinary: async (requestUrl: string, options: LoaderRequestOptions = {}) => {
+      const requestStart = performance.now()
+      const networkCondition = getNetworkCondition()
+      const url = requestUrl.replace(CMCD_QUERY, '')
+
+      if (url === MOCK_BEACON_URL) {
+        await waitFor(networkCondition.latency, options.signal)
+        if (!options.body) throw new Error(`HTTP 405: ${url} only accepts POSTed reports`)
+        mockBeacons.push(JSON.parse(new TextDecoder().decode(options.body)))
+        mockBeacons.splice(0, mockBeacons.length - MOCK_BEACON_LIMIT)
+        return respond(url, new ArrayBuffer(0), 0, requestStart)
+      }
+
+      if (url === MOCK_LICENSE_URL) {
+        await waitFor(networkCondition.latency, options.signal)
+        if (!options.body) throw new Error(`HTTP 405: ${url} only answers POSTed license requests`)
+        const license = createMockClearKeyLicense(options.body)
+        return respond(url, license.buffer as ArrayBuffer, license.byteLength, requestStart)
+      }
+
+      // Simulate network delay
+      await waitFor(networkCondition.latency + random() * 100, options.signal)
+      const firstByte = performance.now()
+
+      // Simulate occasional failures (5% chance)
+      if (random() < 0.05) {
+        throw new Error(`Network error loading ${url}`)
+      }
+
+      // Pace the body at the simulated bandwidth so measured throughput reflects the network condition
+      const size = getMockSegmentSize(url)
+      const timing = getMockSegmentTiming(url)
+      const media = MOCK_MEDIA_FILE.exec(url)
+      const rendition = media?.[1] ?? ''
+      const video = !rendition.startsWith('audio-')
+      const keyFile = MOCK_KEY_FILE.exec(url)
+      const clear = keyFile
+        ? getMockKey(parseInt(keyFile[1], 10)).buffer as ArrayBuffer
+        : size !== null && timing
+          ? createSyntheticTsSegment({
+              ...timing,
+              luma: MOCK_VARIANT_LUMA[rendition],
+              video,
+              // Video carries CC1 captions naming the rendition, so quality switches show up in the captions too
+              caption: video ? `${rendition} at ${timing.startTime}s` : undefined,
+              targetSize: size
+            }).buffer as ArrayBuffer
+          : size !== null
+            ? new ArrayBuffer(size)
+            : new TextEncoder().encode(loadMockText(url) ?? `video_segment_${url}`).buffer as ArrayBuffer
+      const data = media && url.startsWith(MOCK_ENCRYPTED_STREAM_BASE) ? await encryptMockSegment(clear, parseInt(media[2], 10)) : clear
+      // Deliver the body in slices, re-reading the network each slice so a mid-download drop slows the rest of it
+      let loaded = 0
+      while (loaded < data.byteLength) {
+        const condition = getNetworkCondition()
+        const bytesPerMs = Math.max(1, condition.bandwidth * (1 - condition.packetLoss)) / 8000
+        const slice = Math.min(data.byteLength - loaded, bytesPerMs * MOCK_PROGRESS_INTERVAL)
+        await waitFor(slice / bytesPerMs, options.signal)
+        loaded += slice
+        options.onProgress?.({ loaded: Math.round(loaded), total: data.byteLength, requestStart, firstByte })
+      }
+
+      return respond(url, data, data.byteLength, requestStart, firstByte)
+    }
+  }
+}
@@ -0,0 +1,271 @@
+// ISO BMFF box writers for fragmented MP4: an init segment (ftyp + moov) and media fragments (moof + mdat)
+
+export interface Mp4VideoTrack {
+  type: 'video'
+  id: number
+  timescale: number
+  width: number
+  height: number
+  profileIdc: number
+  profileCompatibility: number
+  levelIdc: number
+  sps: Uint8Array[]
+  pps: Uint8Array[]
+}
+
+export interface Mp4AudioTrack {
+  type: 'audio'
+  id: number
+  timescale: number
+  objectType: number
+  samplingIndex: number
+  sampleRate: number
+  channelCount: number
+}
+
+export type Mp4Track = Mp4VideoTrack | Mp4AudioTrack
+
+export interface Mp4Sample {
+  /** Sample payload; H.264 samples use 4-byte length prefixes */
+  data: Uint8Array
+  /** In track timescale units */
+  duration: number
+  /** Presentation minus decode time, in track timescale units */
+  compositionOffset: number
+  isKeyframe: boolean
+}
+
+// Sample flags (ISO/IEC 14496-12 8.8.3.1): sync samples depend on nothing; others depend on earlier samples and are not sync
+const KEYFRAME_SAMPLE_FLAGS = 0x02000000
+const DELTA_SAMPLE_FLAGS = 0x01010000
+// trun carries data-offset, duration, size, flags and composition offset per sample
+const TRUN_FLAGS = 0x000f01
+// tfhd default-base-is-moof: data offsets count from the start of the moof
+const TFHD_FLAGS = 0x020000
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]
+
+const u8 = (value: number): number[] => [value & 0xff]
+const u16 = (value: number): number[] => [(value >> 8) & 0xff, value & 0xff]
+const u24 = (value: number): number[] => [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+const u32 = (value: number): number[] => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+const u64 = (value: number): number[] => [...u32(Math.floor(value / 4294967296)), ...u32(value % 4294967296)]
+const fourCc = (type: string): number[] => [...type].map(char => char.charCodeAt(0))
+const fullBoxHeader = (version: number, flags: number): number[] => [version, ...u24(flags)]
+
+type BoxPart = Uint8Array | number[]
+
+/**
+ * Serializes a box: 32-bit size, four-character type, then the payload parts in order
+ * @intuition Every MP4 structure is a size-prefixed box, so one writer covers the whole format
+ * @approach Sum part lengths for the size header, then copy parts into a single buffer
+ * @complexity O(n) time and space in the box size
+ */
+export const box = (type: string, ...parts: BoxPart[]): Uint8Array => {
+  const size = 8 + parts.reduce((sum, part) => sum + part.length, 0)
+  const output = new Uint8Array(size)
+  output.set([...u32(size), ...fourCc(type)])
+  let offset = 8
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
+
+const ftyp = (): Uint8Array => box('ftyp', fourCc('isom'), u32(1), fourCc('isom'), fourCc('iso5'), fourCc('avc1'), fourCc('mp41'))
+
+const mvhd = (timescale: number, nextTrackId: number): Uint8Array => box('mvhd',
+  fullBoxHeader(0, 0),
+  u32(0), u32(0), // creation and modification time
+  u32(timescale),
+  u32(0), // duration: unknown for fragmented content
+  u32(0x00010000), // rate 1.0
+  u16(0x0100), // volume 1.0
+  new Array(10).fill(0),
+  UNITY_MATRIX.flatMap(u32),
+  new Array(24).fill(0), // pre_defined
+  u32(nextTrackId)
+)
+
+const tkhd = (track: Mp4Track): Uint8Array => box('tkhd',
+  fullBoxHeader(0, 0x000003), // enabled, in movie
+  u32(0), u32(0),
+  u32(track.id),
+  u32(0),
+  u32(0), // duration
+  new Array(8).fill(0),
+  u16(0), u16(0), // layer, alternate group
+  u16(track.type === 'audio' ? 0x0100 : 0),
+  u16(0),
+  UNITY_MATRIX.flatMap(u32),
+  u32(track.type === 'video' ? track.width * 65536 : 0),
+  u32(track.type === 'video' ? track.height * 65536 : 0)
+)
+
+const mdhd = (timescale: number): Uint8Array => box('mdhd',
+  fullBoxHeader(0, 0),
+  u32(0), u32(0),
+  u32(timescale),
+  u32(0),
+  u16(0x55c4), // 'und' packed as ISO-639-2/T
+  u16(0)
+)
+
+const hdlr = (track: Mp4Track): Uint8Array => {
+  const [handler, name] = track.type === 'video' ? ['vide', 'VideoHandler'] : ['soun', 'SoundHandler']
+  return box('hdlr', fullBoxHeader(0, 0), u32(0), fourCc(handler), new Array(12).fill(0), [...fourCc(name), 0])
+}
+
+const avcC = (track: Mp4VideoTrack): Uint8Array => box('avcC',
+  u8(1),
+  u8(track.profileIdc),
+  u8(track.profileCompatibility),
+  u8(track.levelIdc),
+  u8(0xfc | 3), // 4-byte NAL length prefixes
+  u8(0xe0 | track.sps.length),
+  track.sps.flatMap(sps => [...u16(sps.length), ...sps]),
+  u8(track.pps.length),
+  track.pps.flatMap(pps => [...u16(pps.length), ...pps])
+)
+
+const avc1 = (track: Mp4VideoTrack): Uint8Array => box('avc1',
+  new Array(6).fill(0),
+  u16(1), // data_reference_index
+  new Array(16).fill(0),
+  u16(track.width),
+  u16(track.height),
+  u32(0x00480000), u32(0x00480000), // 72 dpi
+  u32(0),
+  u16(1), // frame_count
+  new Array(32).fill(0), // compressorname
+  u16(0x0018), // depth
+  u16(0xffff), // pre_defined = -1
+  avcC(track)
+)
+
+// MPEG-4 descriptors use a tag byte and a length byte (all of ours are under 128 bytes)
+const descriptor = (tag: number, ...parts: number[][]): number[] => {
+  const body = parts.flat()
+  return [tag, body.length, ...body]
+}
+
+/** AudioSpecificConfig: 5 bits object type, 4 bits sampling index, 4 bits channel configuration */
+export const getAudioSpecificConfig = (track: Pick<Mp4AudioTrack, 'objectType' | 'samplingIndex' | 'channelCount'>): number[] => [
+  (track.objectType << 3) | (track.samplingIndex >> 1),
+  ((track.samplingIndex & 1) << 7) | (track.channelCount << 3)
+]
+
+const esds = (track: Mp4AudioTrack): Uint8Array => box('esds',
+  fullBoxHeader(0, 0),
+  descriptor(0x03,
+    u16(track.id), u8(0),
+    descriptor(0x04,
+      u8(0x40), // Audio ISO/IEC 14496-3
+      u8(0x15), // audio stream
+      u24(0), u32(0), u32(0),
+      descriptor(0x05, getAudioSpecificConfig(track))
+    ),
+    descriptor(0x06, u8(0x02))
+  )
+)
+
+const mp4a = (track: Mp4AudioTrack): Uint8Array => box('mp4a',
+  new Array(6).fill(0),
+  u16(1),
+  new Array(8).fill(0),
+  u16(track.channelCount),
+  u16(16), // sample size
+  u32(0),
+  u32(track.sampleRate * 65536),
+  esds(track)
+)
+
+const stbl = (track: Mp4Track): Uint8Array => box('stbl',
+  box('stsd', fullBoxHeader(0, 0), u32(1), track.type === 'video' ? avc1(track) : mp4a(track)),
+  // Fragmented files keep the sample tables empty; samples live in the moof boxes
+  box('stts', fullBoxHeader(0, 0), u32(0)),
+  box('stsc', fullBoxHeader(0, 0), u32(0)),
+  box('stsz', fullBoxHeader(0, 0), u32(0), u32(0)),
+  box('stco', fullBoxHeader(0, 0), u32(0))
+)
+
+const minf = (track: Mp4Track): Uint8Array => box('minf',
+  track.type === 'video'
+    ? box('vmhd', fullBoxHeader(0, 1), u16(0), u16(0), u16(0), u16(0))
+    : box('smhd', fullBoxHeader(0, 0), u16(0), u16(0)),
+  box('dinf', box('dref', fullBoxHeader(0, 0), u32(1), box('url ', fullBoxHeader(0, 1)))),
+  stbl(track)
+)
+
+const trak = (track: Mp4Track): Uint8Array => box('trak',
+  tkhd(track),
+  box('mdia', mdhd(track.timescale), hdlr(track), minf(track))
+)
+
+const trex = (track: Mp4Track): Uint8Array => box('trex',
+  fullBoxHeader(0, 0),
+  u32(track.id),
+  u32(1), // default_sample_description_index
+  u32(0), u32(0),
+  u32(0x00010001)
+)
+
+/**
+ * Builds an init segment (ftyp + moov) for the given tracks
+ * @intuition MSE needs codec configuration before any media, and fragmented MP4 carries it once in an empty moov
+ * @approach One trak per track with avcC or esds sample entries and empty sample tables, plus mvex so the moov declares fragments
+ * @complexity O(t) time and space for t tracks
+ */
+export const createInitSegment = (tracks: Mp4Track[]): Uint8Array => {
+  const moov = box('moov',
+    mvhd(1000, Math.max(...tracks.map(track => track.id)) + 1),
+    ...tracks.map(trak),
+    box('mvex', ...tracks.map(trex))
+  )
+  const init = ftyp()
+  const output = new Uint8Array(init.length + moov.length)
+  output.set(init)
+  output.set(moov, init.length)
+  return output
+}
+
+/**
+ * Builds a media fragment (moof + mdat) holding one track's samples
+ * @intuition Each SourceBuffer gets its own track, so a fragment never needs to interleave tracks
+ * @approach tfdt anchors the fragment on the decode timeline; trun lists per-sample duration, size, flags and composition
+ * offset with a data offset pointing just past the mdat header
+ * @complexity O(s + b) time and space for s samples of b total bytes
+ */
+export const createMediaSegment = (
+  sequenceNumber: number,
+  trackId: number,
+  baseMediaDecodeTime: number,
+  samples: Mp4Sample[]
+): Uint8Array => {
+  const buildMoof = (dataOffset: number) => box('moof',
+    box('mfhd', fullBoxHeader(0, 0), u32(sequenceNumber)),
+    box('traf',
+      box('tfhd', fullBoxHeader(0, TFHD_FLAGS), u32(trackId)),
+      box('tfdt', fullBoxHeader(1, 0), u64(Math.max(0, Math.round(baseMediaDecodeTime)))),
+      box('trun',
+        fullBoxHeader(0, TRUN_FLAGS),
+        u32(samples.length),
+        u32(dataOffset),
+        samples.flatMap(sample => [
+          ...u32(sample.duration),
+          ...u32(sample.data.length),
+          ...u32(sample.isKeyframe ? KEYFRAME_SAMPLE_FLAGS : DELTA_SAMPLE_FLAGS),
+          ...u32(Math.max(0, sample.compositionOffset))
+        ])
+      )
+    )
+  )
+
+  // The moof size does not depend on the offset value, so measure once and rebuild with the real offset
+  const moof = buildMoof(buildMoof(0).length + 8)
+  const mdat = box('mdat', ...samples.map(sample => sample.data))
+  const output = new Uint8Array(moof.length + mdat.length)
+  output.set(moof)
+  output.set(mdat, moof.length)
+  return output
+}
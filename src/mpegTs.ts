@@ -0,0 +1,330 @@
+import { createBitReader, removeEmulationPrevention } from './bitstream'
+
+export const TS_PACKET_SIZE = 188
+export const TS_SYNC_BYTE = 0x47
+export const PAT_PID = 0x0000
+export const NULL_PID = 0x1fff
+export const STREAM_TYPE_H264 = 0x1b
+export const STREAM_TYPE_ADTS_AAC = 0x0f
+// Stream types Apple's SAMPLE-AES packaging gives the encrypted H.264 and ADTS AAC streams
+export const STREAM_TYPE_H264_SAMPLE_AES = 0xdb
+export const STREAM_TYPE_ADTS_AAC_SAMPLE_AES = 0xcf
+// MPEG-TS timestamps count a 90 kHz clock
+export const TS_CLOCK_RATE = 90000
+
+export const NAL_TYPE_SLICE = 1
+export const NAL_TYPE_IDR = 5
+export const NAL_TYPE_SEI = 6
+export const NAL_TYPE_SPS = 7
+export const NAL_TYPE_PPS = 8
+export const NAL_TYPE_AUD = 9
+
+export interface PesPacket {
+  pts?: number
+  dts?: number
+  data: Uint8Array
+}
+
+export interface DemuxedTs {
+  video: PesPacket[]
+  audio: PesPacket[]
+  videoStreamType?: number
+  audioStreamType?: number
+}
+
+export interface NalUnit {
+  type: number
+  data: Uint8Array
+}
+
+export interface SpsInfo {
+  profileIdc: number
+  profileCompatibility: number
+  levelIdc: number
+  width: number
+  height: number
+  /** RFC 6381 codec string, e.g. avc1.64001f */
+  codec: string
+}
+
+export interface AacConfig {
+  objectType: number
+  samplingIndex: number
+  sampleRate: number
+  channelCount: number
+  codec: string
+}
+
+export interface AdtsParseResult {
+  config: AacConfig
+  /** Raw AAC frames with the ADTS header removed */
+  frames: Uint8Array[]
+}
+
+export const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350]
+export const AAC_SAMPLES_PER_FRAME = 1024
+
+const findSyncOffset = (data: Uint8Array): number => {
+  for (let offset = 0; offset < Math.min(TS_PACKET_SIZE, data.length); offset++) {
+    const synced = data[offset] === TS_SYNC_BYTE &&
+      (offset + TS_PACKET_SIZE >= data.length || data[offset + TS_PACKET_SIZE] === TS_SYNC_BYTE)
+    if (synced) return offset
+  }
+  return -1
+}
+
+// 33-bit timestamps exceed bitwise range, so assemble them arithmetically
+const readTimestamp = (data: Uint8Array, offset: number): number =>
+  (data[offset] & 0x0e) * 536870912 + // bits 32-30, already shifted left by one
+  data[offset + 1] * 4194304 +
+  (data[offset + 2] & 0xfe) * 16384 +
+  data[offset + 3] * 128 +
+  (data[offset + 4] >> 1)
+
+const parsePes = (data: Uint8Array): PesPacket | null => {
+  if (data.length < 9 || data[0] !== 0 || data[1] !== 0 || data[2] !== 1) return null
+  const ptsDtsFlags = data[7] >> 6
+  const payloadStart = 9 + data[8]
+  const pts = ptsDtsFlags & 0x2 ? readTimestamp(data, 9) : undefined
+  const dts = ptsDtsFlags === 0x3 ? readTimestamp(data, 14) : pts
+  return { pts, dts, data: data.subarray(payloadStart) }
+}
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  if (chunks.length === 1) return chunks[0]
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.length
+  }
+  return output
+}
+
+/**
+ * Demultiplexes an MPEG-TS segment into H.264 and AAC PES packets
+ * @intuition TS interleaves 188-byte packets of several elementary streams; the PAT names the PMT, the PMT names the
+ * stream PIDs, and each stream's PES packets are split across many TS packets
+ * @approach Walk packets from the first sync byte, read PAT then PMT sections, and reassemble PES payloads per PID,
+ * flushing one whenever the next starts (payload_unit_start_indicator) and at the end of the segment
+ * @complexity O(n) time where n is segment size, O(n) space for the reassembled payloads
+ */
+export const demuxTs = (input: Uint8Array): DemuxedTs => {
+  const start = findSyncOffset(input)
+  if (start === -1) throw new Error('Not an MPEG-TS segment: no sync byte found')
+
+  let pmtPid = -1
+  let videoPid = -1
+  let audioPid = -1
+  const result: DemuxedTs = { video: [], audio: [] }
+  const pending = new Map<number, Uint8Array[]>()
+
+  const flush = (pid: number) => {
+    const chunks = pending.get(pid)
+    if (!chunks?.length) return
+    pending.set(pid, [])
+    const pes = parsePes(concat(chunks))
+    if (!pes) return
+    if (pid === videoPid) result.video.push(pes)
+    else if (pid === audioPid) result.audio.push(pes)
+  }
+
+  for (let offset = start; offset + TS_PACKET_SIZE <= input.length; offset += TS_PACKET_SIZE) {
+    if (input[offset] !== TS_SYNC_BYTE) throw new Error(`Lost MPEG-TS sync at byte ${offset}`)
+
+    const payloadUnitStart = (input[offset + 1] & 0x40) !== 0
+    const pid = ((input[offset + 1] & 0x1f) << 8) | input[offset + 2]
+    const adaptationControl = (input[offset + 3] >> 4) & 0x3
+    if (pid === NULL_PID || !(adaptationControl & 0x1)) continue
+
+    let payload = offset + 4
+    if (adaptationControl & 0x2) payload += 1 + input[payload]
+    if (payload >= offset + TS_PACKET_SIZE) continue
+    const packet = input.subarray(payload, offset + TS_PACKET_SIZE)
+
+    if (pid === PAT_PID || pid === pmtPid) {
+      // PSI sections start after a pointer field; they fit in one packet for the streams we handle
+      const section = packet.subarray(payloadUnitStart ? 1 + packet[0] : 0)
+      const sectionEnd = Math.min(section.length, 3 + (((section[1] & 0x0f) << 8) | section[2])) - 4
+
+      if (pid === PAT_PID) {
+        for (let entry = 8; entry + 4 <= sectionEnd; entry += 4) {
+          const programNumber = (section[entry] << 8) | section[entry + 1]
+          if (programNumber !== 0) {
+            pmtPid = ((section[entry + 2] & 0x1f) << 8) | section[entry + 3]
+            break
+          }
+        }
+      } else {
+        const programInfoLength = ((section[10] & 0x0f) << 8) | section[11]
+        for (let entry = 12 + programInfoLength; entry + 5 <= sectionEnd;) {
+          const streamType = section[entry]
+          const elementaryPid = ((section[entry + 1] & 0x1f) << 8) | section[entry + 2]
+          if ((streamType === STREAM_TYPE_H264 || streamType === STREAM_TYPE_H264_SAMPLE_AES) && videoPid === -1) {
+            videoPid = elementaryPid
+            result.videoStreamType = streamType
+          } else if ((streamType === STREAM_TYPE_ADTS_AAC || streamType === STREAM_TYPE_ADTS_AAC_SAMPLE_AES) && audioPid === -1) {
+            audioPid = elementaryPid
+            result.audioStreamType = streamType
+          }
+          entry += 5 + (((section[entry + 3] & 0x0f) << 8) | section[entry + 4])
+        }
+      }
+      continue
+    }
+
+    if (pid !== videoPid && pid !== audioPid) continue
+    if (payloadUnitStart) flush(pid)
+    if (!pending.has(pid)) pending.set(pid, [])
+    pending.get(pid)?.push(packet)
+  }
+
+  flush(videoPid)
+  flush(audioPid)
+  return result
+}
+
+/**
+ * Splits an Annex B byte stream into NAL units
+ * @intuition TS carries H.264 with 00 00 01 start codes, while MP4 needs each NAL unit on its own
+ * @approach Scan for three-byte start codes (a preceding zero makes the four-byte form) and cut between them
+ * @complexity O(n) time, O(n) space for the unit views
+ */
+export const splitNalUnits = (data: Uint8Array): NalUnit[] => {
+  const units: NalUnit[] = []
+  let unitStart = -1
+
+  const push = (end: number) => {
+    // Trailing zeros belong to the next four-byte start code
+    while (end > unitStart && data[end - 1] === 0) end--
+    if (unitStart >= 0 && end > unitStart) units.push({ type: data[unitStart] & 0x1f, data: data.subarray(unitStart, end) })
+  }
+
+  for (let i = 0; i + 2 < data.length; i++) {
+    if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) {
+      push(i)
+      unitStart = i + 3
+      i += 2
+    }
+  }
+  push(data.length)
+  return units
+}
+
+const toHex = (value: number): string => value.toString(16).padStart(2, '0')
+
+const skipScalingList = (reader: ReturnType<typeof createBitReader>, size: number) => {
+  let lastScale = 8
+  let nextScale = 8
+  for (let i = 0; i < size; i++) {
+    if (nextScale !== 0) nextScale = (lastScale + reader.readSE() + 256) % 256
+    lastScale = nextScale === 0 ? lastScale : nextScale
+  }
+}
+
+/**
+ * Reads profile, level and picture size from an H.264 sequence parameter set
+ * @intuition The SPS is the only place the codec string and coded size live, and both are needed to build the MP4 init segment
+ * @approach Unescape the RBSP and walk the SPS syntax with Exp-Golomb reads, skipping scaling lists and POC details,
+ * then derive the size from macroblock counts minus cropping
+ * @complexity O(n) time where n is SPS size, O(n) space for the unescaped copy
+ */
+export const parseSps = (nal: Uint8Array): SpsInfo => {
+  const rbsp = removeEmulationPrevention(nal.subarray(1))
+  const reader = createBitReader(rbsp)
+  const profileIdc = reader.readBits(8)
+  const profileCompatibility = reader.readBits(8)
+  const levelIdc = reader.readBits(8)
+  reader.readUE() // seq_parameter_set_id
+
+  let chromaFormatIdc = 1
+  if ([100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135].includes(profileIdc)) {
+    chromaFormatIdc = reader.readUE()
+    if (chromaFormatIdc === 3) reader.skipBits(1) // separate_colour_plane_flag
+    reader.readUE() // bit_depth_luma_minus8
+    reader.readUE() // bit_depth_chroma_minus8
+    reader.skipBits(1) // qpprime_y_zero_transform_bypass_flag
+    if (reader.readBit()) {
+      const lists = chromaFormatIdc === 3 ? 12 : 8
+      for (let i = 0; i < lists; i++) {
+        if (reader.readBit()) skipScalingList(reader, i < 6 ? 16 : 64)
+      }
+    }
+  }
+
+  reader.readUE() // log2_max_frame_num_minus4
+  const picOrderCntType = reader.readUE()
+  if (picOrderCntType === 0) {
+    reader.readUE() // log2_max_pic_order_cnt_lsb_minus4
+  } else if (picOrderCntType === 1) {
+    reader.skipBits(1) // delta_pic_order_always_zero_flag
+    reader.readSE() // offset_for_non_ref_pic
+    reader.readSE() // offset_for_top_to_bottom_field
+    const cycle = reader.readUE()
+    for (let i = 0; i < cycle; i++) reader.readSE()
+  }
+  reader.readUE() // max_num_ref_frames
+  reader.skipBits(1) // gaps_in_frame_num_value_allowed_flag
+
+  const widthInMbs = reader.readUE() + 1
+  const heightInMapUnits = reader.readUE() + 1
+  const frameMbsOnly = reader.readBit()
+  if (!frameMbsOnly) reader.skipBits(1) // mb_adaptive_frame_field_flag
+  reader.skipBits(1) // direct_8x8_inference_flag
+
+  let crop = { left: 0, right: 0, top: 0, bottom: 0 }
+  if (reader.readBit()) {
+    crop = { left: reader.readUE(), right: reader.readUE(), top: reader.readUE(), bottom: reader.readUE() }
+  }
+  const cropUnitX = chromaFormatIdc === 0 || chromaFormatIdc === 3 ? 1 : 2
+  const cropUnitY = (chromaFormatIdc === 1 ? 2 : 1) * (2 - frameMbsOnly)
+
+  return {
+    profileIdc,
+    profileCompatibility,
+    levelIdc,
+    width: widthInMbs * 16 - (crop.left + crop.right) * cropUnitX,
+    height: (2 - frameMbsOnly) * heightInMapUnits * 16 - (crop.top + crop.bottom) * cropUnitY,
+    codec: `avc1.${toHex(profileIdc)}${toHex(profileCompatibility)}${toHex(levelIdc)}`
+  }
+}
+
+/**
+ * Splits an ADTS stream into raw AAC frames and reads the stream configuration
+ * @intuition MP4 stores AAC without the per-frame ADTS headers and keeps the configuration once in the init segment
+ * @approach Walk frame by frame using the 13-bit frame length, resyncing on 0xFFF if garbage appears;
+ * the first header supplies object type, sample rate and channel layout
+ * @complexity O(n) time, O(f) space for f frame views
+ */
+export const parseAdts = (data: Uint8Array): AdtsParseResult | null => {
+  let config: AacConfig | null = null
+  const frames: Uint8Array[] = []
+  let offset = 0
+
+  while (offset + 7 <= data.length) {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xf6) !== 0xf0) {
+      offset++
+      continue
+    }
+    const headerLength = data[offset + 1] & 0x01 ? 7 : 9
+    const frameLength = ((data[offset + 3] & 0x03) << 11) | (data[offset + 4] << 3) | (data[offset + 5] >> 5)
+    if (frameLength < headerLength || offset + frameLength > data.length) break
+
+    if (!config) {
+      const objectType = ((data[offset + 2] >> 6) & 0x03) + 1
+      const samplingIndex = (data[offset + 2] >> 2) & 0x0f
+      const channelCount = ((data[offset + 2] & 0x01) << 2) | (data[offset + 3] >> 6)
+      config = {
+        objectType,
+        samplingIndex,
+        sampleRate: ADTS_SAMPLE_RATES[samplingIndex] ?? 44100,
+        channelCount,
+        codec: `mp4a.40.${objectType}`
+      }
+    }
+    frames.push(data.subarray(offset + headerLength, offset + frameLength))
+    offset += frameLength
+  }
+
+  return config ? { config, frames } : null
+}
@@ -0,0 +1,229 @@
+import type { NetworkCondition } from './types'
+
+export type NetworkProfileId = 'tiers' | '3g' | 'lte' | 'congested-wifi' | 'train-tunnel'
+
+export interface NetworkTracePoint {
+  /** Seconds from the start of the trace at which this condition takes effect */
+  time: number
+  /** Bits per second */
+  bandwidth: number
+  /** Milliseconds */
+  latency: number
+  /** Fraction of packets lost, 0-1 */
+  packetLoss: number
+}
+
+export interface NetworkTrace {
+  name: string
+  points: NetworkTracePoint[]
+}
+
+export interface NetworkProfile {
+  id: string
+  name: string
+  /** Milliseconds between condition updates */
+  interval: number
+  getCondition: (time: number, random: () => number) => NetworkCondition
+}
+
+export const DEFAULT_NETWORK_SEED = 1
+export const DEFAULT_NETWORK_INTERVAL = 2000
+// Traces finer than this would flood React with state updates
+const MIN_NETWORK_INTERVAL = 250
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32)
+ * @intuition Math.random cannot be replayed, so a run that exposed a regression could never be reproduced
+ * @approach Advance a 32-bit state by a Weyl increment and scramble it with xor-shift multiplies
+ * @complexity O(1) time per value, O(1) space
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Simulates network conditions with realistic variations
+ * @intuition Network conditions in streaming environments fluctuate constantly, requiring simulation for testing ABR logic
+ * @approach Generate bandwidth values with realistic noise and occasional drops to simulate poor connectivity
+ * @complexity O(1) time, O(1) space - simple random generation with constraints
+ */
+export const simulateNetworkConditions = (random: () => number = Math.random): NetworkCondition => {
+  const baseConditions = [
+    { bandwidth: 500000, latency: 200, packetLoss: 0.05 },    // Poor
+    { bandwidth: 1500000, latency: 100, packetLoss: 0.02 },   // Fair
+    { bandwidth: 3000000, latency: 50, packetLoss: 0.01 },    // Good
+    { bandwidth: 8000000, latency: 20, packetLoss: 0.005 }    // Excellent
+  ]
+
+  const condition = baseConditions[Math.floor(random() * baseConditions.length)]
+  const variance = 0.3 + (random() * 0.4) // 30-70% variance
+
+  return {
+    bandwidth: Math.floor(condition.bandwidth * variance),
+    latency: condition.latency + (random() * 50),
+    packetLoss: condition.packetLoss * (0.5 + random())
+  }
+}
+
+/**
+ * Finds the trace point in effect at a given time, looping over the trace
+ * @intuition Traces are recorded step functions: each row holds until the next one starts
+ * @approach Wrap time into the trace period (the last row lasts as long as the one before it) and binary search the start times
+ * @complexity O(log p) time where p is point count, O(1) space
+ */
+export const getTracePointAt = (points: NetworkTracePoint[], time: number): NetworkTracePoint => {
+  const last = points[points.length - 1]
+  const lastStep = points.length > 1 ? last.time - points[points.length - 2].time : 1
+  const period = last.time + lastStep
+  const wrapped = ((time % period) + period) % period
+
+  let low = 0
+  let high = points.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (points[mid].time <= wrapped) low = mid
+    else high = mid - 1
+  }
+  return points[low]
+}
+
+/**
+ * Creates a profile that replays a trace with optional seeded jitter
+ * @intuition Named profiles and uploaded traces are the same thing: a timeline of conditions, optionally roughened
+ * so repeated runs are not suspiciously smooth
+ * @approach Look up the step in effect, then scale bandwidth and latency by a seeded factor within +/- jitter;
+ * updates happen as often as the trace's finest step
+ * @complexity O(log p) time per update where p is point count, O(p) space for the trace
+ */
+export const createTraceProfile = (id: string, trace: NetworkTrace, jitter = 0): NetworkProfile => {
+  const steps = trace.points.slice(1).map((point, index) => (point.time - trace.points[index].time) * 1000)
+  const interval = steps.length ? Math.max(MIN_NETWORK_INTERVAL, Math.min(DEFAULT_NETWORK_INTERVAL, ...steps)) : DEFAULT_NETWORK_INTERVAL
+
+  return {
+    id,
+    name: trace.name,
+    interval,
+    getCondition: (time, random) => {
+      const point = getTracePointAt(trace.points, time)
+      const bandwidthFactor = 1 + jitter * (random() * 2 - 1)
+      const latencyFactor = 1 + jitter * random()
+      return {
+        bandwidth: Math.max(0, Math.floor(point.bandwidth * bandwidthFactor)),
+        latency: point.latency * latencyFactor,
+        packetLoss: Math.min(1, point.packetLoss)
+      }
+    }
+  }
+}
+
+const point = (time: number, bandwidth: number, latency: number, packetLoss: number): NetworkTracePoint =>
+  ({ time, bandwidth, latency, packetLoss })
+
+export const NETWORK_PROFILES: Record<NetworkProfileId, NetworkProfile> = {
+  tiers: {
+    id: 'tiers',
+    name: 'Random tiers',
+    interval: DEFAULT_NETWORK_INTERVAL,
+    getCondition: (_time, random) => simulateNetworkConditions(random)
+  },
+  '3g': createTraceProfile('3g', { name: '3G', points: [point(0, 750000, 150, 0.02)] }, 0.3),
+  lte: createTraceProfile('lte', { name: 'LTE', points: [point(0, 8000000, 50, 0.005)] }, 0.25),
+  'congested-wifi': createTraceProfile('congested-wifi', {
+    name: 'Congested Wi-Fi',
+    points: [
+      point(0, 4000000, 60, 0.02),
+      point(6, 1200000, 180, 0.05),
+      point(10, 3000000, 80, 0.03),
+      point(16, 600000, 220, 0.08),
+      point(20, 2500000, 90, 0.03)
+    ]
+  }, 0.5),
+  'train-tunnel': createTraceProfile('train-tunnel', {
+    name: 'Train tunnel',
+    points: [
+      point(0, 6000000, 40, 0.005),
+      point(20, 3000000, 90, 0.02),
+      point(24, 20000, 1500, 0.5),
+      point(36, 1500000, 150, 0.03),
+      point(40, 6000000, 40, 0.005)
+    ]
+  }, 0.15)
+}
+
+const TRACE_FIELDS: Record<string, keyof NetworkTracePoint> = {
+  time: 'time',
+  bandwidth: 'bandwidth',
+  latency: 'latency',
+  packetloss: 'packetLoss',
+  loss: 'packetLoss'
+}
+
+const toTracePoint = (values: Partial<Record<keyof NetworkTracePoint, unknown>>, where: string): NetworkTracePoint => {
+  const read = (field: keyof NetworkTracePoint, fallback?: number): number => {
+    const raw = values[field]
+    const value = raw === undefined || raw === '' ? fallback : Number(raw)
+    if (value === undefined || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid network trace ${field} at ${where}`)
+    }
+    return value
+  }
+  const packetLoss = read('packetLoss', 0)
+  if (packetLoss > 1) throw new Error(`Invalid network trace packetLoss at ${where}: must be between 0 and 1`)
+  return { time: read('time'), bandwidth: read('bandwidth'), latency: read('latency', 0), packetLoss }
+}
+
+/**
+ * Parses a network trace from CSV or JSON
+ * @intuition Field measurements and hand-written scenarios come in both formats, and both describe the same timeline
+ * @approach JSON is an array of points or {name, points}; CSV needs a header naming time, bandwidth, latency and loss columns.
+ * Points are validated and must be in time order
+ * @complexity O(n) time where n is content length, O(p) space for p points
+ */
+export const parseNetworkTrace = (content: string, name = 'Uploaded trace'): NetworkTrace => {
+  const trimmed = content.trim()
+  let trace: NetworkTrace
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed: unknown = JSON.parse(trimmed)
+    const body = Array.isArray(parsed) ? { points: parsed } : (parsed as { name?: unknown; points?: unknown })
+    if (!Array.isArray(body.points)) throw new Error('Network trace JSON must be an array of points or have a points array')
+    trace = {
+      name: typeof body.name === 'string' ? body.name : name,
+      points: body.points.map((entry: Record<string, unknown>, index: number) =>
+        toTracePoint({ ...entry, packetLoss: entry.packetLoss ?? entry.loss }, `point ${index}`)
+      )
+    }
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'))
+    const header = lines[0]?.split(',').map(column => TRACE_FIELDS[column.trim().toLowerCase()])
+    if (!header?.includes('time') || !header.includes('bandwidth')) {
+      throw new Error('Network trace CSV needs a header with at least time and bandwidth columns')
+    }
+    trace = {
+      name,
+      points: lines.slice(1).map((line, index) => {
+        const values: Partial<Record<keyof NetworkTracePoint, string>> = {}
+        line.split(',').forEach((value, column) => {
+          const field = header[column]
+          if (field) values[field] = value.trim()
+        })
+        return toTracePoint(values, `line ${index + 2}`)
+      })
+    }
+  }
+
+  if (!trace.points.length) throw new Error('Network trace has no points')
+  trace.points.forEach((current, index) => {
+    if (index > 0 && current.time <= trace.points[index - 1].time) {
+      throw new Error(`Network trace times must increase (point ${index})`)
+    }
+  })
+  return trace
+}
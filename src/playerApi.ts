@@ -0,0 +1,62 @@
+import type { QualityLevel } from './types'
+import type { AbrStrategyId } from './abr'
+import type { Listener } from './eventEmitter'
+import type { LoadStats } from './loader'
+import type { PlayerError, RecoveryAction } from './playerErrors'
+
+export interface PlayerStats {
+  /** Playhead position in seconds */
+  position: number
+  /** Seconds buffered ahead of the playhead */
+  bufferAhead: number
+  isPlaying: boolean
+  qualityIndex: number
+  /** Locked quality index, or null while ABR chooses */
+  manualQuality: number | null
+  /** Measured throughput in bits per second; null until a download was large enough to measure */
+  estimatedBandwidth: number | null
+  switchCount: number
+  /** Segment loads that failed for good */
+  failedLoads: number
+}
+
+export interface PlayerEvents {
+  qualitychange: { previous: number; current: number; level: QualityLevel; manual: boolean }
+  /** Playback is about to run dry: the buffer dropped below the starvation threshold while playing */
+  bufferstall: { position: number; bufferAhead: number }
+  /** A video segment or LL-HLS part was downloaded and appended */
+  segmentloaded: {
+    uri: string
+    sequenceNumber: number
+    /** Part index for LL-HLS parts */
+    part?: number
+    qualityIndex: number
+    start: number
+    duration: number
+    stats: LoadStats
+  }
+  error: PlayerError
+  /** The player reacted to an error; follows the error event it answers */
+  recovery: { error: PlayerError; action: RecoveryAction }
+  /** Sent whenever one of the stats changes */
+  statsupdate: PlayerStats
+}
+
+/** Imperative control of a mounted `AdaptiveBitratePlayer`, obtained through its `ref` */
+export interface PlayerHandle {
+  /** Replaces the current stream; also brings a destroyed player back */
+  load: (src: string) => void
+  play: () => Promise<void>
+  pause: () => void
+  /** Seeks to a presentation time in seconds */
+  seek: (time: number) => void
+  /** Locks a quality level by index; null returns to automatic selection, and indices of excluded or missing variants are ignored */
+  setQuality: (qualityIndex: number | null) => void
+  setAbrStrategy: (strategyId: AbrStrategyId) => void
+  getStats: () => PlayerStats
+  getQualityLevels: () => QualityLevel[]
+  on: <K extends keyof PlayerEvents>(type: K, listener: Listener<PlayerEvents[K]>) => () => void
+  off: <K extends keyof PlayerEvents>(type: K, listener: Listener<PlayerEvents[K]>) => void
+  /** Stops loading and playback, releases the media pipeline and DRM sessions and drops all listeners */
+  destroy: () => void
+}
@@ -0,0 +1,136 @@
+import { DEFAULT_HYSTERESIS_TUNING } from './abr'
+import type { HysteresisTuning } from './abr'
+import { DEFAULT_NETWORK_INTERVAL } from './networkEmulation'
+
+/** Tuning values of the player; low-latency mode keeps its own, much shorter buffer targets */
+export interface PlayerConfig extends HysteresisTuning {
+  /** Seconds of media to keep buffered ahead of the playhead */
+  targetBuffer: number
+  /** Seconds of buffer below which playback counts as starving */
+  starvationThreshold: number
+  /** Seconds buffered before the first frame is played */
+  startupBuffer: number
+  /** Attempts per segment before its download counts as failed */
+  segmentRetries: number
+  /** Milliseconds between network condition updates while loading for real */
+  networkPollInterval: number
+  /** Milliseconds between buffer level checks */
+  bufferPollInterval: number
+}
+
+export const DEFAULT_PLAYER_CONFIG: PlayerConfig = {
+  ...DEFAULT_HYSTERESIS_TUNING,
+  targetBuffer: 30,
+  starvationThreshold: 5,
+  startupBuffer: 2,
+  segmentRetries: 3,
+  networkPollInterval: DEFAULT_NETWORK_INTERVAL,
+  bufferPollInterval: 1000
+}
+
+export interface PlayerConfigField {
+  label: string
+  unit?: string
+  min: number
+  max: number
+  step: number
+  integer?: boolean
+}
+
+/** Label and valid range of every setting, for validation and the settings panel alike */
+export const PLAYER_CONFIG_FIELDS: Record<keyof PlayerConfig, PlayerConfigField> = {
+  targetBuffer: { label: 'Target buffer', unit: 's', min: 1, max: 600, step: 1 },
+  starvationThreshold: { label: 'Starvation threshold', unit: 's', min: 0, max: 60, step: 0.5 },
+  startupBuffer: { label: 'Startup buffer', unit: 's', min: 0.5, max: 30, step: 0.5 },
+  switchUpThreshold: { label: 'Switch-up bandwidth factor', min: 1, max: 5, step: 0.05 },
+  switchDownThreshold: { label: 'Switch-down bandwidth factor', min: 0.1, max: 1, step: 0.05 },
+  upswitchBufferRatio: { label: 'Switch-up buffer ratio', min: 0, max: 5, step: 0.1 },
+  segmentRetries: { label: 'Segment attempts', min: 1, max: 10, step: 1, integer: true },
+  networkPollInterval: { label: 'Network poll interval', unit: 'ms', min: 100, max: 60000, step: 100, integer: true },
+  bufferPollInterval: { label: 'Buffer poll interval', unit: 'ms', min: 100, max: 10000, step: 100, integer: true }
+}
+
+export interface PlayerConfigValidation {
+  /** The input where it was valid, the base config everywhere else */
+  config: PlayerConfig
+  errors: string[]
+}
+
+const describeRange = ({ min, max, unit = '' }: PlayerConfigField): string => `${min}${unit} to ${max}${unit}`
+
+/**
+ * Validates settings from a prop, storage or an imported file
+ * @intuition Shared experiment files and old stored settings can hold anything; one bad value should be reported, not
+ * break playback or throw away the good ones
+ * @approach Start from the base config and take each known key whose value is a finite number in range (and whole
+ * where required), then check the pairs that only make sense in order; every rejected value is named in an error
+ * @complexity O(k) time and space for k settings
+ */
+export const validatePlayerConfig = (input: unknown, base: PlayerConfig = DEFAULT_PLAYER_CONFIG): PlayerConfigValidation => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { config: base, errors: ['Settings must be a JSON object'] }
+  }
+  const config = { ...base }
+  const errors: string[] = []
+
+  for (const [key, value] of Object.entries(input)) {
+    const field = PLAYER_CONFIG_FIELDS[key as keyof PlayerConfig] as PlayerConfigField | undefined
+    if (!field) {
+      errors.push(`Unknown setting "${key}"`)
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < field.min || value > field.max) {
+      errors.push(`${field.label} must be a number from ${describeRange(field)}`)
+    } else if (field.integer && !Number.isInteger(value)) {
+      errors.push(`${field.label} must be a whole number`)
+    } else {
+      config[key as keyof PlayerConfig] = value
+    }
+  }
+
+  if (config.switchDownThreshold >= config.switchUpThreshold) {
+    errors.push('Switch-down bandwidth factor must be below the switch-up factor')
+    config.switchDownThreshold = base.switchDownThreshold
+    config.switchUpThreshold = base.switchUpThreshold
+  }
+  if (config.starvationThreshold >= config.targetBuffer) {
+    errors.push('Starvation threshold must be below the target buffer')
+    config.starvationThreshold = base.starvationThreshold
+    config.targetBuffer = base.targetBuffer
+  }
+  if (config.startupBuffer > config.targetBuffer) {
+    errors.push('Startup buffer must not exceed the target buffer')
+    config.startupBuffer = base.startupBuffer
+  }
+  return { config, errors }
+}
+
+export const parsePlayerConfig = (json: string, base: PlayerConfig = DEFAULT_PLAYER_CONFIG): PlayerConfigValidation => {
+  try {
+    return validatePlayerConfig(JSON.parse(json), base)
+  } catch (error) {
+    return { config: base, errors: [`Settings are not valid JSON: ${error instanceof Error ? error.message : error}`] }
+  }
+}
+
+export const formatPlayerConfig = (config: PlayerConfig): string => JSON.stringify(config, null, 2)
+
+// Settings edited in the panel survive reloads; without them the player starts from its config prop
+const PLAYER_CONFIG_STORAGE_KEY = 'abr-player:config'
+
+export const loadStoredPlayerConfig = (storage: Pick<Storage, 'getItem'> | undefined): unknown => {
+  try {
+    const stored = storage?.getItem(PLAYER_CONFIG_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+/** Saves edited settings, or forgets them when given null */
+export const storePlayerConfig = (storage: Pick<Storage, 'setItem' | 'removeItem'> | undefined, config: PlayerConfig | null) => {
+  try {
+    if (config) storage?.setItem(PLAYER_CONFIG_STORAGE_KEY, JSON.stringify(config))
+    else storage?.removeItem(PLAYER_CONFIG_STORAGE_KEY)
+  } catch {
+    // Quota exceeded or storage disabled
+  }
+}
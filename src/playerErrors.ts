@@ -0,0 +1,138 @@
+export type PlayerErrorCategory = 'network' | 'parse' | 'media-decode' | 'key' | 'manifest-not-found'
+
+export interface PlayerErrorDetails {
+  url?: string
+  /** HTTP status, when the failure was an HTTP response */
+  status?: number
+  sequenceNumber?: number
+  qualityIndex?: number
+  /** Requests made before giving up */
+  attempts?: number
+}
+
+/** An Error that says what failed and whether the player can carry on */
+export interface PlayerError extends Error {
+  category: PlayerErrorCategory
+  /** Fatal errors end playback of the stream; recoverable ones are handled by a recovery action */
+  fatal: boolean
+  details: PlayerErrorDetails
+}
+
+/**
+ * How the player reacts to a failure:
+ * - skip-segment: give up on the media and load what follows it
+ * - lower-variant: retry the same media one quality level down
+ * - redundant-stream: retry from the next redundant copy of the variant
+ * - rebuild-media-source: replace the MediaSource and reload from the playhead
+ * - none: nothing left to try; the error is fatal
+ */
+export type RecoveryAction = 'skip-segment' | 'lower-variant' | 'redundant-stream' | 'rebuild-media-source' | 'none'
+
+export interface RecoveryContext {
+  /** Redundant copies of the failing variant not yet tried for this media */
+  redundantStreams: number
+  hasLowerVariant: boolean
+  /** Rebuilds already spent on this stream */
+  mediaSourceRebuilds: number
+}
+
+// A decoder that keeps failing after this many fresh MediaSources is broken for good
+export const MAX_MEDIA_SOURCE_REBUILDS = 2
+
+const CATEGORY_NAMES: Record<PlayerErrorCategory, string> = {
+  network: 'Network error',
+  parse: 'Parse error',
+  'media-decode': 'Media decode error',
+  key: 'Key error',
+  'manifest-not-found': 'Manifest not found'
+}
+
+const RECOVERY_DESCRIPTIONS: Record<RecoveryAction, string> = {
+  'skip-segment': 'skipping the segment',
+  'lower-variant': 'retrying at a lower quality',
+  'redundant-stream': 'failing over to a redundant stream',
+  'rebuild-media-source': 'rebuilding the MediaSource',
+  none: 'no recovery left'
+}
+
+// Loaders report HTTP failures as "HTTP <status> ..." messages
+const HTTP_STATUS = /\bHTTP (\d{3})\b/
+
+export const getHttpStatus = (error: unknown): number | undefined => {
+  const status = HTTP_STATUS.exec(error instanceof Error ? error.message : String(error))?.[1]
+  return status ? parseInt(status, 10) : undefined
+}
+
+export const createPlayerError = (
+  category: PlayerErrorCategory,
+  message: string,
+  details: PlayerErrorDetails = {},
+  fatal = false
+): PlayerError => Object.assign(new Error(message), { name: 'PlayerError', category, fatal, details })
+
+export const isPlayerError = (error: unknown): error is PlayerError =>
+  error instanceof Error && error.name === 'PlayerError' && 'category' in error
+
+/**
+ * Turns anything thrown into a player error
+ * @intuition Loaders, parsers and Web APIs throw plain Errors or DOMExceptions; recovery needs a category and details
+ * @approach Keep player errors as they are; otherwise wrap the message under the category the caller expects, picking up
+ * the HTTP status when the message names one
+ * @complexity O(n) time in the message length, O(1) space
+ */
+export const toPlayerError = (
+  error: unknown,
+  category: PlayerErrorCategory,
+  details: PlayerErrorDetails = {},
+  fatal = false
+): PlayerError => {
+  if (isPlayerError(error)) return error
+  const message = error instanceof Error ? error.message : String(error)
+  return createPlayerError(category, message, { ...details, status: details.status ?? getHttpStatus(message) }, fatal)
+}
+
+/**
+ * Classifies a failure to load or parse the manifest
+ * @intuition Without a manifest there is nothing to play, so these are fatal; a missing one should read differently from
+ * an unreachable or malformed one
+ * @approach 404 and 410 mean not found, other HTTP and fetch failures are network errors, everything else is a parse error
+ * @complexity O(n) time in the message length, O(1) space
+ */
+export const classifyManifestError = (error: unknown, url: string): PlayerError => {
+  const status = getHttpStatus(error)
+  const message = error instanceof Error ? error.message : String(error)
+  const network = status !== undefined || error instanceof TypeError || /network|failed to fetch/i.test(message)
+  const category = status === 404 || status === 410 || /not found/i.test(message) ? 'manifest-not-found' : network ? 'network' : 'parse'
+  return createPlayerError(category, message, { url, status }, true)
+}
+
+/**
+ * Picks the recovery for a failure
+ * @intuition Cheap, local remedies come first: another copy of the same media, then a lighter variant; giving up on a
+ * segment leaves a gap but keeps the stream going, while decode failures need a fresh decoder rather than other bytes
+ * @approach Decode errors rebuild the MediaSource until the rebuild budget is spent; network and key errors try each
+ * redundant stream, then lower variants, then skip; media that fails to parse would fail again and is skipped at once.
+ * A manifest that cannot be loaded has nothing to fall back to
+ * @complexity O(1) time and space
+ */
+export const selectRecovery = (error: PlayerError, context: RecoveryContext): RecoveryAction => {
+  switch (error.category) {
+    case 'manifest-not-found':
+      return 'none'
+    case 'media-decode':
+      return context.mediaSourceRebuilds < MAX_MEDIA_SOURCE_REBUILDS ? 'rebuild-media-source' : 'none'
+    case 'parse':
+      return 'skip-segment'
+    case 'network':
+    case 'key':
+      if (context.redundantStreams > 0) return 'redundant-stream'
+      return context.hasLowerVariant ? 'lower-variant' : 'skip-segment'
+  }
+}
+
+export const formatPlayerError = (error: PlayerError): string => {
+  const status = error.details.status !== undefined ? ` (HTTP ${error.details.status})` : ''
+  return `${CATEGORY_NAMES[error.category]}${status}, ${error.fatal ? 'fatal' : 'recoverable'}: ${error.message}`
+}
+
+export const formatRecovery = (action: RecoveryAction): string => `Recovery: ${RECOVERY_DESCRIPTIONS[action]}`
@@ -0,0 +1,213 @@
+import type { QualityLevel } from './types'
+
+export interface RenditionTime {
+  qualityId: string
+  label: string
+  /** Advertised bitrate in bits per second */
+  bitrate: number
+  /** Seconds played at this rendition */
+  seconds: number
+}
+
+/** Quality of experience of one playback session, i.e. one stream from load until it is replaced */
+export interface QoeReport {
+  sessionId: string
+  source: string
+  /** ISO time the stream was loaded */
+  startedAt: string
+  /** Seconds from the play request (the load when play was never requested) to the first rendered frame; null until then */
+  startupTime: number | null
+  /** Seconds spent playing, stalls and pauses excluded */
+  playTime: number
+  rebufferCount: number
+  /** Seconds spent stalled after playback had started; waiting on a seek does not count */
+  rebufferDuration: number
+  /** Bitrate averaged over play time, in bits per second */
+  timeWeightedBitrate: number
+  switchCount: number
+  errorCount: number
+  fatalErrorCount: number
+  renditions: RenditionTime[]
+}
+
+export interface QoeTracker {
+  sessionId: string
+  /** Play was requested; startup time runs from the first request, as time before it is the viewer's */
+  playRequested: (now: number) => void
+  playing: (now: number) => void
+  /** The element ran out of media */
+  waiting: (now: number) => void
+  paused: (now: number) => void
+  seeking: (now: number) => void
+  setRendition: (level: QualityLevel, label: string, now: number) => void
+  recordError: (fatal: boolean) => void
+  /** Snapshot of the session so far; open intervals are counted up to now */
+  getReport: (now: number) => QoeReport
+}
+
+type PlaybackState = 'starting' | 'playing' | 'paused' | 'rebuffering' | 'seeking'
+
+/**
+ * Creates the QoE tracker of a playback session
+ * @intuition Viewers notice how long playback took to start, how often and how long it stalled and what quality they got
+ * for how long; every one of those is a span of time between media element events
+ * @approach Keep a small playback state machine driven by the element's playing/waiting/pause/seeking events with a timestamp
+ * of the last transition; leaving a state credits the elapsed time to the rendition being played or to the running stall
+ * @complexity O(1) time per event, O(r) time per report and O(r) space for r renditions played
+ */
+export const createQoeTracker = (sessionId: string, source: string, loadStart: number, startedAt = new Date()): QoeTracker => {
+  const renditions = new Map<string, RenditionTime>()
+  let state: PlaybackState = 'starting'
+  let since = loadStart
+  let startupStart = loadStart
+  let playRequested = false
+  let current: RenditionTime | null = null
+  let startupTime: number | null = null
+  let rebufferCount = 0
+  let rebufferDuration = 0
+  let switchCount = 0
+  let errorCount = 0
+  let fatalErrorCount = 0
+
+  // Credits the time since the last transition to whatever the player was doing
+  const settle = (now: number) => {
+    const elapsed = Math.max(0, now - since) / 1000
+    if (state === 'playing' && current) current.seconds += elapsed
+    if (state === 'rebuffering') rebufferDuration += elapsed
+    since = now
+  }
+
+  const transition = (next: PlaybackState, now: number) => {
+    settle(now)
+    state = next
+  }
+
+  return {
+    sessionId,
+    playRequested: now => {
+      if (state !== 'starting' || playRequested) return
+      playRequested = true
+      startupStart = now
+    },
+    playing: now => {
+      if (state === 'starting') startupTime = Math.max(0, now - startupStart) / 1000
+      transition('playing', now)
+    },
+    waiting: now => {
+      // Stalls before the first frame are startup time, and waiting after a seek is the seek's own
+      if (state !== 'playing') return
+      rebufferCount++
+      transition('rebuffering', now)
+    },
+    paused: now => {
+      if (state !== 'starting') transition('paused', now)
+    },
+    seeking: now => {
+      if (state !== 'starting') transition('seeking', now)
+    },
+    setRendition: (level, label, now) => {
+      if (current?.qualityId === level.id) return
+      settle(now)
+      if (current) switchCount++
+      current = renditions.get(level.id) ?? { qualityId: level.id, label, bitrate: level.bandwidth, seconds: 0 }
+      renditions.set(level.id, current)
+    },
+    recordError: fatal => {
+      errorCount++
+      if (fatal) fatalErrorCount++
+    },
+    getReport: now => {
+      settle(now)
+      const played = [...renditions.values()].map(rendition => ({ ...rendition }))
+      const playTime = played.reduce((sum, rendition) => sum + rendition.seconds, 0)
+      return {
+        sessionId,
+        source,
+        startedAt: startedAt.toISOString(),
+        startupTime,
+        playTime,
+        rebufferCount,
+        rebufferDuration,
+        timeWeightedBitrate: playTime > 0 ? played.reduce((sum, rendition) => sum + rendition.bitrate * rendition.seconds, 0) / playTime : 0,
+        switchCount,
+        errorCount,
+        fatalErrorCount,
+        renditions: played
+      }
+    }
+  }
+}
+
+// Scalar report fields in CSV column order; rendition times follow as one column per rendition
+const CSV_COLUMNS = [
+  'sessionId',
+  'source',
+  'startedAt',
+  'startupTime',
+  'playTime',
+  'rebufferCount',
+  'rebufferDuration',
+  'timeWeightedBitrate',
+  'switchCount',
+  'errorCount',
+  'fatalErrorCount'
+] as const
+
+const toCsvField = (value: string | number | null): string => {
+  const text = value === null ? '' : typeof value === 'number' ? String(Math.round(value * 1000) / 1000) : value
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Formats session reports as CSV
+ * @intuition Spreadsheets want one row per session, and sessions can have played different renditions
+ * @approach One column per scalar metric, then a seconds column for every rendition any session played, empty where a
+ * session never played it; fields are quoted per RFC 4180 when they need it
+ * @complexity O(s * r) time and space for s sessions and r distinct renditions
+ */
+export const formatQoeCsv = (reports: QoeReport[]): string => {
+  const labels = [...new Set(reports.flatMap(report => report.renditions.map(rendition => rendition.label)))]
+  const header = [...CSV_COLUMNS, ...labels.map(label => `seconds at ${label}`)].map(toCsvField).join(',')
+  const rows = reports.map(report => [
+    ...CSV_COLUMNS.map(column => report[column]),
+    ...labels.map(label => report.renditions.find(rendition => rendition.label === label)?.seconds ?? null)
+  ].map(toCsvField).join(','))
+  return [header, ...rows].join('\n')
+}
+
+export const formatQoeJson = (reports: QoeReport[]): string => JSON.stringify(reports, null, 2)
+
+// Reports of earlier sessions survive reloads in localStorage; only the latest are kept
+const QOE_STORAGE_KEY = 'abr-player:qoe-sessions'
+const MAX_STORED_SESSIONS = 20
+
+export const loadQoeHistory = (storage: Pick<Storage, 'getItem'> | undefined): QoeReport[] => {
+  try {
+    const stored = JSON.parse(storage?.getItem(QOE_STORAGE_KEY) ?? '[]')
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Adds or updates a session in the report history
+ * @intuition The running session is reported again and again as it goes on, and should replace its earlier snapshot
+ * @approach Replace the entry with the same session ID or append, keep the newest sessions and persist when storage is
+ * available; a full or blocked storage only loses persistence
+ * @complexity O(s) time and space for s stored sessions
+ */
+export const saveQoeReport = (
+  storage: Pick<Storage, 'setItem'> | undefined,
+  history: QoeReport[],
+  report: QoeReport
+): QoeReport[] => {
+  const index = history.findIndex(entry => entry.sessionId === report.sessionId)
+  const updated = (index === -1 ? [...history, report] : history.map((entry, i) => (i === index ? report : entry))).slice(-MAX_STORED_SESSIONS)
+  try {
+    storage?.setItem(QOE_STORAGE_KEY, JSON.stringify(updated))
+  } catch {
+    // Quota exceeded or storage disabled
+  }
+  return updated
+}
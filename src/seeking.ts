@@ -0,0 +1,57 @@
+import type { MediaSegment } from './types'
+import { findSegmentIndexAtTime, getTotalDuration } from './segmentTimeline'
+
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+export interface SeekPlan {
+  /** Target clamped into the playable window */
+  time: number
+  /** Segment to resume loading from */
+  segmentIndex: number
+  /** The target is already buffered without gaps up to the load position, so nothing has to be flushed or refetched */
+  inBuffer: boolean
+}
+
+// Seconds kept before the end so a seek to the very end still lands on the last segment
+const SEEK_END_MARGIN = 0.1
+// Decoders leave tiny holes between appended fragments; gaps this small still count as contiguous
+const BUFFER_GAP_TOLERANCE = 0.5
+
+export const SEEK_STEP = 5
+export const LARGE_SEEK_STEP = 30
+
+export const toTimeRanges = (ranges: TimeRanges): TimeRange[] =>
+  Array.from({ length: ranges.length }, (_, index) => ({ start: ranges.start(index), end: ranges.end(index) }))
+
+/**
+ * Decides how to reach a seek target
+ * @intuition A seek inside already-buffered media only moves the playhead; anything else must drop the buffer and reload
+ * from the segment containing the target, whatever the segment lengths
+ * @approach Clamp into the playlist window, look the target up by real segment times, and treat it as buffered when the
+ * range holding it reaches the current load position
+ * @complexity O(log s + r) time for s segments and r buffered ranges, O(1) space
+ */
+export const planSeek = (segments: MediaSegment[], time: number, buffered: TimeRange[], loadedUntil: number): SeekPlan => {
+  const windowStart = segments[0]?.start ?? 0
+  const windowEnd = Math.max(windowStart, getTotalDuration(segments) - SEEK_END_MARGIN)
+  const target = Math.max(windowStart, Math.min(time, windowEnd))
+  const range = buffered.find(candidate => candidate.start - BUFFER_GAP_TOLERANCE <= target && target < candidate.end)
+
+  return {
+    time: target,
+    segmentIndex: findSegmentIndexAtTime(segments, target),
+    inBuffer: Boolean(range && range.end >= loadedUntil - BUFFER_GAP_TOLERANCE)
+  }
+}
+
+/**
+ * Maps a presentation time to a percentage along the timeline
+ * @intuition Live windows do not start at zero, so positions are relative to the window rather than the stream origin
+ * @approach Linear interpolation between window start and end, clamped to 0-100
+ * @complexity O(1) time, O(1) space
+ */
+export const getTimelinePercent = (time: number, start: number, end: number): number =>
+  end > start ? Math.max(0, Math.min(100, ((time - start) / (end - start)) * 100)) : 0
@@ -0,0 +1,59 @@
+import type { MediaSegment } from './types'
+
+/**
+ * Sums segment durations to get the presentation length of a playlist
+ * @intuition Segment counts say nothing about time once segments have different lengths
+ * @approach Use the last segment's start plus its duration, which the parser already accumulated
+ * @complexity O(1) time, O(1) space
+ */
+export const getTotalDuration = (segments: MediaSegment[]): number => {
+  const last = segments[segments.length - 1]
+  return last ? last.start + last.duration : 0
+}
+
+/**
+ * Finds the segment whose time range contains the given presentation time
+ * @intuition Seeking and quality switches must land on the same point in time, even when ladders use different segment lengths
+ * @approach Binary search over segment start times; times past the end map to segments.length
+ * @complexity O(log s) time where s is segment count, O(1) space
+ */
+export const findSegmentIndexAtTime = (segments: MediaSegment[], time: number): number => {
+  if (!segments.length || time >= getTotalDuration(segments)) return segments.length
+  if (time <= segments[0].start) return 0
+
+  let low = 0
+  let high = segments.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (segments[mid].start <= time) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return low
+}
+
+/**
+ * Returns the presentation time at which the segment at `index` starts
+ * @intuition Loading progress is best expressed as "loaded up to t seconds" rather than "n segments"
+ * @approach Read the segment start, or the playlist duration when the index is past the end
+ * @complexity O(1) time, O(1) space
+ */
+export const getSegmentStartTime = (segments: MediaSegment[], index: number): number =>
+  segments[index]?.start ?? getTotalDuration(segments)
+
+/**
+ * Formats seconds as m:ss (or h:mm:ss for long content)
+ * @intuition Durations in the UI should read like a media player clock
+ * @approach Split into hours, minutes and seconds and zero-pad the lower units
+ * @complexity O(1) time, O(1) space
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = (total % 60).toString().padStart(2, '0')
+
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
@@ -0,0 +1,60 @@
+import type { QualityLevel } from './types'
+
+/** Where the bandwidth the startup variant was picked from came from */
+export type StartupBandwidthSource = 'history' | 'probe' | 'none'
+
+export interface StartupSelection {
+  quality: number
+  /** Bits per second the choice was based on; null when nothing was known and the lowest variant was taken */
+  bandwidth: number | null
+  source: StartupBandwidthSource
+}
+
+// A single estimate carries no variance, so the startup variant gets more headroom than ABR switches leave
+export const STARTUP_BANDWIDTH_FACTOR = 0.7
+
+/**
+ * Picks the variant playback starts with
+ * @intuition Starting at the lowest variant wastes the first segments on fast connections, while starting too high stalls
+ * before the first frame; a recent estimate of the same connection is the best guess available before any download
+ * @approach Take the highest variant whose bitrate fits within a safety share of the bandwidth, the lowest when none fits
+ * or nothing is known; the ladder is sorted by bandwidth
+ * @complexity O(n) time and O(1) space for n variants
+ */
+export const selectStartupQuality = (
+  qualityLevels: QualityLevel[],
+  bandwidth: number | null,
+  factor = STARTUP_BANDWIDTH_FACTOR
+): number => {
+  if (bandwidth === null) return 0
+  return qualityLevels.reduce((selected, level, index) => (level.bandwidth <= bandwidth * factor ? index : selected), 0)
+}
+
+// The last estimate outlives the session so the next one starts from it; a day later it says little about the connection
+const BANDWIDTH_STORAGE_KEY = 'abr-player:bandwidth'
+const BANDWIDTH_HISTORY_MAX_AGE = 24 * 60 * 60 * 1000
+
+interface StoredBandwidth {
+  bandwidth: number
+  savedAt: number
+}
+
+export const loadBandwidthHistory = (storage: Pick<Storage, 'getItem'> | undefined, now = Date.now()): number | null => {
+  try {
+    const stored: Partial<StoredBandwidth> = JSON.parse(storage?.getItem(BANDWIDTH_STORAGE_KEY) ?? '{}')
+    const { bandwidth, savedAt } = stored
+    if (typeof bandwidth !== 'number' || !(bandwidth > 0) || typeof savedAt !== 'number') return null
+    return now - savedAt <= BANDWIDTH_HISTORY_MAX_AGE ? bandwidth : null
+  } catch {
+    return null
+  }
+}
+
+export const saveBandwidthHistory = (storage: Pick<Storage, 'setItem'> | undefined, bandwidth: number, now = Date.now()) => {
+  try {
+    const stored: StoredBandwidth = { bandwidth, savedAt: now }
+    storage?.setItem(BANDWIDTH_STORAGE_KEY, JSON.stringify(stored))
+  } catch {
+    // Quota exceeded or storage disabled
+  }
+}
@@ -0,0 +1,185 @@
+import type { MediaRendition, SubtitleCue, SubtitleTrack } from './types'
+import { getWebVttTimeOffset, parseWebVtt, shiftCues } from './webvtt'
+import { extractTimedText, parseImsc } from './imsc'
+
+export interface TextTrackRenderer {
+  addCues: (track: SubtitleTrack, cues: SubtitleCue[]) => void
+  /** Shows one track and disables the rest; null turns text off */
+  select: (trackId: string | null) => void
+  /** Drops every cue, e.g. for a new stream; TextTracks themselves cannot be removed from a media element */
+  clear: () => void
+}
+
+interface RenderedTrack {
+  label: string
+  textTrack: TextTrack
+  /** start|end|text of each cue already added, as overlapping segments and refetches repeat cues */
+  keys: Set<string>
+}
+
+// INSTREAM-ID values naming CEA-608 channels; CEA-708 SERVICEn ids are not decoded
+const CEA608_INSTREAM_ID = /^CC([1-4])$/
+
+export const getCaptionTrackId = (channel: number): string => `captions_cc${channel}`
+
+/**
+ * Creates the track for a CEA-608 channel found in the video
+ * @intuition Many streams carry captions without declaring them in the manifest; they should still be selectable
+ * @approach Describe the channel as an embedded track with no segments of its own
+ * @complexity O(1) time, O(1) space
+ */
+export const createEmbeddedCaptionTrack = (channel: number): SubtitleTrack => ({
+  id: getCaptionTrackId(channel),
+  groupId: 'cc',
+  name: `CC${channel}`,
+  format: 'cea608',
+  channel,
+  isDefault: false,
+  autoselect: false,
+  forced: false,
+  live: false,
+  targetDuration: 0,
+  segments: []
+})
+
+/**
+ * Turns HLS SUBTITLES and CLOSED-CAPTIONS renditions into selectable text tracks
+ * @intuition Both end up in one caption menu, but WebVTT renditions load their own playlists while closed captions are
+ * decoded from the video
+ * @approach Keep SUBTITLES renditions with a URI as WebVTT tracks (segments are filled in once the playlists load) and
+ * CLOSED-CAPTIONS renditions whose INSTREAM-ID names a 608 channel as embedded tracks
+ * @complexity O(r) time and space for r renditions
+ */
+export const buildHlsSubtitleTracks = (renditions: MediaRendition[]): SubtitleTrack[] =>
+  renditions.flatMap((rendition): SubtitleTrack[] => {
+    const common = {
+      groupId: rendition.groupId,
+      name: rendition.name,
+      language: rendition.language,
+      isDefault: rendition.isDefault,
+      autoselect: rendition.autoselect,
+      forced: rendition.forced,
+      live: false,
+      targetDuration: 0,
+      segments: []
+    }
+    if (rendition.type === 'SUBTITLES' && rendition.uri) {
+      return [{ ...common, id: rendition.id, format: 'webvtt', url: rendition.uri }]
+    }
+    const instream = rendition.type === 'CLOSED-CAPTIONS' ? CEA608_INSTREAM_ID.exec(rendition.instreamId ?? '') : null
+    if (!instream) return []
+    const channel = parseInt(instream[1])
+    return [{ ...common, id: getCaptionTrackId(channel), format: 'cea608', channel }]
+  })
+
+export const formatSubtitleTrackLabel = (track: SubtitleTrack): string => {
+  const channel = track.format === 'cea608' && !track.name.includes(`CC${track.channel}`) ? `CC${track.channel}` : ''
+  const details = [channel, track.forced ? 'forced' : ''].filter(Boolean).join(', ')
+  return details ? `${track.name} (${details})` : track.name
+}
+
+/**
+ * Picks the text track to show when a stream starts
+ * @intuition Subtitles stay off unless the author asked for them; among several defaults the viewer's language wins
+ * @approach Consider DEFAULT tracks only and prefer one matching a preferred language (full tag, then primary subtag)
+ * @complexity O(p * t) time for p preferred languages and t tracks, O(1) space
+ */
+export const selectDefaultSubtitleTrack = (tracks: SubtitleTrack[], preferredLanguages: readonly string[] = []): string | null => {
+  const defaults = tracks.filter(track => track.isDefault)
+  for (const preferred of preferredLanguages) {
+    const wanted = preferred.toLowerCase()
+    const match = defaults.find(track => track.language?.toLowerCase() === wanted)
+      ?? defaults.find(track => track.language?.toLowerCase().split('-')[0] === wanted.split('-')[0])
+    if (match) return match.id
+  }
+  return defaults[0]?.id ?? null
+}
+
+/**
+ * Decodes one subtitle segment into cues on the player timeline
+ * @intuition WebVTT segments need their X-TIMESTAMP-MAP applied against the video clock, IMSC documents are already
+ * timed on the presentation timeline
+ * @approach Dispatch on the track format; the caller supplies the TS clock conversion the video path established
+ * @complexity O(n) time and space in the segment size
+ */
+export const parseSubtitleSegment = (
+  track: SubtitleTrack,
+  data: ArrayBuffer,
+  mpegTsToSeconds?: (timestamp: number) => number
+): SubtitleCue[] => {
+  if (track.format === 'imsc') return parseImsc(extractTimedText(data))
+  const document = parseWebVtt(new TextDecoder().decode(data))
+  return shiftCues(document.cues, getWebVttTimeOffset(document.timestampMap, mpegTsToSeconds))
+}
+
+const applyCueSettings = (cue: VTTCue, settings: Record<string, string> = {}) => {
+  const percent = (value: string) => parseFloat(value.replace('%', ''))
+  try {
+    if (settings.align) cue.align = settings.align as AlignSetting
+    if (settings.vertical) cue.vertical = settings.vertical as DirectionSetting
+    if (settings.line) {
+      cue.snapToLines = !settings.line.includes('%')
+      cue.line = percent(settings.line.split(',')[0])
+    }
+    if (settings.position) cue.position = percent(settings.position.split(',')[0])
+    if (settings.size) cue.size = percent(settings.size)
+  } catch {
+    // Out-of-range values throw; the cue still renders with default layout
+  }
+}
+
+/**
+ * Creates a renderer that shows cues through the media element's own TextTracks
+ * @intuition Native TextTracks get positioning, ::cue styling and accessibility for free, so the player only has to
+ * feed them cues
+ * @approach Lazily add one TextTrack per subtitle track, skip cues already added, and switch modes to show the
+ * selection; clearing removes cues but keeps the TextTracks for reuse
+ * @complexity O(c) time per batch of c cues, O(total cues) space for the duplicate check
+ */
+export const createTextTrackRenderer = (video: HTMLVideoElement): TextTrackRenderer => {
+  const tracks = new Map<string, RenderedTrack>()
+  let selected: string | null = null
+
+  const getTrack = (track: SubtitleTrack): RenderedTrack => {
+    const label = formatSubtitleTrackLabel(track)
+    const existing = tracks.get(track.id)
+    if (existing?.label === label) return existing
+
+    if (existing) existing.textTrack.mode = 'disabled'
+    const textTrack = video.addTextTrack(track.format === 'cea608' ? 'captions' : 'subtitles', label, track.language ?? '')
+    textTrack.mode = selected === track.id ? 'showing' : 'disabled'
+    const rendered = { label, textTrack, keys: new Set<string>() }
+    tracks.set(track.id, rendered)
+    return rendered
+  }
+
+  return {
+    addCues: (track, cues) => {
+      const rendered = getTrack(track)
+      for (const cue of cues) {
+        const key = `${cue.start.toFixed(3)}|${cue.end.toFixed(3)}|${cue.text}`
+        if (rendered.keys.has(key)) continue
+        rendered.keys.add(key)
+        const vttCue = new VTTCue(cue.start, cue.end, cue.text)
+        applyCueSettings(vttCue, cue.settings)
+        rendered.textTrack.addCue(vttCue)
+      }
+    },
+    select: trackId => {
+      selected = trackId
+      tracks.forEach((rendered, id) => {
+        rendered.textTrack.mode = id === trackId ? 'showing' : 'disabled'
+      })
+    },
+    clear: () => {
+      tracks.forEach(rendered => {
+        // A disabled track exposes no cue list
+        rendered.textTrack.mode = 'hidden'
+        Array.from(rendered.textTrack.cues ?? []).forEach(cue => rendered.textTrack.removeCue(cue))
+        rendered.keys.clear()
+        rendered.textTrack.mode = 'disabled'
+      })
+      selected = null
+    }
+  }
+}
@@ -0,0 +1,308 @@
+import { addEmulationPrevention, createBitWriter } from './bitstream'
+import {
+  ADTS_SAMPLE_RATES,
+  AAC_SAMPLES_PER_FRAME,
+  NULL_PID,
+  PAT_PID,
+  STREAM_TYPE_ADTS_AAC,
+  STREAM_TYPE_H264,
+  TS_CLOCK_RATE,
+  TS_PACKET_SIZE,
+  TS_SYNC_BYTE
+} from './mpegTs'
+
+// Synthetic MPEG-TS for the mock backend and offline tests: 16x16 H.264 frames coded as I_PCM (raw samples, so no
+// entropy coder is needed and any decoder can show them) plus silent AAC-LC, muxed into spec-conforming TS packets
+
+export interface SyntheticSegmentOptions {
+  /** Playlist time of the segment in seconds; PTS values start at this plus a fixed clock offset */
+  startTime: number
+  duration: number
+  /** Luma value 16-235 painted into every frame, so renditions are told apart on screen */
+  luma?: number
+  frameRate?: number
+  /** False for audio-only renditions; the PMT still lists both streams */
+  video?: boolean
+  /** Pop-on CEA-608 caption (CC1, ASCII) shown from the segment's first frame */
+  caption?: string
+  /** Pad the segment with null packets up to this many bytes, matching a rendition's bitrate */
+  targetSize?: number
+}
+
+interface ElementaryPacket {
+  pid: number
+  streamId: number
+  pts: number
+  data: Uint8Array
+}
+
+const PMT_PID = 0x1000
+const VIDEO_PID = 0x100
+const AUDIO_PID = 0x101
+// Real encoders rarely start the clock at zero; an offset keeps the transmuxer's anchoring honest
+export const SYNTHETIC_PTS_OFFSET = 10 * TS_CLOCK_RATE
+const SAMPLE_RATE = 44100
+const AUDIO_FRAMES_PER_PES = 8
+const DEFAULT_FRAME_RATE = 30
+const DEFAULT_LUMA = 128
+// ATSC cc_data allows 31 byte pairs per picture; eight of them carry the pop-on control codes
+const MAX_CC_PAIRS = 31
+const CAPTION_CONTROL_PAIRS = 8
+// One raw AAC-LC frame of stereo silence
+const SILENT_AAC_FRAME = Uint8Array.from([0x21, 0x00, 0x49, 0x90, 0x02, 0x19, 0x00, 0x23, 0x80])
+
+const START_CODE = [0x00, 0x00, 0x00, 0x01]
+
+const toNal = (header: number, rbsp: Uint8Array): Uint8Array => Uint8Array.from([header, ...addEmulationPrevention(rbsp)])
+
+/** Baseline profile, level 1.0, one 16x16 macroblock, POC type 2 (output order equals decode order) */
+export const createSyntheticSps = (): Uint8Array => {
+  const writer = createBitWriter()
+  writer.writeBits(66, 8) // profile_idc: Baseline
+  writer.writeBits(0xc0, 8) // constraint_set0 and constraint_set1
+  writer.writeBits(10, 8) // level_idc 1.0
+  writer.writeUE(0) // seq_parameter_set_id
+  writer.writeUE(0) // log2_max_frame_num_minus4
+  writer.writeUE(2) // pic_order_cnt_type
+  writer.writeUE(1) // max_num_ref_frames
+  writer.writeBits(0, 1) // gaps_in_frame_num_value_allowed_flag
+  writer.writeUE(0) // pic_width_in_mbs_minus1
+  writer.writeUE(0) // pic_height_in_map_units_minus1
+  writer.writeBits(1, 1) // frame_mbs_only_flag
+  writer.writeBits(1, 1) // direct_8x8_inference_flag
+  writer.writeBits(0, 1) // frame_cropping_flag
+  writer.writeBits(0, 1) // vui_parameters_present_flag
+  writer.writeTrailingBits()
+  return toNal(0x67, writer.toBytes())
+}
+
+export const createSyntheticPps = (): Uint8Array => {
+  const writer = createBitWriter()
+  writer.writeUE(0) // pic_parameter_set_id
+  writer.writeUE(0) // seq_parameter_set_id
+  writer.writeBits(0, 1) // entropy_coding_mode_flag: CAVLC
+  writer.writeBits(0, 1) // bottom_field_pic_order_in_frame_present_flag
+  writer.writeUE(0) // num_slice_groups_minus1
+  writer.writeUE(0) // num_ref_idx_l0_default_active_minus1
+  writer.writeUE(0) // num_ref_idx_l1_default_active_minus1
+  writer.writeBits(0, 1) // weighted_pred_flag
+  writer.writeBits(0, 2) // weighted_bipred_idc
+  writer.writeSE(0) // pic_init_qp_minus26
+  writer.writeSE(0) // pic_init_qs_minus26
+  writer.writeSE(0) // chroma_qp_index_offset
+  writer.writeBits(1, 1) // deblocking_filter_control_present_flag
+  writer.writeBits(0, 1) // constrained_intra_pred_flag
+  writer.writeBits(0, 1) // redundant_pic_cnt_present_flag
+  writer.writeTrailingBits()
+  return toNal(0x68, writer.toBytes())
+}
+
+/** An IDR slice holding a single I_PCM macroblock filled with `luma` and neutral chroma */
+export const createSyntheticIdrSlice = (idrPicId: number, luma = DEFAULT_LUMA): Uint8Array => {
+  const writer = createBitWriter()
+  writer.writeUE(0) // first_mb_in_slice
+  writer.writeUE(7) // slice_type: I, all slices in the picture
+  writer.writeUE(0) // pic_parameter_set_id
+  writer.writeBits(0, 4) // frame_num
+  writer.writeUE(idrPicId % 2) // idr_pic_id: consecutive IDR pictures must differ
+  writer.writeBits(0, 1) // no_output_of_prior_pics_flag
+  writer.writeBits(0, 1) // long_term_reference_flag
+  writer.writeSE(0) // slice_qp_delta
+  writer.writeUE(1) // disable_deblocking_filter_idc
+  writer.writeUE(25) // mb_type: I_PCM
+  writer.alignZero() // pcm_alignment_zero_bit
+  const sample = Math.max(16, Math.min(235, Math.round(luma)))
+  for (let i = 0; i < 256; i++) writer.writeBits(sample, 8)
+  for (let i = 0; i < 128; i++) writer.writeBits(128, 8)
+  writer.writeTrailingBits()
+  return toNal(0x65, writer.toBytes())
+}
+
+// CEA-608 bytes carry odd parity in their top bit
+const withOddParity = (byte: number): number => {
+  let ones = 0
+  for (let bit = 0; bit < 7; bit++) ones += (byte >> bit) & 1
+  return ones % 2 ? byte : byte | 0x80
+}
+
+/**
+ * An SEI NAL unit carrying a pop-on CEA-608 caption for CC1 in ATSC A/53 cc_data
+ * @intuition Tests and the mock streams need in-band captions to exercise the SEI path end to end
+ * @approach Resume caption loading, erase non-displayed memory, address row 15, write the text and end the caption,
+ * sending each control code twice as encoders do, inside a user_data_registered_itu_t_t35 message
+ * @complexity O(n) time and space in the caption length
+ */
+export const createCaptionSei = (text: string): Uint8Array => {
+  const characters = Array.from(text.slice(0, (MAX_CC_PAIRS - CAPTION_CONTROL_PAIRS) * 2), character => {
+    const code = character.charCodeAt(0)
+    return code >= 0x20 && code < 0x7f ? code : 0x20
+  })
+  const textPairs: number[][] = []
+  for (let index = 0; index < characters.length; index += 2) textPairs.push([characters[index], characters[index + 1] ?? 0x00])
+
+  const control = (second: number) => [[0x14, second], [0x14, second]]
+  const pairs = [...control(0x20), ...control(0x2e), ...control(0x60), ...textPairs, ...control(0x2f)]
+  const ccData = pairs.flatMap(([first, second]) => [0xfc, withOddParity(first), withOddParity(second)]) // cc_valid, field 1
+  const payload = [
+    0xb5, 0x00, 0x31, // ITU-T T.35 country (USA) and provider (ATSC)
+    ...Array.from('GA94', character => character.charCodeAt(0)),
+    0x03, // user_data_type_code: cc_data
+    0x40 | pairs.length, // process_cc_data_flag and cc_count
+    0xff, // em_data
+    ...ccData,
+    0xff // marker_bits
+  ]
+  return toNal(0x06, Uint8Array.from([4, payload.length, ...payload, 0x80]))
+}
+
+/** Wraps a raw AAC frame in a 7-byte ADTS header (AAC-LC, no CRC) */
+export const createAdtsFrame = (payload: Uint8Array, sampleRate = SAMPLE_RATE, channelCount = 2): Uint8Array => {
+  const samplingIndex = Math.max(0, ADTS_SAMPLE_RATES.indexOf(sampleRate))
+  const frameLength = payload.length + 7
+  return Uint8Array.from([
+    0xff,
+    0xf1,
+    (1 << 6) | (samplingIndex << 2) | (channelCount >> 2), // object type 2 (LC) is stored minus one
+    ((channelCount & 0x3) << 6) | (frameLength >> 11),
+    (frameLength >> 3) & 0xff,
+    ((frameLength & 0x7) << 5) | 0x1f,
+    0xfc,
+    ...payload
+  ])
+}
+
+const crc32Mpeg = (data: number[]): number => {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc ^= byte << 24
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1
+  }
+  return crc >>> 0
+}
+
+const psiSection = (tableId: number, tableIdExtension: number, body: number[]): number[] => {
+  const sectionLength = 5 + body.length + 4
+  const section = [
+    tableId,
+    0xb0 | (sectionLength >> 8), sectionLength & 0xff,
+    tableIdExtension >> 8, tableIdExtension & 0xff,
+    0xc1, // version 0, current
+    0x00, 0x00, // section and last section number
+    ...body
+  ]
+  const crc = crc32Mpeg(section)
+  return [0x00, ...section, crc >>> 24, (crc >> 16) & 0xff, (crc >> 8) & 0xff, crc & 0xff] // leading pointer field
+}
+
+const encodeTimestamp = (prefix: number, timestamp: number): number[] => {
+  const high = Math.floor(timestamp / 1073741824) & 0x07 // bits 32-30
+  const low = timestamp % 1073741824
+  return [
+    (prefix << 4) | (high << 1) | 1,
+    (low >> 22) & 0xff,
+    ((low >> 14) & 0xfe) | 1,
+    (low >> 7) & 0xff,
+    ((low << 1) & 0xfe) | 1
+  ]
+}
+
+const pesPacket = (packet: ElementaryPacket): Uint8Array => {
+  const headerLength = 8 // 3 flag/length bytes + 5 PTS bytes
+  // Video PES may leave the length unset; audio frames are small enough to state it
+  const pesLength = packet.streamId === 0xe0 ? 0 : headerLength + packet.data.length
+  const output = new Uint8Array(9 + 5 + packet.data.length)
+  output.set([0x00, 0x00, 0x01, packet.streamId, pesLength >> 8, pesLength & 0xff, 0x80, 0x80, 5])
+  output.set(encodeTimestamp(0x2, packet.pts), 9)
+  output.set(packet.data, 14)
+  return output
+}
+
+/**
+ * Muxes elementary packets into a transport stream
+ * @intuition Tests and the mock backend need byte-exact TS without shipping binary fixtures
+ * @approach Emit PAT and PMT, then split each PES across 188-byte packets, padding the last one with an adaptation field,
+ * and finally add null packets up to the requested size
+ * @complexity O(n) time and space in the output size
+ */
+export const muxTs = (packets: ElementaryPacket[], targetSize = 0): Uint8Array => {
+  const output: Uint8Array[] = []
+  const counters = new Map<number, number>()
+
+  const writePackets = (pid: number, payload: Uint8Array) => {
+    for (let offset = 0; offset < payload.length || offset === 0;) {
+      const chunk = payload.subarray(offset, offset + TS_PACKET_SIZE - 4)
+      const counter = counters.get(pid) ?? 0
+      counters.set(pid, (counter + 1) & 0x0f)
+      const packet = new Uint8Array(TS_PACKET_SIZE).fill(0xff)
+      const stuffing = TS_PACKET_SIZE - 4 - chunk.length
+      packet.set([TS_SYNC_BYTE, (offset === 0 ? 0x40 : 0) | (pid >> 8), pid & 0xff, (stuffing ? 0x30 : 0x10) | counter])
+      if (stuffing) {
+        packet[4] = stuffing - 1 // adaptation_field_length
+        if (stuffing > 1) packet[5] = 0x00 // no adaptation flags, rest is 0xff stuffing
+      }
+      packet.set(chunk, 4 + stuffing)
+      output.push(packet)
+      offset += chunk.length
+      if (!chunk.length) break
+    }
+  }
+
+  writePackets(PAT_PID, Uint8Array.from(psiSection(0x00, 1, [0x00, 0x01, 0xe0 | (PMT_PID >> 8), PMT_PID & 0xff])))
+  writePackets(PMT_PID, Uint8Array.from(psiSection(0x02, 1, [
+    0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, // PCR PID
+    0xf0, 0x00, // program_info_length
+    STREAM_TYPE_H264, 0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0x00,
+    STREAM_TYPE_ADTS_AAC, 0xe0 | (AUDIO_PID >> 8), AUDIO_PID & 0xff, 0xf0, 0x00
+  ])))
+  packets.forEach(packet => writePackets(packet.pid, pesPacket(packet)))
+
+  const nullPacket = new Uint8Array(TS_PACKET_SIZE).fill(0xff)
+  nullPacket.set([TS_SYNC_BYTE, NULL_PID >> 8, NULL_PID & 0xff, 0x10])
+  const nullCount = Math.max(0, Math.floor(targetSize / TS_PACKET_SIZE) - output.length)
+
+  const result = new Uint8Array((output.length + nullCount) * TS_PACKET_SIZE)
+  output.forEach((packet, index) => result.set(packet, index * TS_PACKET_SIZE))
+  for (let index = output.length; index < output.length + nullCount; index++) result.set(nullPacket, index * TS_PACKET_SIZE)
+  return result
+}
+
+/**
+ * Builds a playable TS segment: one IDR picture per frame and silent stereo audio, interleaved by timestamp
+ * @intuition Every frame being an IDR keeps any slice of the stream (parts, mid-stream joins) independently decodable
+ * @approach Generate AUD + SPS + PPS + slice per frame and groups of ADTS frames per audio PES, sort by PTS, then mux
+ * @complexity O(f + a) time and space for f video frames and a audio frames, plus padding
+ */
+export const createSyntheticTsSegment = (options: SyntheticSegmentOptions): Uint8Array => {
+  const { startTime, duration, luma = DEFAULT_LUMA, frameRate = DEFAULT_FRAME_RATE, video = true, caption, targetSize = 0 } = options
+  const basePts = SYNTHETIC_PTS_OFFSET + Math.round(startTime * TS_CLOCK_RATE)
+  const sps = createSyntheticSps()
+  const pps = createSyntheticPps()
+  const sei = caption ? createCaptionSei(caption) : null
+  const packets: ElementaryPacket[] = []
+
+  const frameCount = video ? Math.max(1, Math.round(duration * frameRate)) : 0
+  const firstFrame = Math.round(startTime * frameRate)
+  for (let frame = 0; frame < frameCount; frame++) {
+    const slice = createSyntheticIdrSlice(firstFrame + frame, luma)
+    const data = Uint8Array.from([
+      ...START_CODE, 0x09, 0xf0, // access unit delimiter
+      ...START_CODE, ...sps,
+      ...START_CODE, ...pps,
+      ...(frame === 0 && sei ? [...START_CODE, ...sei] : []),
+      ...START_CODE, ...slice
+    ])
+    packets.push({ pid: VIDEO_PID, streamId: 0xe0, pts: basePts + Math.round((frame * TS_CLOCK_RATE) / frameRate), data })
+  }
+
+  const adts = createAdtsFrame(SILENT_AAC_FRAME)
+  const audioFrameTicks = (AAC_SAMPLES_PER_FRAME * TS_CLOCK_RATE) / SAMPLE_RATE
+  const audioFrameCount = Math.max(1, Math.round((duration * SAMPLE_RATE) / AAC_SAMPLES_PER_FRAME))
+  for (let frame = 0; frame < audioFrameCount; frame += AUDIO_FRAMES_PER_PES) {
+    const count = Math.min(AUDIO_FRAMES_PER_PES, audioFrameCount - frame)
+    const data = new Uint8Array(adts.length * count)
+    for (let i = 0; i < count; i++) data.set(adts, i * adts.length)
+    packets.push({ pid: AUDIO_PID, streamId: 0xc0, pts: basePts + Math.round(frame * audioFrameTicks), data })
+  }
+
+  return muxTs(packets.sort((a, b) => a.pts - b.pts), targetSize)
+}
@@ -0,0 +1,281 @@
+import {
+  AAC_SAMPLES_PER_FRAME,
+  NAL_TYPE_AUD,
+  NAL_TYPE_IDR,
+  NAL_TYPE_PPS,
+  NAL_TYPE_SEI,
+  NAL_TYPE_SPS,
+  TS_CLOCK_RATE,
+  demuxTs,
+  parseAdts,
+  parseSps,
+  splitNalUnits
+} from './mpegTs'
+import type { AacConfig, DemuxedTs, NalUnit, SpsInfo } from './mpegTs'
+import { createInitSegment, createMediaSegment } from './mp4Generator'
+import type { Mp4Sample } from './mp4Generator'
+import type { TrackType } from './mediaPipeline'
+import { parseSeiCaptionData } from './cea608'
+import type { CaptionPacket } from './cea608'
+
+export interface TransmuxedTrack {
+  codec: string
+  /** SourceBuffer MIME type for the fMP4 output */
+  mimeType: string
+  initSegment: Uint8Array
+  /** True when the codec configuration differs from the last init segment emitted for this track */
+  initChanged: boolean
+  data: Uint8Array
+  /** Seconds on the player timeline */
+  startTime: number
+  endTime: number
+  /** CEA-608 caption data found in the video's SEI messages, in presentation order */
+  captions?: CaptionPacket[]
+}
+
+export type TransmuxResult = Partial<Record<TrackType, TransmuxedTrack>>
+
+export interface Transmuxer {
+  /**
+   * Converts one MPEG-TS segment into fMP4 fragments. `timeOffset` is the segment's playlist start time; the first
+   * segment after creation or reset anchors the TS clock to it so later segments keep their relative timing. A segment
+   * that had to be demuxed beforehand (e.g. to decrypt SAMPLE-AES samples) can be passed as its PES packets
+   */
+  transmux: (data: ArrayBuffer | Uint8Array | DemuxedTs, timeOffset: number) => TransmuxResult
+  /** Maps a 90 kHz TS timestamp onto the player timeline, or null before the first segment has anchored the clock */
+  toPlayerTime: (timestamp: number) => number | null
+  /** Forgets the timeline anchor and codec state, e.g. at a discontinuity or when loading a new stream */
+  reset: () => void
+}
+
+const VIDEO_TRACK_ID = 1
+const AUDIO_TRACK_ID = 2
+// Used for the last frame of a segment when there is no earlier frame to measure (30 fps)
+const DEFAULT_FRAME_DURATION = TS_CLOCK_RATE / 30
+const PTS_ROLLOVER = 8589934592 // 2^33
+const PTS_HALF_RANGE = 4294967296 // 2^32
+
+interface AccessUnit {
+  pts: number
+  dts: number
+  units: NalUnit[]
+  isKeyframe: boolean
+}
+
+/**
+ * Moves a 33-bit timestamp next to a reference, undoing wraparound
+ * @intuition The TS clock wraps every ~26.5 hours, so a raw value can appear to jump backwards by 2^33 ticks
+ * @approach Add or subtract whole wrap periods until the value is within half a period of the reference
+ * @complexity O(1) time, O(1) space
+ */
+export const normalizePts = (value: number, reference: number): number => {
+  let normalized = value
+  while (normalized - reference > PTS_HALF_RANGE) normalized -= PTS_ROLLOVER
+  while (reference - normalized > PTS_HALF_RANGE) normalized += PTS_ROLLOVER
+  return normalized
+}
+
+const toAvccSample = (units: NalUnit[]): Uint8Array => {
+  const output = new Uint8Array(units.reduce((sum, unit) => sum + 4 + unit.data.length, 0))
+  const view = new DataView(output.buffer)
+  let offset = 0
+  for (const unit of units) {
+    view.setUint32(offset, unit.data.length)
+    output.set(unit.data, offset + 4)
+    offset += 4 + unit.data.length
+  }
+  return output
+}
+
+const bytesKey = (data: Uint8Array[]): string => data.map(bytes => Array.from(bytes).join(',')).join('|')
+
+/**
+ * Creates a stateful MPEG-TS to fragmented MP4 transmuxer
+ * @intuition MSE in most browsers only accepts fMP4, while many HLS streams still ship TS; repackaging H.264 and AAC
+ * needs no decoding, just moving the same samples into different boxes with different timestamps
+ * @approach Demux PES packets, group H.264 NAL units into access units (collecting SPS/PPS as codec config) and split ADTS
+ * into raw AAC frames, then emit one init segment and one moof/mdat fragment per track; the TS clock is anchored to the
+ * playlist time of the first segment so fragments land where the playlist says they are
+ * @complexity O(n) time and space in the segment size
+ */
+export const createTransmuxer = (): Transmuxer => {
+  let initPts: number | null = null
+  let baseTime = 0
+  let sequenceNumber = 0
+  let sps: Uint8Array | null = null
+  let pps: Uint8Array | null = null
+  let spsInfo: SpsInfo | null = null
+  let lastFrameDuration = DEFAULT_FRAME_DURATION
+  const initKeys: Partial<Record<TrackType, string>> = {}
+
+  const toSeconds = (timestamp: number): number =>
+    initPts === null ? baseTime : (normalizePts(timestamp, initPts) - initPts) / TS_CLOCK_RATE + baseTime
+
+  const emitInit = (track: TrackType, key: string, build: () => Uint8Array) => {
+    const initChanged = initKeys[track] !== key
+    initKeys[track] = key
+    return { initSegment: build(), initChanged }
+  }
+
+  const collectAccessUnits = (packets: ReturnType<typeof demuxTs>['video']): AccessUnit[] => {
+    const accessUnits: AccessUnit[] = []
+    for (const pes of packets) {
+      const units: NalUnit[] = []
+      for (const unit of splitNalUnits(pes.data)) {
+        if (unit.type === NAL_TYPE_SPS) {
+          if (!sps || bytesKey([sps]) !== bytesKey([unit.data])) {
+            sps = unit.data.slice()
+            spsInfo = parseSps(sps)
+          }
+        } else if (unit.type === NAL_TYPE_PPS) {
+          pps = unit.data.slice()
+        } else if (unit.type !== NAL_TYPE_AUD) {
+          units.push(unit)
+        }
+      }
+
+      const previous = accessUnits[accessUnits.length - 1]
+      if (pes.pts === undefined && previous) {
+        // A PES without timestamps continues the previous access unit
+        previous.units.push(...units)
+        previous.isKeyframe ||= units.some(unit => unit.type === NAL_TYPE_IDR)
+      } else if (pes.pts !== undefined && units.length) {
+        accessUnits.push({
+          pts: pes.pts,
+          dts: pes.dts ?? pes.pts,
+          units,
+          isKeyframe: units.some(unit => unit.type === NAL_TYPE_IDR)
+        })
+      }
+    }
+    return accessUnits
+  }
+
+  const remuxVideo = (accessUnits: AccessUnit[]): TransmuxedTrack | undefined => {
+    if (!accessUnits.length || !sps || !pps || !spsInfo || initPts === null) return undefined
+    const reference = initPts
+    const timed = accessUnits.map(unit => {
+      const dts = normalizePts(unit.dts, reference)
+      return { ...unit, dts, pts: normalizePts(unit.pts, dts) }
+    })
+
+    const samples: Mp4Sample[] = timed.map((unit, index) => {
+      const next = timed[index + 1]
+      if (next && next.dts > unit.dts) lastFrameDuration = next.dts - unit.dts
+      return {
+        data: toAvccSample(unit.units),
+        duration: lastFrameDuration,
+        compositionOffset: unit.pts - unit.dts,
+        isKeyframe: unit.isKeyframe
+      }
+    })
+
+    const captions = timed
+      .map(unit => ({
+        time: toSeconds(unit.pts),
+        pairs: unit.units.filter(nal => nal.type === NAL_TYPE_SEI).flatMap(nal => parseSeiCaptionData(nal.data))
+      }))
+      .filter(packet => packet.pairs.length)
+      .sort((a, b) => a.time - b.time)
+
+    const info = spsInfo
+    const parameterSets = { sps: [sps], pps: [pps] }
+    const startTime = toSeconds(timed[0].dts)
+    const duration = samples.reduce((sum, sample) => sum + sample.duration, 0) / TS_CLOCK_RATE
+    sequenceNumber++
+
+    return {
+      codec: info.codec,
+      mimeType: `video/mp4; codecs="${info.codec}"`,
+      ...emitInit('video', `${info.codec}:${bytesKey([...parameterSets.sps, ...parameterSets.pps])}`, () => createInitSegment([{
+        type: 'video',
+        id: VIDEO_TRACK_ID,
+        timescale: TS_CLOCK_RATE,
+        width: info.width,
+        height: info.height,
+        profileIdc: info.profileIdc,
+        profileCompatibility: info.profileCompatibility,
+        levelIdc: info.levelIdc,
+        ...parameterSets
+      }])),
+      data: createMediaSegment(sequenceNumber, VIDEO_TRACK_ID, startTime * TS_CLOCK_RATE, samples),
+      startTime,
+      endTime: startTime + duration,
+      ...(captions.length ? { captions } : {})
+    }
+  }
+
+  const remuxAudio = (packets: ReturnType<typeof demuxTs>['audio']): TransmuxedTrack | undefined => {
+    let config: AacConfig | null = null
+    let firstPts: number | null = null
+    const samples: Mp4Sample[] = []
+
+    for (const pes of packets) {
+      const parsed = parseAdts(pes.data)
+      if (!parsed) continue
+      config ??= parsed.config
+      if (firstPts === null && pes.pts !== undefined) firstPts = pes.pts
+      parsed.frames.forEach(frame => {
+        samples.push({ data: frame, duration: AAC_SAMPLES_PER_FRAME, compositionOffset: 0, isKeyframe: true })
+      })
+    }
+    if (!config || firstPts === null || !samples.length || initPts === null) return undefined
+
+    const aac = config
+    const startTime = toSeconds(firstPts)
+    sequenceNumber++
+
+    return {
+      codec: aac.codec,
+      mimeType: `audio/mp4; codecs="${aac.codec}"`,
+      ...emitInit('audio', `${aac.codec}:${aac.samplingIndex}:${aac.channelCount}`, () => createInitSegment([{
+        type: 'audio',
+        id: AUDIO_TRACK_ID,
+        timescale: aac.sampleRate,
+        objectType: aac.objectType,
+        samplingIndex: aac.samplingIndex,
+        sampleRate: aac.sampleRate,
+        channelCount: aac.channelCount
+      }])),
+      data: createMediaSegment(sequenceNumber, AUDIO_TRACK_ID, startTime * aac.sampleRate, samples),
+      startTime,
+      endTime: startTime + (samples.length * AAC_SAMPLES_PER_FRAME) / aac.sampleRate
+    }
+  }
+
+  return {
+    transmux: (data, timeOffset) => {
+      const demuxed = data instanceof Uint8Array
+        ? demuxTs(data)
+        : data instanceof ArrayBuffer ? demuxTs(new Uint8Array(data)) : data
+      const accessUnits = collectAccessUnits(demuxed.video)
+      const audioPts = demuxed.audio.find(pes => pes.pts !== undefined)?.pts
+
+      if (initPts === null) {
+        // Anchor on the earliest timestamp so neither track starts before the playlist time
+        const candidates = [accessUnits[0]?.dts, audioPts].filter((value): value is number => value !== undefined)
+        if (!candidates.length) throw new Error('MPEG-TS segment carries no H.264 or AAC samples')
+        initPts = candidates.reduce((earliest, value) => Math.min(earliest, normalizePts(value, candidates[0])))
+        baseTime = timeOffset
+      }
+
+      const result: TransmuxResult = {}
+      const video = remuxVideo(accessUnits)
+      const audio = remuxAudio(demuxed.audio)
+      if (video) result.video = video
+      if (audio) result.audio = audio
+      return result
+    },
+    toPlayerTime: timestamp => (initPts === null ? null : toSeconds(timestamp)),
+    reset: () => {
+      initPts = null
+      baseTime = 0
+      sps = null
+      pps = null
+      spsInfo = null
+      lastFrameDuration = DEFAULT_FRAME_DURATION
+      delete initKeys.video
+      delete initKeys.audio
+    }
+  }
+}
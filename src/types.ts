@@ -0,0 +1,222 @@
+// Shared streaming model used by the parsers, the ABR logic and the player UI
+
+export type RenditionType = 'AUDIO' | 'VIDEO' | 'SUBTITLES' | 'CLOSED-CAPTIONS'
+
+export type HdcpLevel = 'TYPE-0' | 'TYPE-1' | 'NONE'
+
+export interface QualityLevel {
+  id: string
+  bandwidth: number
+  averageBandwidth?: number
+  resolution: string
+  width?: number
+  height?: number
+  codecs: string[]
+  frameRate?: number
+  hdcpLevel?: HdcpLevel
+  videoRange?: string
+  audioGroup?: string
+  subtitlesGroup?: string
+  closedCaptionsGroup?: string
+  url: string
+  /** Playlists of redundant copies of this variant (repeated identical EXT-X-STREAM-INF), tried in order when it fails */
+  redundantUrls?: string[]
+  live: boolean
+  targetDuration: number
+  lowLatency?: LowLatencyDetails
+  segments: MediaSegment[]
+  /** DRM systems the media is protected with */
+  drm?: DrmInfo[]
+}
+
+export interface ByteRange {
+  offset: number
+  length: number
+}
+
+export type EncryptionMethod = 'AES-128' | 'SAMPLE-AES' | 'SAMPLE-AES-CTR'
+
+// An EXT-X-KEY that applies to the segments after it until the next one
+export interface SegmentKey {
+  method: EncryptionMethod
+  /** Absolute key URI */
+  uri: string
+  /** Explicit initialization vector; without one the segment's media sequence number is used */
+  iv?: Uint8Array
+  /** KEYFORMAT; 'identity' means the URI serves the raw 16-byte key */
+  keyFormat: string
+  /** KEYID as 32 lowercase hex digits */
+  keyId?: string
+}
+
+// A DRM system a stream can be played with, as announced by the manifest
+export interface DrmInfo {
+  /** EME key system, e.g. com.widevine.alpha */
+  keySystem: string
+  /** EME init data type of `initData`: 'cenc' (a PSSH box), 'keyids' or 'skd' */
+  initDataType?: string
+  /** Init data for a license request before the media announces its own */
+  initData?: Uint8Array
+  /** Default key IDs as 32 lowercase hex digits */
+  keyIds: string[]
+  /** License server named by the manifest */
+  licenseUrl?: string
+}
+
+export interface InitSegment {
+  uri: string
+  byteRange?: ByteRange
+  key?: SegmentKey
+}
+
+export interface MediaSegment {
+  uri: string
+  duration: number
+  start: number
+  sequenceNumber: number
+  title?: string
+  byteRange?: ByteRange
+  discontinuity: boolean
+  discontinuitySequence: number
+  programDateTime?: number
+  initSegment?: InitSegment
+  key?: SegmentKey
+  parts?: PartialSegment[]
+}
+
+export interface PartialSegment {
+  uri: string
+  duration: number
+  start: number
+  independent: boolean
+  gap: boolean
+  byteRange?: ByteRange
+  key?: SegmentKey
+}
+
+export interface PreloadHint {
+  type: 'PART' | 'MAP'
+  uri: string
+  byteRangeStart?: number
+  byteRangeLength?: number
+}
+
+export interface ServerControl {
+  canBlockReload: boolean
+  canSkipUntil?: number
+  holdBack?: number
+  partHoldBack?: number
+}
+
+export interface LowLatencyDetails {
+  partTarget: number
+  serverControl: ServerControl
+  pendingParts: PartialSegment[]
+  preloadHint?: PreloadHint
+}
+
+export interface MediaPlaylist {
+  version?: number
+  targetDuration: number
+  mediaSequence: number
+  discontinuitySequence: number
+  playlistType?: 'VOD' | 'EVENT'
+  endList: boolean
+  totalDuration: number
+  segments: MediaSegment[]
+  serverControl?: ServerControl
+  partTarget?: number
+  pendingParts: PartialSegment[]
+  preloadHint?: PreloadHint
+  /** DRM systems named by key tags that the player cannot decrypt itself */
+  drm?: DrmInfo[]
+}
+
+export interface MediaRendition {
+  id: string
+  type: RenditionType
+  groupId: string
+  name: string
+  language?: string
+  assocLanguage?: string
+  isDefault: boolean
+  autoselect: boolean
+  forced: boolean
+  uri?: string
+  instreamId?: string
+  characteristics: string[]
+  channels?: string
+}
+
+// An alternate audio rendition the listener can pick, independent of the video variant
+export interface AudioTrack {
+  id: string
+  groupId: string
+  name: string
+  language?: string
+  /** Channel count as signalled, e.g. "2", "6" or "16/JOC" */
+  channels?: string
+  codec?: string
+  /** Bits per second; declared by DASH, estimated from codec and channels for HLS */
+  bandwidth: number
+  isDefault: boolean
+  autoselect: boolean
+  /** Media playlist URL; absent when the audio is muxed into the video variants */
+  url?: string
+  live: boolean
+  targetDuration: number
+  segments: MediaSegment[]
+  drm?: DrmInfo[]
+}
+
+export type SubtitleFormat = 'webvtt' | 'imsc' | 'cea608'
+
+// A timed text track the viewer can turn on: segmented WebVTT or IMSC, or CEA-608 captions carried in the video
+export interface SubtitleTrack {
+  id: string
+  groupId: string
+  name: string
+  language?: string
+  format: SubtitleFormat
+  /** CEA-608 channel 1-4 (CC1-CC4), only for captions embedded in the video stream */
+  channel?: number
+  isDefault: boolean
+  autoselect: boolean
+  forced: boolean
+  /** Media playlist URL; absent for embedded captions, which need no segments of their own */
+  url?: string
+  live: boolean
+  targetDuration: number
+  segments: MediaSegment[]
+}
+
+export interface SubtitleCue {
+  /** Seconds on the player timeline */
+  start: number
+  end: number
+  /** Cue text; WebVTT markup such as <i> or <v Speaker> is kept for the renderer */
+  text: string
+  /** WebVTT cue settings such as align, line, position and size */
+  settings?: Record<string, string>
+}
+
+export interface MasterPlaylist {
+  version?: number
+  independentSegments: boolean
+  variants: QualityLevel[]
+  renditions: MediaRendition[]
+  /** EXT-X-SESSION-KEY tags, so DRM can be prepared before any media playlist loads */
+  sessionKeys: SegmentKey[]
+}
+
+export interface NetworkCondition {
+  bandwidth: number
+  latency: number
+  packetLoss: number
+}
+
+export interface BufferHealth {
+  currentBuffer: number
+  targetBuffer: number
+  isStarving: boolean
+}
@@ -0,0 +1,98 @@
+import type { SubtitleCue } from './types'
+import { TS_CLOCK_RATE } from './mpegTs'
+
+export interface TimestampMap {
+  /** 90 kHz MPEG-TS timestamp that corresponds to `local` */
+  mpegts: number
+  /** WebVTT cue time in seconds */
+  local: number
+}
+
+export interface WebVttDocument {
+  cues: SubtitleCue[]
+  timestampMap?: TimestampMap
+}
+
+const TIMING_LINE = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})(.*)$/
+
+/** Parses a WebVTT timestamp (hh:mm:ss.ttt or mm:ss.ttt) into seconds */
+export const parseVttTimestamp = (value: string): number | null => {
+  const match = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/.exec(value.trim())
+  if (!match) return null
+  const [, hours, minutes, seconds, millis] = match
+  return parseInt(hours ?? '0') * 3600 + parseInt(minutes) * 60 + parseInt(seconds) + parseInt(millis) / 1000
+}
+
+// X-TIMESTAMP-MAP=MPEGTS:900000,LOCAL:00:00:00.000 (the two fields may come in either order)
+const parseTimestampMap = (line: string): TimestampMap | undefined => {
+  const mpegts = /MPEGTS:(\d+)/.exec(line)
+  const local = /LOCAL:([\d:.]+)/.exec(line)
+  const localTime = local ? parseVttTimestamp(local[1]) : null
+  if (!mpegts || localTime === null) return undefined
+  return { mpegts: parseInt(mpegts[1]), local: localTime }
+}
+
+const parseCueSettings = (source: string): Record<string, string> | undefined => {
+  const settings: Record<string, string> = {}
+  for (const token of source.trim().split(/\s+/)) {
+    const separator = token.indexOf(':')
+    if (separator > 0) settings[token.slice(0, separator)] = token.slice(separator + 1)
+  }
+  return Object.keys(settings).length ? settings : undefined
+}
+
+/**
+ * Parses a WebVTT document or HLS WebVTT segment
+ * @intuition Segmented subtitles are small standalone WebVTT files whose cue times only make sense together with the
+ * X-TIMESTAMP-MAP header that ties them to the media clock
+ * @approach Split into blank-line separated blocks; read the header for the timestamp map, skip NOTE/STYLE/REGION
+ * blocks, and turn each block with a timing line into a cue, keeping its settings and markup
+ * @complexity O(n) time and space in the document length
+ */
+export const parseWebVtt = (content: string): WebVttDocument => {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/)
+  const header = blocks.shift() ?? ''
+  if (!header.startsWith('WEBVTT')) throw new Error('Not a WebVTT document')
+
+  const mapLine = header.split('\n').find(line => line.startsWith('X-TIMESTAMP-MAP='))
+  const cues: SubtitleCue[] = []
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line, index) => index > 0 || line.trim())
+    if (!lines.length || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue
+
+    // An optional identifier line precedes the timing line
+    const timingIndex = TIMING_LINE.test(lines[0]) ? 0 : 1
+    const timing = TIMING_LINE.exec(lines[timingIndex] ?? '')
+    if (!timing) continue
+
+    const start = parseVttTimestamp(timing[1])
+    const end = parseVttTimestamp(timing[2])
+    if (start === null || end === null || end <= start) continue
+
+    cues.push({
+      start,
+      end,
+      text: lines.slice(timingIndex + 1).join('\n'),
+      settings: parseCueSettings(timing[3])
+    })
+  }
+
+  return { cues, timestampMap: mapLine ? parseTimestampMap(mapLine) : undefined }
+}
+
+/**
+ * Works out how far WebVTT cue times must be shifted to land on the player timeline
+ * @intuition HLS WebVTT segments count time from their own origin; X-TIMESTAMP-MAP says which MPEG-TS timestamp that
+ * origin sits at, and only the video path knows where that timestamp ended up after transmuxing
+ * @approach Map the MPEGTS value through the caller's clock conversion and subtract LOCAL; without a map the cues are
+ * already on the presentation timeline
+ * @complexity O(1) time, O(1) space
+ */
+export const getWebVttTimeOffset = (
+  timestampMap: TimestampMap | undefined,
+  mpegTsToSeconds: (timestamp: number) => number = timestamp => timestamp / TS_CLOCK_RATE
+): number => (timestampMap ? mpegTsToSeconds(timestampMap.mpegts) - timestampMap.local : 0)
+
+export const shiftCues = (cues: SubtitleCue[], offset: number): SubtitleCue[] =>
+  offset ? cues.map(cue => ({ ...cue, start: cue.start + offset, end: cue.end + offset })) : cues
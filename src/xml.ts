@@ -0,0 +1,132 @@
+// Minimal XML reader for manifests and timed text; works without DOMParser so it also runs in Node
+
+export interface XmlElement {
+  name: string
+  localName: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  content: (XmlElement | string)[]
+  text: string
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+export const decodeXmlEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16))
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10))
+    return ENTITIES[entity] ?? match
+  })
+
+const createElement = (name: string, attributes: Record<string, string>): XmlElement => ({
+  name,
+  localName: name.includes(':') ? name.slice(name.indexOf(':') + 1) : name,
+  attributes,
+  children: [],
+  content: [],
+  text: ''
+})
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {}
+  const attributeRegex = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+
+  while ((match = attributeRegex.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+const appendText = (element: XmlElement | undefined, text: string) => {
+  if (!element || !text) return
+  element.content.push(text)
+  element.text += text
+}
+
+// Quoted attribute values may contain '>', so the tag ends at the first one outside quotes
+const findTagEnd = (source: string, from: number): number => {
+  let quote: string | null = null
+  for (let i = from; i < source.length; i++) {
+    const char = source[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '>') {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Parses an XML document into a lightweight element tree
+ * @intuition MPD manifests and IMSC subtitles are XML, but DOMParser is unavailable in Node where the headless tools run
+ * @approach Single forward scan with a stack of open elements; comments, processing instructions and DOCTYPE are skipped, CDATA is kept as text
+ * @complexity O(n) time where n is document length, O(n) space for the tree
+ */
+export const parseXml = (source: string): XmlElement => {
+  const stack: XmlElement[] = []
+  let root: XmlElement | null = null
+  let i = 0
+
+  while (i < source.length) {
+    const tagStart = source.indexOf('<', i)
+    const current = stack[stack.length - 1]
+
+    if (tagStart === -1) {
+      appendText(current, decodeXmlEntities(source.slice(i)))
+      break
+    }
+    if (tagStart > i) appendText(current, decodeXmlEntities(source.slice(i, tagStart)))
+
+    if (source.startsWith('<!--', tagStart)) {
+      const end = source.indexOf('-->', tagStart)
+      i = end === -1 ? source.length : end + 3
+    } else if (source.startsWith('<![CDATA[', tagStart)) {
+      const end = source.indexOf(']]>', tagStart)
+      appendText(current, source.slice(tagStart + 9, end === -1 ? source.length : end))
+      i = end === -1 ? source.length : end + 3
+    } else if (source.startsWith('<?', tagStart) || source.startsWith('<!', tagStart)) {
+      const end = source.indexOf('>', tagStart)
+      i = end === -1 ? source.length : end + 1
+    } else if (source.startsWith('</', tagStart)) {
+      const end = source.indexOf('>', tagStart)
+      const name = source.slice(tagStart + 2, end).trim()
+      // Pop up to and including the matching element, tolerating unclosed children
+      while (stack.length) {
+        const closed = stack.pop()
+        if (closed?.name === name) break
+      }
+      i = end === -1 ? source.length : end + 1
+    } else {
+      const end = findTagEnd(source, tagStart)
+      if (end === -1) throw new Error('Malformed XML: unterminated tag')
+
+      const selfClosing = source[end - 1] === '/'
+      const body = source.slice(tagStart + 1, selfClosing ? end - 1 : end)
+      const nameEnd = body.search(/\s/)
+      const name = nameEnd === -1 ? body : body.slice(0, nameEnd)
+      const element = createElement(name, nameEnd === -1 ? {} : parseAttributes(body.slice(nameEnd)))
+
+      if (current) {
+        current.children.push(element)
+        current.content.push(element)
+      } else if (!root) {
+        root = element
+      }
+      if (!selfClosing) stack.push(element)
+      i = end + 1
+    }
+  }
+
+  if (!root) throw new Error('Malformed XML: no root element')
+  return root
+}
+
+export const findChild = (element: XmlElement | undefined, localName: string): XmlElement | undefined =>
+  element?.children.find(child => child.localName === localName)
+
+export const findChildren = (element: XmlElement | undefined, localName: string): XmlElement[] =>
+  element?.children.filter(child => child.localName === localName) ?? []